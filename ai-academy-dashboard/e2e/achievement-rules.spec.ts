@@ -0,0 +1,71 @@
+import { test, expect } from '@playwright/test';
+import { ACHIEVEMENT_RULES, toSubmissionTimes, type SubmissionTime } from '../src/lib/achievementEngine';
+
+// Pure achievement rules over submission times: early bird, night owl,
+// streaks and withdrawn submissions. No browser or server needed.
+
+function revision(submittedAt: string, assignmentId = 'a1', withdrawnAt: string | null = null) {
+  return { submitted_at: submittedAt, submissions: { assignment_id: assignmentId, withdrawn_at: withdrawnAt } };
+}
+
+function check(code: string, times: SubmissionTime[]): Promise<boolean> {
+  const rule = ACHIEVEMENT_RULES.find((r) => r.code === code)!;
+  return rule.check({
+    supabase: null as never,
+    participant: { id: 'p1', role: null, team: null },
+    submissions: async () => [],
+    submissionTimes: async () => times,
+    assignments: async () => [],
+  });
+}
+
+test.describe('Submission times', () => {
+  test('converts to the participant time zone', () => {
+    expect(toSubmissionTimes([revision('2026-02-10T06:30:00Z')], 'Europe/Bratislava')).toEqual([
+      { assignment_id: 'a1', date: '2026-02-10', hour: 7 },
+    ]);
+    expect(toSubmissionTimes([revision('2026-02-10T06:30:00Z')], 'America/New_York')).toEqual([
+      { assignment_id: 'a1', date: '2026-02-10', hour: 1 },
+    ]);
+  });
+
+  test('leaves out revisions of withdrawn submissions', () => {
+    const times = toSubmissionTimes(
+      [revision('2026-02-10T06:00:00Z', 'a1', '2026-02-11T10:00:00Z'), revision('2026-02-10T12:00:00Z', 'a2')],
+      'UTC'
+    );
+    expect(times.map((t) => t.assignment_id)).toEqual(['a2']);
+  });
+});
+
+test.describe('Time-of-day achievements', () => {
+  test('early bird needs a push before 9:00 local time', async () => {
+    expect(await check('early_bird', toSubmissionTimes([revision('2026-02-10T08:59:00Z')], 'UTC'))).toBe(true);
+    expect(await check('early_bird', toSubmissionTimes([revision('2026-02-10T09:00:00Z')], 'UTC'))).toBe(false);
+  });
+
+  test('night owl needs a push from 22:00 local time', async () => {
+    expect(await check('night_owl', toSubmissionTimes([revision('2026-02-10T22:00:00Z')], 'UTC'))).toBe(true);
+    expect(await check('night_owl', toSubmissionTimes([revision('2026-02-10T21:59:00Z')], 'UTC'))).toBe(false);
+  });
+
+  test('withdrawn submissions do not earn them', async () => {
+    const withdrawn = toSubmissionTimes(
+      [revision('2026-02-10T06:00:00Z', 'a1', '2026-02-10T07:00:00Z'), revision('2026-02-10T23:00:00Z', 'a1', '2026-02-11T07:00:00Z')],
+      'UTC'
+    );
+    expect(await check('early_bird', withdrawn)).toBe(false);
+    expect(await check('night_owl', withdrawn)).toBe(false);
+  });
+});
+
+test.describe('Streaks', () => {
+  test('count consecutive local dates', async () => {
+    const times = toSubmissionTimes(
+      ['2026-02-09T10:00:00Z', '2026-02-10T10:00:00Z', '2026-02-11T10:00:00Z'].map((at) => revision(at)),
+      'UTC'
+    );
+    expect(await check('streak_3', times)).toBe(true);
+    expect(await check('streak_5', times)).toBe(false);
+  });
+});
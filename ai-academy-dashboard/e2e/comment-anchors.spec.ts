@@ -0,0 +1,70 @@
+import { test, expect } from '@playwright/test';
+import { createAnchor, locateAnchor } from '../src/lib/commentAnchors';
+
+// Pure README anchoring: building anchors from a selection and finding them
+// again in a resubmitted README. No browser or server needed.
+
+const readme = [
+  '# Day 3 - Prompt design',
+  '',
+  '## Approach',
+  'I used a few-shot prompt with three examples.',
+  '',
+  '## Results',
+  'I used a few-shot prompt with three examples.',
+  'Accuracy went from 60% to 85%.',
+].join('\n');
+
+function anchorOn(text: string, occurrence = 0) {
+  let start = -1;
+  for (let i = 0; i <= occurrence; i++) start = readme.indexOf(text, start + 1);
+  const result = createAnchor(readme, start, start + text.length, 1);
+  if (!result.ok) throw new Error(result.error);
+  return result.anchor;
+}
+
+test.describe('README comment anchors', () => {
+  test('trims whitespace around a selection and keeps context', () => {
+    const start = readme.indexOf('Accuracy') - 1;
+    const result = createAnchor(readme, start, readme.length, 1);
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.anchor.text).toBe('Accuracy went from 60% to 85%.');
+    expect(result.anchor.prefix.endsWith('three examples.\n')).toBe(true);
+    expect(result.anchor.suffix).toBe('');
+  });
+
+  test('rejects empty and out-of-range selections', () => {
+    expect(createAnchor(readme, 5, 5, 1).ok).toBe(false);
+    expect(createAnchor(readme, 0, readme.length + 1, 1).ok).toBe(false);
+    expect(createAnchor('a\n\n b', 1, 3, 1).ok).toBe(false);
+  });
+
+  test('follows a passage that moved in the next revision', () => {
+    const anchor = anchorOn('Accuracy went from 60% to 85%.');
+    const revised = readme.replace('## Approach', '## Approach\nContext: customer support tickets.');
+    const range = locateAnchor(revised, anchor);
+
+    expect(range).not.toBeNull();
+    expect(revised.slice(range!.start, range!.end)).toBe(anchor.text);
+    expect(range!.start).toBeGreaterThan(anchor.start);
+  });
+
+  test('uses surrounding context to pick between repeated passages', () => {
+    const anchor = anchorOn('I used a few-shot prompt with three examples.', 1);
+    // Prepending text shifts both copies; the one under "## Results" must win
+    const revised = `Intro paragraph that pushes everything down by a lot of characters.\n\n${readme}`;
+    const range = locateAnchor(revised, anchor);
+
+    expect(range).not.toBeNull();
+    expect(revised.slice(0, range!.start).endsWith('## Results\n')).toBe(true);
+  });
+
+  test('returns null once the passage is gone', () => {
+    const anchor = anchorOn('Accuracy went from 60% to 85%.');
+    const revised = readme.replace('60% to 85%', '60% to 90%');
+
+    expect(locateAnchor(revised, anchor)).toBeNull();
+  });
+});
@@ -0,0 +1,102 @@
+import { test, expect } from '@playwright/test';
+import {
+  attendanceReportCsv,
+  buildTimeline,
+  countLiveAttendance,
+  summarizeAttendance,
+  type LiveSessionReport,
+} from '../src/lib/liveAttendance';
+
+// Pure live session attendance logic behind the session reports and the
+// live lab counters on participant_mastery. No browser or server needed.
+
+const session = { started_at: '2026-02-03T09:00:00Z', ended_at: '2026-02-03T10:00:00Z' };
+const onTime = {
+  joined_at: '2026-02-03T09:01:00Z',
+  left_at: '2026-02-03T10:00:00Z',
+  rejoined_at: null,
+  attended_seconds: 59 * 60,
+  leave_count: 0,
+  is_active: false,
+};
+
+test.describe('Live session attendance', () => {
+  test('stays on time until the end of the session', () => {
+    const summary = summarizeAttendance(session, onTime);
+    expect(summary.is_late).toBe(false);
+    expect(summary.dropped_off).toBe(false);
+    expect(summary.attendance_percent).toBe(98);
+    expect(summary.attended).toBe(true);
+  });
+
+  test('flags late joins and drop-offs', () => {
+    const summary = summarizeAttendance(session, {
+      ...onTime,
+      joined_at: '2026-02-03T09:20:00Z',
+      left_at: '2026-02-03T09:40:00Z',
+      attended_seconds: 20 * 60,
+      leave_count: 1,
+    });
+    expect(summary.is_late).toBe(true);
+    expect(summary.late_minutes).toBe(20);
+    expect(summary.dropped_off).toBe(true);
+    expect(summary.attended).toBe(false);
+  });
+
+  test('counts the running stretch of a participant who re-joined', () => {
+    const summary = summarizeAttendance(
+      { ...session, ended_at: null },
+      {
+        ...onTime,
+        left_at: null,
+        rejoined_at: '2026-02-03T09:30:00Z',
+        attended_seconds: 10 * 60,
+        leave_count: 1,
+        is_active: true,
+      },
+      new Date('2026-02-03T09:40:00Z')
+    );
+    expect(summary.attended_seconds).toBe(20 * 60);
+    expect(summary.dropped_off).toBe(false);
+  });
+
+  test('timeline segments run until the next step or the session end', () => {
+    const timeline = buildTimeline(
+      [
+        { step: 2, section: 'lab', started_at: '2026-02-03T09:15:00Z', ended_at: null },
+        { step: 1, section: 'briefing', started_at: '2026-02-03T09:00:00Z', ended_at: '2026-02-03T09:15:00Z' },
+      ],
+      session
+    );
+    expect(timeline.map((s) => s.section)).toEqual(['briefing', 'lab']);
+    expect(timeline[0].duration_seconds).toBe(15 * 60);
+    expect(timeline[1].ended_at).toBe(session.ended_at);
+    expect(timeline[1].duration_seconds).toBe(45 * 60);
+  });
+
+  test('missed labs skip sessions before registration and sessions taught', () => {
+    const sessions = [
+      { id: 's1', instructor_id: 'teacher', ...session },
+      { id: 's2', instructor_id: 'teacher', started_at: '2026-02-04T09:00:00Z', ended_at: '2026-02-04T10:00:00Z' },
+      { id: 's3', instructor_id: 'p1', started_at: '2026-02-05T09:00:00Z', ended_at: '2026-02-05T10:00:00Z' },
+      { id: 's0', instructor_id: 'teacher', started_at: '2026-01-20T09:00:00Z', ended_at: '2026-01-20T10:00:00Z' },
+    ];
+    const totals = countLiveAttendance(
+      { id: 'p1', created_at: '2026-02-01T00:00:00Z' },
+      sessions,
+      [{ ...onTime, session_id: 's1', participant_id: 'p1' }]
+    );
+    expect(totals).toEqual({ live_sessions_attended: 1, live_sessions_missed: 1, live_minutes_attended: 59 });
+  });
+
+  test('CSV quotes names and lists absentees', () => {
+    const report = {
+      attendance: [{ ...summarizeAttendance(session, onTime), participant_id: 'p1', name: 'Doe, Jane', github_username: 'jdoe' }],
+      absent: [{ participant_id: 'p2', name: 'Sam', github_username: null }],
+    } as LiveSessionReport;
+    const lines = attendanceReportCsv(report).split('\n');
+    expect(lines).toHaveLength(3);
+    expect(lines[1].startsWith('"Doe, Jane",jdoe,')).toBe(true);
+    expect(lines[2]).toBe('Sam,,,,0,0,,0,No,No');
+  });
+});
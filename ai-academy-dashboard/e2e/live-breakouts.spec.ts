@@ -0,0 +1,63 @@
+import { test, expect } from '@playwright/test';
+import {
+  pickRoomForLateJoiner,
+  planBreakoutRooms,
+  roomActivityLevel,
+  type BreakoutCandidate,
+} from '../src/lib/liveBreakouts';
+
+// Pure breakout room planning used by the live session lab section.
+// No browser or server needed.
+
+const alpha = { id: 1, name: 'Alpha' };
+const beta = { id: 2, name: 'Beta' };
+const candidates: BreakoutCandidate[] = [
+  { participant_id: 'p1', role: 'FDE', task_force: beta },
+  { participant_id: 'p2', role: 'AI-PM', task_force: alpha },
+  { participant_id: 'p3', role: 'FDE', task_force: alpha },
+  { participant_id: 'p4', role: null, task_force: null },
+  { participant_id: 'p5', role: 'AI-PM', task_force: beta },
+];
+
+test.describe('Live breakout rooms', () => {
+  test('groups by task force with a room for the unassigned', () => {
+    const rooms = planBreakoutRooms(candidates, 'task_force');
+    expect(rooms.map((r) => r.name)).toEqual(['Alpha', 'Beta', 'No Task Force']);
+    expect(rooms[0]).toEqual({ name: 'Alpha', group_key: '1', participant_ids: ['p2', 'p3'] });
+    expect(rooms[2].group_key).toBeNull();
+  });
+
+  test('groups by role', () => {
+    const rooms = planBreakoutRooms(candidates, 'role');
+    expect(rooms.map((r) => [r.name, r.participant_ids.length])).toEqual([
+      ['AI-PM', 2],
+      ['FDE', 2],
+      ['No Role', 1],
+    ]);
+  });
+
+  test('random rooms differ in size by at most one', () => {
+    const rooms = planBreakoutRooms(candidates, 'random', { roomCount: 2, random: () => 0.5 });
+    expect(rooms.map((r) => r.participant_ids.length)).toEqual([3, 2]);
+    expect(rooms.flatMap((r) => r.participant_ids).sort()).toEqual(['p1', 'p2', 'p3', 'p4', 'p5']);
+    expect(planBreakoutRooms(candidates.slice(0, 2), 'random', { roomCount: 5 })).toHaveLength(2);
+  });
+
+  test('late joiners go to their group room or the smallest room', () => {
+    const rooms = [
+      { id: 'r1', strategy: 'task_force' as const, group_key: '1', member_count: 1 },
+      { id: 'r2', strategy: 'task_force' as const, group_key: '2', member_count: 3 },
+    ];
+    expect(pickRoomForLateJoiner(rooms, candidates[0])?.id).toBe('r2');
+    expect(pickRoomForLateJoiner(rooms, candidates[3])?.id).toBe('r1');
+    expect(pickRoomForLateJoiner([], candidates[0])).toBeNull();
+  });
+
+  test('room activity follows presence and recent notes', () => {
+    const now = new Date('2026-02-03T10:00:00Z');
+    expect(roomActivityLevel(0, '2026-02-03T09:59:00Z', now)).toBe('empty');
+    expect(roomActivityLevel(2, '2026-02-03T09:58:00Z', now)).toBe('active');
+    expect(roomActivityLevel(2, '2026-02-03T09:40:00Z', now)).toBe('quiet');
+    expect(roomActivityLevel(1, null, now)).toBe('quiet');
+  });
+});
@@ -0,0 +1,28 @@
+import { test, expect } from '@playwright/test';
+import { aggregatePollResults, CONFIDENCE_OPTIONS } from '../src/lib/livePolls';
+
+// Pure live poll aggregation: counts, quick check accuracy and confidence
+// averages. No browser or server needed.
+
+test.describe('Live poll results', () => {
+  test('counts responses per option and ignores out-of-range indexes', () => {
+    const results = aggregatePollResults(
+      { kind: 'poll', options: ['A', 'B', 'C'], correct_option: null },
+      [0, 2, 2, 5, -1]
+    );
+    expect(results).toEqual({ counts: [1, 0, 2], total: 3, correct_percent: null, average: null });
+  });
+
+  test('quick checks report the share of correct answers', () => {
+    const poll = { kind: 'multiple_choice' as const, options: ['A', 'B', 'C'], correct_option: 1 };
+    expect(aggregatePollResults(poll, [1, 1, 0]).correct_percent).toBe(67);
+    expect(aggregatePollResults(poll, []).correct_percent).toBe(0);
+    expect(aggregatePollResults({ ...poll, correct_option: null }, [1]).correct_percent).toBeNull();
+  });
+
+  test('confidence checks average on the 1-5 scale', () => {
+    const poll = { kind: 'confidence' as const, options: CONFIDENCE_OPTIONS, correct_option: null };
+    expect(aggregatePollResults(poll, [0, 3, 4]).average).toBe(3.3);
+    expect(aggregatePollResults(poll, []).average).toBeNull();
+  });
+});
@@ -0,0 +1,40 @@
+import { test, expect } from '@playwright/test';
+import { sortQuestionQueue } from '../src/lib/liveQuestions';
+import type { LiveQuestionKind, LiveQuestionStatus } from '../src/lib/types';
+
+// Pure live question queue ordering. No browser or server needed.
+
+function item(id: string, kind: LiveQuestionKind, status: LiveQuestionStatus, votes: number, minute: number) {
+  return { id, kind, status, votes, created_at: `2026-02-10T10:${String(minute).padStart(2, '0')}:00Z` };
+}
+
+test.describe('Question queue', () => {
+  test('raised hands come before questions', () => {
+    const sorted = sortQuestionQueue([item('q', 'question', 'open', 10, 1), item('h', 'hand', 'open', 0, 5)]);
+    expect(sorted.map((q) => q.id)).toEqual(['h', 'q']);
+  });
+
+  test('open questions by votes, oldest first on ties', () => {
+    const sorted = sortQuestionQueue([
+      item('new', 'question', 'open', 2, 9),
+      item('top', 'question', 'open', 5, 8),
+      item('old', 'question', 'open', 2, 3),
+    ]);
+    expect(sorted.map((q) => q.id)).toEqual(['top', 'old', 'new']);
+  });
+
+  test('answered and dismissed items follow, newest first', () => {
+    const sorted = sortQuestionQueue([
+      item('answered-early', 'question', 'answered', 9, 1),
+      item('open', 'question', 'open', 0, 2),
+      item('dismissed-late', 'hand', 'dismissed', 0, 7),
+    ]);
+    expect(sorted.map((q) => q.id)).toEqual(['open', 'dismissed-late', 'answered-early']);
+  });
+
+  test('does not reorder the input array', () => {
+    const input = [item('a', 'question', 'answered', 0, 1), item('b', 'hand', 'open', 0, 2)];
+    sortQuestionQueue(input);
+    expect(input.map((q) => q.id)).toEqual(['a', 'b']);
+  });
+});
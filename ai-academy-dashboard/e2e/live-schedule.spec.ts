@@ -0,0 +1,67 @@
+import { test, expect } from '@playwright/test';
+import { buildICalendar, isDueForReminder } from '../src/lib/liveSchedule';
+
+// Pure scheduling rules: reminder window and the iCal feed format.
+// No browser or server needed.
+
+const now = new Date('2026-02-06T09:00:00Z');
+
+const slot = {
+  starts_at: '2026-02-06T09:45:00Z',
+  reminder_sent_at: null,
+  cancelled_at: null,
+  session_id: null,
+};
+
+test.describe('Scheduled live sessions', () => {
+  test('reminds once, within the hour before the start', () => {
+    expect(isDueForReminder(slot, now)).toBe(true);
+    expect(isDueForReminder({ ...slot, starts_at: '2026-02-06T10:30:00Z' }, now)).toBe(false);
+    expect(isDueForReminder({ ...slot, starts_at: '2026-02-06T08:55:00Z' }, now)).toBe(false);
+    expect(isDueForReminder({ ...slot, reminder_sent_at: '2026-02-06T08:00:00Z' }, now)).toBe(false);
+    expect(isDueForReminder({ ...slot, cancelled_at: '2026-02-05T12:00:00Z' }, now)).toBe(false);
+    expect(isDueForReminder({ ...slot, session_id: 'started' }, now)).toBe(false);
+  });
+
+  test('builds an iCal feed with escaped text and UTC times', () => {
+    const ics = buildICalendar(
+      [
+        {
+          uid: 'live-session-1',
+          title: 'Live: RAG, agents; evals',
+          description: 'Bring your laptop\nand notes',
+          start: new Date('2026-02-06T09:45:00Z'),
+          end: new Date('2026-02-06T11:15:00Z'),
+          url: 'https://academy.example/mission/day/5',
+        },
+        { uid: 'assignment-2', title: 'Due: Day 5 - Lab', start: new Date('2026-02-06T22:00:00Z') },
+      ],
+      { name: 'AI Academy', now }
+    );
+
+    const lines = ics.split('\r\n');
+    expect(lines[0]).toBe('BEGIN:VCALENDAR');
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    expect(lines).toContain('DTSTART:20260206T094500Z');
+    expect(lines).toContain('DTEND:20260206T111500Z');
+    expect(lines).toContain('DTSTAMP:20260206T090000Z');
+    expect(lines).toContain('SUMMARY:Live: RAG\\, agents\\; evals');
+    expect(lines).toContain('DESCRIPTION:Bring your laptop\\nand notes');
+    expect(lines.filter((l) => l === 'BEGIN:VEVENT')).toHaveLength(2);
+    // Deadlines are points in time
+    expect(lines.filter((l) => l.startsWith('DTEND:'))).toHaveLength(1);
+  });
+
+  test('folds long lines at 75 octets', () => {
+    const ics = buildICalendar(
+      [{ uid: 'x', title: 'Ž'.repeat(100), start: now }],
+      { name: 'AI Academy', now }
+    );
+    const encoder = new TextEncoder();
+
+    for (const line of ics.split('\r\n')) {
+      expect(encoder.encode(line).length).toBeLessThanOrEqual(75);
+    }
+    expect(ics.replace(/\r\n /g, '')).toContain(`SUMMARY:${'Ž'.repeat(100)}`);
+  });
+});
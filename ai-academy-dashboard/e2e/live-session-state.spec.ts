@@ -0,0 +1,51 @@
+import { test, expect } from '@playwright/test';
+import { isHeartbeatStale, reconcileStateVersion } from '../src/lib/liveSessionState';
+import { hasSessionRight, pickHandOffTarget } from '../src/lib/liveSessionRoles';
+
+// Pure live session sync rules: versioned state broadcasts and the
+// lead hand-off on missed heartbeats. No browser or server needed.
+
+const now = new Date('2026-02-06T10:00:00Z');
+
+test.describe('Live session state sync', () => {
+  test('applies the next version and drops old ones', () => {
+    expect(reconcileStateVersion(3, 4)).toBe('apply');
+    expect(reconcileStateVersion(3, 3)).toBe('stale');
+    expect(reconcileStateVersion(3, 1)).toBe('stale');
+  });
+
+  test('refetches after a gap or an unversioned update', () => {
+    expect(reconcileStateVersion(3, 6)).toBe('refetch');
+    expect(reconcileStateVersion(3, undefined)).toBe('refetch');
+    expect(reconcileStateVersion(null, 1)).toBe('refetch');
+  });
+
+  test('heartbeats go stale after the timeout', () => {
+    expect(isHeartbeatStale('2026-02-06T09:59:45Z', now)).toBe(false);
+    expect(isHeartbeatStale('2026-02-06T09:59:00Z', now)).toBe(true);
+    expect(isHeartbeatStale(null, now)).toBe(true);
+  });
+
+  test('hands off to the co-instructor seen most recently', () => {
+    const isOnline = (lastSeenAt: string | null) => !isHeartbeatStale(lastSeenAt, now);
+    const staff = [
+      { participant_id: 'lead', role: 'lead' as const, last_seen_at: '2026-02-06T09:58:00Z' },
+      { participant_id: 'ta', role: 'ta' as const, last_seen_at: '2026-02-06T09:59:59Z' },
+      { participant_id: 'co1', role: 'co_instructor' as const, last_seen_at: '2026-02-06T09:59:50Z' },
+      { participant_id: 'co2', role: 'co_instructor' as const, last_seen_at: '2026-02-06T09:59:55Z' },
+      { participant_id: 'co3', role: 'co_instructor' as const, last_seen_at: '2026-02-06T09:50:00Z' },
+    ];
+    expect(pickHandOffTarget(staff, isOnline)).toBe('co2');
+    expect(pickHandOffTarget(staff.filter((s) => s.participant_id !== 'co1' && s.participant_id !== 'co2'), isOnline)).toBeNull();
+  });
+
+  test('session rights follow the team role', () => {
+    expect(hasSessionRight('lead', 'manage_staff')).toBe(true);
+    expect(hasSessionRight('co_instructor', 'advance')).toBe(true);
+    expect(hasSessionRight('co_instructor', 'end')).toBe(true);
+    expect(hasSessionRight('co_instructor', 'manage_staff')).toBe(false);
+    expect(hasSessionRight('ta', 'moderate')).toBe(true);
+    expect(hasSessionRight('ta', 'advance')).toBe(false);
+    expect(hasSessionRight(null, 'moderate')).toBe(false);
+  });
+});
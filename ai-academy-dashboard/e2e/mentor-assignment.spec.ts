@@ -0,0 +1,64 @@
+import { test, expect } from '@playwright/test';
+import { getSlaState, pickMentor, type MentorLoad } from '../src/lib/mentorAssignment';
+
+// Pure assignment rules: who gets a submission and when a review is overdue.
+// No browser or server needed.
+
+function mentor(id: string, changes: Partial<MentorLoad> = {}): MentorLoad {
+  return {
+    participant_id: id,
+    name: id,
+    capacity: 5,
+    expertise: [],
+    is_active: true,
+    open_count: 0,
+    overdue_count: 0,
+    ...changes,
+  };
+}
+
+test.describe('Mentor assignment', () => {
+  test('prefers role experts, then the least loaded mentor', () => {
+    const mentors = [
+      mentor('ana', { open_count: 1 }),
+      mentor('ben', { open_count: 3, expertise: ['AI-PM'] }),
+      mentor('cy', { open_count: 2 }),
+    ];
+
+    expect(pickMentor(mentors, 'AI-PM')).toBe('ben');
+    expect(pickMentor(mentors, 'FDE')).toBe('ana');
+    expect(pickMentor(mentors, null)).toBe('ana');
+  });
+
+  test('compares load relative to capacity', () => {
+    const mentors = [mentor('ana', { open_count: 2, capacity: 4 }), mentor('ben', { open_count: 3, capacity: 10 })];
+    expect(pickMentor(mentors, null)).toBe('ben');
+  });
+
+  test('skips full, inactive and excluded mentors', () => {
+    const mentors = [
+      mentor('ana', { open_count: 5, expertise: ['FDE'] }),
+      mentor('ben', { is_active: false }),
+      mentor('cy', { open_count: 4 }),
+      mentor('dee'),
+    ];
+
+    expect(pickMentor(mentors, 'FDE', { exclude: ['dee'] })).toBe('cy');
+    expect(pickMentor(mentors, 'FDE', { exclude: ['cy', 'dee'] })).toBeNull();
+  });
+
+  test('keeps a resubmission with its previous reviewer while they have room', () => {
+    const mentors = [mentor('ana', { open_count: 4 }), mentor('ben')];
+
+    expect(pickMentor(mentors, null, { prefer: 'ana' })).toBe('ana');
+    expect(pickMentor([mentor('ana', { open_count: 5 }), mentor('ben')], null, { prefer: 'ana' })).toBe('ben');
+  });
+
+  test('tracks the review SLA', () => {
+    const now = new Date('2026-02-06T12:00:00Z');
+
+    expect(getSlaState('2026-02-07T12:00:00Z', now)).toBe('on_track');
+    expect(getSlaState('2026-02-06T20:00:00Z', now)).toBe('due_soon');
+    expect(getSlaState('2026-02-06T11:59:00Z', now)).toBe('overdue');
+  });
+});
@@ -0,0 +1,73 @@
+import { test, expect } from '@playwright/test';
+import {
+  calibrateReviewers,
+  feedbackQuality,
+  peerConsensus,
+  DEFAULT_RELIABILITY,
+  PEER_REVIEW_BONUS_MAX,
+  PEER_REVIEW_BONUS_MIN,
+  type CalibrationReview,
+} from '../src/lib/peerCalibration';
+
+// Pure peer review calibration: reviewer reliability, weighted consensus and
+// feedback quality bonus. No browser or server needed.
+
+function review(reviewer: string, submission: string, rating: number, mentor: number | null = null): CalibrationReview {
+  return { reviewer_id: reviewer, submission_id: submission, rating, mentor_rating: mentor };
+}
+
+test.describe('Peer review calibration', () => {
+  test('reviewers who track the mentor are more reliable than rubber stampers', () => {
+    const calibration = calibrateReviewers([
+      review('careful', 's1', 3, 3),
+      review('careful', 's2', 2, 2),
+      review('careful', 's3', 4, 4),
+      review('stamper', 's1', 5, 3),
+      review('stamper', 's2', 5, 2),
+      review('stamper', 's3', 5, 4),
+    ]);
+
+    const careful = calibration.get('careful')!;
+    const stamper = calibration.get('stamper')!;
+    expect(careful.reliability).toBeGreaterThan(DEFAULT_RELIABILITY);
+    expect(careful.reliability).toBeGreaterThan(stamper.reliability);
+    expect(stamper.reliability).toBeLessThan(DEFAULT_RELIABILITY);
+    expect(stamper.leniency).toBe(2);
+    expect(careful.mentor_gap).toBe(0);
+  });
+
+  test('few comparisons stay close to the prior', () => {
+    const calibration = calibrateReviewers([review('new', 's1', 1), review('other', 's1', 5)]);
+    const reliability = calibration.get('new')!.reliability;
+
+    expect(calibration.get('new')!.peer_comparisons).toBe(1);
+    expect(reliability).toBeLessThan(DEFAULT_RELIABILITY);
+    expect(reliability).toBeGreaterThan(0.4);
+  });
+
+  test('consensus leans toward reliable reviewers', () => {
+    const consensus = peerConsensus([
+      { rating: 3, reliability: 0.9 },
+      { rating: 5, reliability: 0.2 },
+    ]);
+
+    expect(consensus).toEqual({ rating: 3.4, reviewers: 2 });
+    expect(peerConsensus([])).toBeNull();
+  });
+
+  test('specific, agreeing feedback earns more than "looks good"', () => {
+    const lazy = feedbackQuality('5/5 looks good', 5, 3);
+    const detailed = feedbackQuality(
+      'The prompt in section 2 works well because it gives the model two examples. Consider adding a test ' +
+        'for empty input and a table comparing the 3 metrics you measured, so the trade-off is clear. ' +
+        'The README could also explain why you picked `temperature: 0.2` instead of the default.',
+      3,
+      3
+    );
+
+    expect(lazy.bonus).toBeLessThan(detailed.bonus);
+    expect(lazy.bonus).toBeGreaterThanOrEqual(PEER_REVIEW_BONUS_MIN);
+    expect(detailed.bonus).toBeLessThanOrEqual(PEER_REVIEW_BONUS_MAX);
+    expect(feedbackQuality(null, 4, null)).toEqual({ score: 0.15, bonus: 2 });
+  });
+});
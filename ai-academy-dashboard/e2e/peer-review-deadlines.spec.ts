@@ -0,0 +1,27 @@
+import { test, expect } from '@playwright/test';
+import { formatTimeLeft, getPeerReviewDueState, PEER_REVIEW_REMINDER_HOURS } from '../src/lib/peerReviewDeadlines';
+
+// Pure peer review deadline helpers: due state and countdown text.
+// No browser or server needed.
+
+const now = new Date('2026-02-10T12:00:00Z');
+
+function inHours(hours: number): string {
+  return new Date(now.getTime() + hours * 3_600_000).toISOString();
+}
+
+test.describe('Peer review deadlines', () => {
+  test('due state follows the reminder window', () => {
+    expect(getPeerReviewDueState(inHours(PEER_REVIEW_REMINDER_HOURS + 1), now)).toBe('on_track');
+    expect(getPeerReviewDueState(inHours(PEER_REVIEW_REMINDER_HOURS), now)).toBe('due_soon');
+    expect(getPeerReviewDueState(inHours(0.5), now)).toBe('due_soon');
+    expect(getPeerReviewDueState(inHours(-0.1), now)).toBe('overdue');
+  });
+
+  test('countdown uses the two largest units', () => {
+    expect(formatTimeLeft(inHours(53), now)).toBe('2d 5h');
+    expect(formatTimeLeft(inHours(3 + 20 / 60), now)).toBe('3h 20m');
+    expect(formatTimeLeft(inHours(0.75), now)).toBe('45m');
+    expect(formatTimeLeft(inHours(-2), now)).toBe('0m');
+  });
+});
@@ -0,0 +1,85 @@
+import { test, expect } from '@playwright/test';
+import {
+  pickPeerReviewers,
+  recordPeerAssignment,
+  type PeerMatchContext,
+  type PeerReviewer,
+  type PeerReviewSubmission,
+} from '../src/lib/peerReviewMatching';
+
+// Pure peer reviewer matching: load balancing, same-assignment preference,
+// reciprocal/team avoidance and cross-role pairs. No browser or server needed.
+
+function reviewer(id: string, overrides: Partial<PeerReviewer> = {}): PeerReviewer {
+  return { participant_id: id, role: 'AI-SE', team: 'Alpha', task_force_id: null, pending_count: 0, ...overrides };
+}
+
+const submission: PeerReviewSubmission = {
+  id: 'sub-1',
+  assignment_id: 'day-3',
+  participant_id: 'author',
+  role: 'AI-SE',
+  team: 'Alpha',
+  task_force_id: 7,
+};
+
+function context(reviewers: PeerReviewer[], overrides: Partial<PeerMatchContext> = {}): PeerMatchContext {
+  return { reviewers, submitters: new Map(), reviewing: new Map(), ...overrides };
+}
+
+function ids(reviewers: PeerReviewer[]): string[] {
+  return reviewers.map((r) => r.participant_id).sort();
+}
+
+test.describe('Peer review matching', () => {
+  test('never picks the author or excluded reviewers', () => {
+    const ctx = context([reviewer('author'), reviewer('a'), reviewer('b'), reviewer('c')]);
+    const picked = pickPeerReviewers(submission, ctx, { count: 5, exclude: new Set(['b']) });
+
+    expect(ids(picked)).toEqual(['a', 'c']);
+  });
+
+  test('balances pending load and prefers peers who did the same assignment', () => {
+    const ctx = context(
+      [reviewer('busy', { pending_count: 3 }), reviewer('idle'), reviewer('same', { pending_count: 1 })],
+      { submitters: new Map([['day-3', new Set(['same'])]]) }
+    );
+
+    expect(ids(pickPeerReviewers(submission, ctx, { count: 2 }))).toEqual(['idle', 'same']);
+  });
+
+  test('avoids reciprocal pairs, teammates and task force colleagues', () => {
+    const ctx = context(
+      [
+        reviewer('reciprocal', { team: 'Beta' }),
+        reviewer('teammate'),
+        reviewer('colleague', { team: 'Beta', task_force_id: 7 }),
+        reviewer('outsider', { team: 'Beta' }),
+      ],
+      { reviewing: new Map([['author', new Set(['reciprocal'])]]) }
+    );
+
+    expect(ids(pickPeerReviewers(submission, ctx, { count: 1 }))).toEqual(['outsider']);
+  });
+
+  test('requires a different role when asked', () => {
+    const ctx = context([reviewer('se'), reviewer('sec', { role: 'AI-SEC' }), reviewer('none', { role: null })]);
+
+    expect(ids(pickPeerReviewers(submission, ctx, { count: 3, crossRole: true }))).toEqual(['sec']);
+  });
+
+  test('counts new assignments so a batch spreads across reviewers', () => {
+    const ctx = context([reviewer('a', { team: 'Beta' }), reviewer('b', { team: 'Beta' })]);
+    const picks: string[] = [];
+
+    for (let i = 0; i < 4; i++) {
+      const next = { ...submission, id: `sub-${i}`, participant_id: `author-${i}` };
+      const [picked] = pickPeerReviewers(next, ctx, { count: 1 });
+      recordPeerAssignment(ctx, next, picked.participant_id);
+      picks.push(picked.participant_id);
+    }
+
+    expect(picks.filter((id) => id === 'a')).toHaveLength(2);
+    expect(ctx.reviewing.get('a')?.size).toBe(2);
+  });
+});
@@ -0,0 +1,22 @@
+import { test, expect } from '@playwright/test';
+import {
+  HELPFUL_REVIEWER_MIN_RATED,
+  helpfulnessBonus,
+  isHelpfulReviewer,
+} from '../src/lib/peerReviewResponses';
+
+// Pure author-response rules: helpfulness bonus and the Helpful Reviewer
+// recognition threshold. No browser or server needed.
+
+test.describe('Peer review responses', () => {
+  test('only helpful ratings add bonus points', () => {
+    expect([1, 2, 3, 4, 5].map(helpfulnessBonus)).toEqual([0, 0, 0, 1, 2]);
+  });
+
+  test('helpful reviewer needs enough consistently helpful reviews', () => {
+    expect(isHelpfulReviewer([5, 5])).toBe(false);
+    expect(isHelpfulReviewer(Array(HELPFUL_REVIEWER_MIN_RATED).fill(4))).toBe(true);
+    expect(isHelpfulReviewer([5, 4, 2])).toBe(false);
+    expect(isHelpfulReviewer([5, 4, 4, 3])).toBe(true);
+  });
+});
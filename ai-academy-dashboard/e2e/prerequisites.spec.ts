@@ -0,0 +1,65 @@
+import { test, expect } from '@playwright/test';
+import { groupByCategory, missingRequired, summarizeProgress, withStatus } from '../src/lib/prerequisites';
+import type { PrerequisiteItem } from '../src/lib/types';
+
+// Pure checklist logic: merging progress into items, the live-session gate
+// and completion summary. No browser or server needed.
+
+function item(id: number, overrides: Partial<PrerequisiteItem>): PrerequisiteItem {
+  return {
+    id,
+    code: `item_${id}`,
+    category: 'development',
+    name: `Item ${id}`,
+    description: null,
+    help_url: null,
+    is_required: true,
+    display_order: id,
+    created_at: '2026-02-01T00:00:00Z',
+    ...overrides,
+  };
+}
+
+const items = [
+  item(3, { category: 'google', display_order: 20 }),
+  item(1, { display_order: 1 }),
+  item(2, { display_order: 2, is_required: false }),
+  item(4, { category: 'confirmation', display_order: 50 }),
+];
+
+test.describe('Prerequisites checklist', () => {
+  test('merges progress into items in display order', () => {
+    const merged = withStatus(items, [
+      { prerequisite_id: 1, is_completed: true, completed_at: '2026-02-01T10:00:00Z', notes: null },
+      { prerequisite_id: 3, is_completed: false, completed_at: null, notes: 'Waiting for Okta' },
+    ]);
+
+    expect(merged.map((i) => i.id)).toEqual([1, 2, 3, 4]);
+    expect(merged[0].is_completed).toBe(true);
+    expect(merged[2].notes).toBe('Waiting for Okta');
+    expect(merged[3].is_completed).toBe(false);
+  });
+
+  test('only open required items block joining', () => {
+    const merged = withStatus(items, [
+      { prerequisite_id: 1, is_completed: true, completed_at: null, notes: null },
+      { prerequisite_id: 3, is_completed: true, completed_at: null, notes: null },
+    ]);
+
+    expect(missingRequired(merged).map((i) => i.id)).toEqual([4]);
+    expect(summarizeProgress(merged)).toEqual({
+      completed_count: 2,
+      total_items: 4,
+      required_completed: 2,
+      required_total: 3,
+      required_completion_pct: 67,
+    });
+  });
+
+  test('groups by category in display order', () => {
+    const groups = groupByCategory(withStatus(items, []));
+
+    expect(groups.map((g) => g.category)).toEqual(['development', 'google', 'confirmation']);
+    expect(groups[0].items).toHaveLength(2);
+  });
+});
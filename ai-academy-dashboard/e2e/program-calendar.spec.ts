@@ -0,0 +1,54 @@
+import { test, expect } from '@playwright/test';
+import {
+  DEFAULT_PROGRAM_CALENDAR,
+  getProgramDay,
+  getScheduledDates,
+  isDayUnlocked,
+  programToday,
+} from '../src/lib/programCalendar';
+import type { ProgramCalendar } from '../src/lib/types';
+
+// Pure program calendar logic shared by the mission pages, readiness and crons.
+// No browser or server needed.
+
+const calendar: ProgramCalendar = { ...DEFAULT_PROGRAM_CALENDAR, unlock_overrides: {} };
+
+test.describe('Program calendar', () => {
+  test('schedules weekdays and skips the spring break week', () => {
+    const dates = getScheduledDates(calendar);
+    expect(dates).toHaveLength(25);
+    expect(dates[0]).toBe('2026-02-02');
+    expect(dates[4]).toBe('2026-02-06'); // Friday
+    expect(dates[5]).toBe('2026-02-09'); // Monday after the weekend
+    expect(dates[9]).toBe('2026-02-13');
+    expect(dates[10]).toBe('2026-02-23'); // Day 11 after the break
+    expect(dates[24]).toBe('2026-03-13');
+  });
+
+  test('holidays push later days to the next weekday', () => {
+    const dates = getScheduledDates({ ...calendar, holidays: ['2026-02-04'] });
+    expect(dates[2]).toBe('2026-02-05');
+    expect(dates[24]).toBe('2026-03-16');
+  });
+
+  test('program day holds during weekends and break weeks', () => {
+    expect(getProgramDay(calendar, '2026-02-01')).toBe(0);
+    expect(getProgramDay(calendar, '2026-02-02')).toBe(1);
+    expect(getProgramDay(calendar, '2026-02-08')).toBe(5);
+    expect(getProgramDay(calendar, '2026-02-18')).toBe(10);
+    expect(getProgramDay(calendar, '2026-02-23')).toBe(11);
+    expect(getProgramDay(calendar, '2026-04-01')).toBe(25);
+  });
+
+  test('mission day overrides replace the scheduled unlock date', () => {
+    const overridden: ProgramCalendar = { ...calendar, unlock_overrides: { 11: '2026-02-20' } };
+    expect(isDayUnlocked(calendar, 11, '2026-02-20')).toBe(false);
+    expect(isDayUnlocked(overridden, 11, '2026-02-20')).toBe(true);
+    expect(getProgramDay(overridden, '2026-02-20')).toBe(11);
+  });
+
+  test('today is the program timezone date, not the UTC date', () => {
+    // 23:30 UTC on Sunday is already Monday (day 1) in Central Europe
+    expect(programToday(new Date('2026-02-01T23:30:00Z'))).toBe('2026-02-02');
+  });
+});
@@ -0,0 +1,113 @@
+import { test, expect } from '@playwright/test';
+import { parseReadme, parseSelfRating, parseSubmissionTag } from '../src/lib/readmeParser';
+
+// Pure submission README parsing: well-formed, partially filled and malformed
+// READMEs. No browser or server needed.
+
+const WORDS = (n: number) => Array.from({ length: n }, (_, i) => `word${i}`).join(' ');
+
+const COMPLETE_README = `# Day 1: CEO Briefing
+<!-- submission:day-01:in-class -->
+
+## Briefing Document
+${WORDS(40)}
+
+## Reflection
+${WORDS(20)}
+
+## Self-Assessment
+| Criterion | Rating |
+|-----------|--------|
+| Clarity | ⭐⭐⭐⭐ |
+| Depth | 3/5 |
+
+**Overall rating:** 4/5
+
+## Screenshots / Demo
+![Dashboard](./screenshot.png)
+Repo: https://github.com/student/ai-academy
+[Live demo](https://briefing.vercel.app)
+`;
+
+const TEMPLATE_README = `# Day 2
+<!-- submission:day-02:homework -->
+
+## Deliverables
+- ...
+[Describe your solution here]
+
+## Reflection
+<!-- What did you learn? -->
+- ...
+
+## Self-Assessment
+| Criterion | Rating |
+|-----------|--------|
+`;
+
+test.describe('Well-formed README', () => {
+  test('extracts tag, ratings, sections and links', () => {
+    const analysis = parseReadme(COMPLETE_README, { day: 1, type: 'in_class' });
+
+    expect(analysis.submission_tag).toEqual({ day: 1, type: 'in_class' });
+    expect(analysis.self_rating).toBe(4);
+    expect(analysis.self_assessment).toEqual([
+      { criterion: 'Clarity', rating: 4 },
+      { criterion: 'Depth', rating: 3 },
+    ]);
+    expect(analysis.sections.every((s) => s.present && s.complete)).toBe(true);
+    expect(analysis.links.map((l) => l.kind)).toEqual(['demo', 'repo']);
+    expect(analysis.completeness).toBe(100);
+    expect(analysis.warnings).toEqual([]);
+  });
+
+  test('warns when the tag names a different assignment', () => {
+    const analysis = parseReadme(COMPLETE_README, { day: 2, type: 'homework' });
+    expect(analysis.warnings).toEqual(['Submission tag says day 1 in_class, expected day 2 homework']);
+  });
+});
+
+test.describe('Partially filled README', () => {
+  test('template placeholders do not count as content', () => {
+    const analysis = parseReadme(TEMPLATE_README);
+    const byKey = new Map(analysis.sections.map((s) => [s.key, s]));
+
+    expect(byKey.get('deliverables')).toMatchObject({ present: true, complete: false, word_count: 0 });
+    expect(byKey.get('reflection')).toMatchObject({ present: true, complete: false, word_count: 0 });
+    expect(byKey.get('self_assessment')).toMatchObject({ present: true, complete: false });
+    expect(byKey.get('screenshots')).toMatchObject({ present: false, complete: false });
+    expect(analysis.warnings).toContain('Deliverables section looks unfilled (template placeholders only)');
+    expect(analysis.warnings).toContain('Overall self-rating is missing');
+    expect(analysis.completeness).toBe(10);
+  });
+
+  test('headings inside code blocks are not sections', () => {
+    const analysis = parseReadme('## Deliverables\n```md\n## Reflection\n```\n');
+    expect(analysis.sections.find((s) => s.key === 'reflection')?.present).toBe(false);
+  });
+});
+
+test.describe('Malformed README', () => {
+  test('empty or unstructured content reports everything missing', () => {
+    for (const content of ['', 'just some notes without any headings']) {
+      const analysis = parseReadme(content);
+      expect(analysis.submission_tag).toBeNull();
+      expect(analysis.self_rating).toBeNull();
+      expect(analysis.sections.some((s) => s.present)).toBe(false);
+      expect(analysis.completeness).toBe(0);
+      expect(analysis.warnings).toContain('Missing required section: Deliverables');
+      expect(analysis.warnings).toContain('Submission tag is missing');
+    }
+  });
+
+  test('rejects malformed tags and out-of-range ratings', () => {
+    expect(parseSubmissionTag('<!-- submission:day-x:in-class -->')).toBeNull();
+    expect(parseSubmissionTag('<!-- submission:day-03:lab -->')).toBeNull();
+    expect(parseSubmissionTag('<!--submission:day-03:homework-->')).toEqual({ day: 3, type: 'homework' });
+
+    expect(parseSelfRating('**Overall rating:** 7/5')).toBeNull();
+    expect(parseSelfRating('**Overall rating:** 0/5')).toBeNull();
+    expect(parseSelfRating('Overall rating: 4/5')).toBeNull();
+    expect(parseSelfRating('**Celkové hodnotenie:** 3 / 5')).toBe(3);
+  });
+});
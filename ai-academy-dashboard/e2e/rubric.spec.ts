@@ -0,0 +1,73 @@
+import { test, expect } from '@playwright/test';
+import { ratingFromPercent, scoreRubric } from '../src/lib/rubric';
+import { calculatePoints, DEFAULT_SCORING_POLICY } from '../src/lib/scoring';
+import type { Rubric } from '../src/lib/types';
+
+// Pure rubric scoring: level checks, weighted score, derived rating and points.
+// No browser or server needed.
+
+const levels = [
+  { score: 1, label: 'Beginning', description: 'Restates the brief' },
+  { score: 2, label: 'Developing', description: 'Some analysis' },
+  { score: 3, label: 'Proficient', description: 'Clear analysis' },
+  { score: 4, label: 'Exemplary', description: 'Insightful, with evidence' },
+];
+
+const rubric: Rubric = {
+  criteria: [
+    { key: 'framing', name: 'Problem framing', weight: 3, levels },
+    { key: 'delivery', name: 'Delivery', weight: 1, levels },
+  ],
+};
+
+test.describe('Rubric reviews', () => {
+  test('weights criteria and derives the rating', () => {
+    const result = scoreRubric(rubric, [
+      { key: 'framing', score: 4, comment: 'Strong evidence' },
+      { key: 'delivery', score: 2 },
+    ]);
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    // (3 * 4/4 + 1 * 2/4) / 4
+    expect(result.percent).toBe(87.5);
+    expect(result.mentorRating).toBe(4);
+    expect(result.scores[0]).toMatchObject({
+      name: 'Problem framing',
+      level_label: 'Exemplary',
+      max_score: 4,
+      comment: 'Strong evidence',
+    });
+    expect(result.scores[1].comment).toBeNull();
+  });
+
+  test('rejects missing, unknown and invalid scores', () => {
+    expect(scoreRubric(rubric, [{ key: 'framing', score: 4 }])).toEqual({
+      ok: false,
+      error: 'Missing score for Delivery',
+    });
+    expect(scoreRubric(rubric, [{ key: 'framing', score: 4 }, { key: 'style', score: 1 }]).ok).toBe(false);
+    expect(scoreRubric(rubric, [{ key: 'framing', score: 5 }, { key: 'delivery', score: 1 }]).ok).toBe(false);
+    expect(
+      scoreRubric(rubric, [{ key: 'framing', score: 4 }, { key: 'framing', score: 3 }, { key: 'delivery', score: 1 }]).ok
+    ).toBe(false);
+  });
+
+  test('maps the rubric score to a 1-5 rating', () => {
+    expect(ratingFromPercent(0)).toBe(1);
+    expect(ratingFromPercent(50)).toBe(3);
+    expect(ratingFromPercent(100)).toBe(5);
+  });
+
+  test('scales points by the rubric score instead of rating multipliers', () => {
+    const policy = { ...DEFAULT_SCORING_POLICY, mentor_rating_multipliers: { '4': 1.2 } };
+    const input = { maxPoints: 20, dueAt: null, submittedAt: '2026-02-06T10:00:00Z', mentorRating: 4 };
+
+    expect(calculatePoints(policy, input).total).toBe(24);
+
+    const breakdown = calculatePoints(policy, { ...input, rubricPercent: 87.5 });
+    expect(breakdown.total).toBe(18);
+    expect(breakdown.rating_adjustment).toBe(-2);
+    expect(breakdown.rubric_percent).toBe(87.5);
+  });
+});
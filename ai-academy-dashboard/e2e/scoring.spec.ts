@@ -0,0 +1,112 @@
+import { test, expect } from '@playwright/test';
+import {
+  calculatePoints,
+  resolveScoringPolicy,
+  DEFAULT_MAX_POINTS,
+  DEFAULT_SCORING_POLICY,
+  type ScoringInput,
+} from '../src/lib/scoring';
+import type { ScoringPolicy } from '../src/lib/types';
+
+// Pure scoring policy: lateness, grace period, cutoff, early bonus, rating
+// multipliers and per-assignment overrides. No browser or server needed.
+
+const DUE = '2026-02-10T17:00:00Z';
+
+function hoursFromDue(hours: number): string {
+  return new Date(new Date(DUE).getTime() + hours * 3_600_000).toISOString();
+}
+
+function input(overrides: Partial<ScoringInput> = {}): ScoringInput {
+  return { maxPoints: 15, dueAt: DUE, submittedAt: hoursFromDue(-1), mentorRating: null, ...overrides };
+}
+
+function policy(overrides: Partial<ScoringPolicy> = {}): ScoringPolicy {
+  return resolveScoringPolicy(DEFAULT_SCORING_POLICY, overrides);
+}
+
+test.describe('Default policy', () => {
+  test('on-time submissions earn full points', () => {
+    const breakdown = calculatePoints(DEFAULT_SCORING_POLICY, input());
+    expect(breakdown.total).toBe(15);
+    expect(breakdown.late_penalty).toBe(0);
+  });
+
+  test('matches the old flat 50% late penalty however late', () => {
+    for (const maxPoints of [10, 15, 25, 1]) {
+      const oldPoints = Math.floor(maxPoints * 0.5);
+      for (const hours of [0.1, 5, 30, 24 * 14]) {
+        const breakdown = calculatePoints(DEFAULT_SCORING_POLICY, input({ maxPoints, submittedAt: hoursFromDue(hours) }));
+        expect(breakdown.total).toBe(oldPoints);
+      }
+    }
+  });
+
+  test('mentor rating does not change points', () => {
+    const breakdown = calculatePoints(DEFAULT_SCORING_POLICY, input({ mentorRating: 1 }));
+    expect(breakdown.total).toBe(15);
+    expect(breakdown.rating_adjustment).toBe(0);
+  });
+
+  test('falls back to the default max points and ignores a missing due date', () => {
+    const breakdown = calculatePoints(DEFAULT_SCORING_POLICY, input({ maxPoints: null, dueAt: null }));
+    expect(breakdown.base).toBe(DEFAULT_MAX_POINTS);
+    expect(breakdown.total).toBe(DEFAULT_MAX_POINTS);
+  });
+});
+
+test.describe('Custom policies', () => {
+  const hourly = policy({
+    grace_period_hours: 2,
+    late_penalty: { unit: 'hour', percent_per_unit: 10, max_percent: 40 },
+    zero_after_days: 3,
+  });
+
+  test('lateness within the grace period is free', () => {
+    const breakdown = calculatePoints(hourly, input({ submittedAt: hoursFromDue(1.5) }));
+    expect(breakdown.hours_late).toBe(1.5);
+    expect(breakdown.total).toBe(15);
+  });
+
+  test('penalty grows per started unit after the grace period and is capped', () => {
+    expect(calculatePoints(hourly, input({ submittedAt: hoursFromDue(2.5) })).late_penalty).toBe(2);
+    expect(calculatePoints(hourly, input({ submittedAt: hoursFromDue(4.5) })).late_penalty).toBe(5);
+    expect(calculatePoints(hourly, input({ submittedAt: hoursFromDue(30) })).late_penalty).toBe(6);
+  });
+
+  test('past the cutoff the submission earns nothing', () => {
+    const breakdown = calculatePoints(hourly, input({ submittedAt: hoursFromDue(24 * 3 + 1), mentorRating: 5 }));
+    expect(breakdown.total).toBe(0);
+    expect(breakdown.late_penalty).toBe(15);
+  });
+
+  test('early bonus applies only far enough ahead of the deadline', () => {
+    const early = policy({ early_bonus: { hours_before_due: 24, percent: 20 } });
+    expect(calculatePoints(early, input({ submittedAt: hoursFromDue(-30) })).early_bonus).toBe(3);
+    expect(calculatePoints(early, input({ submittedAt: hoursFromDue(-12) })).early_bonus).toBe(0);
+  });
+
+  test('mentor rating multipliers and rubric percent scale the subtotal', () => {
+    const rated = policy({ mentor_rating_multipliers: { '1': 0.5, '5': 1.2 } });
+    expect(calculatePoints(rated, input({ mentorRating: 5 })).total).toBe(18);
+    expect(calculatePoints(rated, input({ mentorRating: 1 })).total).toBe(8);
+    expect(calculatePoints(rated, input({ mentorRating: 3 })).total).toBe(15);
+    expect(calculatePoints(rated, input({ mentorRating: 5, rubricPercent: 60 })).total).toBe(9);
+  });
+});
+
+test.describe('resolveScoringPolicy', () => {
+  test('without an override returns the program policy', () => {
+    expect(resolveScoringPolicy(DEFAULT_SCORING_POLICY, null)).toBe(DEFAULT_SCORING_POLICY);
+  });
+
+  test('merges a partial late penalty onto the program one', () => {
+    const resolved = resolveScoringPolicy(DEFAULT_SCORING_POLICY, {
+      late_penalty: { percent_per_unit: 25 } as ScoringPolicy['late_penalty'],
+      zero_after_days: 7,
+    });
+    expect(resolved.late_penalty).toEqual({ unit: 'day', percent_per_unit: 25, max_percent: 50 });
+    expect(resolved.zero_after_days).toBe(7);
+    expect(resolved.grace_period_hours).toBe(0);
+  });
+});
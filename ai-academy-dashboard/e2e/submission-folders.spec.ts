@@ -0,0 +1,121 @@
+import { test, expect } from '@playwright/test';
+import {
+  collectPushSubmissions,
+  compileFolderPattern,
+  matchSubmissionFolders,
+  type AssignmentFolder,
+  type PushCommit,
+} from '../src/lib/submissionFolders';
+
+// Pure submission folder matching: folder_name paths and globs, role-specific
+// assignments and multi-commit pushes. No browser or server needed.
+
+function assignment(id: string, folderName: string, targetRoles: AssignmentFolder['target_roles'] = null): AssignmentFolder {
+  return { id, day: 1, type: 'homework', folder_name: folderName, target_roles: targetRoles };
+}
+
+function commit(id: string, changes: Partial<Pick<PushCommit, 'added' | 'modified' | 'removed'>>): PushCommit {
+  return { id, ...changes };
+}
+
+test.describe('Folder patterns', () => {
+  test('plain folder names match at any depth and capture the real path', () => {
+    const regex = compileFolderPattern('day-01-ceo-briefing');
+    expect('day-01-ceo-briefing/README.md'.match(regex)?.[1]).toBe('day-01-ceo-briefing');
+    expect('week-01-foundations/day-01-ceo-briefing/notes/a.md'.match(regex)?.[1]).toBe(
+      'week-01-foundations/day-01-ceo-briefing'
+    );
+  });
+
+  test('nested paths must appear as whole segments', () => {
+    const regex = compileFolderPattern('homework/day-01/');
+    expect('homework/day-01/README.md'.match(regex)?.[1]).toBe('homework/day-01');
+    expect('cohort-2/homework/day-01/README.md'.match(regex)?.[1]).toBe('cohort-2/homework/day-01');
+    expect(regex.test('homework/day-012/README.md')).toBe(false);
+    expect(regex.test('my-homework/day-01/README.md')).toBe(false);
+    expect(regex.test('homework/day-01.md')).toBe(false);
+  });
+
+  test('a single star stays within one segment', () => {
+    const regex = compileFolderPattern('week-*/day-06*');
+    expect('week-02-build/day-06-agents/README.md'.match(regex)?.[1]).toBe('week-02-build/day-06-agents');
+    expect(regex.test('week-02/extra/day-06/README.md')).toBe(false);
+    expect(regex.test('week-02/day-07/README.md')).toBe(false);
+  });
+
+  test('double star spans segments and a leading slash anchors at the root', () => {
+    expect(compileFolderPattern('**/week-01-checkpoint').test('a/b/week-01-checkpoint/README.md')).toBe(true);
+
+    const anchored = compileFolderPattern('/day-05-mvp');
+    expect(anchored.test('day-05-mvp/README.md')).toBe(true);
+    expect(anchored.test('archive/day-05-mvp/README.md')).toBe(false);
+  });
+});
+
+test.describe('Matching changed files', () => {
+  const common = assignment('common', 'day-03-*');
+  const fde = assignment('fde', 'day-05-fde*', ['FDE']);
+  const pm = assignment('pm', 'day-05-pm*', ['AI-PM']);
+
+  test('role patterns only match for participants in that role', () => {
+    const files = ['day-05-fde-integration/README.md', 'day-05-pm-roadmap/README.md', 'day-03-prompts/a.md'];
+
+    expect(matchSubmissionFolders(files, [common, fde, pm], 'FDE').map((m) => m.assignment.id)).toEqual([
+      'fde',
+      'common',
+    ]);
+    expect(matchSubmissionFolders(files, [common, fde, pm], null).map((m) => m.assignment.id)).toEqual(['common']);
+  });
+
+  test('files in one folder are grouped under a single match', () => {
+    const [match] = matchSubmissionFolders(['day-03-prompts/README.md', 'day-03-prompts/src/app.py'], [common]);
+    expect(match.folderPath).toBe('day-03-prompts');
+    expect(match.files).toHaveLength(2);
+  });
+
+  test('assignments without a folder name are never matched', () => {
+    expect(matchSubmissionFolders(['README.md'], [assignment('none', '')])).toEqual([]);
+  });
+});
+
+test.describe('Multi-commit pushes', () => {
+  const day1 = assignment('day1', 'day-01');
+  const day2 = assignment('day2', 'day-02');
+
+  test('the last commit touching an assignment wins', () => {
+    const submissions = collectPushSubmissions(
+      [
+        commit('c1', { added: ['day-01/README.md'] }),
+        commit('c2', { modified: ['day-01/README.md'], added: ['day-02/README.md'] }),
+        commit('c3', { modified: ['day-01/notes.md'] }),
+      ],
+      [day1, day2]
+    );
+
+    expect(submissions.find((s) => s.assignment.id === 'day1')?.commit.id).toBe('c3');
+    expect(submissions.find((s) => s.assignment.id === 'day2')?.commit.id).toBe('c2');
+    expect(submissions.every((s) => !s.withdrawn)).toBe(true);
+  });
+
+  test('a removal withdraws and a later edit re-submits', () => {
+    const withdrawn = collectPushSubmissions(
+      [commit('c1', { added: ['day-01/README.md'] }), commit('c2', { removed: ['day-01/README.md'] })],
+      [day1]
+    );
+    expect(withdrawn).toMatchObject([{ withdrawn: true, commit: { id: 'c2' } }]);
+
+    const resubmitted = collectPushSubmissions(
+      [commit('c1', { removed: ['day-01/README.md'] }), commit('c2', { added: ['day-01/README.md'] })],
+      [day1]
+    );
+    expect(resubmitted).toMatchObject([{ withdrawn: false, commit: { id: 'c2' } }]);
+  });
+
+  test('removing one file while editing another in the same commit is not a withdrawal', () => {
+    const submissions = collectPushSubmissions(
+      [commit('c1', { removed: ['day-01/old.md'], modified: ['day-01/README.md'] })],
+      [day1]
+    );
+    expect(submissions).toMatchObject([{ withdrawn: false }]);
+  });
+});
@@ -0,0 +1,37 @@
+import { test, expect } from '@playwright/test';
+import { planNextRevision } from '../src/lib/submissionRevisions';
+
+// Pure submission revision planning: numbering, kept points and the
+// needs_revision -> submitted hand-back. No browser or server needed.
+
+test.describe('Next revision', () => {
+  test('numbers revisions after the current one', () => {
+    expect(planNextRevision({ status: 'submitted', current_revision: 1, points_earned: 15 }, 15).revisionNumber).toBe(2);
+    expect(planNextRevision({ status: 'reviewed', current_revision: 4, points_earned: 15 }, 15).revisionNumber).toBe(5);
+  });
+
+  test('treats a submission from before revisions as revision 1', () => {
+    expect(planNextRevision({ status: 'submitted', current_revision: null, points_earned: 15 }, 15).revisionNumber).toBe(2);
+  });
+
+  test('a requested revision goes back to the review queue', () => {
+    const next = planNextRevision({ status: 'needs_revision', current_revision: 2, points_earned: 15 }, 15);
+    expect(next.status).toBe('submitted');
+    expect(next.answersReview).toBe(true);
+  });
+
+  test('other resubmissions keep their status', () => {
+    for (const status of ['submitted', 'reviewed'] as const) {
+      const next = planNextRevision({ status, current_revision: 1, points_earned: 15 }, 15);
+      expect(next.status).toBe(status);
+      expect(next.answersReview).toBe(false);
+    }
+  });
+
+  test('revising never costs points already earned', () => {
+    // A late revision scores lower than the on-time original
+    expect(planNextRevision({ status: 'submitted', current_revision: 1, points_earned: 15 }, 7).pointsEarned).toBe(15);
+    expect(planNextRevision({ status: 'submitted', current_revision: 1, points_earned: 7 }, 15).pointsEarned).toBe(15);
+    expect(planNextRevision({ status: 'submitted', current_revision: 1, points_earned: null }, 7).pointsEarned).toBe(7);
+  });
+});
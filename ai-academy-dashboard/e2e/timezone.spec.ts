@@ -0,0 +1,100 @@
+import { test, expect } from '@playwright/test';
+import {
+  toLocalDateTime,
+  fromLocalDateTime,
+  longestConsecutiveDays,
+  localDateDaysAgo,
+  resolveTimeZone,
+  PROGRAM_TIMEZONE,
+} from '../src/lib/timezone';
+
+// Pure timezone logic behind early bird / night owl achievements, day streaks
+// and the recognitions cron. No browser or server needed.
+// 2026 DST changes: Europe 29 Mar (01:00 UTC) and 25 Oct (01:00 UTC),
+// US 8 Mar (07:00 UTC in New York) and 1 Nov (06:00 UTC).
+
+test.describe('Timezone handling', () => {
+  test('converts UTC timestamps to the task force local hour', () => {
+    expect(toLocalDateTime('2026-02-10T06:30:00Z', 'Europe/Paris')).toEqual({ date: '2026-02-10', hour: 7 });
+    expect(toLocalDateTime('2026-02-10T06:30:00Z', 'Europe/London')).toEqual({ date: '2026-02-10', hour: 6 });
+    expect(toLocalDateTime('2026-02-10T23:30:00Z', 'Europe/Rome')).toEqual({ date: '2026-02-11', hour: 0 });
+  });
+
+  test('early bird window shifts by an hour across the spring DST change', () => {
+    // 06:30 UTC is 07:30 CET the day before the change (early bird) ...
+    expect(toLocalDateTime('2026-03-28T06:30:00Z', 'Europe/Amsterdam').hour).toBe(7);
+    // ... but 08:30 CEST the day of the change (not early bird)
+    expect(toLocalDateTime('2026-03-29T06:30:00Z', 'Europe/Amsterdam').hour).toBe(8);
+  });
+
+  test('handles the skipped hour on the spring DST night', () => {
+    expect(toLocalDateTime('2026-03-29T00:30:00Z', 'Europe/Berlin')).toEqual({ date: '2026-03-29', hour: 1 });
+    expect(toLocalDateTime('2026-03-29T01:30:00Z', 'Europe/Berlin')).toEqual({ date: '2026-03-29', hour: 3 });
+  });
+
+  test('night owl window shifts by an hour across the autumn DST change', () => {
+    // 20:30 UTC is 22:30 CEST before the change (night owl) ...
+    expect(toLocalDateTime('2026-10-24T20:30:00Z', 'Europe/Rome').hour).toBe(22);
+    // ... and only 21:30 CET after it
+    expect(toLocalDateTime('2026-10-25T20:30:00Z', 'Europe/Rome').hour).toBe(21);
+    expect(toLocalDateTime('2026-10-25T21:30:00Z', 'Europe/Rome').hour).toBe(22);
+  });
+
+  test('handles the repeated hour on the autumn DST night', () => {
+    expect(toLocalDateTime('2026-10-25T00:30:00Z', 'Europe/Paris')).toEqual({ date: '2026-10-25', hour: 2 });
+    expect(toLocalDateTime('2026-10-25T01:30:00Z', 'Europe/Paris')).toEqual({ date: '2026-10-25', hour: 2 });
+  });
+
+  test('uses US DST dates for US timezones', () => {
+    // Between the US (8 Mar) and EU (29 Mar) changes the offset to Paris is 5 hours, not 6
+    expect(toLocalDateTime('2026-03-10T12:00:00Z', 'America/New_York').hour).toBe(8);
+    expect(toLocalDateTime('2026-03-10T12:00:00Z', 'Europe/Paris').hour).toBe(13);
+    expect(toLocalDateTime('2026-11-02T12:00:00Z', 'America/New_York').hour).toBe(7);
+  });
+
+  test('counts consecutive local days across a DST change as a streak', () => {
+    // 23:30 local on 28, 29 and 30 March in Paris (22:30Z, then 21:30Z after the change)
+    const dates = ['2026-03-28T22:30:00Z', '2026-03-29T21:30:00Z', '2026-03-30T21:30:00Z'].map(
+      (ts) => toLocalDateTime(ts, 'Europe/Paris').date
+    );
+    expect(dates).toEqual(['2026-03-28', '2026-03-29', '2026-03-30']);
+    expect(longestConsecutiveDays(dates)).toBe(3);
+  });
+
+  test('streaks use local dates, not UTC dates', () => {
+    // Same three instants in UTC fall on 28, 29, 30 March, but late-evening
+    // submissions in Asia/Singapore land on 29, 30, 31
+    const timestamps = ['2026-03-28T20:00:00Z', '2026-03-29T20:00:00Z', '2026-03-30T20:00:00Z'];
+    expect(timestamps.map((ts) => toLocalDateTime(ts, 'Asia/Singapore').date)).toEqual([
+      '2026-03-29',
+      '2026-03-30',
+      '2026-03-31',
+    ]);
+    expect(longestConsecutiveDays(['2026-02-27', '2026-02-28', '2026-03-01', '2026-03-03'])).toBe(3);
+    expect(longestConsecutiveDays(['2026-02-27', '2026-02-27'])).toBe(1);
+    expect(longestConsecutiveDays([])).toBe(0);
+  });
+
+  test('recognition window uses local yesterday and today', () => {
+    // Cron runs at 23:00 UTC: already the next day in Europe during summer time
+    const cronRun = new Date('2026-03-29T23:00:00Z');
+    expect(localDateDaysAgo(0, 'Europe/Amsterdam', cronRun)).toBe('2026-03-30');
+    expect(localDateDaysAgo(1, 'Europe/Amsterdam', cronRun)).toBe('2026-03-29');
+    expect(localDateDaysAgo(0, 'Europe/London', cronRun)).toBe('2026-03-30');
+    expect(localDateDaysAgo(0, 'America/New_York', cronRun)).toBe('2026-03-29');
+  });
+
+  test('converts local wall-clock times back to UTC across DST', () => {
+    expect(fromLocalDateTime('2026-02-06', '09:30', 'Europe/Bratislava').toISOString()).toBe('2026-02-06T08:30:00.000Z');
+    expect(fromLocalDateTime('2026-03-30', '09:30:00', 'Europe/Bratislava').toISOString()).toBe('2026-03-30T07:30:00.000Z');
+    expect(fromLocalDateTime('2026-03-29', '12:00', 'America/New_York').toISOString()).toBe('2026-03-29T16:00:00.000Z');
+    expect(toLocalDateTime(fromLocalDateTime('2026-03-29', '03:00', 'Europe/Berlin'), 'Europe/Berlin').hour).toBe(3);
+  });
+
+  test('resolves participant override, then task force, then program default', () => {
+    expect(resolveTimeZone('Europe/Lisbon', 'Europe/Paris')).toBe('Europe/Lisbon');
+    expect(resolveTimeZone(null, 'Europe/Paris')).toBe('Europe/Paris');
+    expect(resolveTimeZone('Not/AZone', 'Europe/Rome')).toBe('Europe/Rome');
+    expect(resolveTimeZone(null, undefined)).toBe(PROGRAM_TIMEZONE);
+  });
+});
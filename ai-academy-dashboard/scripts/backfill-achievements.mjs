@@ -0,0 +1,45 @@
+#!/usr/bin/env node
+/**
+ * Re-evaluate every achievement rule for every participant.
+ * Run after changing a rule in src/lib/achievementEngine.ts, or to award
+ * achievements for activity recorded before the rule existed.
+ *
+ * Calls the deployed app (NEXT_PUBLIC_APP_URL, default http://localhost:3000) with CRON_SECRET.
+ * No emails are sent for backfilled achievements.
+ */
+import { readFileSync, existsSync } from 'fs';
+import { fileURLToPath } from 'url';
+import { dirname, join } from 'path';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const envLocal = join(__dirname, '..', '.env.local');
+if (existsSync(envLocal)) {
+  for (const line of readFileSync(envLocal, 'utf8').split('\n')) {
+    const m = line.match(/^([^#=]+)=(.*)$/);
+    if (m) process.env[m[1].trim()] = m[2].trim();
+  }
+}
+
+const appUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+const cronSecret = process.env.CRON_SECRET;
+
+if (!cronSecret) {
+  console.error('Error: CRON_SECRET required');
+  process.exit(1);
+}
+
+const response = await fetch(`${appUrl}/api/admin/achievements/backfill`, {
+  method: 'POST',
+  headers: { Authorization: `Bearer ${cronSecret}` },
+});
+const data = await response.json().catch(() => ({}));
+
+if (!response.ok) {
+  console.error(`Backfill failed (HTTP ${response.status}):`, data.error || 'unknown error');
+  process.exit(1);
+}
+
+console.log(`Evaluated ${data.participants} participants, awarded ${data.awarded.length} achievements`);
+for (const { participant_id, code } of data.awarded) {
+  console.log(`  ${participant_id}: ${code}`);
+}
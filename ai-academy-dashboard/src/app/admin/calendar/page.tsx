@@ -0,0 +1,351 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Skeleton } from '@/components/ui/skeleton';
+import { ArrowLeft, CalendarDays, Loader2, Plus, RotateCcw, Save, X } from 'lucide-react';
+import Link from 'next/link';
+import { toast } from 'sonner';
+import { getScheduledDates, programToday, weekStart } from '@/lib/programCalendar';
+import type { ProgramCalendar, ProgramCalendarSettings } from '@/lib/types';
+
+interface CalendarDayRow {
+  day: number;
+  title: string | null;
+}
+
+function formatDate(date: string) {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString('en-GB', {
+    timeZone: 'UTC',
+    weekday: 'short',
+    day: 'numeric',
+    month: 'short',
+  });
+}
+
+function DateList({
+  id,
+  label,
+  description,
+  dates,
+  onChange,
+}: {
+  id: string;
+  label: string;
+  description: string;
+  dates: string[];
+  onChange: (dates: string[]) => void;
+}) {
+  const [newDate, setNewDate] = useState('');
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor={id}>{label}</Label>
+      <p className="text-sm text-muted-foreground">{description}</p>
+      <div className="flex flex-wrap gap-2">
+        {dates.length === 0 && <span className="text-sm text-muted-foreground">None</span>}
+        {dates.map((date) => (
+          <Badge key={date} variant="secondary" className="gap-1">
+            {formatDate(date)}
+            <button
+              type="button"
+              onClick={() => onChange(dates.filter((d) => d !== date))}
+              aria-label={`Remove ${date}`}
+            >
+              <X className="h-3 w-3" />
+            </button>
+          </Badge>
+        ))}
+      </div>
+      <div className="flex gap-2">
+        <Input id={id} type="date" value={newDate} onChange={(e) => setNewDate(e.target.value)} />
+        <Button
+          type="button"
+          variant="outline"
+          disabled={!newDate}
+          onClick={() => {
+            onChange([...new Set([...dates, newDate])].sort());
+            setNewDate('');
+          }}
+        >
+          <Plus className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export default function AdminCalendarPage() {
+  const [settings, setSettings] = useState<ProgramCalendarSettings | null>(null);
+  const [overrides, setOverrides] = useState<Record<number, string | null>>({});
+  const [days, setDays] = useState<CalendarDayRow[]>([]);
+  const [currentDay, setCurrentDay] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const fetchCalendar = async () => {
+    try {
+      const response = await fetch('/api/admin/program-calendar');
+
+      if (!response.ok) {
+        console.error('Failed to fetch program calendar:', response.status);
+        return;
+      }
+
+      const data = await response.json();
+      const calendar = data.calendar as ProgramCalendar;
+      setSettings({
+        start_date: calendar.start_date,
+        total_days: calendar.total_days,
+        break_weeks: calendar.break_weeks,
+        holidays: calendar.holidays,
+      });
+      setOverrides(calendar.unlock_overrides);
+      setDays(data.days as CalendarDayRow[]);
+      setCurrentDay(data.current_day);
+    } catch (error) {
+      console.error('Error fetching program calendar:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchCalendar();
+  }, []);
+
+  const update = (changes: Partial<ProgramCalendarSettings>) => {
+    setSettings((current) => (current ? { ...current, ...changes } : current));
+  };
+
+  const handleSave = async () => {
+    if (!settings) return;
+    setIsSaving(true);
+
+    try {
+      // Send every day so cleared overrides are written back as NULL
+      const unlockOverrides: Record<string, string | null> = {};
+      for (let day = 1; day <= settings.total_days; day++) {
+        unlockOverrides[day] = overrides[day] || null;
+      }
+
+      const response = await fetch('/api/admin/program-calendar', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...settings, unlock_overrides: unlockOverrides }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.details || data.error || 'Failed to save calendar');
+      }
+
+      toast.success('Program calendar saved');
+      await fetchCalendar();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save calendar');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (isLoading || !settings) {
+    return (
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold">Program Calendar</h1>
+          <p className="text-muted-foreground">Program days, breaks and unlock dates</p>
+        </div>
+        <Card>
+          <CardContent className="pt-6">
+            <div className="space-y-4">
+              {[...Array(4)].map((_, i) => (
+                <Skeleton key={i} className="h-16 w-full" />
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const scheduled = getScheduledDates(settings);
+  const titles = new Map(days.map((d) => [d.day, d.title]));
+  const today = programToday();
+  const overrideCount = scheduled.filter((_, i) => overrides[i + 1]).length;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <Link href="/admin" className="text-sm text-muted-foreground hover:underline flex items-center gap-1 mb-2">
+            <ArrowLeft className="h-4 w-4" />
+            Admin Panel
+          </Link>
+          <h1 className="text-3xl font-bold flex items-center gap-2">
+            <CalendarDays className="h-8 w-8 text-[#0062FF]" />
+            Program Calendar
+          </h1>
+          <p className="text-muted-foreground">
+            Decides which mission days are unlocked, the live program day, intel releases and deadline reminders.
+            {currentDay > 0 && ` Today is program day ${currentDay}.`}
+          </p>
+        </div>
+        <Button onClick={handleSave} disabled={isSaving} className="bg-[#0062FF] hover:bg-[#0052D9]">
+          {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+          Save Calendar
+        </Button>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-3">
+        <Card>
+          <CardHeader>
+            <CardTitle>Schedule</CardTitle>
+            <CardDescription>Program days fall on weekdays from the start date.</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="start-date">Start date (day 1)</Label>
+              <Input
+                id="start-date"
+                type="date"
+                value={settings.start_date}
+                onChange={(e) => e.target.value && update({ start_date: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="total-days">Program days</Label>
+              <Input
+                id="total-days"
+                type="number"
+                min={1}
+                max={100}
+                value={settings.total_days}
+                onChange={(e) => update({ total_days: Math.max(1, Math.round(Number(e.target.value))) })}
+              />
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Break Weeks</CardTitle>
+            <CardDescription>Whole weeks without program days.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <DateList
+              id="break-week"
+              label="Weeks"
+              description="Pick any date in the week; it is stored as that week's Monday."
+              dates={settings.break_weeks}
+              onChange={(dates) => update({ break_weeks: [...new Set(dates.map(weekStart))].sort() })}
+            />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Holidays</CardTitle>
+            <CardDescription>Single days without a program day.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <DateList
+              id="holiday"
+              label="Dates"
+              description="Later program days shift to the next available weekday."
+              dates={settings.holidays}
+              onChange={(dates) => update({ holidays: dates })}
+            />
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Per-day schedule */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>Unlock Dates</CardTitle>
+              <CardDescription>
+                Scheduled dates follow the settings above. Set an override to unlock a single day on a different date.
+              </CardDescription>
+            </div>
+            <Button variant="outline" size="sm" disabled={overrideCount === 0} onClick={() => setOverrides({})}>
+              <RotateCcw className="mr-2 h-4 w-4" />
+              Clear {overrideCount} Override{overrideCount === 1 ? '' : 's'}
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-16">Day</TableHead>
+                <TableHead>Title</TableHead>
+                <TableHead>Scheduled</TableHead>
+                <TableHead>Override</TableHead>
+                <TableHead>Status</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {scheduled.map((date, i) => {
+                const day = i + 1;
+                const override = overrides[day] || null;
+                const unlockDate = override ?? date;
+                return (
+                  <TableRow key={day}>
+                    <TableCell className="font-medium">{day}</TableCell>
+                    <TableCell>{titles.get(day) ?? <span className="text-muted-foreground">-</span>}</TableCell>
+                    <TableCell className={override ? 'text-muted-foreground line-through' : ''}>
+                      {formatDate(date)}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        <Input
+                          type="date"
+                          className="w-40"
+                          value={override ?? ''}
+                          onChange={(e) => setOverrides({ ...overrides, [day]: e.target.value || null })}
+                        />
+                        {override && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => setOverrides({ ...overrides, [day]: null })}
+                            aria-label={`Clear override for day ${day}`}
+                          >
+                            <X className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      {unlockDate <= today ? (
+                        <Badge variant="secondary">Unlocked</Badge>
+                      ) : (
+                        <Badge variant="outline">Locked</Badge>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
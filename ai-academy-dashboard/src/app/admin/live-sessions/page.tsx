@@ -0,0 +1,363 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Skeleton } from '@/components/ui/skeleton';
+import { LiveSessionSchedule } from '@/components/LiveSessionSchedule';
+import { ArrowLeft, Clock, Download, Loader2, LogOut, Radio, UserX, Users } from 'lucide-react';
+import Link from 'next/link';
+import { format } from 'date-fns';
+import {
+  ATTENDED_MIN_PERCENT,
+  attendanceReportCsv,
+  formatDuration,
+  timelineCsv,
+  type LiveSessionReport,
+} from '@/lib/liveAttendance';
+
+interface SessionRow {
+  id: string;
+  join_code: string | null;
+  started_at: string;
+  ended_at: string | null;
+  is_active: boolean;
+  mission_day: { day: number; title: string } | null;
+  instructor_name: string | null;
+  attendee_count: number;
+}
+
+const SECTION_LABELS: Record<string, string> = {
+  briefing: 'Briefing',
+  resources: 'Resources',
+  lab: 'Lab',
+  debrief: 'Debrief',
+};
+
+function downloadCsv(content: string, filename: string) {
+  const blob = new Blob(['\ufeff' + content], { type: 'text/csv;charset=utf-8;' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+function formatTime(value: string | null) {
+  return value ? format(new Date(value), 'HH:mm') : '-';
+}
+
+export default function AdminLiveSessionsPage() {
+  const [sessions, setSessions] = useState<SessionRow[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [report, setReport] = useState<LiveSessionReport | null>(null);
+  const [isLoadingReport, setIsLoadingReport] = useState(false);
+
+  useEffect(() => {
+    const fetchSessions = async () => {
+      try {
+        const response = await fetch('/api/admin/live-sessions');
+
+        if (!response.ok) {
+          console.error('Failed to fetch live sessions:', response.status);
+          return;
+        }
+
+        const data = await response.json();
+        setSessions(data.sessions as SessionRow[]);
+      } catch (error) {
+        console.error('Error fetching live sessions:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchSessions();
+  }, []);
+
+  const selectSession = async (id: string) => {
+    setSelectedId(id);
+    setIsLoadingReport(true);
+
+    try {
+      const response = await fetch(`/api/admin/live-sessions/${id}`);
+
+      if (!response.ok) {
+        console.error('Failed to fetch session report:', response.status);
+        setReport(null);
+        return;
+      }
+
+      const data = await response.json();
+      setReport(data.report as LiveSessionReport);
+    } catch (error) {
+      console.error('Error fetching session report:', error);
+    } finally {
+      setIsLoadingReport(false);
+    }
+  };
+
+  const filePrefix = report
+    ? `live-session-day${report.session.mission_day?.day ?? 'x'}-${format(new Date(report.session.started_at), 'yyyy-MM-dd')}`
+    : '';
+  const lateCount = report?.attendance.filter((a) => a.is_late).length ?? 0;
+  const dropOffCount = report?.attendance.filter((a) => a.dropped_off).length ?? 0;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <Link href="/admin" className="text-sm text-muted-foreground hover:underline flex items-center gap-1 mb-2">
+          <ArrowLeft className="h-4 w-4" />
+          Admin Panel
+        </Link>
+        <h1 className="text-3xl font-bold flex items-center gap-2">
+          <Radio className="h-8 w-8 text-[#0062FF]" />
+          Live Session Reports
+        </h1>
+        <p className="text-muted-foreground">Upcoming sessions, and attendance, late joins, drop-offs and the step timeline of each past session</p>
+      </div>
+
+      <LiveSessionSchedule />
+
+      <div className="grid gap-6 lg:grid-cols-3">
+        {/* Sessions */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Sessions</CardTitle>
+            <CardDescription>Most recent first</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {isLoading ? (
+              [...Array(4)].map((_, i) => <Skeleton key={i} className="h-14 w-full" />)
+            ) : sessions.length === 0 ? (
+              <p className="text-center py-4 text-sm text-muted-foreground">No live sessions yet</p>
+            ) : (
+              sessions.map((session) => (
+                <button
+                  key={session.id}
+                  type="button"
+                  onClick={() => selectSession(session.id)}
+                  className={`w-full text-left p-3 rounded-lg border transition-colors ${
+                    selectedId === session.id ? 'border-[#0062FF] bg-[#0062FF]/5' : 'hover:bg-muted/50'
+                  }`}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-medium truncate">
+                      {session.mission_day
+                        ? `Day ${session.mission_day.day}: ${session.mission_day.title}`
+                        : 'Live session'}
+                    </span>
+                    {session.is_active && <Badge className="bg-green-500">Live</Badge>}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {format(new Date(session.started_at), 'd MMM yyyy, HH:mm')}
+                    {session.instructor_name && ` • ${session.instructor_name}`}
+                    {` • ${session.attendee_count} joined`}
+                  </p>
+                </button>
+              ))
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Report */}
+        <div className="lg:col-span-2 space-y-6">
+          {!selectedId ? (
+            <Card>
+              <CardContent className="py-12 text-center text-muted-foreground">
+                Select a session to see its report
+              </CardContent>
+            </Card>
+          ) : isLoadingReport || !report ? (
+            <Card>
+              <CardContent className="py-12 flex justify-center">
+                {isLoadingReport ? (
+                  <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+                ) : (
+                  <span className="text-muted-foreground">Report not available</span>
+                )}
+              </CardContent>
+            </Card>
+          ) : (
+            <>
+              <div className="grid gap-4 sm:grid-cols-4">
+                <Card>
+                  <CardContent className="pt-6">
+                    <div className="flex items-center gap-2 text-muted-foreground text-sm">
+                      <Clock className="h-4 w-4" />
+                      Duration
+                    </div>
+                    <p className="text-2xl font-bold">{formatDuration(report.duration_seconds)}</p>
+                  </CardContent>
+                </Card>
+                <Card>
+                  <CardContent className="pt-6">
+                    <div className="flex items-center gap-2 text-muted-foreground text-sm">
+                      <Users className="h-4 w-4" />
+                      Attended
+                    </div>
+                    <p className="text-2xl font-bold">
+                      {report.attendance.filter((a) => a.attended).length} / {report.attendance.length + report.absent.length}
+                    </p>
+                  </CardContent>
+                </Card>
+                <Card>
+                  <CardContent className="pt-6">
+                    <div className="flex items-center gap-2 text-muted-foreground text-sm">
+                      <Clock className="h-4 w-4" />
+                      Late Joins
+                    </div>
+                    <p className="text-2xl font-bold">{lateCount}</p>
+                  </CardContent>
+                </Card>
+                <Card>
+                  <CardContent className="pt-6">
+                    <div className="flex items-center gap-2 text-muted-foreground text-sm">
+                      <LogOut className="h-4 w-4" />
+                      Drop-offs
+                    </div>
+                    <p className="text-2xl font-bold">{dropOffCount}</p>
+                  </CardContent>
+                </Card>
+              </div>
+
+              <Tabs defaultValue="attendance">
+                <div className="flex items-center justify-between gap-2">
+                  <TabsList>
+                    <TabsTrigger value="attendance">Attendance</TabsTrigger>
+                    <TabsTrigger value="timeline">Timeline</TabsTrigger>
+                  </TabsList>
+                  <div className="flex gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => downloadCsv(attendanceReportCsv(report), `${filePrefix}-attendance.csv`)}
+                    >
+                      <Download className="mr-2 h-4 w-4" />
+                      Attendance CSV
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => downloadCsv(timelineCsv(report), `${filePrefix}-timeline.csv`)}
+                    >
+                      <Download className="mr-2 h-4 w-4" />
+                      Timeline CSV
+                    </Button>
+                  </div>
+                </div>
+
+                <TabsContent value="attendance">
+                  <Card>
+                    <CardContent className="pt-6">
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>Name</TableHead>
+                            <TableHead>Joined</TableHead>
+                            <TableHead>Left</TableHead>
+                            <TableHead className="text-right">Present</TableHead>
+                            <TableHead>Flags</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {report.attendance.map((row) => (
+                            <TableRow key={row.participant_id}>
+                              <TableCell className="font-medium">{row.name}</TableCell>
+                              <TableCell>{formatTime(row.joined_at)}</TableCell>
+                              <TableCell>{formatTime(row.left_at)}</TableCell>
+                              <TableCell className="text-right">
+                                {formatDuration(row.attended_seconds)}
+                                <span className="text-muted-foreground"> ({row.attendance_percent}%)</span>
+                              </TableCell>
+                              <TableCell className="space-x-1">
+                                {row.is_late && (
+                                  <Badge variant="outline" className="text-amber-500">
+                                    Late {row.late_minutes}m
+                                  </Badge>
+                                )}
+                                {row.dropped_off && (
+                                  <Badge variant="outline" className="text-orange-500">Dropped off</Badge>
+                                )}
+                                {row.leave_count > 0 && !row.dropped_off && (
+                                  <Badge variant="outline">Left {row.leave_count}x</Badge>
+                                )}
+                                {!row.attended && <Badge variant="destructive">Below {ATTENDED_MIN_PERCENT}%</Badge>}
+                              </TableCell>
+                            </TableRow>
+                          ))}
+                          {report.absent.map((row) => (
+                            <TableRow key={row.participant_id} className="opacity-70">
+                              <TableCell className="font-medium">{row.name}</TableCell>
+                              <TableCell colSpan={3} className="text-muted-foreground">Did not join</TableCell>
+                              <TableCell>
+                                <Badge variant="destructive" className="gap-1">
+                                  <UserX className="h-3 w-3" />
+                                  Absent
+                                </Badge>
+                              </TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    </CardContent>
+                  </Card>
+                </TabsContent>
+
+                <TabsContent value="timeline">
+                  <Card>
+                    <CardContent className="pt-6 space-y-4">
+                      <div className="flex flex-wrap gap-2">
+                        {Object.entries(report.section_seconds).map(([section, seconds]) => (
+                          <Badge key={section} variant="secondary">
+                            {SECTION_LABELS[section] ?? section}: {formatDuration(seconds)}
+                          </Badge>
+                        ))}
+                      </div>
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>Started</TableHead>
+                            <TableHead>Section</TableHead>
+                            <TableHead>Step</TableHead>
+                            <TableHead className="text-right">Ran For</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {report.timeline.map((segment) => (
+                            <TableRow key={segment.started_at}>
+                              <TableCell>{formatTime(segment.started_at)}</TableCell>
+                              <TableCell>{SECTION_LABELS[segment.section] ?? segment.section}</TableCell>
+                              <TableCell>{segment.step}</TableCell>
+                              <TableCell className="text-right">
+                                {formatDuration(segment.duration_seconds)}
+                                {!segment.ended_at && <Badge className="ml-2 bg-green-500">Now</Badge>}
+                              </TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    </CardContent>
+                  </Card>
+                </TabsContent>
+              </Tabs>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
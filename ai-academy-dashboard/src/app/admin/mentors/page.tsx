@@ -0,0 +1,331 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Skeleton } from '@/components/ui/skeleton';
+import { ArrowLeft, Loader2, Plus, UserCheck, Wand2 } from 'lucide-react';
+import Link from 'next/link';
+import { toast } from 'sonner';
+import { cn } from '@/lib/utils';
+import { REVIEW_SLA_HOURS, type MentorLoad } from '@/lib/mentorAssignment';
+import type { RoleType } from '@/lib/types';
+
+const ROLES: RoleType[] = ['FDE', 'AI-SE', 'AI-PM', 'AI-DA', 'AI-DS', 'AI-SEC', 'AI-FE'];
+
+interface Reviewer {
+  id: string;
+  name: string;
+  email: string;
+  avatar_url: string | null;
+  is_admin: boolean;
+  is_mentor: boolean;
+  pool: MentorLoad | null;
+}
+
+interface MentorsData {
+  mentors: Reviewer[];
+  unassigned_count: number;
+}
+
+async function loadMentors(): Promise<MentorsData | null> {
+  try {
+    const response = await fetch('/api/admin/mentors');
+    if (!response.ok) {
+      console.error('Failed to fetch mentors:', response.status);
+      return null;
+    }
+    return (await response.json()) as MentorsData;
+  } catch (error) {
+    console.error('Error fetching mentors:', error);
+    return null;
+  }
+}
+
+export default function AdminMentorsPage() {
+  const [data, setData] = useState<MentorsData | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [isAssigning, setIsAssigning] = useState(false);
+
+  const fetchMentors = useCallback(async () => {
+    const loaded = await loadMentors();
+    if (loaded) setData(loaded);
+  }, []);
+
+  useEffect(() => {
+    loadMentors().then((loaded) => {
+      if (loaded) setData(loaded);
+      setIsLoading(false);
+    });
+  }, []);
+
+  const savePool = async (
+    participantId: string,
+    settings: { capacity?: number; expertise?: RoleType[]; is_active?: boolean }
+  ) => {
+    setSavingId(participantId);
+    try {
+      const response = await fetch('/api/admin/mentors', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ participant_id: participantId, ...settings }),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.details || result.error || 'Failed to save mentor');
+      }
+
+      await fetchMentors();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save mentor');
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const toggleExpertise = (pool: MentorLoad, role: RoleType) => {
+    const expertise = pool.expertise.includes(role)
+      ? pool.expertise.filter((r) => r !== role)
+      : [...pool.expertise, role];
+    savePool(pool.participant_id, { expertise });
+  };
+
+  const assignPending = async () => {
+    setIsAssigning(true);
+    try {
+      const response = await fetch('/api/admin/review-assignments', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({}),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Assignment failed');
+      }
+
+      if (result.unassigned > 0) {
+        toast.warning(`${result.assigned} assigned, ${result.unassigned} still waiting for a mentor with capacity`);
+      } else {
+        toast.success(`${result.assigned} submissions assigned`);
+      }
+      await fetchMentors();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Assignment failed');
+    } finally {
+      setIsAssigning(false);
+    }
+  };
+
+  if (isLoading || !data) {
+    return (
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold">Mentor Pool</h1>
+          <p className="text-muted-foreground">Reviewer capacity and expertise</p>
+        </div>
+        <Card>
+          <CardContent className="pt-6">
+            <div className="space-y-4">
+              {[...Array(4)].map((_, i) => (
+                <Skeleton key={i} className="h-16 w-full" />
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const pooled = data.mentors.filter((m) => m.pool);
+  const openReviews = pooled.reduce((sum, m) => sum + (m.pool?.open_count ?? 0), 0);
+  const overdueReviews = pooled.reduce((sum, m) => sum + (m.pool?.overdue_count ?? 0), 0);
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <Link href="/admin" className="text-sm text-muted-foreground hover:underline flex items-center gap-1 mb-2">
+            <ArrowLeft className="h-4 w-4" />
+            Admin Panel
+          </Link>
+          <h1 className="text-3xl font-bold flex items-center gap-2">
+            <UserCheck className="h-8 w-8 text-[#0062FF]" />
+            Mentor Pool
+          </h1>
+          <p className="text-muted-foreground">
+            New submissions go to an active mentor with free capacity, preferring expertise in the participant&apos;s
+            role. Reviews open longer than {REVIEW_SLA_HOURS} hours move to another mentor.
+          </p>
+        </div>
+        <Button
+          className="bg-[#0062FF] hover:bg-[#0052D9]"
+          onClick={assignPending}
+          disabled={isAssigning || data.unassigned_count === 0}
+        >
+          {isAssigning ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Wand2 className="mr-2 h-4 w-4" />}
+          Assign Unassigned ({data.unassigned_count})
+        </Button>
+      </div>
+
+      {/* Stats */}
+      <div className="grid gap-4 md:grid-cols-3">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Active mentors</CardDescription>
+            <CardTitle className="text-3xl">{pooled.filter((m) => m.pool?.is_active).length}</CardTitle>
+          </CardHeader>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Open reviews</CardDescription>
+            <CardTitle className="text-3xl">{openReviews}</CardTitle>
+          </CardHeader>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Overdue reviews</CardDescription>
+            <CardTitle className={cn('text-3xl', overdueReviews > 0 && 'text-red-500')}>{overdueReviews}</CardTitle>
+          </CardHeader>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Reviewers</CardTitle>
+          <CardDescription>
+            Mentors and admins. Expertise matches participant roles; mentors without any review every role.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Reviewer</TableHead>
+                <TableHead>Active</TableHead>
+                <TableHead>Capacity</TableHead>
+                <TableHead>Load</TableHead>
+                <TableHead>Expertise</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {data.mentors.map((mentor) => (
+                <TableRow key={mentor.id}>
+                  <TableCell>
+                    <div className="flex items-center gap-3">
+                      <Avatar className="h-8 w-8">
+                        <AvatarImage src={mentor.avatar_url ?? undefined} />
+                        <AvatarFallback>
+                          {mentor.name
+                            ?.split(' ')
+                            .map((n) => n[0])
+                            .join('') || '?'}
+                        </AvatarFallback>
+                      </Avatar>
+                      <div>
+                        <p className="font-medium">{mentor.name}</p>
+                        <div className="flex items-center gap-1">
+                          {mentor.is_admin && <Badge variant="outline" className="text-xs">Admin</Badge>}
+                          {mentor.is_mentor && <Badge variant="secondary" className="text-xs">Mentor</Badge>}
+                        </div>
+                      </div>
+                    </div>
+                  </TableCell>
+                  {mentor.pool ? (
+                    <>
+                      <TableCell>
+                        <Switch
+                          checked={mentor.pool.is_active}
+                          disabled={savingId === mentor.id}
+                          onCheckedChange={(checked) => savePool(mentor.id, { is_active: checked })}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          key={`${mentor.id}-${mentor.pool.capacity}`}
+                          type="number"
+                          min={1}
+                          max={100}
+                          className="w-20"
+                          defaultValue={mentor.pool.capacity}
+                          disabled={savingId === mentor.id}
+                          onBlur={(e) => {
+                            const capacity = Number(e.target.value);
+                            if (capacity !== mentor.pool?.capacity) savePool(mentor.id, { capacity });
+                          }}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-1">
+                          <span className={cn(mentor.pool.open_count >= mentor.pool.capacity && 'text-orange-500')}>
+                            {mentor.pool.open_count}/{mentor.pool.capacity}
+                          </span>
+                          {mentor.pool.overdue_count > 0 && (
+                            <Badge variant="destructive" className="text-xs">
+                              {mentor.pool.overdue_count} overdue
+                            </Badge>
+                          )}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          {ROLES.map((role) => {
+                            const selected = mentor.pool?.expertise.includes(role);
+                            return (
+                              <Badge
+                                key={role}
+                                variant={selected ? 'default' : 'outline'}
+                                className={cn(
+                                  'cursor-pointer text-xs',
+                                  selected ? 'bg-[#0062FF]' : 'text-muted-foreground'
+                                )}
+                                onClick={() => savingId !== mentor.id && mentor.pool && toggleExpertise(mentor.pool, role)}
+                              >
+                                {role}
+                              </Badge>
+                            );
+                          })}
+                        </div>
+                      </TableCell>
+                    </>
+                  ) : (
+                    <TableCell colSpan={4}>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={savingId === mentor.id}
+                        onClick={() => savePool(mentor.id, {})}
+                      >
+                        {savingId === mentor.id ? (
+                          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                        ) : (
+                          <Plus className="mr-2 h-4 w-4" />
+                        )}
+                        Add to pool
+                      </Button>
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -34,6 +34,7 @@ import {
 } from '@/components/ui/dialog';
 import { ReviewForm } from '@/components/ReviewForm';
 import { SubmissionComments } from '@/components/SubmissionComments';
+import { SubmissionRevisionHistory } from '@/components/SubmissionRevisionHistory';
 import { useParticipant } from '@/components/ParticipantProvider';
 import { Skeleton } from '@/components/ui/skeleton';
 import { formatDistanceToNow, format } from 'date-fns';
@@ -56,6 +57,14 @@ import {
   Radio,
   Users,
   Target,
+  History,
+  Webhook,
+  Calculator,
+  CalendarDays,
+  UserCheck,
+  ListChecks,
+  ClipboardList,
+  Shuffle,
 } from 'lucide-react';
 import Link from 'next/link';
 import { toast } from 'sonner';
@@ -77,6 +86,12 @@ const STATUSES: { value: SubmissionStatus; label: string }[] = [
   { value: 'needs_revision', label: 'Needs Revision' },
 ];
 
+// Awaiting review: never reviewed, or resubmitted since the last review
+function isPendingReview(s: SubmissionWithDetails): boolean {
+  if (s.status !== 'submitted' || s.withdrawn_at) return false;
+  return !s.mentor_rating || (s.reviewed_revision !== null && s.current_revision > s.reviewed_revision);
+}
+
 // Mission stats type
 interface MissionStats {
   pendingIntel: number;
@@ -167,7 +182,7 @@ export default function AdminPage() {
 
     // Tab filter
     if (activeTab === 'pending') {
-      filtered = filtered.filter((s) => s.status === 'submitted' && !s.mentor_rating);
+      filtered = filtered.filter(isPendingReview);
     }
 
     // Search filter
@@ -209,7 +224,7 @@ export default function AdminPage() {
   }, [activeTab, searchQuery, teamFilter, roleFilter, weekFilter, statusFilter]);
 
   // Stats
-  const pendingCount = allSubmissions.filter((s) => s.status === 'submitted' && !s.mentor_rating).length;
+  const pendingCount = allSubmissions.filter(isPendingReview).length;
   const reviewedCount = allSubmissions.filter((s) => s.mentor_rating !== null).length;
   const approvedCount = allSubmissions.filter((s) => s.status === 'approved').length;
   const needsRevisionCount = allSubmissions.filter((s) => s.status === 'needs_revision').length;
@@ -264,6 +279,11 @@ export default function AdminPage() {
       }
 
       toast.success(`Successfully reviewed ${result.updated_count} submissions`);
+      if (result.skipped_rubric_ids?.length > 0) {
+        toast.warning(
+          `${result.skipped_rubric_ids.length} submissions use a rubric and were skipped - review them one by one`
+        );
+      }
       setIsBulkDialogOpen(false);
       setBulkRating('');
       setBulkStatus('');
@@ -406,6 +426,54 @@ export default function AdminPage() {
                   Task Forces
                 </Button>
               </Link>
+              <Link href="/admin/webhooks">
+                <Button variant="outline" className="w-full justify-start" size="sm">
+                  <Webhook className="mr-2 h-4 w-4 text-purple-500" />
+                  Webhook Log
+                </Button>
+              </Link>
+              <Link href="/admin/scoring">
+                <Button variant="outline" className="w-full justify-start" size="sm">
+                  <Calculator className="mr-2 h-4 w-4 text-[#0062FF]" />
+                  Scoring Policy
+                </Button>
+              </Link>
+              <Link href="/admin/rubrics">
+                <Button variant="outline" className="w-full justify-start" size="sm">
+                  <ListChecks className="mr-2 h-4 w-4 text-[#0062FF]" />
+                  Review Rubrics
+                </Button>
+              </Link>
+              <Link href="/admin/calendar">
+                <Button variant="outline" className="w-full justify-start" size="sm">
+                  <CalendarDays className="mr-2 h-4 w-4 text-[#0062FF]" />
+                  Program Calendar
+                </Button>
+              </Link>
+              <Link href="/admin/live-sessions">
+                <Button variant="outline" className="w-full justify-start" size="sm">
+                  <Radio className="mr-2 h-4 w-4 text-[#0062FF]" />
+                  Live Session Reports
+                </Button>
+              </Link>
+              <Link href="/admin/mentors">
+                <Button variant="outline" className="w-full justify-start" size="sm">
+                  <UserCheck className="mr-2 h-4 w-4 text-[#0062FF]" />
+                  Mentor Pool
+                </Button>
+              </Link>
+              <Link href="/admin/peer-reviews">
+                <Button variant="outline" className="w-full justify-start" size="sm">
+                  <Shuffle className="mr-2 h-4 w-4 text-[#0062FF]" />
+                  Peer Reviews
+                </Button>
+              </Link>
+              <Link href="/admin/prerequisites">
+                <Button variant="outline" className="w-full justify-start" size="sm">
+                  <ClipboardList className="mr-2 h-4 w-4 text-[#0062FF]" />
+                  Setup Checklist
+                </Button>
+              </Link>
             </div>
           </div>
         </CardContent>
@@ -879,9 +947,30 @@ function SubmissionsTable({
                 <p className="font-medium">
                   Day {sub.assignments?.day}: {sub.assignments?.title}
                 </p>
-                <Badge variant="outline" className="text-xs">
-                  {sub.assignments?.type === 'in_class' ? 'In-Class' : 'Homework'}
-                </Badge>
+                <div className="flex items-center gap-1">
+                  <Badge variant="outline" className="text-xs">
+                    {sub.assignments?.type === 'in_class' ? 'In-Class' : 'Homework'}
+                  </Badge>
+                  {sub.current_revision > 1 && (
+                    <Badge variant="secondary" className="text-xs">
+                      Rev {sub.current_revision}
+                    </Badge>
+                  )}
+                  {sub.reviewed_revision !== null && sub.current_revision > sub.reviewed_revision && (
+                    <Badge className="bg-orange-500 text-xs">Changed since review</Badge>
+                  )}
+                  {sub.mentor_id && isPendingReview(sub) && (
+                    <Badge variant="outline" className="text-xs">
+                      <UserCheck className="mr-1 h-3 w-3" />
+                      {participants.find((p) => p.id === sub.mentor_id)?.name ?? 'Assigned'}
+                    </Badge>
+                  )}
+                  {sub.readme_analysis && sub.readme_analysis.sections.some((s) => s.required && !s.complete) && (
+                    <Badge variant="outline" className="text-xs text-orange-600">
+                      README {sub.readme_analysis.completeness}%
+                    </Badge>
+                  )}
+                </div>
               </div>
             </TableCell>
             <TableCell>
@@ -917,6 +1006,9 @@ function SubmissionsTable({
                 {sub.status === 'submitted' && (
                   <Badge variant="secondary">Submitted</Badge>
                 )}
+                {sub.withdrawn_at && (
+                  <Badge variant="outline" className="ml-1 text-muted-foreground">Withdrawn</Badge>
+                )}
               </TableCell>
             )}
             <TableCell className="text-muted-foreground">
@@ -933,6 +1025,19 @@ function SubmissionsTable({
                   onReviewComplete={onReviewComplete}
                   existingRating={sub.mentor_rating ?? undefined}
                   existingNotes={sub.mentor_notes ?? undefined}
+                  readmeAnalysis={sub.readme_analysis}
+                  rubric={sub.assignments?.rubric}
+                  existingRubricScores={sub.rubric_scores}
+                />
+                <SubmissionRevisionHistory
+                  submissionId={sub.id}
+                  participantName={sub.participants?.name || 'Unknown'}
+                  assignmentTitle={`Day ${sub.assignments?.day}: ${sub.assignments?.title}`}
+                  trigger={
+                    <Button size="sm" variant="ghost">
+                      <History className="h-4 w-4" />
+                    </Button>
+                  }
                 />
                 <SubmissionComments
                   submissionId={sub.id}
@@ -0,0 +1,410 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Badge } from '@/components/ui/badge';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ArrowLeft, Check, Flag, Loader2, Shuffle, Trash2, Users } from 'lucide-react';
+import Link from 'next/link';
+import { toast } from 'sonner';
+import { getSupabaseClient } from '@/lib/supabase';
+import { cn } from '@/lib/utils';
+import {
+  DEFAULT_PEER_REVIEWS_PER_SUBMISSION,
+  PEER_REVIEW_DUE_HOURS,
+  type DayAssignmentSummary,
+} from '@/lib/peerReviewMatching';
+import type { ReviewerCalibration } from '@/lib/peerCalibration';
+import { PEER_REVIEW_FLAG_REASONS } from '@/lib/peerReviewResponses';
+import type { PeerReviewFlagReason } from '@/lib/types';
+
+interface CalibrationRow extends ReviewerCalibration {
+  name: string;
+  email: string | null;
+  role: string | null;
+  avg_quality: number | null;
+  bonus_points: number;
+}
+
+async function loadCalibration(): Promise<CalibrationRow[] | null> {
+  try {
+    const response = await fetch('/api/admin/peer-calibration');
+    if (!response.ok) {
+      console.error('Failed to fetch peer calibration:', response.status);
+      return null;
+    }
+    const { reviewers } = await response.json();
+    return reviewers as CalibrationRow[];
+  } catch (error) {
+    console.error('Error fetching peer calibration:', error);
+    return null;
+  }
+}
+
+interface FlaggedReview {
+  id: string;
+  rating: number | null;
+  feedback: string | null;
+  author_reply: string | null;
+  flag_reason: PeerReviewFlagReason;
+  flag_details: string | null;
+  flagged_at: string;
+  bonus_points_earned: number;
+  reviewer: { name: string; email: string | null } | null;
+  submissions: {
+    participants: { name: string } | null;
+    assignments: { title: string; day: number } | null;
+  } | null;
+}
+
+async function loadFlags(): Promise<FlaggedReview[] | null> {
+  try {
+    const response = await fetch('/api/admin/peer-review-flags');
+    if (!response.ok) {
+      console.error('Failed to fetch flagged reviews:', response.status);
+      return null;
+    }
+    const { flags } = await response.json();
+    return flags as FlaggedReview[];
+  } catch (error) {
+    console.error('Error fetching flagged reviews:', error);
+    return null;
+  }
+}
+
+function formatGap(value: number | null, signed = false): string {
+  if (value === null) return '-';
+  return `${signed && value > 0 ? '+' : ''}${value.toFixed(2)}`;
+}
+
+export default function AdminPeerReviewsPage() {
+  const [days, setDays] = useState<number[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [day, setDay] = useState<string>('');
+  const [count, setCount] = useState(DEFAULT_PEER_REVIEWS_PER_SUBMISSION);
+  const [crossRole, setCrossRole] = useState(false);
+  const [isAssigning, setIsAssigning] = useState(false);
+  const [summary, setSummary] = useState<(DayAssignmentSummary & { day: number }) | null>(null);
+  const [calibration, setCalibration] = useState<CalibrationRow[] | null>(null);
+  const [flags, setFlags] = useState<FlaggedReview[]>([]);
+  const [moderatingId, setModeratingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    getSupabaseClient()
+      .from('assignments')
+      .select('day')
+      .order('day')
+      .then(({ data }) => {
+        setDays([...new Set((data ?? []).map((a) => a.day as number))]);
+        setIsLoading(false);
+      });
+    loadCalibration().then((rows) => setCalibration(rows ?? []));
+    loadFlags().then((rows) => setFlags(rows ?? []));
+  }, []);
+
+  const moderate = async (peerReviewId: string, decision: 'dismiss' | 'remove') => {
+    setModeratingId(peerReviewId);
+
+    try {
+      const response = await fetch('/api/admin/peer-review-flags', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ peer_review_id: peerReviewId, decision }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.details || data.error || 'Failed to moderate review');
+      }
+
+      setFlags((current) => current.filter((f) => f.id !== peerReviewId));
+      toast.success(decision === 'remove' ? 'Feedback removed' : 'Flag dismissed');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to moderate review');
+    } finally {
+      setModeratingId(null);
+    }
+  };
+
+  const assignDay = async () => {
+    if (!day) return;
+    setIsAssigning(true);
+
+    try {
+      const response = await fetch('/api/peer-review', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action: 'assign_day', day: Number(day), count, cross_role: crossRole }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.details || data.error || 'Failed to assign peer reviews');
+      }
+
+      setSummary({ day: Number(day), submissions: data.submissions, assigned: data.assigned, short: data.short });
+      toast.success(
+        data.submissions === 0
+          ? `Every Day ${day} submission already has its peer reviewers`
+          : `Assigned ${data.assigned} peer reviews across ${data.submissions} submissions`
+      );
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to assign peer reviews');
+    } finally {
+      setIsAssigning(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold">Peer Reviews</h1>
+          <p className="text-muted-foreground">Match peer reviewers to submissions</p>
+        </div>
+        <Skeleton className="h-48 w-full" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <Link href="/admin" className="text-sm text-muted-foreground hover:underline flex items-center gap-1 mb-2">
+          <ArrowLeft className="h-4 w-4" />
+          Admin Panel
+        </Link>
+        <h1 className="text-3xl font-bold flex items-center gap-2">
+          <Users className="h-8 w-8 text-[#0062FF]" />
+          Peer Reviews
+        </h1>
+        <p className="text-muted-foreground">
+          Reviewers are matched by pending load, preferring peers who did the same assignment and avoiding reciprocal
+          pairs, teammates and task force colleagues.
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Assign a day</CardTitle>
+          <CardDescription>
+            Tops up every submission of the day to the chosen number of reviewers. Reviewers who skipped a submission
+            are not asked again. Each review is due {PEER_REVIEW_DUE_HOURS} hours after it is assigned; expired and
+            skipped reviews are handed to a new reviewer every hour.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap items-end gap-4">
+            <div className="space-y-1">
+              <Label>Day</Label>
+              <Select value={day} onValueChange={setDay}>
+                <SelectTrigger className="w-40">
+                  <SelectValue placeholder="Select day" />
+                </SelectTrigger>
+                <SelectContent>
+                  {days.map((d) => (
+                    <SelectItem key={d} value={String(d)}>
+                      Day {d}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="reviewer-count">Reviewers per submission</Label>
+              <Input
+                id="reviewer-count"
+                type="number"
+                min={1}
+                max={5}
+                value={count}
+                onChange={(e) => setCount(Number(e.target.value))}
+                className="w-24"
+              />
+            </div>
+            <div className="flex items-center gap-2 pb-2">
+              <Switch id="cross-role" checked={crossRole} onCheckedChange={setCrossRole} />
+              <Label htmlFor="cross-role">Require a different role</Label>
+            </div>
+            <Button
+              className="bg-[#0062FF] hover:bg-[#0052D9]"
+              disabled={!day || isAssigning}
+              onClick={assignDay}
+            >
+              {isAssigning ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Shuffle className="mr-2 h-4 w-4" />}
+              Assign unreviewed submissions
+            </Button>
+          </div>
+
+          {summary && (
+            <div className="rounded-lg border p-4 text-sm space-y-1">
+              <p>
+                Day {summary.day}: {summary.assigned} reviews assigned to {summary.submissions} submissions.
+              </p>
+              {summary.short.length > 0 && (
+                <p className="text-orange-500">
+                  {summary.short.length} submissions got fewer reviewers than asked for. Not enough eligible peers
+                  {crossRole ? ' with a different role' : ''}.
+                </p>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Moderation queue */}
+      {flags.length > 0 && (
+        <Card className="border-orange-500/50">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Flag className="h-5 w-5 text-orange-500" />
+              Flagged feedback ({flags.length})
+            </CardTitle>
+            <CardDescription>
+              Reported by the submission&apos;s author. Removing hides the feedback from the author and takes back the
+              reviewer&apos;s bonus points for it.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {flags.map((flag) => (
+              <div key={flag.id} className="rounded-lg border p-4 space-y-2">
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <p className="text-sm font-medium">
+                    Day {flag.submissions?.assignments?.day}: {flag.submissions?.assignments?.title}
+                  </p>
+                  <Badge variant="outline">{PEER_REVIEW_FLAG_REASONS[flag.flag_reason]}</Badge>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {flag.reviewer?.name ?? 'Unknown'} reviewed {flag.submissions?.participants?.name ?? 'Unknown'}
+                  {flag.rating !== null && ` · ${flag.rating}/5`} · {flag.bonus_points_earned} bonus points
+                </p>
+                <p className="text-sm italic">&quot;{flag.feedback ?? ''}&quot;</p>
+                {flag.flag_details && (
+                  <p className="text-sm text-muted-foreground">Author: {flag.flag_details}</p>
+                )}
+                <div className="flex justify-end gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={moderatingId === flag.id}
+                    onClick={() => moderate(flag.id, 'dismiss')}
+                  >
+                    <Check className="mr-2 h-4 w-4" />
+                    Dismiss
+                  </Button>
+                  <Button
+                    variant="destructive"
+                    size="sm"
+                    disabled={moderatingId === flag.id}
+                    onClick={() => moderate(flag.id, 'remove')}
+                  >
+                    {moderatingId === flag.id ? (
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    ) : (
+                      <Trash2 className="mr-2 h-4 w-4" />
+                    )}
+                    Remove feedback
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Calibration report */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Reviewer calibration</CardTitle>
+          <CardDescription>
+            Reliability compares each reviewer&apos;s ratings with the mentor&apos;s and with other peers on the same
+            submission. It weights the peer rating authors see. Leniency is the average gap to the mentor, positive
+            means more generous. Least reliable reviewers first.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {!calibration ? (
+            <Skeleton className="h-32 w-full" />
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Reviewer</TableHead>
+                  <TableHead className="text-right">Reviews</TableHead>
+                  <TableHead className="text-right">Reliability</TableHead>
+                  <TableHead className="text-right">Gap to mentor</TableHead>
+                  <TableHead className="text-right">Gap to peers</TableHead>
+                  <TableHead className="text-right">Leniency</TableHead>
+                  <TableHead className="text-right">Feedback quality</TableHead>
+                  <TableHead className="text-right">Bonus</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {calibration.map((row) => (
+                  <TableRow key={row.reviewer_id}>
+                    <TableCell>
+                      <p className="font-medium">{row.name}</p>
+                      <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                        {row.role && <Badge variant="outline">{row.role}</Badge>}
+                        {row.email}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-right">{row.reviews}</TableCell>
+                    <TableCell
+                      className={cn(
+                        'text-right font-medium',
+                        row.reliability < 0.5 ? 'text-red-500' : row.reliability >= 0.75 && 'text-green-600'
+                      )}
+                    >
+                      {Math.round(row.reliability * 100)}%
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {formatGap(row.mentor_gap)}
+                      <span className="ml-1 text-xs text-muted-foreground">({row.mentor_comparisons})</span>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {formatGap(row.peer_gap)}
+                      <span className="ml-1 text-xs text-muted-foreground">({row.peer_comparisons})</span>
+                    </TableCell>
+                    <TableCell className="text-right">{formatGap(row.leniency, true)}</TableCell>
+                    <TableCell className="text-right">
+                      {row.avg_quality !== null ? `${Math.round(row.avg_quality * 100)}%` : '-'}
+                    </TableCell>
+                    <TableCell className="text-right">{row.bonus_points}</TableCell>
+                  </TableRow>
+                ))}
+                {calibration.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={8} className="py-8 text-center text-muted-foreground">
+                      No completed peer reviews yet
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,256 @@
+'use client';
+
+import { Fragment, useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Progress } from '@/components/ui/progress';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Skeleton } from '@/components/ui/skeleton';
+import { ArrowLeft, CheckCircle2, ChevronDown, ChevronRight, ClipboardList, Loader2, XCircle } from 'lucide-react';
+import Link from 'next/link';
+import { cn } from '@/lib/utils';
+import {
+  PREREQUISITE_CATEGORY_ICONS,
+  type ParticipantPrerequisitesSummary,
+  type PrerequisiteStats,
+  type PrerequisiteWithStatus,
+} from '@/lib/types';
+
+interface PrerequisitesData {
+  participants: ParticipantPrerequisitesSummary[];
+  stats: PrerequisiteStats[];
+}
+
+async function loadPrerequisites(): Promise<PrerequisitesData | null> {
+  try {
+    const response = await fetch('/api/admin/prerequisites');
+    if (!response.ok) {
+      console.error('Failed to fetch prerequisites:', response.status);
+      return null;
+    }
+    return (await response.json()) as PrerequisitesData;
+  } catch (error) {
+    console.error('Error fetching prerequisites:', error);
+    return null;
+  }
+}
+
+export default function AdminPrerequisitesPage() {
+  const [data, setData] = useState<PrerequisitesData | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [search, setSearch] = useState('');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [details, setDetails] = useState<Record<string, PrerequisiteWithStatus[]>>({});
+
+  useEffect(() => {
+    loadPrerequisites().then((loaded) => {
+      if (loaded) setData(loaded);
+      setIsLoading(false);
+    });
+  }, []);
+
+  const toggleParticipant = async (participantId: string) => {
+    if (expandedId === participantId) {
+      setExpandedId(null);
+      return;
+    }
+    setExpandedId(participantId);
+    if (details[participantId]) return;
+
+    try {
+      const response = await fetch(`/api/admin/prerequisites?participant_id=${participantId}`);
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      const { items } = await response.json();
+      setDetails((current) => ({ ...current, [participantId]: items }));
+    } catch (error) {
+      console.error('Error fetching participant checklist:', error);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold">Setup Checklist</h1>
+          <p className="text-muted-foreground">Prerequisite completion across participants</p>
+        </div>
+        <Card>
+          <CardContent className="pt-6">
+            <div className="space-y-4">
+              {[...Array(5)].map((_, i) => (
+                <Skeleton key={i} className="h-12 w-full" />
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const participants = data?.participants ?? [];
+  const stats = data?.stats ?? [];
+  const ready = participants.filter((p) => p.required_completed === p.required_total).length;
+  const query = search.trim().toLowerCase();
+  const filtered = query
+    ? participants.filter((p) => p.name.toLowerCase().includes(query) || p.email.toLowerCase().includes(query))
+    : participants;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <Link href="/admin" className="text-sm text-muted-foreground hover:underline flex items-center gap-1 mb-2">
+          <ArrowLeft className="h-4 w-4" />
+          Admin Panel
+        </Link>
+        <h1 className="text-3xl font-bold flex items-center gap-2">
+          <ClipboardList className="h-8 w-8 text-[#0062FF]" />
+          Setup Checklist
+        </h1>
+        <p className="text-muted-foreground">
+          {ready} of {participants.length} approved participants have every required item done. The others cannot join
+          live sessions yet.
+        </p>
+      </div>
+
+      {/* Per-item stats */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Items</CardTitle>
+          <CardDescription>Share of approved participants who ticked each item</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {stats.map((item) => (
+            <div key={item.id} className="flex items-center gap-3">
+              <span className="w-6 text-center">{PREREQUISITE_CATEGORY_ICONS[item.category]}</span>
+              <span className="w-56 truncate text-sm">
+                {item.name}
+                {!item.is_required && <span className="ml-1 text-xs text-muted-foreground">(optional)</span>}
+              </span>
+              <Progress value={Number(item.completion_pct ?? 0)} className="h-2 flex-1" />
+              <span
+                className={cn(
+                  'w-24 text-right text-sm',
+                  item.is_required && Number(item.completion_pct ?? 0) < 100 && 'text-orange-500'
+                )}
+              >
+                {item.completed_count}/{item.total_participants}
+              </span>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      {/* Per-participant completion */}
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between gap-4">
+          <CardTitle>Participants</CardTitle>
+          <Input
+            placeholder="Search by name or email"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            className="max-w-xs"
+          />
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Participant</TableHead>
+                <TableHead>Role</TableHead>
+                <TableHead>Required</TableHead>
+                <TableHead className="text-right">Overall</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {filtered.map((p) => {
+                const isExpanded = expandedId === p.participant_id;
+                const items = details[p.participant_id];
+
+                return (
+                  <Fragment key={p.participant_id}>
+                    <TableRow className="cursor-pointer" onClick={() => toggleParticipant(p.participant_id)}>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          {isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                          <div>
+                            <p className="font-medium">{p.name}</p>
+                            <p className="text-xs text-muted-foreground">{p.email}</p>
+                          </div>
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        {p.role && <Badge variant="outline">{p.role}</Badge>}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          <Progress value={Number(p.required_completion_pct ?? 0)} className="h-2 w-24" />
+                          <span
+                            className={cn(
+                              'text-sm',
+                              p.required_completed === p.required_total ? 'text-green-600' : 'text-orange-500'
+                            )}
+                          >
+                            {p.required_completed}/{p.required_total}
+                          </span>
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-right text-sm">
+                        {p.completed_count}/{p.total_items}
+                      </TableCell>
+                    </TableRow>
+                    {isExpanded && (
+                      <TableRow>
+                        <TableCell colSpan={4} className="bg-muted/30">
+                          {!items ? (
+                            <Loader2 className="h-4 w-4 animate-spin" />
+                          ) : (
+                            <div className="grid gap-2 sm:grid-cols-2">
+                              {items.map((item) => (
+                                <div key={item.id} className="flex items-start gap-2 text-sm">
+                                  {item.is_completed ? (
+                                    <CheckCircle2 className="mt-0.5 h-4 w-4 shrink-0 text-green-600" />
+                                  ) : (
+                                    <XCircle
+                                      className={cn(
+                                        'mt-0.5 h-4 w-4 shrink-0',
+                                        item.is_required ? 'text-red-500' : 'text-muted-foreground'
+                                      )}
+                                    />
+                                  )}
+                                  <div>
+                                    <p>{item.name}</p>
+                                    {item.notes && <p className="text-xs italic text-muted-foreground">{item.notes}</p>}
+                                  </div>
+                                </div>
+                              ))}
+                            </div>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </Fragment>
+                );
+              })}
+              {filtered.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={4} className="py-8 text-center text-muted-foreground">
+                    No participants found
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
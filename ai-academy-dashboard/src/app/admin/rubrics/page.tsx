@@ -0,0 +1,362 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Skeleton } from '@/components/ui/skeleton';
+import { ArrowLeft, ListChecks, Loader2, Plus, Save, Trash2, X } from 'lucide-react';
+import Link from 'next/link';
+import { toast } from 'sonner';
+import { cn } from '@/lib/utils';
+import { criterionMaxScore } from '@/lib/rubric';
+import { getSupabaseClient } from '@/lib/supabase';
+import type { Assignment, Rubric, RubricCriterion, RubricLevel } from '@/lib/types';
+
+type AssignmentOption = Pick<Assignment, 'id' | 'day' | 'type' | 'title' | 'rubric'>;
+
+const DEFAULT_LEVELS: RubricLevel[] = [
+  { score: 1, label: 'Beginning', description: '' },
+  { score: 2, label: 'Developing', description: '' },
+  { score: 3, label: 'Proficient', description: '' },
+  { score: 4, label: 'Exemplary', description: '' },
+];
+
+function newCriterion(): RubricCriterion {
+  return {
+    // Keys stay stable when the criterion is renamed
+    key: `c${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+    name: '',
+    weight: 1,
+    levels: DEFAULT_LEVELS.map((level) => ({ ...level })),
+  };
+}
+
+export default function AdminRubricsPage() {
+  const [assignments, setAssignments] = useState<AssignmentOption[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<Rubric | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    getSupabaseClient()
+      .from('assignments')
+      .select('id, day, type, title, rubric')
+      .order('day')
+      .order('type')
+      .then(({ data }) => {
+        setAssignments((data as AssignmentOption[]) ?? []);
+        setIsLoading(false);
+      });
+  }, []);
+
+  const selected = assignments.find((a) => a.id === selectedId) ?? null;
+
+  const selectAssignment = (assignment: AssignmentOption) => {
+    setSelectedId(assignment.id);
+    setDraft(assignment.rubric ? structuredClone(assignment.rubric) : null);
+  };
+
+  const updateCriterion = (index: number, changes: Partial<RubricCriterion>) => {
+    setDraft((current) =>
+      current
+        ? { criteria: current.criteria.map((c, i) => (i === index ? { ...c, ...changes } : c)) }
+        : current
+    );
+  };
+
+  const updateLevel = (criterionIndex: number, levelIndex: number, changes: Partial<RubricLevel>) => {
+    const criterion = draft?.criteria[criterionIndex];
+    if (!criterion) return;
+    updateCriterion(criterionIndex, {
+      levels: criterion.levels.map((l, i) => (i === levelIndex ? { ...l, ...changes } : l)),
+    });
+  };
+
+  const saveRubric = async () => {
+    if (!selected || !draft) return;
+    setIsSaving(true);
+
+    try {
+      const response = await fetch(`/api/admin/assignments/${selected.id}/rubric`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ rubric: draft }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.details || data.error || 'Failed to save rubric');
+      }
+
+      setAssignments((current) => current.map((a) => (a.id === selected.id ? { ...a, rubric: data.rubric } : a)));
+      toast.success('Rubric saved');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save rubric');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const removeRubric = async () => {
+    if (!selected) return;
+    setIsSaving(true);
+
+    try {
+      const response = await fetch(`/api/admin/assignments/${selected.id}/rubric`, { method: 'DELETE' });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to remove rubric');
+      }
+
+      setAssignments((current) => current.map((a) => (a.id === selected.id ? { ...a, rubric: null } : a)));
+      setDraft(null);
+      toast.success('Rubric removed, reviews use a single rating again');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to remove rubric');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold">Review Rubrics</h1>
+          <p className="text-muted-foreground">Criteria mentors score submissions against</p>
+        </div>
+        <Card>
+          <CardContent className="pt-6">
+            <div className="space-y-4">
+              {[...Array(4)].map((_, i) => (
+                <Skeleton key={i} className="h-16 w-full" />
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const totalWeight = draft?.criteria.reduce((sum, c) => sum + (c.weight || 0), 0) ?? 0;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <Link href="/admin" className="text-sm text-muted-foreground hover:underline flex items-center gap-1 mb-2">
+          <ArrowLeft className="h-4 w-4" />
+          Admin Panel
+        </Link>
+        <h1 className="text-3xl font-bold flex items-center gap-2">
+          <ListChecks className="h-8 w-8 text-[#0062FF]" />
+          Review Rubrics
+        </h1>
+        <p className="text-muted-foreground">
+          Mentors pick a level per criterion. The weighted score sets the 1-5 rating and scales the points of the
+          submission.
+        </p>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-[320px_1fr]">
+        <Card>
+          <CardHeader>
+            <CardTitle>Assignments</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-1">
+            {assignments.map((assignment) => (
+              <button
+                key={assignment.id}
+                type="button"
+                onClick={() => selectAssignment(assignment)}
+                className={cn(
+                  'flex w-full items-center justify-between gap-2 rounded-md px-3 py-2 text-left text-sm hover:bg-accent',
+                  assignment.id === selectedId && 'bg-accent'
+                )}
+              >
+                <span className="truncate">
+                  Day {assignment.day}: {assignment.title}
+                </span>
+                {assignment.rubric && (
+                  <Badge variant="secondary" className="shrink-0 text-xs">
+                    {assignment.rubric.criteria.length} criteria
+                  </Badge>
+                )}
+              </button>
+            ))}
+          </CardContent>
+        </Card>
+
+        {!selected ? (
+          <Card>
+            <CardContent className="py-12 text-center text-muted-foreground">
+              Select an assignment to edit its rubric
+            </CardContent>
+          </Card>
+        ) : (
+          <Card>
+            <CardHeader>
+              <CardTitle>
+                Day {selected.day}: {selected.title}
+              </CardTitle>
+              <CardDescription>
+                {draft
+                  ? 'Past reviews keep the criteria they were scored against.'
+                  : 'Reviewed with a single 1-5 rating.'}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              {!draft ? (
+                <Button variant="outline" onClick={() => setDraft({ criteria: [newCriterion()] })}>
+                  <Plus className="mr-2 h-4 w-4" />
+                  Create Rubric
+                </Button>
+              ) : (
+                <>
+                  {draft.criteria.map((criterion, criterionIndex) => (
+                    <div key={criterion.key} className="space-y-3 rounded-lg border p-4">
+                      <div className="flex items-end gap-3">
+                        <div className="flex-1 space-y-1">
+                          <Label htmlFor={`${criterion.key}-name`}>Criterion</Label>
+                          <Input
+                            id={`${criterion.key}-name`}
+                            value={criterion.name}
+                            placeholder="e.g. Problem framing"
+                            maxLength={100}
+                            onChange={(e) => updateCriterion(criterionIndex, { name: e.target.value })}
+                          />
+                        </div>
+                        <div className="w-28 space-y-1">
+                          <Label htmlFor={`${criterion.key}-weight`}>
+                            Weight
+                            {totalWeight > 0 && (
+                              <span className="ml-1 text-xs font-normal text-muted-foreground">
+                                {Math.round(((criterion.weight || 0) / totalWeight) * 100)}%
+                              </span>
+                            )}
+                          </Label>
+                          <Input
+                            id={`${criterion.key}-weight`}
+                            type="number"
+                            min={1}
+                            max={100}
+                            value={criterion.weight}
+                            onChange={(e) => updateCriterion(criterionIndex, { weight: Number(e.target.value) })}
+                          />
+                        </div>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          disabled={draft.criteria.length === 1}
+                          onClick={() =>
+                            setDraft({ criteria: draft.criteria.filter((_, i) => i !== criterionIndex) })
+                          }
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+
+                      <div className="space-y-2">
+                        {criterion.levels.map((level, levelIndex) => (
+                          <div key={levelIndex} className="flex items-start gap-2">
+                            <Input
+                              type="number"
+                              min={0}
+                              max={100}
+                              className="w-20"
+                              aria-label="Score"
+                              value={level.score}
+                              onChange={(e) => updateLevel(criterionIndex, levelIndex, { score: Number(e.target.value) })}
+                            />
+                            <Input
+                              className="w-36"
+                              aria-label="Level"
+                              value={level.label}
+                              maxLength={50}
+                              onChange={(e) => updateLevel(criterionIndex, levelIndex, { label: e.target.value })}
+                            />
+                            <Textarea
+                              rows={1}
+                              className="min-h-9 flex-1"
+                              aria-label="Descriptor"
+                              placeholder="What work at this level looks like"
+                              value={level.description}
+                              maxLength={500}
+                              onChange={(e) => updateLevel(criterionIndex, levelIndex, { description: e.target.value })}
+                            />
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              disabled={criterion.levels.length <= 2}
+                              onClick={() =>
+                                updateCriterion(criterionIndex, {
+                                  levels: criterion.levels.filter((_, i) => i !== levelIndex),
+                                })
+                              }
+                            >
+                              <X className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        ))}
+                        {criterion.levels.length < 6 && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() =>
+                              updateCriterion(criterionIndex, {
+                                levels: [
+                                  ...criterion.levels,
+                                  { score: criterionMaxScore(criterion) + 1, label: '', description: '' },
+                                ],
+                              })
+                            }
+                          >
+                            <Plus className="mr-1 h-4 w-4" />
+                            Level
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+
+                  <div className="flex flex-wrap justify-between gap-2">
+                    <Button
+                      variant="outline"
+                      disabled={draft.criteria.length >= 20}
+                      onClick={() => setDraft({ criteria: [...draft.criteria, newCriterion()] })}
+                    >
+                      <Plus className="mr-2 h-4 w-4" />
+                      Add Criterion
+                    </Button>
+                    <div className="flex gap-2">
+                      {selected.rubric && (
+                        <Button variant="outline" disabled={isSaving} onClick={removeRubric}>
+                          <Trash2 className="mr-2 h-4 w-4" />
+                          Remove Rubric
+                        </Button>
+                      )}
+                      <Button
+                        className="bg-[#0062FF] hover:bg-[#0052D9]"
+                        disabled={isSaving}
+                        onClick={saveRubric}
+                      >
+                        {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+                        Save Rubric
+                      </Button>
+                    </div>
+                  </div>
+                </>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
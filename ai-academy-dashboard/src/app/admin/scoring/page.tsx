@@ -0,0 +1,418 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Skeleton } from '@/components/ui/skeleton';
+import { ArrowLeft, Calculator, Loader2, RotateCcw, Save, AlertTriangle } from 'lucide-react';
+import Link from 'next/link';
+import { toast } from 'sonner';
+import { calculatePoints, DEFAULT_MAX_POINTS } from '@/lib/scoring';
+import type { ScoringPolicy } from '@/lib/types';
+
+// Example submissions for the preview table (hours relative to the deadline)
+const PREVIEW_CASES = [
+  { label: '2 days early', hours: -48 },
+  { label: 'On time', hours: -1 },
+  { label: '2 hours late', hours: 2 },
+  { label: '1 day late', hours: 24 },
+  { label: '3 days late', hours: 72 },
+  { label: '1 week late', hours: 168 },
+];
+
+const RATINGS = ['1', '2', '3', '4', '5'];
+
+function NumberField({
+  id,
+  label,
+  value,
+  onChange,
+  step = 1,
+}: {
+  id: string;
+  label: string;
+  value: number;
+  onChange: (value: number) => void;
+  step?: number;
+}) {
+  return (
+    <div className="space-y-2">
+      <Label htmlFor={id}>{label}</Label>
+      <Input
+        id={id}
+        type="number"
+        min={0}
+        step={step}
+        value={value}
+        onChange={(e) => onChange(Number(e.target.value))}
+      />
+    </div>
+  );
+}
+
+export default function AdminScoringPage() {
+  const [policy, setPolicy] = useState<ScoringPolicy | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isRecalculating, setIsRecalculating] = useState(false);
+  const [confirmOpen, setConfirmOpen] = useState(false);
+
+  useEffect(() => {
+    const fetchPolicy = async () => {
+      try {
+        const response = await fetch('/api/admin/scoring');
+
+        if (!response.ok) {
+          console.error('Failed to fetch scoring policy:', response.status);
+          return;
+        }
+
+        const data = await response.json();
+        setPolicy(data.policy as ScoringPolicy);
+      } catch (error) {
+        console.error('Error fetching scoring policy:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchPolicy();
+  }, []);
+
+  const update = (changes: Partial<ScoringPolicy>) => {
+    setPolicy((current) => (current ? { ...current, ...changes } : current));
+  };
+
+  const handleSave = async () => {
+    if (!policy) return;
+    setIsSaving(true);
+
+    try {
+      const response = await fetch('/api/admin/scoring', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ policy }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.details || data.error || 'Failed to save policy');
+      }
+
+      toast.success('Scoring policy saved. Recalculate points to apply it to existing submissions.');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save policy');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRecalculate = async () => {
+    setIsRecalculating(true);
+
+    try {
+      const response = await fetch('/api/admin/scoring/recalculate', { method: 'POST' });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Recalculation failed');
+      }
+
+      toast.success(`Points recalculated: ${data.updated} changed, ${data.unchanged} unchanged`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Recalculation failed');
+    } finally {
+      setIsRecalculating(false);
+      setConfirmOpen(false);
+    }
+  };
+
+  if (isLoading || !policy) {
+    return (
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold">Scoring Policy</h1>
+          <p className="text-muted-foreground">Late penalties and bonuses</p>
+        </div>
+        <Card>
+          <CardContent className="pt-6">
+            <div className="space-y-4">
+              {[...Array(4)].map((_, i) => (
+                <Skeleton key={i} className="h-16 w-full" />
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const dueAt = new Date('2026-02-01T18:00:00Z');
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <Link href="/admin" className="text-sm text-muted-foreground hover:underline flex items-center gap-1 mb-2">
+            <ArrowLeft className="h-4 w-4" />
+            Admin Panel
+          </Link>
+          <h1 className="text-3xl font-bold flex items-center gap-2">
+            <Calculator className="h-8 w-8 text-[#0062FF]" />
+            Scoring Policy
+          </h1>
+          <p className="text-muted-foreground">
+            Applied to every submission by the GitHub webhook and mentor reviews. Assignments can override it individually.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => setConfirmOpen(true)} disabled={isRecalculating}>
+            <RotateCcw className="mr-2 h-4 w-4" />
+            Recalculate All Points
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving} className="bg-[#0062FF] hover:bg-[#0052D9]">
+            {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+            Save Policy
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        {/* Late penalty */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Late Submissions</CardTitle>
+            <CardDescription>Lateness is measured from the first revision, so resubmitting never costs points.</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <NumberField
+              id="grace"
+              label="Grace period (hours)"
+              value={policy.grace_period_hours}
+              onChange={(value) => update({ grace_period_hours: value })}
+            />
+            <div className="grid gap-4 sm:grid-cols-3">
+              <div className="space-y-2">
+                <Label>Penalty unit</Label>
+                <Select
+                  value={policy.late_penalty.unit}
+                  onValueChange={(unit) =>
+                    update({ late_penalty: { ...policy.late_penalty, unit: unit as 'hour' | 'day' } })
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="hour">Per hour</SelectItem>
+                    <SelectItem value="day">Per day</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <NumberField
+                id="percent-per-unit"
+                label="% per unit"
+                value={policy.late_penalty.percent_per_unit}
+                onChange={(value) => update({ late_penalty: { ...policy.late_penalty, percent_per_unit: value } })}
+              />
+              <NumberField
+                id="max-percent"
+                label="Max %"
+                value={policy.late_penalty.max_percent}
+                onChange={(value) => update({ late_penalty: { ...policy.late_penalty, max_percent: value } })}
+              />
+            </div>
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <Label htmlFor="zero-cutoff">Zero points after a cutoff</Label>
+                <p className="text-sm text-muted-foreground">Submissions later than this earn nothing</p>
+              </div>
+              <Switch
+                id="zero-cutoff"
+                checked={policy.zero_after_days !== null}
+                onCheckedChange={(checked) => update({ zero_after_days: checked ? 7 : null })}
+              />
+            </div>
+            {policy.zero_after_days !== null && (
+              <NumberField
+                id="zero-after-days"
+                label="Cutoff (days late)"
+                value={policy.zero_after_days}
+                onChange={(value) => update({ zero_after_days: Math.max(1, Math.round(value)) })}
+              />
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Bonuses */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Bonuses</CardTitle>
+            <CardDescription>Rewards for early work and strong mentor reviews.</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <Label htmlFor="early-bonus">Early submission bonus</Label>
+                <p className="text-sm text-muted-foreground">Extra points for submitting well before the deadline</p>
+              </div>
+              <Switch
+                id="early-bonus"
+                checked={policy.early_bonus !== null}
+                onCheckedChange={(checked) =>
+                  update({ early_bonus: checked ? { hours_before_due: 24, percent: 10 } : null })
+                }
+              />
+            </div>
+            {policy.early_bonus && (
+              <div className="grid gap-4 sm:grid-cols-2">
+                <NumberField
+                  id="early-hours"
+                  label="Hours before deadline"
+                  value={policy.early_bonus.hours_before_due}
+                  onChange={(value) =>
+                    update({ early_bonus: { ...policy.early_bonus!, hours_before_due: value } })
+                  }
+                />
+                <NumberField
+                  id="early-percent"
+                  label="Bonus %"
+                  value={policy.early_bonus.percent}
+                  onChange={(value) => update({ early_bonus: { ...policy.early_bonus!, percent: value } })}
+                />
+              </div>
+            )}
+
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <Label htmlFor="rating-multipliers">Mentor rating multiplier</Label>
+                <p className="text-sm text-muted-foreground">Scale points by the mentor&apos;s rating</p>
+              </div>
+              <Switch
+                id="rating-multipliers"
+                checked={policy.mentor_rating_multipliers !== null}
+                onCheckedChange={(checked) =>
+                  update({
+                    mentor_rating_multipliers: checked
+                      ? { '1': 0.8, '2': 0.9, '3': 1, '4': 1.1, '5': 1.2 }
+                      : null,
+                  })
+                }
+              />
+            </div>
+            {policy.mentor_rating_multipliers && (
+              <div className="grid grid-cols-5 gap-2">
+                {RATINGS.map((rating) => (
+                  <NumberField
+                    key={rating}
+                    id={`multiplier-${rating}`}
+                    label={`${rating}⭐`}
+                    step={0.05}
+                    value={policy.mentor_rating_multipliers![rating] ?? 1}
+                    onChange={(value) =>
+                      update({
+                        mentor_rating_multipliers: { ...policy.mentor_rating_multipliers!, [rating]: value },
+                      })
+                    }
+                  />
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Preview */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Preview</CardTitle>
+          <CardDescription>Points for a {DEFAULT_MAX_POINTS}-point assignment under the policy above</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Submitted</TableHead>
+                <TableHead>Late penalty</TableHead>
+                <TableHead>Early bonus</TableHead>
+                <TableHead>Points (no rating)</TableHead>
+                <TableHead>Points (5⭐)</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {PREVIEW_CASES.map((example) => {
+                const input = {
+                  maxPoints: DEFAULT_MAX_POINTS,
+                  dueAt: dueAt.toISOString(),
+                  submittedAt: new Date(dueAt.getTime() + example.hours * 3_600_000).toISOString(),
+                };
+                const unrated = calculatePoints(policy, { ...input, mentorRating: null });
+                const topRated = calculatePoints(policy, { ...input, mentorRating: 5 });
+                return (
+                  <TableRow key={example.label}>
+                    <TableCell>{example.label}</TableCell>
+                    <TableCell>{unrated.late_penalty > 0 ? `-${unrated.late_penalty}` : '-'}</TableCell>
+                    <TableCell>{unrated.early_bonus > 0 ? `+${unrated.early_bonus}` : '-'}</TableCell>
+                    <TableCell className="font-medium">{unrated.total}</TableCell>
+                    <TableCell className="font-medium">{topRated.total}</TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {/* Recalculate Confirmation Dialog */}
+      <AlertDialog open={confirmOpen} onOpenChange={setConfirmOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle className="flex items-center gap-2">
+              <AlertTriangle className="h-5 w-5 text-amber-500" />
+              Recalculate All Points
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              Every submission will be re-scored under the saved policy and the leaderboard updated. Unsaved changes on this page are not used.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isRecalculating}>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleRecalculate} disabled={isRecalculating}>
+              {isRecalculating && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Recalculate
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,311 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Skeleton } from '@/components/ui/skeleton';
+import { formatDistanceToNow } from 'date-fns';
+import {
+  Webhook,
+  RefreshCw,
+  Search,
+  RotateCcw,
+  Loader2,
+  AlertCircle,
+  ArrowLeft,
+} from 'lucide-react';
+import Link from 'next/link';
+import { toast } from 'sonner';
+import type { WebhookDeliveryWithParticipant, WebhookDeliveryOutcome } from '@/lib/types';
+
+const OUTCOMES: { value: WebhookDeliveryOutcome; label: string; className: string }[] = [
+  { value: 'processed', label: 'Processed', className: 'bg-green-500' },
+  { value: 'ignored', label: 'Ignored', className: 'bg-orange-500' },
+  { value: 'failed', label: 'Failed', className: 'bg-red-500' },
+  { value: 'pending', label: 'Pending', className: 'bg-gray-500' },
+];
+
+export default function AdminWebhooksPage() {
+  const [deliveries, setDeliveries] = useState<WebhookDeliveryWithParticipant[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [outcomeFilter, setOutcomeFilter] = useState<string>('all');
+  const [replayingId, setReplayingId] = useState<string | null>(null);
+
+  const fetchDeliveries = async () => {
+    try {
+      const response = await fetch('/api/admin/webhook-deliveries?limit=500');
+
+      if (!response.ok) {
+        console.error('Failed to fetch deliveries:', response.status);
+        return;
+      }
+
+      const data = await response.json();
+      setDeliveries(data.deliveries as WebhookDeliveryWithParticipant[]);
+    } catch (error) {
+      console.error('Error fetching deliveries:', error);
+    } finally {
+      setIsLoading(false);
+      setIsRefreshing(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchDeliveries();
+  }, []);
+
+  const handleRefresh = () => {
+    setIsRefreshing(true);
+    fetchDeliveries();
+  };
+
+  const handleReplay = async (delivery: WebhookDeliveryWithParticipant) => {
+    setReplayingId(delivery.id);
+
+    try {
+      const response = await fetch(`/api/admin/webhook-deliveries/${delivery.id}/replay`, {
+        method: 'POST',
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Replay failed');
+      }
+
+      if (data.outcome === 'processed') {
+        toast.success('Delivery replayed successfully');
+      } else {
+        toast.warning(`Replay ${data.outcome}: ${data.reason || 'no reason given'}`);
+      }
+
+      fetchDeliveries();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Replay failed');
+    } finally {
+      setReplayingId(null);
+    }
+  };
+
+  // Filter by participant (name or GitHub username) and outcome
+  const filteredDeliveries = deliveries.filter((d) => {
+    if (outcomeFilter !== 'all' && d.outcome !== outcomeFilter) {
+      return false;
+    }
+
+    if (searchQuery) {
+      const query = searchQuery.toLowerCase();
+      return (
+        d.github_username?.toLowerCase().includes(query) ||
+        d.participants?.name?.toLowerCase().includes(query) ||
+        d.delivery_id.toLowerCase().includes(query)
+      );
+    }
+
+    return true;
+  });
+
+  if (isLoading) {
+    return (
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold">Webhook Deliveries</h1>
+          <p className="text-muted-foreground">GitHub push log</p>
+        </div>
+        <Card>
+          <CardContent className="pt-6">
+            <div className="space-y-4">
+              {[...Array(5)].map((_, i) => (
+                <Skeleton key={i} className="h-16 w-full" />
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <Link href="/admin" className="text-sm text-muted-foreground hover:underline flex items-center gap-1 mb-2">
+            <ArrowLeft className="h-4 w-4" />
+            Admin Panel
+          </Link>
+          <h1 className="text-3xl font-bold flex items-center gap-2">
+            <Webhook className="h-8 w-8 text-[#0062FF]" />
+            Webhook Deliveries
+          </h1>
+          <p className="text-muted-foreground">
+            Every GitHub push received, with its outcome. Replay a delivery after fixing a username or assignment folder.
+          </p>
+        </div>
+        <Button variant="outline" onClick={handleRefresh} disabled={isRefreshing}>
+          <RefreshCw className={`mr-2 h-4 w-4 ${isRefreshing ? 'animate-spin' : ''}`} />
+          Refresh
+        </Button>
+      </div>
+
+      {/* Stats */}
+      <div className="grid gap-4 md:grid-cols-4">
+        {OUTCOMES.map((outcome) => (
+          <Card key={outcome.value}>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm font-medium text-muted-foreground">
+                {outcome.label}
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="text-3xl font-bold">
+                {deliveries.filter((d) => d.outcome === outcome.value).length}
+              </div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      {/* Filters */}
+      <Card>
+        <CardContent className="pt-6">
+          <div className="flex flex-wrap gap-4 items-end">
+            <div className="flex-1 min-w-[200px]">
+              <div className="relative">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                <Input
+                  placeholder="Filter by participant, GitHub username or delivery ID..."
+                  value={searchQuery}
+                  onChange={(e) => setSearchQuery(e.target.value)}
+                  className="pl-10"
+                />
+              </div>
+            </div>
+            <Select value={outcomeFilter} onValueChange={setOutcomeFilter}>
+              <SelectTrigger className="w-[160px]">
+                <SelectValue placeholder="Outcome" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Outcomes</SelectItem>
+                {OUTCOMES.map((outcome) => (
+                  <SelectItem key={outcome.value} value={outcome.value}>
+                    {outcome.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Deliveries Table */}
+      <Card>
+        <CardContent className="pt-6">
+          {filteredDeliveries.length === 0 ? (
+            <div className="text-center py-12">
+              <AlertCircle className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+              <p className="text-lg font-medium">No deliveries found</p>
+              <p className="text-muted-foreground">
+                {searchQuery || outcomeFilter !== 'all'
+                  ? 'Try changing filters.'
+                  : 'No webhook deliveries have been received yet.'}
+              </p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Received</TableHead>
+                  <TableHead>Participant</TableHead>
+                  <TableHead>Event</TableHead>
+                  <TableHead>Outcome</TableHead>
+                  <TableHead>Reason</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filteredDeliveries.map((delivery) => {
+                  const outcome = OUTCOMES.find((o) => o.value === delivery.outcome);
+                  return (
+                    <TableRow key={delivery.id}>
+                      <TableCell className="text-muted-foreground">
+                        <p>
+                          {formatDistanceToNow(new Date(delivery.received_at), { addSuffix: true })}
+                        </p>
+                        <code className="text-xs">{delivery.delivery_id.slice(0, 8)}</code>
+                      </TableCell>
+                      <TableCell>
+                        {delivery.participants ? (
+                          <Link
+                            href={`/participant/${delivery.participants.github_username}`}
+                            className="font-medium hover:underline"
+                          >
+                            {delivery.participants.name}
+                          </Link>
+                        ) : (
+                          <span className="text-muted-foreground">Unmatched</span>
+                        )}
+                        {delivery.github_username && (
+                          <p className="text-xs text-muted-foreground">@{delivery.github_username}</p>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="outline">{delivery.event}</Badge>
+                      </TableCell>
+                      <TableCell>
+                        <Badge className={outcome?.className}>{outcome?.label || delivery.outcome}</Badge>
+                        {delivery.replay_count > 0 && (
+                          <p className="text-xs text-muted-foreground mt-1">
+                            Replayed {delivery.replay_count}×
+                          </p>
+                        )}
+                      </TableCell>
+                      <TableCell className="max-w-[320px] text-sm">
+                        {delivery.reason || <span className="text-muted-foreground">-</span>}
+                      </TableCell>
+                      <TableCell>
+                        {delivery.event === 'push' && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => handleReplay(delivery)}
+                            disabled={replayingId !== null}
+                          >
+                            {replayingId === delivery.id ? (
+                              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                            ) : (
+                              <RotateCcw className="mr-2 h-4 w-4" />
+                            )}
+                            Replay
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -41,6 +41,13 @@ interface ActivityLogEntry {
   created_at: string;
 }
 
+interface LiveAttendanceEntry {
+  participant_id: string;
+  live_sessions_attended: number;
+  live_sessions_missed: number;
+  live_minutes_attended: number;
+}
+
 interface AnalyticsData {
   participants: Participant[];
   assignments: Assignment[];
@@ -48,6 +55,7 @@ interface AnalyticsData {
   leaderboard: LeaderboardView[];
   teamProgress: TeamProgress[];
   activityLog: ActivityLogEntry[];
+  liveAttendance: LiveAttendanceEntry[];
 }
 
 export default function AnalyticsPage() {
@@ -125,6 +133,7 @@ export default function AnalyticsPage() {
         leaderboard={data.leaderboard}
         teamProgress={data.teamProgress}
         activityLog={data.activityLog}
+        liveAttendance={data.liveAttendance}
       />
     </div>
   );
@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceSupabaseClient } from '@/lib/supabase';
+import { requireAdmin } from '@/lib/api-auth';
+import { rubricSchema, uuidSchema, validateInput, formatValidationErrors } from '@/lib/validation';
+import { logger } from '@/lib/logger';
+
+// PUT /api/admin/assignments/[id]/rubric - Set the review rubric of an assignment
+// Past reviews keep the criteria they were scored against.
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await requireAdmin(request);
+    if (!authResult.authenticated) {
+      return authResult.response;
+    }
+
+    const { id } = await params;
+    if (!uuidSchema.safeParse(id).success) {
+      return NextResponse.json({ error: 'Invalid assignment id' }, { status: 400 });
+    }
+
+    const body = await request.json();
+    const validation = validateInput(rubricSchema, body.rubric);
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: formatValidationErrors(validation.errors) },
+        { status: 400 }
+      );
+    }
+
+    const supabase = createServiceSupabaseClient();
+
+    const { data: assignment, error } = await supabase
+      .from('assignments')
+      .update({ rubric: validation.data })
+      .eq('id', id)
+      .select('id, rubric')
+      .maybeSingle();
+
+    if (error) {
+      console.error('Rubric update error:', error);
+      return NextResponse.json({ error: 'Failed to save rubric' }, { status: 500 });
+    }
+    if (!assignment) {
+      return NextResponse.json({ error: 'Assignment not found' }, { status: 404 });
+    }
+
+    logger.info('Assignment rubric updated', { assignmentId: id, updatedBy: authResult.user.id });
+
+    return NextResponse.json({ success: true, rubric: assignment.rubric });
+  } catch (error) {
+    console.error('Rubric update error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// DELETE /api/admin/assignments/[id]/rubric - Go back to a single 1-5 rating
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await requireAdmin(request);
+    if (!authResult.authenticated) {
+      return authResult.response;
+    }
+
+    const { id } = await params;
+    if (!uuidSchema.safeParse(id).success) {
+      return NextResponse.json({ error: 'Invalid assignment id' }, { status: 400 });
+    }
+
+    const supabase = createServiceSupabaseClient();
+
+    const { error } = await supabase
+      .from('assignments')
+      .update({ rubric: null })
+      .eq('id', id);
+
+    if (error) {
+      console.error('Rubric delete error:', error);
+      return NextResponse.json({ error: 'Failed to remove rubric' }, { status: 500 });
+    }
+
+    logger.info('Assignment rubric removed', { assignmentId: id, updatedBy: authResult.user.id });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Rubric delete error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
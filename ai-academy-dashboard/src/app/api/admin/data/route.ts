@@ -35,7 +35,7 @@ export async function GET(request: NextRequest) {
     const [submissionsResult, participantsResult, intelResult, sessionsResult, taskForcesResult] = await Promise.all([
       supabase
         .from('submissions')
-        .select('*, participants(name, github_username, avatar_url, role, team), assignments(title, day, type)')
+        .select('*, participants(name, github_username, avatar_url, role, team), assignments(title, day, type, rubric)')
         .order('submitted_at', { ascending: false }),
       supabase
         .from('participants')
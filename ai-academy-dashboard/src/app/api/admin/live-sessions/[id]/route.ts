@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceSupabaseClient } from '@/lib/supabase';
+import { requireAdminOrMentor } from '@/lib/api-auth';
+import { getSessionReport } from '@/lib/liveAttendance';
+
+// GET /api/admin/live-sessions/[id] - Attendance report and step timeline of a session
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await requireAdminOrMentor(request);
+    if (!authResult.authenticated) {
+      return authResult.response;
+    }
+
+    const { id } = await params;
+    const supabase = createServiceSupabaseClient();
+
+    const report = await getSessionReport(supabase, id);
+    if (!report) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ report });
+  } catch (error) {
+    console.error('Live session report error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceSupabaseClient } from '@/lib/supabase';
+import { requireAdminOrMentor } from '@/lib/api-auth';
+
+// GET /api/admin/live-sessions - Past and running live sessions with attendance counts
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await requireAdminOrMentor(request);
+    if (!authResult.authenticated) {
+      return authResult.response;
+    }
+
+    const supabase = createServiceSupabaseClient();
+
+    const { data: sessions, error } = await supabase
+      .from('live_sessions')
+      .select('id, join_code, started_at, ended_at, is_active, mission_days(day, title), instructor:instructor_id(name)')
+      .order('started_at', { ascending: false })
+      .limit(100);
+
+    if (error) {
+      console.error('Live sessions error:', error);
+      return NextResponse.json({ error: 'Failed to fetch live sessions' }, { status: 500 });
+    }
+
+    const sessionIds = (sessions || []).map((s) => s.id);
+    const { data: attendees } = sessionIds.length > 0
+      ? await supabase
+          .from('live_session_participants')
+          .select('session_id')
+          .in('session_id', sessionIds)
+      : { data: [] };
+
+    return NextResponse.json({
+      sessions: (sessions || []).map((session) => ({
+        id: session.id,
+        join_code: session.join_code,
+        started_at: session.started_at,
+        ended_at: session.ended_at,
+        is_active: session.is_active,
+        mission_day: session.mission_days as unknown as { day: number; title: string } | null,
+        instructor_name: (session.instructor as unknown as { name: string } | null)?.name ?? null,
+        attendee_count: (attendees || []).filter((a) => a.session_id === session.id).length,
+      })),
+    });
+  } catch (error) {
+    console.error('Live sessions error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceSupabaseClient } from '@/lib/supabase';
+import { requireAdmin } from '@/lib/api-auth';
+import { mentorPoolSchema, validateInput, formatValidationErrors } from '@/lib/validation';
+import { getMentorLoads } from '@/lib/mentorAssignment';
+import { logger } from '@/lib/logger';
+
+// GET /api/admin/mentors - Mentors and admins with their pool settings and review load
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await requireAdmin(request);
+    if (!authResult.authenticated) {
+      return authResult.response;
+    }
+
+    const supabase = createServiceSupabaseClient();
+
+    const [{ data: reviewers, error }, loads, { count: unassigned }] = await Promise.all([
+      supabase
+        .from('participants')
+        .select('id, name, email, avatar_url, is_admin, is_mentor')
+        .or('is_mentor.eq.true,is_admin.eq.true')
+        .order('name'),
+      getMentorLoads(supabase),
+      supabase
+        .from('submissions')
+        .select('id', { count: 'exact', head: true })
+        .eq('status', 'submitted')
+        .is('withdrawn_at', null)
+        .is('mentor_id', null),
+    ]);
+
+    if (error) {
+      console.error('Mentors fetch error:', error);
+      return NextResponse.json({ error: 'Failed to fetch mentors' }, { status: 500 });
+    }
+
+    const mentors = (reviewers || []).map((reviewer) => ({
+      ...reviewer,
+      pool: loads.find((load) => load.participant_id === reviewer.id) ?? null,
+    }));
+
+    return NextResponse.json({ mentors, unassigned_count: unassigned ?? 0 });
+  } catch (error) {
+    console.error('Mentors fetch error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// PUT /api/admin/mentors - Add a mentor to the pool or change capacity, expertise or status
+// Open assignments stay with a mentor who is deactivated; the SLA cron moves them when overdue.
+export async function PUT(request: NextRequest) {
+  try {
+    const authResult = await requireAdmin(request);
+    if (!authResult.authenticated) {
+      return authResult.response;
+    }
+
+    const body = await request.json();
+    const validation = validateInput(mentorPoolSchema, body);
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: formatValidationErrors(validation.errors) },
+        { status: 400 }
+      );
+    }
+
+    const { participant_id, ...settings } = validation.data;
+    const supabase = createServiceSupabaseClient();
+
+    const { data: participant } = await supabase
+      .from('participants')
+      .select('id, is_admin, is_mentor')
+      .eq('id', participant_id)
+      .single();
+
+    if (!participant?.is_admin && !participant?.is_mentor) {
+      return NextResponse.json({ error: 'Only mentors and admins can review submissions' }, { status: 400 });
+    }
+
+    const { data: entry, error } = await supabase
+      .from('mentor_pool')
+      .upsert({ participant_id, ...settings, updated_at: new Date().toISOString() })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Mentor pool update error:', error);
+      return NextResponse.json({ error: 'Failed to save mentor settings' }, { status: 500 });
+    }
+
+    logger.info('Mentor pool updated', { participantId: participant_id, updatedBy: authResult.user.id });
+
+    return NextResponse.json({ success: true, entry });
+  } catch (error) {
+    console.error('Mentor pool update error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
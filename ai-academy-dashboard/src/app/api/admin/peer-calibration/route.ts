@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceSupabaseClient } from '@/lib/supabase';
+import { requireAdmin } from '@/lib/api-auth';
+import { calibrateReviewers, loadCalibrationReviews } from '@/lib/peerCalibration';
+
+// GET /api/admin/peer-calibration - Reliability, leniency and feedback quality per peer reviewer
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await requireAdmin(request);
+    if (!authResult.authenticated) {
+      return authResult.response;
+    }
+
+    const supabase = createServiceSupabaseClient();
+    const [reviews, { data: quality, error: qualityError }] = await Promise.all([
+      loadCalibrationReviews(supabase),
+      supabase
+        .from('peer_reviews')
+        .select('reviewer_id, quality_score, bonus_points_earned')
+        .eq('status', 'completed'),
+    ]);
+
+    if (qualityError) {
+      console.error('Peer calibration quality error:', qualityError);
+      return NextResponse.json({ error: 'Failed to fetch peer calibration' }, { status: 500 });
+    }
+
+    const calibration = calibrateReviewers(reviews);
+    const reviewerIds = [...calibration.keys()];
+
+    const { data: participants, error: participantsError } = reviewerIds.length > 0
+      ? await supabase.from('participants').select('id, name, email, role').in('id', reviewerIds)
+      : { data: [], error: null };
+
+    if (participantsError) {
+      console.error('Peer calibration participants error:', participantsError);
+      return NextResponse.json({ error: 'Failed to fetch peer calibration' }, { status: 500 });
+    }
+
+    const qualityByReviewer = new Map<string, { scores: number[]; bonus: number }>();
+    for (const row of quality ?? []) {
+      const entry = qualityByReviewer.get(row.reviewer_id) ?? { scores: [], bonus: 0 };
+      if (row.quality_score !== null) entry.scores.push(Number(row.quality_score));
+      entry.bonus += row.bonus_points_earned ?? 0;
+      qualityByReviewer.set(row.reviewer_id, entry);
+    }
+
+    const participantById = new Map((participants ?? []).map((p) => [p.id as string, p]));
+    const reviewers = [...calibration.values()]
+      .map((c) => {
+        const participant = participantById.get(c.reviewer_id);
+        const q = qualityByReviewer.get(c.reviewer_id);
+        return {
+          ...c,
+          name: participant?.name ?? 'Unknown',
+          email: participant?.email ?? null,
+          role: participant?.role ?? null,
+          avg_quality: q && q.scores.length > 0
+            ? Math.round((q.scores.reduce((sum, s) => sum + s, 0) / q.scores.length) * 100) / 100
+            : null,
+          bonus_points: q?.bonus ?? 0,
+        };
+      })
+      .sort((a, b) => a.reliability - b.reliability);
+
+    return NextResponse.json({ reviewers, total_reviews: reviews.length });
+  } catch (error) {
+    console.error('Peer calibration error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
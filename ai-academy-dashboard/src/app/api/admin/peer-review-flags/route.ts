@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceSupabaseClient } from '@/lib/supabase';
+import { requireAdmin } from '@/lib/api-auth';
+import { logger } from '@/lib/logger';
+import { peerReviewModerationSchema, validateInput, formatValidationErrors } from '@/lib/validation';
+
+// GET /api/admin/peer-review-flags - Peer reviews flagged by their author and awaiting moderation
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await requireAdmin(request);
+    if (!authResult.authenticated) {
+      return authResult.response;
+    }
+
+    const supabase = createServiceSupabaseClient();
+    const { data, error } = await supabase
+      .from('peer_reviews')
+      .select(`
+        id, rating, feedback, author_reply, flag_reason, flag_details, flagged_at, bonus_points_earned,
+        reviewer:participants!reviewer_id(name, email),
+        submissions(participants!participant_id(name), assignments(title, day))
+      `)
+      .eq('moderation_status', 'pending')
+      .order('flagged_at');
+
+    if (error) {
+      console.error('Peer review flags fetch error:', error);
+      return NextResponse.json({ error: 'Failed to fetch flagged reviews' }, { status: 500 });
+    }
+
+    return NextResponse.json({ flags: data ?? [] });
+  } catch (error) {
+    console.error('Peer review flags error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// PATCH /api/admin/peer-review-flags - Dismiss a flag or remove the feedback.
+// Removing hides the feedback from the author and takes back the review's bonus points.
+export async function PATCH(request: NextRequest) {
+  try {
+    const authResult = await requireAdmin(request);
+    if (!authResult.authenticated) {
+      return authResult.response;
+    }
+
+    const body = await request.json();
+    const validation = validateInput(peerReviewModerationSchema, body);
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: formatValidationErrors(validation.errors) },
+        { status: 400 }
+      );
+    }
+
+    const { peer_review_id, decision } = validation.data;
+    const supabase = createServiceSupabaseClient();
+
+    const { data: review } = await supabase
+      .from('peer_reviews')
+      .select('id, reviewer_id, bonus_points_earned, moderation_status')
+      .eq('id', peer_review_id)
+      .single();
+
+    if (!review) {
+      return NextResponse.json({ error: 'Peer review not found' }, { status: 404 });
+    }
+
+    if (review.moderation_status !== 'pending') {
+      return NextResponse.json({ error: 'This review is not awaiting moderation' }, { status: 409 });
+    }
+
+    const removed = decision === 'remove';
+    const { data: updated, error } = await supabase
+      .from('peer_reviews')
+      .update({
+        moderation_status: removed ? 'removed' : 'dismissed',
+        moderated_by: authResult.user.participantId ?? null,
+        moderated_at: new Date().toISOString(),
+        ...(removed ? { bonus_points_earned: 0 } : {}),
+      })
+      .eq('id', peer_review_id)
+      .eq('moderation_status', 'pending')
+      .select('id');
+
+    if (error) {
+      console.error('Peer review moderation error:', error);
+      return NextResponse.json({ error: 'Failed to moderate review' }, { status: 500 });
+    }
+
+    if (!updated || updated.length === 0) {
+      return NextResponse.json({ error: 'This review is not awaiting moderation' }, { status: 409 });
+    }
+
+    if (removed && review.bonus_points_earned > 0) {
+      await supabase.rpc('increment_bonus_points', {
+        p_participant_id: review.reviewer_id,
+        p_points: -review.bonus_points_earned,
+      });
+    }
+
+    logger.info('Peer review moderated', { peerReviewId: peer_review_id, decision, moderatedBy: authResult.user.id });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Peer review moderation error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
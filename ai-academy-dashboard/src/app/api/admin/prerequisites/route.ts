@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceSupabaseClient } from '@/lib/supabase';
+import { requireAdmin } from '@/lib/api-auth';
+import { uuidSchema } from '@/lib/validation';
+import { getParticipantPrerequisites } from '@/lib/prerequisites';
+
+// GET /api/admin/prerequisites - Checklist completion per approved participant and per item
+// With ?participant_id=... returns that participant's checklist with their notes.
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await requireAdmin(request);
+    if (!authResult.authenticated) {
+      return authResult.response;
+    }
+
+    const supabase = createServiceSupabaseClient();
+    const participantId = request.nextUrl.searchParams.get('participant_id');
+
+    if (participantId) {
+      if (!uuidSchema.safeParse(participantId).success) {
+        return NextResponse.json({ error: 'Invalid participant_id' }, { status: 400 });
+      }
+
+      const items = await getParticipantPrerequisites(supabase, participantId);
+      return NextResponse.json({ items });
+    }
+
+    const [{ data: participants, error: summaryError }, { data: stats, error: statsError }] = await Promise.all([
+      supabase
+        .from('participant_prerequisites_summary')
+        .select('*')
+        .order('required_completion_pct', { ascending: true })
+        .order('name'),
+      supabase.from('prerequisite_stats').select('*'),
+    ]);
+
+    if (summaryError || statsError) {
+      console.error('Prerequisites summary error:', summaryError || statsError);
+      return NextResponse.json({ error: 'Failed to fetch prerequisites' }, { status: 500 });
+    }
+
+    return NextResponse.json({ participants: participants ?? [], stats: stats ?? [] });
+  } catch (error) {
+    console.error('Prerequisites summary error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
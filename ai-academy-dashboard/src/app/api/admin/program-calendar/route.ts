@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceSupabaseClient } from '@/lib/supabase';
+import { requireAdmin } from '@/lib/api-auth';
+import { programCalendarSchema, validateInput, formatValidationErrors } from '@/lib/validation';
+import {
+  getCurrentProgramDay,
+  getScheduledDates,
+  isProgramDate,
+  loadProgramCalendar,
+  resolveCalendarSettings,
+} from '@/lib/programCalendar';
+import { logger } from '@/lib/logger';
+
+// GET /api/admin/program-calendar - Calendar settings and the per-day schedule
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await requireAdmin(request);
+    if (!authResult.authenticated) {
+      return authResult.response;
+    }
+
+    const supabase = createServiceSupabaseClient();
+    const [calendar, { data: missionDays }] = await Promise.all([
+      loadProgramCalendar(supabase),
+      supabase.from('mission_days').select('day, title').order('day'),
+    ]);
+
+    const titles = new Map((missionDays || []).map((md) => [md.day, md.title as string]));
+    const days = getScheduledDates(calendar).map((scheduled, i) => ({
+      day: i + 1,
+      title: titles.get(i + 1) ?? null,
+      scheduled_date: scheduled,
+      override_date: calendar.unlock_overrides[i + 1] ?? null,
+    }));
+
+    return NextResponse.json({
+      calendar,
+      days,
+      current_day: getCurrentProgramDay(calendar),
+    });
+  } catch (error) {
+    console.error('Program calendar fetch error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// PUT /api/admin/program-calendar - Update calendar settings and unlock overrides
+export async function PUT(request: NextRequest) {
+  try {
+    const authResult = await requireAdmin(request);
+    if (!authResult.authenticated) {
+      return authResult.response;
+    }
+
+    const body = await request.json();
+    const validation = validateInput(programCalendarSchema, body);
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: formatValidationErrors(validation.errors) },
+        { status: 400 }
+      );
+    }
+
+    const { unlock_overrides, ...input } = validation.data;
+    const settings = resolveCalendarSettings(input);
+
+    if (!isProgramDate(settings, settings.start_date)) {
+      return NextResponse.json(
+        { error: 'Start date must be a weekday outside break weeks and holidays' },
+        { status: 400 }
+      );
+    }
+
+    const supabase = createServiceSupabaseClient();
+
+    const { error } = await supabase.from('program_calendar').upsert({
+      id: 'default',
+      ...settings,
+      updated_at: new Date().toISOString(),
+      updated_by: authResult.user.id,
+    });
+
+    if (error) {
+      console.error('Program calendar update error:', error);
+      return NextResponse.json({ error: 'Failed to save program calendar' }, { status: 500 });
+    }
+
+    for (const [day, unlockDate] of Object.entries(unlock_overrides ?? {})) {
+      const { error: dayError } = await supabase
+        .from('mission_days')
+        .update({ unlock_date: unlockDate })
+        .eq('day', parseInt(day, 10));
+
+      if (dayError) {
+        console.error('Mission day unlock update error:', dayError);
+        return NextResponse.json({ error: `Failed to update unlock date for day ${day}` }, { status: 500 });
+      }
+    }
+
+    logger.info('Program calendar updated', {
+      updatedBy: authResult.user.id,
+      overrides: Object.keys(unlock_overrides ?? {}).length,
+    });
+
+    return NextResponse.json({ success: true, calendar: settings });
+  } catch (error) {
+    console.error('Program calendar update error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
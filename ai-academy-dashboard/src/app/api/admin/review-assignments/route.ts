@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceSupabaseClient } from '@/lib/supabase';
+import { requireAdmin } from '@/lib/api-auth';
+import { reviewAssignmentSchema, validateInput, formatValidationErrors } from '@/lib/validation';
+import { assignPendingSubmissions, getMentorLoads, reassignSubmission } from '@/lib/mentorAssignment';
+import { logger } from '@/lib/logger';
+
+// POST /api/admin/review-assignments - Reassign one submission, or assign every unassigned one
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await requireAdmin(request);
+    if (!authResult.authenticated) {
+      return authResult.response;
+    }
+
+    const body = await request.json();
+    const validation = validateInput(reviewAssignmentSchema, body);
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: formatValidationErrors(validation.errors) },
+        { status: 400 }
+      );
+    }
+
+    const { submission_id, mentor_id } = validation.data;
+    const supabase = createServiceSupabaseClient();
+    const mentors = await getMentorLoads(supabase);
+
+    if (!submission_id) {
+      const results = await assignPendingSubmissions(supabase, mentors);
+      const assigned = results.filter((r) => r.created).length;
+
+      logger.info('Pending submissions assigned', { assigned, updatedBy: authResult.user.id });
+
+      return NextResponse.json({
+        success: true,
+        assigned,
+        unassigned: results.filter((r) => !r.mentorId).length,
+      });
+    }
+
+    const { data: submission } = await supabase
+      .from('submissions')
+      .select('id, participant_id, withdrawn_at')
+      .eq('id', submission_id)
+      .single();
+
+    if (!submission) {
+      return NextResponse.json({ error: 'Submission not found' }, { status: 404 });
+    }
+    if (submission.withdrawn_at) {
+      return NextResponse.json({ error: 'Submission was withdrawn' }, { status: 400 });
+    }
+    if (mentor_id === submission.participant_id) {
+      return NextResponse.json({ error: 'Participants cannot review their own submission' }, { status: 400 });
+    }
+    if (mentor_id && !mentors.some((m) => m.participant_id === mentor_id)) {
+      return NextResponse.json({ error: 'Mentor is not in the review pool' }, { status: 400 });
+    }
+
+    const result = await reassignSubmission(supabase, submission_id, { mentors, mentorId: mentor_id, reason: 'manual' });
+    // Explicit mentor: already assigned is fine; otherwise nobody else had room
+    if (!result.mentorId || (!result.created && !mentor_id)) {
+      return NextResponse.json({ error: 'No other mentor has capacity' }, { status: 409 });
+    }
+
+    logger.info('Submission reassigned', { submissionId: submission_id, mentorId: result.mentorId, updatedBy: authResult.user.id });
+
+    return NextResponse.json({ success: true, mentor_id: result.mentorId });
+  } catch (error) {
+    console.error('Review assignment error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
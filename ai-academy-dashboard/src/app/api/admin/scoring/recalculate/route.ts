@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceSupabaseClient } from '@/lib/supabase';
+import { requireAdmin } from '@/lib/api-auth';
+import { applyScoringPolicy } from '@/lib/scoring';
+import { logger } from '@/lib/logger';
+
+// POST /api/admin/scoring/recalculate - Re-score every submission under the current policy
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await requireAdmin(request);
+    if (!authResult.authenticated) {
+      return authResult.response;
+    }
+
+    const supabase = createServiceSupabaseClient();
+    const result = await applyScoringPolicy(supabase, null);
+
+    logger.info('Points recalculated', {
+      updated: result.updated,
+      unchanged: result.unchanged,
+      recalculatedBy: authResult.user.id,
+    });
+
+    return NextResponse.json({
+      success: true,
+      updated: result.updated,
+      unchanged: result.unchanged,
+    });
+  } catch (error) {
+    console.error('Points recalculation error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceSupabaseClient } from '@/lib/supabase';
+import { requireAdmin } from '@/lib/api-auth';
+import { scoringPolicySchema, validateInput, formatValidationErrors } from '@/lib/validation';
+import { DEFAULT_SCORING_POLICY, loadScoringPolicy } from '@/lib/scoring';
+import { logger } from '@/lib/logger';
+
+// GET /api/admin/scoring - Current program scoring policy
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await requireAdmin(request);
+    if (!authResult.authenticated) {
+      return authResult.response;
+    }
+
+    const supabase = createServiceSupabaseClient();
+    const policy = await loadScoringPolicy(supabase);
+
+    return NextResponse.json({ policy, default_policy: DEFAULT_SCORING_POLICY });
+  } catch (error) {
+    console.error('Scoring policy fetch error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// PUT /api/admin/scoring - Replace the program scoring policy
+// Existing points are not touched until an admin runs the recalculation.
+export async function PUT(request: NextRequest) {
+  try {
+    const authResult = await requireAdmin(request);
+    if (!authResult.authenticated) {
+      return authResult.response;
+    }
+
+    const body = await request.json();
+    const validation = validateInput(scoringPolicySchema, body.policy);
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: formatValidationErrors(validation.errors) },
+        { status: 400 }
+      );
+    }
+
+    const supabase = createServiceSupabaseClient();
+
+    const { error } = await supabase.from('scoring_policies').upsert({
+      id: 'default',
+      policy: validation.data,
+      updated_at: new Date().toISOString(),
+      updated_by: authResult.user.id,
+    });
+
+    if (error) {
+      console.error('Scoring policy update error:', error);
+      return NextResponse.json({ error: 'Failed to save scoring policy' }, { status: 500 });
+    }
+
+    logger.info('Scoring policy updated', { updatedBy: authResult.user.id });
+
+    return NextResponse.json({ success: true, policy: validation.data });
+  } catch (error) {
+    console.error('Scoring policy update error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceSupabaseClient } from '@/lib/supabase';
+import { requireAdmin } from '@/lib/api-auth';
+import { processingFailure, processPushEvent, saveDeliveryOutcome } from '@/lib/githubWebhook';
+import { logger } from '@/lib/logger';
+
+// POST /api/admin/webhook-deliveries/[id]/replay - Re-run the push pipeline on a stored payload
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const authResult = await requireAdmin(request);
+    if (!authResult.authenticated) {
+      return authResult.response;
+    }
+
+    const supabase = createServiceSupabaseClient();
+
+    const { data: delivery, error } = await supabase
+      .from('webhook_deliveries')
+      .select('id, delivery_id, event, payload, replay_count')
+      .eq('id', id)
+      .single();
+
+    if (error || !delivery) {
+      return NextResponse.json({ error: 'Delivery not found' }, { status: 404 });
+    }
+
+    if (delivery.event !== 'push') {
+      return NextResponse.json({ error: 'Only push deliveries can be replayed' }, { status: 400 });
+    }
+
+    let result;
+    try {
+      result = await processPushEvent(supabase, delivery.payload);
+    } catch (processingError) {
+      console.error('Webhook replay processing error:', processingError);
+      result = processingFailure(processingError, delivery.payload);
+    }
+
+    await saveDeliveryOutcome(supabase, delivery.id, result, {
+      replay_count: (delivery.replay_count || 0) + 1,
+      last_replayed_at: new Date().toISOString(),
+      last_replayed_by: authResult.user.id,
+    });
+
+    logger.info('Webhook delivery replayed', {
+      deliveryId: delivery.delivery_id,
+      outcome: result.outcome,
+      replayedBy: authResult.user.id,
+    });
+
+    return NextResponse.json({
+      outcome: result.outcome,
+      reason: result.reason,
+      result: result.body,
+    });
+  } catch (error) {
+    console.error('Webhook replay error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceSupabaseClient } from '@/lib/supabase';
+import { requireAdmin } from '@/lib/api-auth';
+
+const VALID_OUTCOMES = ['pending', 'processed', 'ignored', 'failed'];
+
+// GET /api/admin/webhook-deliveries - List stored GitHub webhook deliveries
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await requireAdmin(request);
+    if (!authResult.authenticated) {
+      return authResult.response;
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const participantId = searchParams.get('participant_id');
+    const githubUsername = searchParams.get('github_username');
+    const outcome = searchParams.get('outcome');
+    const limit = Math.min(parseInt(searchParams.get('limit') || '100') || 100, 500);
+
+    if (outcome && !VALID_OUTCOMES.includes(outcome)) {
+      return NextResponse.json({ error: 'Invalid outcome' }, { status: 400 });
+    }
+
+    const supabase = createServiceSupabaseClient();
+
+    let query = supabase
+      .from('webhook_deliveries')
+      .select(`
+        id, delivery_id, event, github_username, participant_id, outcome, reason, result,
+        received_at, processed_at, replay_count, last_replayed_at,
+        participants(name, github_username, avatar_url)
+      `)
+      .order('received_at', { ascending: false })
+      .limit(limit);
+
+    if (participantId) {
+      query = query.eq('participant_id', participantId);
+    }
+    if (githubUsername) {
+      query = query.ilike('github_username', githubUsername);
+    }
+    if (outcome) {
+      query = query.eq('outcome', outcome);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error('Error fetching webhook deliveries:', error);
+      return NextResponse.json({ error: 'Failed to fetch deliveries' }, { status: 500 });
+    }
+
+    return NextResponse.json({ deliveries: data || [] });
+  } catch (error) {
+    console.error('Webhook deliveries error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
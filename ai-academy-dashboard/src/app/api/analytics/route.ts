@@ -3,6 +3,7 @@ import { createServiceSupabaseClient } from '@/lib/supabase';
 import { requireAdminOrMentor } from '@/lib/api-auth';
 import type {
   Participant,
+  ParticipantMastery,
   Assignment,
   LeaderboardView,
   TeamProgress,
@@ -36,6 +37,11 @@ interface ActivityLogEntry {
   created_at: string;
 }
 
+type LiveAttendanceEntry = Pick<
+  ParticipantMastery,
+  'participant_id' | 'live_sessions_attended' | 'live_sessions_missed' | 'live_minutes_attended'
+>;
+
 /**
  * GET /api/analytics
  * Fetch analytics data for mentors/admins. Uses service role to access
@@ -57,6 +63,7 @@ export async function GET(request: NextRequest) {
       leaderboardResult,
       teamProgressResult,
       activityResult,
+      liveAttendanceResult,
     ] = await Promise.all([
       supabase.from('participants_public').select('id, name, nickname, github_username, role, team, stream, avatar_url, total_points'),
       supabase.from('assignments').select('*').order('day').order('type'),
@@ -70,6 +77,9 @@ export async function GET(request: NextRequest) {
         .from('activity_log')
         .select('id, participant_id, action, created_at')
         .order('created_at', { ascending: true }),
+      supabase
+        .from('participant_mastery')
+        .select('participant_id, live_sessions_attended, live_sessions_missed, live_minutes_attended'),
     ]);
 
     return NextResponse.json({
@@ -79,6 +89,7 @@ export async function GET(request: NextRequest) {
       leaderboard: (leaderboardResult.data as LeaderboardView[]) ?? [],
       teamProgress: (teamProgressResult.data as TeamProgress[]) ?? [],
       activityLog: (activityResult.data as ActivityLogEntry[]) ?? [],
+      liveAttendance: (liveAttendanceResult.data as LiveAttendanceEntry[]) ?? [],
     });
   } catch (error) {
     console.error('Analytics API error:', error);
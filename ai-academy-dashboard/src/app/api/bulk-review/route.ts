@@ -1,14 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createServiceSupabaseClient } from '@/lib/supabase';
-import {
-  sendEmail,
-  getReviewNotificationEmail,
-  getAchievementNotificationEmail,
-} from '@/lib/email';
-import { ACHIEVEMENT_ICONS } from '@/lib/types';
+import { sendEmail, getReviewNotificationEmail } from '@/lib/email';
 import { requireAdminOrMentor, getCorrelationId } from '@/lib/api-auth';
 import { bulkReviewSchema, validateInput, formatValidationErrors } from '@/lib/validation';
 import { logger, logApiRequest } from '@/lib/logger';
+import { recordRevisionReview } from '@/lib/submissionRevisions';
+import { evaluateAchievements } from '@/lib/achievementEngine';
+import { applyScoringPolicy } from '@/lib/scoring';
+import { completeReviewAssignments } from '@/lib/mentorAssignment';
 
 export async function POST(request: NextRequest) {
   const startTime = Date.now();
@@ -43,6 +42,25 @@ export async function POST(request: NextRequest) {
 
     const supabase = createServiceSupabaseClient();
 
+    // Rubric assignments are scored criterion by criterion in the single review,
+    // so a flat bulk rating skips them and reports them back instead
+    let targetIds = submission_ids;
+    let skippedIds: string[] = [];
+
+    if (mentor_rating) {
+      const { data: targets, error: targetsError } = await supabase
+        .from('submissions')
+        .select('id, assignments(rubric)')
+        .in('id', submission_ids);
+
+      if (targetsError) throw targetsError;
+
+      skippedIds = (targets || [])
+        .filter((t) => (t.assignments as unknown as { rubric: unknown } | null)?.rubric)
+        .map((t) => t.id);
+      targetIds = submission_ids.filter((id) => !skippedIds.includes(id));
+    }
+
     // Build update object
     const updateData: Record<string, unknown> = {
       reviewed_at: new Date().toISOString(),
@@ -65,8 +83,8 @@ export async function POST(request: NextRequest) {
     const { data: submissions, error } = await supabase
       .from('submissions')
       .update(updateData)
-      .in('id', submission_ids)
-      .select('id, participant_id, assignment_id');
+      .in('id', targetIds)
+      .select('id, participant_id, assignment_id, status, mentor_rating, mentor_notes, rubric_scores, current_revision');
 
     if (error) {
       logger.error('Failed to save bulk review', { correlationId }, error as Error);
@@ -77,6 +95,36 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Attach the review to the revision that was reviewed
+    for (const sub of submissions || []) {
+      try {
+        await recordRevisionReview(supabase, [sub], {
+          status: sub.status,
+          mentorRating: sub.mentor_rating,
+          mentorNotes: sub.mentor_notes,
+          rubricScores: sub.rubric_scores,
+          reviewedBy: authResult.user.id,
+          reviewedAt: updateData.reviewed_at as string,
+        });
+      } catch (revisionError) {
+        logger.error('Failed to record revision review', { correlationId, submissionId: sub.id }, revisionError as Error);
+      }
+    }
+
+    // Reviewed, so it leaves the assigned mentor's queue
+    try {
+      await completeReviewAssignments(supabase, (submissions || []).map((s) => s.id), authResult.user.participantId ?? null);
+    } catch (assignmentError) {
+      logger.error('Failed to complete review assignment', { correlationId }, assignmentError as Error);
+    }
+
+    // Mentor rating can change points under the scoring policy
+    try {
+      await applyScoringPolicy(supabase, (submissions || []).map((s) => s.id));
+    } catch (scoreError) {
+      logger.error('Failed to apply scoring policy', { correlationId }, scoreError as Error);
+    }
+
     // Get participant details for emails
     const participantIds = [...new Set(submissions?.map((s) => s.participant_id) || [])];
     const { data: participants } = await supabase
@@ -113,6 +161,7 @@ export async function POST(request: NextRequest) {
       logger.info('Bulk review submitted', {
         correlationId,
         submissionCount: submissions.length,
+        skippedCount: skippedIds.length,
         mentor_rating,
         status,
         reviewedBy: authResult.user.id,
@@ -142,60 +191,15 @@ export async function POST(request: NextRequest) {
         }
       }
 
-      // Check for mentor_favorite achievement (5/5 rating) for each participant
-      if (mentor_rating === 5) {
-        const { data: achievement } = await supabase
-          .from('achievements')
-          .select('id, name, description, points_bonus')
-          .eq('code', 'mentor_favorite')
-          .single();
-
-        if (achievement) {
-          for (const participantId of participantIds) {
-            const { data: existingAchievement } = await supabase
-              .from('participant_achievements')
-              .select('id')
-              .eq('participant_id', participantId)
-              .eq('achievement_id', achievement.id)
-              .single();
-
-            if (!existingAchievement) {
-              await supabase.from('participant_achievements').insert({
-                participant_id: participantId,
-                achievement_id: achievement.id,
-              });
-
-              await supabase.from('activity_log').insert({
-                participant_id: participantId,
-                action: 'achievement',
-                details: { achievement_code: 'mentor_favorite' },
-              });
-
-              logger.info('Achievement awarded (bulk)', {
-                correlationId,
-                participantId,
-                achievement: 'mentor_favorite',
-              });
-
-              // Send achievement notification email
-              const participant = participantMap.get(participantId);
-              if (participant?.email) {
-                const achievementEmail = getAchievementNotificationEmail({
-                  participantName: participant.name,
-                  achievementName: achievement.name,
-                  achievementDescription: achievement.description || undefined,
-                  achievementIcon: ACHIEVEMENT_ICONS['mentor_favorite'] || '🌟',
-                  bonusPoints: achievement.points_bonus,
-                });
-
-                sendEmail({
-                  to: participant.email,
-                  subject: achievementEmail.subject,
-                  html: achievementEmail.html,
-                }).catch((err) => logger.error('Failed to send achievement email', { correlationId }, err as Error));
-              }
-            }
-          }
+      // Review-triggered achievements (mentor_favorite) for each participant
+      for (const participantId of participantIds) {
+        const awarded = await evaluateAchievements(supabase, participantId, 'review');
+        for (const achievement of awarded) {
+          logger.info('Achievement awarded (bulk)', {
+            correlationId,
+            participantId,
+            achievement: achievement.code,
+          });
         }
       }
     }
@@ -204,6 +208,7 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({
       success: true,
       updated_count: submissions?.length || 0,
+      skipped_rubric_ids: skippedIds,
     });
   } catch (error) {
     logger.error('Bulk review error', { correlationId }, error as Error);
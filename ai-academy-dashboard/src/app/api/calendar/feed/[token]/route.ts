@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceSupabaseClient } from '@/lib/supabase';
+import { loadProgramCalendar } from '@/lib/programCalendar';
+import { buildICalendar, getCalendarFeedEvents } from '@/lib/liveSchedule';
+
+const APP_URL = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+
+// GET /api/calendar/feed/[token] - Participant's iCal feed
+// Public: calendar apps cannot sign in, the token in the URL is the credential.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params;
+    if (!/^[a-f0-9]{48}$/.test(token)) {
+      return NextResponse.json({ error: 'Calendar feed not found' }, { status: 404 });
+    }
+
+    const supabase = createServiceSupabaseClient();
+
+    const { data: feed } = await supabase
+      .from('calendar_feed_tokens')
+      .select('participants(id, role)')
+      .eq('token', token)
+      .maybeSingle();
+
+    const participant = feed?.participants as unknown as { id: string; role: string | null } | null;
+    if (!participant) {
+      return NextResponse.json({ error: 'Calendar feed not found' }, { status: 404 });
+    }
+
+    const calendar = await loadProgramCalendar(supabase);
+    const events = await getCalendarFeedEvents(supabase, participant, calendar, APP_URL);
+
+    return new NextResponse(buildICalendar(events, { name: 'AI Academy' }), {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="ai-academy.ics"',
+        'Cache-Control': 'private, max-age=900',
+      },
+    });
+  } catch (error) {
+    console.error('Calendar feed error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
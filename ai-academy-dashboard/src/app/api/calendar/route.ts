@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceSupabaseClient } from '@/lib/supabase';
+import { requireAuth } from '@/lib/api-auth';
+import crypto from 'crypto';
+
+const APP_URL = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+
+function feedUrl(token: string) {
+  return `${APP_URL}/api/calendar/feed/${token}`;
+}
+
+async function saveToken(supabase: ReturnType<typeof createServiceSupabaseClient>, participantId: string) {
+  const token = crypto.randomBytes(24).toString('hex');
+
+  const { error } = await supabase
+    .from('calendar_feed_tokens')
+    .upsert({ participant_id: participantId, token, created_at: new Date().toISOString() });
+
+  if (error) throw error;
+  return token;
+}
+
+// GET /api/calendar - The caller's calendar feed URL, created on first use
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await requireAuth(request);
+    if (!authResult.authenticated) {
+      return authResult.response;
+    }
+
+    const participantId = authResult.user.participantId;
+    if (!participantId) {
+      return NextResponse.json({ error: 'Participant not found' }, { status: 404 });
+    }
+
+    const supabase = createServiceSupabaseClient();
+
+    const { data: existing } = await supabase
+      .from('calendar_feed_tokens')
+      .select('token')
+      .eq('participant_id', participantId)
+      .maybeSingle();
+
+    const token = existing?.token ?? (await saveToken(supabase, participantId));
+
+    return NextResponse.json({ url: feedUrl(token) });
+  } catch (error) {
+    console.error('Get calendar feed error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST /api/calendar - Replace the feed URL; existing subscriptions stop updating
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await requireAuth(request);
+    if (!authResult.authenticated) {
+      return authResult.response;
+    }
+
+    const participantId = authResult.user.participantId;
+    if (!participantId) {
+      return NextResponse.json({ error: 'Participant not found' }, { status: 404 });
+    }
+
+    const supabase = createServiceSupabaseClient();
+    const token = await saveToken(supabase, participantId);
+
+    return NextResponse.json({ url: feedUrl(token) });
+  } catch (error) {
+    console.error('Reset calendar feed error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -1,7 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createServiceSupabaseClient } from '@/lib/supabase';
 import { sendEmail } from '@/lib/email';
-import { requireAuth } from '@/lib/api-auth';
+import { requireAuth, type AuthenticatedUser } from '@/lib/api-auth';
+import { evaluateAchievements } from '@/lib/achievementEngine';
+import { createAnchor } from '@/lib/commentAnchors';
 import { z } from 'zod';
 
 // Validation schemas
@@ -9,6 +11,15 @@ const createCommentSchema = z.object({
   submission_id: z.string().uuid(),
   content: z.string().min(1).max(2000),
   parent_id: z.string().uuid().nullable().optional(),
+  // Character range of the README revision the author was looking at
+  anchor: z
+    .object({
+      revision: z.number().int().min(1),
+      start: z.number().int().min(0),
+      end: z.number().int().min(1),
+    })
+    .nullable()
+    .optional(),
 });
 
 const updateCommentSchema = z.object({
@@ -16,6 +27,11 @@ const updateCommentSchema = z.object({
   content: z.string().min(1).max(2000),
 });
 
+const resolveCommentSchema = z.object({
+  comment_id: z.string().uuid(),
+  resolved: z.boolean(),
+});
+
 // GET - Fetch comments for a submission
 export async function GET(request: NextRequest) {
   try {
@@ -47,6 +63,13 @@ export async function GET(request: NextRequest) {
       .eq('submission_id', submissionId)
       .order('created_at', { ascending: true });
 
+    // README the anchored threads point into
+    const { data: submission } = await supabase
+      .from('submissions')
+      .select('readme_content, current_revision')
+      .eq('id', submissionId)
+      .maybeSingle();
+
     if (error) {
       console.error('Comments fetch error:', error);
       return NextResponse.json(
@@ -80,6 +103,9 @@ export async function GET(request: NextRequest) {
     return NextResponse.json({
       comments: rootComments,
       total_count: comments?.length ?? 0,
+      readme: submission
+        ? { content: submission.readme_content ?? '', revision: submission.current_revision ?? 1 }
+        : null,
     });
   } catch (error) {
     console.error('Comments error:', error);
@@ -118,12 +144,60 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const { submission_id, content, parent_id } = validation.data;
+    const { submission_id, content, parent_id, anchor } = validation.data;
     // Use authenticated user's participant ID - NEVER trust client-supplied author_id
     const author_id = authResult.user.participantId;
 
     const supabase = createServiceSupabaseClient();
 
+    // Anchored threads quote the stored README, never client-supplied text
+    let anchorFields = {};
+    if (anchor) {
+      if (parent_id) {
+        return NextResponse.json(
+          { error: 'Only a new thread can be anchored to the README' },
+          { status: 400 }
+        );
+      }
+
+      const { data: submission } = await supabase
+        .from('submissions')
+        .select('readme_content, current_revision')
+        .eq('id', submission_id)
+        .single();
+
+      if (!submission) {
+        return NextResponse.json(
+          { error: 'Submission not found' },
+          { status: 404 }
+        );
+      }
+
+      if (submission.current_revision !== anchor.revision) {
+        return NextResponse.json(
+          { error: 'The README has changed since you selected it. Reload and select again.' },
+          { status: 409 }
+        );
+      }
+
+      const anchored = createAnchor(submission.readme_content ?? '', anchor.start, anchor.end, anchor.revision);
+      if (!anchored.ok) {
+        return NextResponse.json(
+          { error: anchored.error },
+          { status: 400 }
+        );
+      }
+
+      anchorFields = {
+        anchor_revision: anchored.anchor.revision,
+        anchor_start: anchored.anchor.start,
+        anchor_end: anchored.anchor.end,
+        anchor_text: anchored.anchor.text,
+        anchor_prefix: anchored.anchor.prefix,
+        anchor_suffix: anchored.anchor.suffix,
+      };
+    }
+
     // Create the comment
     const { data: comment, error } = await supabase
       .from('comments')
@@ -133,6 +207,7 @@ export async function POST(request: NextRequest) {
         parent_id: parent_id || null,
         content: content.trim(),
         is_edited: false,
+        ...anchorFields,
       })
       .select(`
         *,
@@ -226,9 +301,12 @@ export async function POST(request: NextRequest) {
         submission_id,
         comment_id: comment.id,
         is_reply: !!parent_id,
+        is_anchored: !!anchor,
       },
     });
 
+    await evaluateAchievements(supabase, author_id, 'comment');
+
     return NextResponse.json({
       success: true,
       comment,
@@ -260,6 +338,10 @@ export async function PATCH(request: NextRequest) {
 
     const body = await request.json();
 
+    if (body && typeof body === 'object' && 'resolved' in body) {
+      return resolveThread(body, authResult.user);
+    }
+
     // Validate input with Zod
     const validation = updateCommentSchema.safeParse(body);
     if (!validation.success) {
@@ -325,6 +407,86 @@ export async function PATCH(request: NextRequest) {
   }
 }
 
+/**
+ * Resolve or reopen a thread. The thread author, the submission's author,
+ * mentors and admins can do this.
+ */
+async function resolveThread(
+  body: unknown,
+  user: AuthenticatedUser
+): Promise<NextResponse> {
+  const validation = resolveCommentSchema.safeParse(body);
+  if (!validation.success) {
+    return NextResponse.json(
+      { error: 'Invalid input', details: validation.error.flatten() },
+      { status: 400 }
+    );
+  }
+
+  const { comment_id, resolved } = validation.data;
+  const supabase = createServiceSupabaseClient();
+
+  const { data: existing } = await supabase
+    .from('comments')
+    .select('author_id, parent_id, submissions(participant_id)')
+    .eq('id', comment_id)
+    .single();
+
+  if (!existing) {
+    return NextResponse.json(
+      { error: 'Comment not found' },
+      { status: 404 }
+    );
+  }
+
+  if (existing.parent_id) {
+    return NextResponse.json(
+      { error: 'Only a thread can be resolved, not a reply' },
+      { status: 400 }
+    );
+  }
+
+  const submissionAuthor = (existing.submissions as unknown as { participant_id: string } | null)?.participant_id;
+  const canResolve =
+    user.isAdmin ||
+    user.isMentor ||
+    existing.author_id === user.participantId ||
+    submissionAuthor === user.participantId;
+
+  if (!canResolve) {
+    return NextResponse.json(
+      { error: 'Not authorized to resolve this thread' },
+      { status: 403 }
+    );
+  }
+
+  const { data: comment, error } = await supabase
+    .from('comments')
+    .update({
+      resolved_at: resolved ? new Date().toISOString() : null,
+      resolved_by: resolved ? user.participantId : null,
+    })
+    .eq('id', comment_id)
+    .select(`
+      *,
+      author:participants!author_id(id, name, github_username, avatar_url, role)
+    `)
+    .single();
+
+  if (error) {
+    console.error('Resolve comment error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update thread' },
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json({
+    success: true,
+    comment,
+  });
+}
+
 // DELETE - Delete a comment
 export async function DELETE(request: NextRequest) {
   try {
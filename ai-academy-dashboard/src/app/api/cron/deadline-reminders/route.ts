@@ -3,6 +3,7 @@ import { createServiceSupabaseClient } from '@/lib/supabase';
 import { sendEmail, getDeadlineReminderEmail } from '@/lib/email';
 import { differenceInHours } from 'date-fns';
 import crypto from 'crypto';
+import { isDayUnlocked, loadProgramCalendar, programToday } from '@/lib/programCalendar';
 
 // This endpoint should be called by a cron job (e.g., Vercel Cron, GitHub Actions)
 // Recommended schedule: Once daily at 8:00 AM
@@ -43,9 +44,13 @@ export async function GET(request: NextRequest) {
       throw assignmentsError;
     }
 
-    // Filter assignments with deadlines in the next 72 hours
+    // Filter assignments with deadlines in the next 72 hours, skipping days
+    // that have not unlocked yet (participants cannot see them)
+    const calendar = await loadProgramCalendar(supabase);
+    const today = programToday(now);
     const upcomingAssignments = (assignments || []).filter((a) => {
       if (!a.due_at) return false;
+      if (!isDayUnlocked(calendar, a.day, today)) return false;
       const hoursRemaining = differenceInHours(new Date(a.due_at), now);
       return hoursRemaining > 0 && hoursRemaining <= 72;
     });
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
 import crypto from 'crypto';
+import { getCurrentProgramDay, loadProgramCalendar } from '@/lib/programCalendar';
 
 // Lazy initialization of Supabase admin client (bypasses RLS)
 function getSupabaseAdmin() {
@@ -10,36 +11,6 @@ function getSupabaseAdmin() {
   );
 }
 
-// Program start date
-const PROGRAM_START = new Date('2026-02-02');
-
-// Calculate current program day
-function getCurrentProgramDay(): number {
-  const today = new Date();
-  const daysSinceStart = Math.floor((today.getTime() - PROGRAM_START.getTime()) / (1000 * 60 * 60 * 24));
-
-  if (daysSinceStart < 0) return 0; // Program hasn't started
-
-  // Account for spring break (week 3: days 11-15 of calendar, but we skip)
-  // Week 1: Days 1-5 (calendar days 0-4)
-  // Week 2: Days 6-10 (calendar days 5-9)
-  // Week 3: Spring break (calendar days 10-16)
-  // Week 4: Days 11-15 (calendar days 17-21)
-  // Week 5: Days 16-25 (calendar days 22-31)
-
-  if (daysSinceStart < 5) {
-    return daysSinceStart + 1; // Days 1-5
-  } else if (daysSinceStart < 10) {
-    return daysSinceStart + 1; // Days 6-10
-  } else if (daysSinceStart < 17) {
-    return 10; // Spring break - stay on day 10
-  } else if (daysSinceStart < 22) {
-    return daysSinceStart - 6; // Days 11-15
-  } else {
-    return Math.min(daysSinceStart - 6, 25); // Days 16-25
-  }
-}
-
 // Parse trigger time (HH:MM format) and check if it's passed
 function isTriggerTimePassed(triggerTime: string | null): boolean {
   if (!triggerTime) return true; // No trigger time means release immediately
@@ -75,7 +46,8 @@ export async function GET(request: NextRequest) {
   }
 
   try {
-    const currentDay = getCurrentProgramDay();
+    const calendar = await loadProgramCalendar(getSupabaseAdmin());
+    const currentDay = getCurrentProgramDay(calendar);
     const now = new Date();
 
     console.log(`[Intel Release Cron] Running at ${now.toISOString()}, current program day: ${currentDay}`);
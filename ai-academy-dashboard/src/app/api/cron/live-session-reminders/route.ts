@@ -0,0 +1,150 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceSupabaseClient } from '@/lib/supabase';
+import { sendEmail, getLiveSessionReminderEmail } from '@/lib/email';
+import { isDueForReminder, REMINDER_LEAD_MINUTES } from '@/lib/liveSchedule';
+import { getParticipantTimeZones } from '@/lib/timezone';
+import crypto from 'crypto';
+
+// This endpoint should be called by a cron job (e.g., Vercel Cron, GitHub Actions)
+// Recommended schedule: Hourly, on the hour - emails everyone about scheduled
+// live sessions that start within REMINDER_LEAD_MINUTES
+
+function formatStartTime(startsAt: string, timeZone: string): string {
+  return new Date(startsAt).toLocaleString('en-GB', {
+    timeZone,
+    weekday: 'short',
+    day: 'numeric',
+    month: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    timeZoneName: 'short',
+  });
+}
+
+export async function GET(request: NextRequest) {
+  // Verify cron secret to prevent unauthorized access - FAIL CLOSED
+  const authHeader = request.headers.get('authorization');
+  const cronSecret = process.env.CRON_SECRET;
+
+  // Security: ALWAYS require CRON_SECRET - fail closed if not configured
+  if (!cronSecret) {
+    console.error('[Cron] CRON_SECRET not configured - rejecting request');
+    return NextResponse.json({ error: 'Server configuration error' }, { status: 500 });
+  }
+
+  // Use timing-safe comparison to prevent timing attacks
+  // Pad both strings to same length to avoid leaking length information
+  const expectedAuth = `Bearer ${cronSecret}`;
+  const maxLen = Math.max(authHeader?.length || 0, expectedAuth.length);
+  const paddedAuth = (authHeader || '').padEnd(maxLen, '\0');
+  const paddedExpected = expectedAuth.padEnd(maxLen, '\0');
+
+  if (!authHeader || !crypto.timingSafeEqual(Buffer.from(paddedAuth), Buffer.from(paddedExpected))) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const supabase = createServiceSupabaseClient();
+    const now = new Date();
+    const windowEnd = new Date(now.getTime() + REMINDER_LEAD_MINUTES * 60_000);
+
+    const { data: scheduled, error: scheduledError } = await supabase
+      .from('scheduled_live_sessions')
+      .select(`
+        id, title, description, starts_at, duration_minutes, reminder_sent_at, session_id, cancelled_at,
+        mission_days(day),
+        instructor:instructor_id(name)
+      `)
+      .is('cancelled_at', null)
+      .is('reminder_sent_at', null)
+      .gt('starts_at', now.toISOString())
+      .lte('starts_at', windowEnd.toISOString());
+
+    if (scheduledError) {
+      throw scheduledError;
+    }
+
+    const dueSessions = (scheduled || []).filter((s) => isDueForReminder(s, now));
+
+    if (dueSessions.length === 0) {
+      return NextResponse.json({
+        success: true,
+        message: 'No sessions starting soon',
+        emailsSent: 0,
+      });
+    }
+
+    const { data: participants, error: participantsError } = await supabase
+      .from('participants')
+      .select('id, name, email');
+
+    if (participantsError) {
+      throw participantsError;
+    }
+
+    const recipients = (participants || []).filter((p) => p.email);
+    const timeZones = await getParticipantTimeZones(supabase, recipients.map((p) => p.id));
+
+    let emailsSent = 0;
+    const errors: string[] = [];
+
+    for (const session of dueSessions) {
+      const day = (session.mission_days as unknown as { day: number } | null)?.day ?? null;
+      const instructorName = (session.instructor as unknown as { name: string } | null)?.name ?? null;
+
+      for (const participant of recipients) {
+        const emailContent = getLiveSessionReminderEmail({
+          participantName: participant.name,
+          sessionTitle: session.title,
+          day,
+          startsAt: formatStartTime(session.starts_at, timeZones.get(participant.id)!),
+          durationMinutes: session.duration_minutes,
+          instructorName,
+          description: session.description,
+        });
+
+        const result = await sendEmail({
+          to: participant.email,
+          subject: emailContent.subject,
+          html: emailContent.html,
+        });
+
+        if (result.success) {
+          emailsSent++;
+        } else {
+          errors.push(`Failed to send to ${participant.email}: ${result.error}`);
+        }
+      }
+
+      // Mark as reminded even with some failures so nobody gets it twice
+      await supabase
+        .from('scheduled_live_sessions')
+        .update({ reminder_sent_at: new Date().toISOString() })
+        .eq('id', session.id);
+    }
+
+    // Log the cron run
+    await supabase.from('activity_log').insert({
+      participant_id: null,
+      action: 'cron_live_session_reminders',
+      details: {
+        emailsSent,
+        sessions: dueSessions.length,
+        errors: errors.length > 0 ? errors : undefined,
+      },
+    });
+
+    return NextResponse.json({
+      success: true,
+      emailsSent,
+      sessions: dueSessions.length,
+      errors: errors.length > 0 ? errors : undefined,
+    });
+  } catch (error) {
+    console.error('Live session reminder cron error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
 import type { ClearanceLevel } from '@/lib/types';
+import { syncAttendanceMastery } from '@/lib/liveAttendance';
 import crypto from 'crypto';
 
 export const dynamic = 'force-dynamic';
@@ -118,6 +119,15 @@ export async function GET(request: NextRequest) {
 
     const supabase = getSupabaseAdmin();
 
+    // Full pass over the live lab counters: ending a session only updates the
+    // people who joined it, so missed sessions are counted here
+    let liveAttendanceSynced = 0;
+    try {
+      liveAttendanceSynced = await syncAttendanceMastery(supabase);
+    } catch (syncError) {
+      console.error('Error syncing live attendance:', syncError);
+    }
+
     // Fetch all participant mastery records
     const { data: masteryRecords, error: fetchError } = await supabase
       .from('participant_mastery')
@@ -168,6 +178,7 @@ export async function GET(request: NextRequest) {
       processed: masteryRecords?.length ?? 0,
       updated: updates.length,
       updates,
+      liveAttendanceSynced,
     });
   } catch (error) {
     console.error('Mastery update cron error:', error);
@@ -0,0 +1,133 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceSupabaseClient } from '@/lib/supabase';
+import { sendEmail, getPeerReviewReminderEmail } from '@/lib/email';
+import {
+  PEER_REVIEW_REMINDER_HOURS,
+  expireOverduePeerReviews,
+  replaceInactivePeerReviews,
+} from '@/lib/peerReviewDeadlines';
+import { differenceInHours } from 'date-fns';
+import crypto from 'crypto';
+
+// This endpoint should be called by a cron job (e.g., Vercel Cron, GitHub Actions)
+// Recommended schedule: Hourly - expires peer reviews past their due time, hands
+// expired and skipped reviews to new reviewers and reminds reviewers whose
+// reviews are due within PEER_REVIEW_REMINDER_HOURS
+
+export async function GET(request: NextRequest) {
+  // Verify cron secret to prevent unauthorized access - FAIL CLOSED
+  const authHeader = request.headers.get('authorization');
+  const cronSecret = process.env.CRON_SECRET;
+
+  // Security: ALWAYS require CRON_SECRET - fail closed if not configured
+  if (!cronSecret) {
+    console.error('[Cron] CRON_SECRET not configured - rejecting request');
+    return NextResponse.json({ error: 'Server configuration error' }, { status: 500 });
+  }
+
+  // Use timing-safe comparison to prevent timing attacks
+  // Pad both strings to same length to avoid leaking length information
+  const expectedAuth = `Bearer ${cronSecret}`;
+  const maxLen = Math.max(authHeader?.length || 0, expectedAuth.length);
+  const paddedAuth = (authHeader || '').padEnd(maxLen, '\0');
+  const paddedExpected = expectedAuth.padEnd(maxLen, '\0');
+
+  if (!authHeader || !crypto.timingSafeEqual(Buffer.from(paddedAuth), Buffer.from(paddedExpected))) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const supabase = createServiceSupabaseClient();
+    const now = new Date();
+
+    const expired = await expireOverduePeerReviews(supabase, now);
+    const replacement = await replaceInactivePeerReviews(supabase, now);
+
+    // Reviews entering the reminder window, one email per reviewer
+    const windowEnd = new Date(now.getTime() + PEER_REVIEW_REMINDER_HOURS * 3_600_000);
+    const { data: dueSoon, error: dueSoonError } = await supabase
+      .from('peer_reviews')
+      .select('id, reviewer_id, due_at, participants!reviewer_id(name, email), submissions(assignments(title, day))')
+      .eq('status', 'pending')
+      .is('reminder_sent_at', null)
+      .gt('due_at', now.toISOString())
+      .lte('due_at', windowEnd.toISOString())
+      .order('due_at');
+
+    if (dueSoonError) {
+      throw dueSoonError;
+    }
+
+    const byReviewer = new Map<string, NonNullable<typeof dueSoon>>();
+    for (const review of dueSoon || []) {
+      byReviewer.set(review.reviewer_id, [...(byReviewer.get(review.reviewer_id) ?? []), review]);
+    }
+
+    let emailsSent = 0;
+    const errors: string[] = [];
+
+    for (const reviews of byReviewer.values()) {
+      const reviewer = reviews[0].participants as unknown as { name: string; email: string | null } | null;
+      if (!reviewer?.email) continue;
+
+      const emailContent = getPeerReviewReminderEmail({
+        participantName: reviewer.name,
+        reviews: reviews.map((r) => {
+          const assignment = (r.submissions as unknown as { assignments: { title: string; day: number } | null } | null)
+            ?.assignments;
+          return {
+            title: assignment?.title ?? 'Submission',
+            day: assignment?.day ?? 0,
+            hoursRemaining: differenceInHours(new Date(r.due_at!), now),
+          };
+        }),
+      });
+
+      const result = await sendEmail({
+        to: reviewer.email,
+        subject: emailContent.subject,
+        html: emailContent.html,
+      });
+
+      if (result.success) {
+        emailsSent++;
+      } else {
+        errors.push(`Failed to send to ${reviewer.email}: ${result.error}`);
+      }
+
+      // Mark as reminded even if sending failed so nobody gets it twice
+      await supabase
+        .from('peer_reviews')
+        .update({ reminder_sent_at: new Date().toISOString() })
+        .in('id', reviews.map((r) => r.id));
+    }
+
+    // Log the cron run
+    await supabase.from('activity_log').insert({
+      participant_id: null,
+      action: 'cron_peer_review_deadlines',
+      details: {
+        expired,
+        replaced: replacement.replaced,
+        short: replacement.short.length,
+        emailsSent,
+        errors: errors.length > 0 ? errors : undefined,
+      },
+    });
+
+    return NextResponse.json({
+      success: true,
+      expired,
+      replaced: replacement.replaced,
+      short: replacement.short.length,
+      emailsSent,
+      errors: errors.length > 0 ? errors : undefined,
+    });
+  } catch (error) {
+    console.error('Peer review deadlines cron error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
 import crypto from 'crypto';
+import {
+  PROGRAM_TIMEZONE,
+  getParticipantTimeZones,
+  localDateDaysAgo,
+  toLocalDateTime,
+} from '@/lib/timezone';
+import { HELPFUL_REVIEWER_RECOGNITION, isHelpfulReviewer } from '@/lib/peerReviewResponses';
 
 export const dynamic = 'force-dynamic';
 export const maxDuration = 60;
@@ -11,6 +18,7 @@ const RECOGNITION_CODES = {
   NIGHT_SCHOLAR: 'night_scholar',
   MOMENTUM: 'momentum',
   TEAM_SUPPORTER: 'team_supporter',
+  HELPFUL_REVIEWER: HELPFUL_REVIEWER_RECOGNITION,
 } as const;
 
 function getSupabaseAdmin() {
@@ -35,67 +43,66 @@ interface PeerAssistCount {
   peer_assists_given: number;
 }
 
+interface RatedPeerReview {
+  reviewer_id: string;
+  helpfulness: number;
+}
+
 interface RecognitionType {
   id: number;
   code: string;
 }
 
-async function findEarlyRisers(supabase: ReturnType<typeof getSupabaseAdmin>): Promise<string[]> {
-  // Find participants with submissions before 08:00 in the last 24 hours
-  const yesterday = new Date();
-  yesterday.setDate(yesterday.getDate() - 1);
-  yesterday.setHours(0, 0, 0, 0);
+// Recognition windows, in the participant's local time
+const EARLY_RISER_BEFORE_HOUR = 8;
+const NIGHT_SCHOLAR_FROM_HOUR = 22;
 
-  const today = new Date();
-  today.setHours(23, 59, 59, 999);
+/**
+ * Participants with a submission made yesterday or today (their local dates)
+ * whose local hour matches the predicate
+ */
+async function findSubmittersByLocalHour(
+  supabase: ReturnType<typeof getSupabaseAdmin>,
+  matchesHour: (hour: number) => boolean,
+  now: Date = new Date()
+): Promise<string[]> {
+  // Widest possible window across UTC-12..UTC+14, narrowed per participant below
+  const since = new Date(now.getTime() - 3 * 24 * 60 * 60 * 1000);
 
   const { data: submissions, error } = await supabase
     .from('submissions')
     .select('participant_id, submitted_at')
-    .gte('submitted_at', yesterday.toISOString())
-    .lte('submitted_at', today.toISOString());
+    .gte('submitted_at', since.toISOString())
+    .lte('submitted_at', now.toISOString());
 
   if (error || !submissions) return [];
 
-  // Filter for submissions before 08:00
-  const earlyRisers = new Set<string>();
+  const timeZones = await getParticipantTimeZones(
+    supabase,
+    [...new Set((submissions as SubmissionWithTime[]).map((s) => s.participant_id))]
+  );
+
+  const matched = new Set<string>();
   (submissions as SubmissionWithTime[]).forEach((sub) => {
-    const hour = new Date(sub.submitted_at).getHours();
-    if (hour < 8) {
-      earlyRisers.add(sub.participant_id);
+    const timeZone = timeZones.get(sub.participant_id) ?? PROGRAM_TIMEZONE;
+    const local = toLocalDateTime(sub.submitted_at, timeZone);
+    const window = [localDateDaysAgo(1, timeZone, now), localDateDaysAgo(0, timeZone, now)];
+    if (window.includes(local.date) && matchesHour(local.hour)) {
+      matched.add(sub.participant_id);
     }
   });
 
-  return Array.from(earlyRisers);
+  return Array.from(matched);
 }
 
-async function findNightScholars(supabase: ReturnType<typeof getSupabaseAdmin>): Promise<string[]> {
-  // Find participants with submissions after 22:00 in the last 24 hours
-  const yesterday = new Date();
-  yesterday.setDate(yesterday.getDate() - 1);
-  yesterday.setHours(0, 0, 0, 0);
-
-  const today = new Date();
-  today.setHours(23, 59, 59, 999);
-
-  const { data: submissions, error } = await supabase
-    .from('submissions')
-    .select('participant_id, submitted_at')
-    .gte('submitted_at', yesterday.toISOString())
-    .lte('submitted_at', today.toISOString());
-
-  if (error || !submissions) return [];
-
-  // Filter for submissions after 22:00
-  const nightScholars = new Set<string>();
-  (submissions as SubmissionWithTime[]).forEach((sub) => {
-    const hour = new Date(sub.submitted_at).getHours();
-    if (hour >= 22) {
-      nightScholars.add(sub.participant_id);
-    }
-  });
+async function findEarlyRisers(supabase: ReturnType<typeof getSupabaseAdmin>): Promise<string[]> {
+  // Submissions before 08:00 local time, yesterday or today
+  return findSubmittersByLocalHour(supabase, (hour) => hour < EARLY_RISER_BEFORE_HOUR);
+}
 
-  return Array.from(nightScholars);
+async function findNightScholars(supabase: ReturnType<typeof getSupabaseAdmin>): Promise<string[]> {
+  // Submissions after 22:00 local time, yesterday or today
+  return findSubmittersByLocalHour(supabase, (hour) => hour >= NIGHT_SCHOLAR_FROM_HOUR);
 }
 
 async function findMomentumAchievers(supabase: ReturnType<typeof getSupabaseAdmin>): Promise<string[]> {
@@ -122,6 +129,24 @@ async function findTeamSupporters(supabase: ReturnType<typeof getSupabaseAdmin>)
   return (mastery as PeerAssistCount[]).map((m) => m.participant_id);
 }
 
+async function findHelpfulReviewers(supabase: ReturnType<typeof getSupabaseAdmin>): Promise<string[]> {
+  // Reviewers whose reviews authors rated helpful, on average, over enough reviews
+  const { data: reviews, error } = await supabase
+    .from('peer_reviews')
+    .select('reviewer_id, helpfulness')
+    .eq('status', 'completed')
+    .not('helpfulness', 'is', null);
+
+  if (error || !reviews) return [];
+
+  const ratings = new Map<string, number[]>();
+  (reviews as RatedPeerReview[]).forEach((r) => {
+    ratings.set(r.reviewer_id, [...(ratings.get(r.reviewer_id) ?? []), r.helpfulness]);
+  });
+
+  return [...ratings.entries()].filter(([, rated]) => isHelpfulReviewer(rated)).map(([reviewerId]) => reviewerId);
+}
+
 async function awardRecognition(
   supabase: ReturnType<typeof getSupabaseAdmin>,
   participantId: string,
@@ -195,6 +220,7 @@ export async function GET(request: NextRequest) {
       nightScholar: { found: 0, awarded: 0 },
       momentum: { found: 0, awarded: 0 },
       teamSupporter: { found: 0, awarded: 0 },
+      helpfulReviewer: { found: 0, awarded: 0 },
     };
 
     // Process Early Risers
@@ -208,7 +234,7 @@ export async function GET(request: NextRequest) {
           supabase,
           participantId,
           earlyRiserTypeId,
-          'Submitted work before 8:00 AM'
+          'Submitted work before 8:00 AM local time'
         );
         if (awarded) results.earlyRiser.awarded++;
       }
@@ -225,7 +251,7 @@ export async function GET(request: NextRequest) {
           supabase,
           participantId,
           nightScholarTypeId,
-          'Submitted work after 10:00 PM'
+          'Submitted work after 10:00 PM local time'
         );
         if (awarded) results.nightScholar.awarded++;
       }
@@ -265,11 +291,29 @@ export async function GET(request: NextRequest) {
       }
     }
 
+    // Process Helpful Reviewers
+    const helpfulReviewerTypeId = typeMap.get(RECOGNITION_CODES.HELPFUL_REVIEWER);
+    if (helpfulReviewerTypeId) {
+      const helpfulReviewers = await findHelpfulReviewers(supabase);
+      results.helpfulReviewer.found = helpfulReviewers.length;
+
+      for (const participantId of helpfulReviewers) {
+        const awarded = await awardRecognition(
+          supabase,
+          participantId,
+          helpfulReviewerTypeId,
+          'Peer reviews consistently rated helpful by authors'
+        );
+        if (awarded) results.helpfulReviewer.awarded++;
+      }
+    }
+
     const totalAwarded =
       results.earlyRiser.awarded +
       results.nightScholar.awarded +
       results.momentum.awarded +
-      results.teamSupporter.awarded;
+      results.teamSupporter.awarded +
+      results.helpfulReviewer.awarded;
 
     console.log(`Recognition awards complete: ${totalAwarded} new recognitions awarded`);
 
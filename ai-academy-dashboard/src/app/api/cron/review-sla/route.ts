@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceSupabaseClient } from '@/lib/supabase';
+import { assignPendingSubmissions, getMentorLoads, reassignSubmission } from '@/lib/mentorAssignment';
+import crypto from 'crypto';
+
+// This endpoint should be called by a cron job (e.g., Vercel Cron, GitHub Actions)
+// Recommended schedule: Hourly - hands reviews past their SLA to another mentor
+// and assigns submissions that arrived while every mentor was at capacity
+
+export async function GET(request: NextRequest) {
+  // Verify cron secret to prevent unauthorized access - FAIL CLOSED
+  const authHeader = request.headers.get('authorization');
+  const cronSecret = process.env.CRON_SECRET;
+
+  // Security: ALWAYS require CRON_SECRET - fail closed if not configured
+  if (!cronSecret) {
+    console.error('[Cron] CRON_SECRET not configured - rejecting request');
+    return NextResponse.json({ error: 'Server configuration error' }, { status: 500 });
+  }
+
+  // Use timing-safe comparison to prevent timing attacks
+  // Pad both strings to same length to avoid leaking length information
+  const expectedAuth = `Bearer ${cronSecret}`;
+  const maxLen = Math.max(authHeader?.length || 0, expectedAuth.length);
+  const paddedAuth = (authHeader || '').padEnd(maxLen, '\0');
+  const paddedExpected = expectedAuth.padEnd(maxLen, '\0');
+
+  if (!authHeader || !crypto.timingSafeEqual(Buffer.from(paddedAuth), Buffer.from(paddedExpected))) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const supabase = createServiceSupabaseClient();
+    const now = new Date();
+
+    const { data: overdue, error } = await supabase
+      .from('review_assignments')
+      .select('submission_id')
+      .eq('status', 'open')
+      .lt('due_at', now.toISOString())
+      .order('due_at');
+
+    if (error) {
+      throw error;
+    }
+
+    const mentors = await getMentorLoads(supabase, now);
+    let reassigned = 0;
+    const errors: string[] = [];
+
+    for (const { submission_id } of overdue || []) {
+      try {
+        const result = await reassignSubmission(supabase, submission_id, { mentors, reason: 'overdue', now });
+        if (result.created) reassigned++;
+      } catch (err) {
+        errors.push(`Failed to reassign ${submission_id}: ${err}`);
+      }
+    }
+
+    const pending = await assignPendingSubmissions(supabase, mentors, now);
+    const assigned = pending.filter((r) => r.created).length;
+    const unassigned = pending.filter((r) => !r.mentorId).length;
+
+    await supabase.from('activity_log').insert({
+      participant_id: null,
+      action: 'cron_review_sla',
+      details: {
+        overdue: overdue?.length ?? 0,
+        reassigned,
+        assigned,
+        unassigned,
+        errors: errors.length > 0 ? errors : undefined,
+      },
+    });
+
+    return NextResponse.json({
+      success: true,
+      overdue: overdue?.length ?? 0,
+      reassigned,
+      assigned,
+      unassigned,
+      errors: errors.length > 0 ? errors : undefined,
+    });
+  } catch (error) {
+    console.error('Review SLA cron error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceSupabaseClient } from '@/lib/supabase';
+import { getLiveSessionAccess } from '@/lib/liveSession';
+import { liveBreakoutNotesSchema, validateInput, formatValidationErrors } from '@/lib/validation';
+
+// PATCH /api/live-session/[code]/breakouts/[roomId] - Save the room's shared notes
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ code: string; roomId: string }> }
+) {
+  try {
+    const { code, roomId } = await params;
+    const supabase = createServiceSupabaseClient();
+
+    const result = await getLiveSessionAccess(supabase, code);
+    if (!result.found) {
+      return result.response;
+    }
+    const { participant, session, role } = result.access;
+
+    const { data: room } = await supabase
+      .from('live_session_breakout_rooms')
+      .select('id, closed_at')
+      .eq('id', roomId)
+      .eq('session_id', session.id)
+      .single();
+
+    if (!room) {
+      return NextResponse.json({ error: 'Room not found' }, { status: 404 });
+    }
+
+    if (room.closed_at) {
+      return NextResponse.json({ error: 'Room has been closed' }, { status: 400 });
+    }
+
+    // Session staff may edit any room's notes
+    if (!role) {
+      const { data: membership } = await supabase
+        .from('live_session_breakout_members')
+        .select('participant_id')
+        .eq('room_id', room.id)
+        .eq('participant_id', participant.id)
+        .maybeSingle();
+
+      if (!membership) {
+        return NextResponse.json({ error: 'You are not in this room' }, { status: 403 });
+      }
+    }
+
+    const body = await request.json();
+    const validation = validateInput(liveBreakoutNotesSchema, body);
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: formatValidationErrors(validation.errors) },
+        { status: 400 }
+      );
+    }
+
+    const { error } = await supabase
+      .from('live_session_breakout_rooms')
+      .update({
+        notes: validation.data.notes,
+        notes_updated_at: new Date().toISOString(),
+        notes_updated_by: participant.id,
+      })
+      .eq('id', room.id);
+
+    if (error) {
+      console.error('Save room notes error:', error);
+      return NextResponse.json({ error: 'Failed to save notes' }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Save room notes error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
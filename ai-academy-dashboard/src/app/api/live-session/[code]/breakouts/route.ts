@@ -0,0 +1,122 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceSupabaseClient } from '@/lib/supabase';
+import { getLiveSessionAccess } from '@/lib/liveSession';
+import { hasSessionRight } from '@/lib/liveSessionRoles';
+import { closeBreakoutRooms, getOpenRooms, openBreakoutRooms } from '@/lib/liveBreakouts';
+import { liveBreakoutSchema, validateInput, formatValidationErrors } from '@/lib/validation';
+
+// GET /api/live-session/[code]/breakouts - Open rooms (instructor) or the caller's room
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ code: string }> }
+) {
+  try {
+    const { code } = await params;
+    const supabase = createServiceSupabaseClient();
+
+    const result = await getLiveSessionAccess(supabase, code);
+    if (!result.found) {
+      return result.response;
+    }
+    const { participant, session, role } = result.access;
+
+    const rooms = await getOpenRooms(supabase, session.id);
+
+    // The session team watches all rooms
+    if (role) {
+      return NextResponse.json({ rooms });
+    }
+
+    // Students only see their own room; presence needs their profile
+    const { data: me } = await supabase
+      .from('participants')
+      .select('id, name, avatar_url, role')
+      .eq('id', participant.id)
+      .single();
+
+    return NextResponse.json({
+      room: rooms.find((r) => r.members.some((m) => m.participant_id === participant.id)) ?? null,
+      open_room_count: rooms.length,
+      me,
+    });
+  } catch (error) {
+    console.error('Get breakouts error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST /api/live-session/[code]/breakouts - Split the session into rooms (instructor only)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ code: string }> }
+) {
+  try {
+    const { code } = await params;
+    const supabase = createServiceSupabaseClient();
+
+    const result = await getLiveSessionAccess(supabase, code);
+    if (!result.found) {
+      return result.response;
+    }
+    const { session, role } = result.access;
+
+    if (!hasSessionRight(role, 'advance')) {
+      return NextResponse.json({ error: 'Only instructors can open breakout rooms' }, { status: 403 });
+    }
+
+    if (!session.is_active) {
+      return NextResponse.json({ error: 'Session has ended' }, { status: 400 });
+    }
+
+    if (session.current_section !== 'lab') {
+      return NextResponse.json({ error: 'Breakout rooms are only available during the lab' }, { status: 400 });
+    }
+
+    const body = await request.json();
+    const validation = validateInput(liveBreakoutSchema, body);
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: formatValidationErrors(validation.errors) },
+        { status: 400 }
+      );
+    }
+
+    const rooms = await openBreakoutRooms(supabase, session, validation.data.strategy, validation.data.room_count);
+    if (rooms.length === 0) {
+      return NextResponse.json({ error: 'No participants to split into rooms' }, { status: 400 });
+    }
+
+    return NextResponse.json({ success: true, rooms });
+  } catch (error) {
+    console.error('Open breakouts error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// DELETE /api/live-session/[code]/breakouts - Call everyone back (instructor only)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ code: string }> }
+) {
+  try {
+    const { code } = await params;
+    const supabase = createServiceSupabaseClient();
+
+    const result = await getLiveSessionAccess(supabase, code);
+    if (!result.found) {
+      return result.response;
+    }
+    const { session, role } = result.access;
+
+    if (!hasSessionRight(role, 'advance')) {
+      return NextResponse.json({ error: 'Only instructors can close breakout rooms' }, { status: 403 });
+    }
+
+    await closeBreakoutRooms(supabase, session.id);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Close breakouts error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
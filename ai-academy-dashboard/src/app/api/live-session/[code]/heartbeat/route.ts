@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceSupabaseClient } from '@/lib/supabase';
+import { getLiveSessionAccess } from '@/lib/liveSession';
+import { recordHeartbeat } from '@/lib/liveSessionState';
+
+// POST /api/live-session/[code]/heartbeat - Report that this client is still here
+// Returns the authoritative session state so clients can reconcile, and hands
+// the session off to a co-instructor when the lead has gone quiet.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ code: string }> }
+) {
+  try {
+    const { code } = await params;
+    const supabase = createServiceSupabaseClient();
+
+    const result = await getLiveSessionAccess(supabase, code);
+    if (!result.found) {
+      return result.response;
+    }
+    const { participant, session, role } = result.access;
+
+    const { session: state, handedOff } = await recordHeartbeat(supabase, session.id, participant.id, role);
+
+    return NextResponse.json({ session: state, handed_off: handedOff });
+  } catch (error) {
+    console.error('Heartbeat error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
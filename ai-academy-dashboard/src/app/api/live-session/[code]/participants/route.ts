@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs/server';
 import { createServiceSupabaseClient } from '@/lib/supabase';
+import { closeAttendance } from '@/lib/liveAttendance';
+import { assignLateJoiner } from '@/lib/liveBreakouts';
+import { getParticipantPrerequisites, missingRequired } from '@/lib/prerequisites';
 
 // GET /api/live-session/[code]/participants - Get list of participants
 export async function GET(
@@ -87,7 +90,7 @@ export async function POST(
     // Get participant by auth_user_id
     const { data: participant } = await supabase
       .from('participants')
-      .select('id, name')
+      .select('id, name, is_admin, is_mentor')
       .eq('auth_user_id', userId)
       .single();
 
@@ -95,6 +98,20 @@ export async function POST(
       return NextResponse.json({ error: 'Participant not found' }, { status: 404 });
     }
 
+    // Participants join only once their required setup is done; staff are exempt
+    if (!participant.is_admin && !participant.is_mentor) {
+      const missing = missingRequired(await getParticipantPrerequisites(supabase, participant.id));
+      if (missing.length > 0) {
+        return NextResponse.json(
+          {
+            error: 'Complete the required items of your setup checklist before joining',
+            missing_prerequisites: missing.map((item) => ({ code: item.code, name: item.name })),
+          },
+          { status: 403 }
+        );
+      }
+    }
+
     // Get session
     const { data: session } = await supabase
       .from('live_sessions')
@@ -123,8 +140,9 @@ export async function POST(
       if (!existing.is_active) {
         await supabase
           .from('live_session_participants')
-          .update({ is_active: true, left_at: null })
+          .update({ is_active: true, left_at: null, rejoined_at: new Date().toISOString() })
           .eq('id', existing.id);
+        await assignLateJoiner(supabase, session.id, participant.id);
       }
       return NextResponse.json({ success: true, message: 'Already joined' });
     }
@@ -143,6 +161,9 @@ export async function POST(
       return NextResponse.json({ error: 'Failed to join session' }, { status: 500 });
     }
 
+    // Joining during breakouts puts the participant straight into a room
+    await assignLateJoiner(supabase, session.id, participant.id);
+
     return NextResponse.json({ success: true });
   } catch (error) {
     console.error('Join session error:', error);
@@ -188,17 +209,14 @@ export async function DELETE(
       return NextResponse.json({ error: 'Session not found' }, { status: 404 });
     }
 
-    // Leave session
-    const { error } = await supabase
-      .from('live_session_participants')
-      .update({
-        is_active: false,
-        left_at: new Date().toISOString(),
-      })
-      .eq('session_id', session.id)
-      .eq('participant_id', participant.id);
-
-    if (error) {
+    // Leave session (adds the time present to the participant's attendance)
+    try {
+      await closeAttendance(supabase, session.id, {
+        at: new Date().toISOString(),
+        participantId: participant.id,
+        isLeave: true,
+      });
+    } catch (error) {
       console.error('Leave session error:', error);
       return NextResponse.json({ error: 'Failed to leave session' }, { status: 500 });
     }
@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceSupabaseClient } from '@/lib/supabase';
+import { getLiveSessionAccess } from '@/lib/liveSession';
+import { livePollResponseSchema, validateInput, formatValidationErrors } from '@/lib/validation';
+
+// POST /api/live-session/[code]/polls/[pollId]/responses - Answer an open poll
+// Answering again replaces the previous answer until the poll closes.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ code: string; pollId: string }> }
+) {
+  try {
+    const { code, pollId } = await params;
+    const supabase = createServiceSupabaseClient();
+
+    const result = await getLiveSessionAccess(supabase, code);
+    if (!result.found) {
+      return result.response;
+    }
+    const { participant, session } = result.access;
+
+    // Only participants who joined the session can answer
+    const { data: membership } = await supabase
+      .from('live_session_participants')
+      .select('id')
+      .eq('session_id', session.id)
+      .eq('participant_id', participant.id)
+      .maybeSingle();
+
+    if (!membership) {
+      return NextResponse.json({ error: 'Join the session to answer polls' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const validation = validateInput(livePollResponseSchema, body);
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: formatValidationErrors(validation.errors) },
+        { status: 400 }
+      );
+    }
+
+    const { data: poll } = await supabase
+      .from('live_session_polls')
+      .select('id, options, status')
+      .eq('id', pollId)
+      .eq('session_id', session.id)
+      .single();
+
+    if (!poll) {
+      return NextResponse.json({ error: 'Poll not found' }, { status: 404 });
+    }
+
+    if (poll.status !== 'open') {
+      return NextResponse.json({ error: 'Poll is closed' }, { status: 400 });
+    }
+
+    if (validation.data.option_index >= (poll.options as string[]).length) {
+      return NextResponse.json({ error: 'Invalid option' }, { status: 400 });
+    }
+
+    const { error } = await supabase
+      .from('live_session_poll_responses')
+      .upsert(
+        {
+          poll_id: poll.id,
+          participant_id: participant.id,
+          option_index: validation.data.option_index,
+          responded_at: new Date().toISOString(),
+        },
+        { onConflict: 'poll_id,participant_id' }
+      );
+
+    if (error) {
+      console.error('Poll response error:', error);
+      return NextResponse.json({ error: 'Failed to save response' }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Poll response error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceSupabaseClient } from '@/lib/supabase';
+import { getLiveSessionAccess } from '@/lib/liveSession';
+import { hasSessionRight } from '@/lib/liveSessionRoles';
+import { closePoll } from '@/lib/livePolls';
+
+// PATCH /api/live-session/[code]/polls/[pollId] - Close a poll and save its results
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ code: string; pollId: string }> }
+) {
+  try {
+    const { code, pollId } = await params;
+    const supabase = createServiceSupabaseClient();
+
+    const result = await getLiveSessionAccess(supabase, code);
+    if (!result.found) {
+      return result.response;
+    }
+    const { session, role } = result.access;
+
+    if (!hasSessionRight(role, 'advance')) {
+      return NextResponse.json({ error: 'Only instructors can close polls' }, { status: 403 });
+    }
+
+    const { data: poll } = await supabase
+      .from('live_session_polls')
+      .select('id, kind, options, correct_option, status')
+      .eq('id', pollId)
+      .eq('session_id', session.id)
+      .single();
+
+    if (!poll) {
+      return NextResponse.json({ error: 'Poll not found' }, { status: 404 });
+    }
+
+    if (poll.status === 'closed') {
+      return NextResponse.json({ error: 'Poll is already closed' }, { status: 400 });
+    }
+
+    const results = await closePoll(supabase, poll);
+
+    return NextResponse.json({ success: true, results });
+  } catch (error) {
+    console.error('Close poll error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
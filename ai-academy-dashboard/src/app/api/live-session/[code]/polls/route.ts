@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceSupabaseClient } from '@/lib/supabase';
+import { getLiveSessionAccess } from '@/lib/liveSession';
+import { hasSessionRight } from '@/lib/liveSessionRoles';
+import { CONFIDENCE_OPTIONS, closeOpenPolls, getSessionPolls } from '@/lib/livePolls';
+import { livePollSchema, validateInput, formatValidationErrors } from '@/lib/validation';
+
+// GET /api/live-session/[code]/polls - Polls of the session with results
+// Students only see results once a poll is closed.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ code: string }> }
+) {
+  try {
+    const { code } = await params;
+    const supabase = createServiceSupabaseClient();
+
+    const result = await getLiveSessionAccess(supabase, code);
+    if (!result.found) {
+      return result.response;
+    }
+    const { participant, session, role } = result.access;
+
+    const polls = await getSessionPolls(supabase, session.id, participant.id);
+
+    return NextResponse.json({
+      polls: polls.map((poll) => ({
+        ...poll,
+        results: role || poll.status === 'closed' ? poll.results : null,
+        correct_option: role || poll.status === 'closed' ? poll.correct_option : null,
+      })),
+    });
+  } catch (error) {
+    console.error('Get polls error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST /api/live-session/[code]/polls - Open a poll (closes any open one)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ code: string }> }
+) {
+  try {
+    const { code } = await params;
+    const supabase = createServiceSupabaseClient();
+
+    const result = await getLiveSessionAccess(supabase, code);
+    if (!result.found) {
+      return result.response;
+    }
+    const { participant, session, role } = result.access;
+
+    if (!hasSessionRight(role, 'advance')) {
+      return NextResponse.json({ error: 'Only instructors can start polls' }, { status: 403 });
+    }
+
+    if (!session.is_active) {
+      return NextResponse.json({ error: 'Session has ended' }, { status: 400 });
+    }
+
+    const body = await request.json();
+    const validation = validateInput(livePollSchema, body);
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: formatValidationErrors(validation.errors) },
+        { status: 400 }
+      );
+    }
+
+    const { kind, question, options, correct_option } = validation.data;
+
+    await closeOpenPolls(supabase, session.id);
+
+    const { data: poll, error } = await supabase
+      .from('live_session_polls')
+      .insert({
+        session_id: session.id,
+        kind,
+        question,
+        options: kind === 'confidence' ? CONFIDENCE_OPTIONS : options,
+        correct_option: kind === 'multiple_choice' ? correct_option : null,
+        section: session.current_section,
+        step: session.current_step,
+        status: 'open',
+        created_by: participant.id,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Create poll error:', error);
+      return NextResponse.json({ error: 'Failed to create poll' }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true, poll });
+  } catch (error) {
+    console.error('Create poll error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceSupabaseClient } from '@/lib/supabase';
+import { getLiveSessionAccess } from '@/lib/liveSession';
+import { hasSessionRight } from '@/lib/liveSessionRoles';
+import { liveQuestionStatusSchema, validateInput, formatValidationErrors } from '@/lib/validation';
+
+// PATCH /api/live-session/[code]/questions/[questionId] - Change question status
+// The instructor answers, dismisses or reopens; authors can withdraw their own
+// question or lower their hand (dismissed).
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ code: string; questionId: string }> }
+) {
+  try {
+    const { code, questionId } = await params;
+    const supabase = createServiceSupabaseClient();
+
+    const result = await getLiveSessionAccess(supabase, code);
+    if (!result.found) {
+      return result.response;
+    }
+    const { participant, session, role } = result.access;
+
+    const body = await request.json();
+    const validation = validateInput(liveQuestionStatusSchema, body);
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: formatValidationErrors(validation.errors) },
+        { status: 400 }
+      );
+    }
+
+    const { status } = validation.data;
+
+    const { data: question } = await supabase
+      .from('live_session_questions')
+      .select('id, participant_id, status')
+      .eq('id', questionId)
+      .eq('session_id', session.id)
+      .single();
+
+    if (!question) {
+      return NextResponse.json({ error: 'Question not found' }, { status: 404 });
+    }
+
+    const isAuthor = question.participant_id === participant.id;
+    if (!hasSessionRight(role, 'moderate') && !(isAuthor && status === 'dismissed')) {
+      return NextResponse.json({ error: 'Only instructors and TAs can update questions' }, { status: 403 });
+    }
+
+    const { error } = await supabase
+      .from('live_session_questions')
+      .update({
+        status,
+        answered_at: status === 'answered' ? new Date().toISOString() : null,
+        answered_by: status === 'answered' ? participant.id : null,
+      })
+      .eq('id', question.id);
+
+    if (error) {
+      console.error('Update question error:', error);
+      return NextResponse.json({ error: 'Failed to update question' }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Update question error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
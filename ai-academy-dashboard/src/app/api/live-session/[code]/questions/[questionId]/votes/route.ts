@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceSupabaseClient } from '@/lib/supabase';
+import { getLiveSessionAccess, type LiveSessionAccess } from '@/lib/liveSession';
+
+type ServiceClient = ReturnType<typeof createServiceSupabaseClient>;
+
+// Open questions by someone else in this session can be voted on
+async function getVotableQuestion(supabase: ServiceClient, access: LiveSessionAccess, questionId: string) {
+  const { data: question } = await supabase
+    .from('live_session_questions')
+    .select('id, participant_id, kind, status')
+    .eq('id', questionId)
+    .eq('session_id', access.session.id)
+    .single();
+
+  if (!question || question.kind !== 'question') {
+    return { error: NextResponse.json({ error: 'Question not found' }, { status: 404 }) };
+  }
+  if (question.participant_id === access.participant.id) {
+    return { error: NextResponse.json({ error: 'You cannot upvote your own question' }, { status: 400 }) };
+  }
+  if (question.status !== 'open') {
+    return { error: NextResponse.json({ error: 'Question is no longer open' }, { status: 400 }) };
+  }
+  return { question };
+}
+
+// POST /api/live-session/[code]/questions/[questionId]/votes - Upvote a question
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ code: string; questionId: string }> }
+) {
+  try {
+    const { code, questionId } = await params;
+    const supabase = createServiceSupabaseClient();
+
+    const result = await getLiveSessionAccess(supabase, code);
+    if (!result.found) {
+      return result.response;
+    }
+
+    const { question, error: questionError } = await getVotableQuestion(supabase, result.access, questionId);
+    if (questionError) {
+      return questionError;
+    }
+
+    const { error } = await supabase
+      .from('live_session_question_votes')
+      .upsert(
+        { question_id: question.id, participant_id: result.access.participant.id },
+        { onConflict: 'question_id,participant_id', ignoreDuplicates: true }
+      );
+
+    if (error) {
+      console.error('Upvote question error:', error);
+      return NextResponse.json({ error: 'Failed to upvote question' }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Upvote question error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// DELETE /api/live-session/[code]/questions/[questionId]/votes - Remove upvote
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ code: string; questionId: string }> }
+) {
+  try {
+    const { code, questionId } = await params;
+    const supabase = createServiceSupabaseClient();
+
+    const result = await getLiveSessionAccess(supabase, code);
+    if (!result.found) {
+      return result.response;
+    }
+
+    const { error } = await supabase
+      .from('live_session_question_votes')
+      .delete()
+      .eq('question_id', questionId)
+      .eq('participant_id', result.access.participant.id);
+
+    if (error) {
+      console.error('Remove upvote error:', error);
+      return NextResponse.json({ error: 'Failed to remove upvote' }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Remove upvote error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
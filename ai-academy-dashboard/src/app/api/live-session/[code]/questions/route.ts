@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceSupabaseClient } from '@/lib/supabase';
+import { getLiveSessionAccess } from '@/lib/liveSession';
+import { hasSessionRight } from '@/lib/liveSessionRoles';
+import { getSessionQuestions } from '@/lib/liveQuestions';
+import { liveQuestionSchema, validateInput, formatValidationErrors } from '@/lib/validation';
+
+// GET /api/live-session/[code]/questions - Question queue
+// Also used after the session ends to follow up on unanswered questions.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ code: string }> }
+) {
+  try {
+    const { code } = await params;
+    const supabase = createServiceSupabaseClient();
+
+    const result = await getLiveSessionAccess(supabase, code);
+    if (!result.found) {
+      return result.response;
+    }
+    const { participant, session, role } = result.access;
+
+    const questions = await getSessionQuestions(supabase, session.id, {
+      participantId: participant.id,
+      isModerator: hasSessionRight(role, 'moderate'),
+    });
+
+    return NextResponse.json({ questions });
+  } catch (error) {
+    console.error('Get questions error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST /api/live-session/[code]/questions - Raise a hand or ask a question
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ code: string }> }
+) {
+  try {
+    const { code } = await params;
+    const supabase = createServiceSupabaseClient();
+
+    const result = await getLiveSessionAccess(supabase, code);
+    if (!result.found) {
+      return result.response;
+    }
+    const { participant, session, role } = result.access;
+
+    if (role) {
+      return NextResponse.json({ error: 'Session staff cannot ask questions' }, { status: 400 });
+    }
+
+    if (!session.is_active) {
+      return NextResponse.json({ error: 'Session has ended' }, { status: 400 });
+    }
+
+    const { data: membership } = await supabase
+      .from('live_session_participants')
+      .select('id')
+      .eq('session_id', session.id)
+      .eq('participant_id', participant.id)
+      .maybeSingle();
+
+    if (!membership) {
+      return NextResponse.json({ error: 'Join the session to ask questions' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const validation = validateInput(liveQuestionSchema, body);
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: formatValidationErrors(validation.errors) },
+        { status: 400 }
+      );
+    }
+
+    const { kind, body: text } = validation.data;
+
+    if (kind === 'hand') {
+      const { data: raised } = await supabase
+        .from('live_session_questions')
+        .select('id')
+        .eq('session_id', session.id)
+        .eq('participant_id', participant.id)
+        .eq('kind', 'hand')
+        .eq('status', 'open')
+        .maybeSingle();
+
+      if (raised) {
+        return NextResponse.json({ success: true, question: raised, message: 'Hand already raised' });
+      }
+    }
+
+    const { data: question, error } = await supabase
+      .from('live_session_questions')
+      .insert({
+        session_id: session.id,
+        participant_id: participant.id,
+        kind,
+        body: text?.trim() || null,
+        section: session.current_section,
+        step: session.current_step,
+      })
+      .select('id')
+      .single();
+
+    if (error) {
+      console.error('Create question error:', error);
+      return NextResponse.json({ error: 'Failed to send question' }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true, question });
+  } catch (error) {
+    console.error('Create question error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
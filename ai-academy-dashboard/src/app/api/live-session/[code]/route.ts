@@ -1,6 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs/server';
 import { createServiceSupabaseClient } from '@/lib/supabase';
+import { closeOpenPolls } from '@/lib/livePolls';
+import { closeAttendance, closeTimeline, recordTimelineStep, syncAttendanceMastery } from '@/lib/liveAttendance';
+import { closeBreakoutRooms } from '@/lib/liveBreakouts';
+import { getLiveSessionAccess } from '@/lib/liveSession';
+import { hasSessionRight } from '@/lib/liveSessionRoles';
+import { toSnapshot, updateSessionState } from '@/lib/liveSessionState';
+import { liveSessionStateSchema, validateInput, formatValidationErrors } from '@/lib/validation';
 
 // GET /api/live-session/[code] - Get session state
 export async function GET(
@@ -46,6 +53,8 @@ export async function GET(
         current_step: session.current_step,
         current_section: session.current_section,
         is_active: session.is_active,
+        state_version: session.state_version ?? 0,
+        instructor_id: session.instructor_id,
         started_at: session.started_at,
         ended_at: session.ended_at,
         mission_day: session.mission_days,
@@ -67,102 +76,91 @@ export async function PATCH(
   try {
     const { code } = await params;
 
-    // Get current user from Clerk
-    const { userId } = await auth();
-    if (!userId) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
     const supabase = createServiceSupabaseClient();
 
-    // Get participant
-    const { data: participant } = await supabase
-      .from('participants')
-      .select('id')
-      .eq('auth_user_id', userId)
-      .single();
-
-    if (!participant) {
-      return NextResponse.json({ error: 'Participant not found' }, { status: 404 });
-    }
-
-    // Get session and verify instructor
-    const { data: session } = await supabase
-      .from('live_sessions')
-      .select('id, instructor_id, is_active')
-      .eq('join_code', code.toUpperCase())
-      .single();
-
-    if (!session) {
-      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    const result = await getLiveSessionAccess(supabase, code);
+    if (!result.found) {
+      return result.response;
     }
+    const { session, role } = result.access;
 
-    if (session.instructor_id !== participant.id) {
-      return NextResponse.json({ error: 'Only the instructor can control the session' }, { status: 403 });
+    if (!hasSessionRight(role, 'advance')) {
+      return NextResponse.json({ error: 'Only instructors can control the session' }, { status: 403 });
     }
 
     if (!session.is_active) {
       return NextResponse.json({ error: 'Session has ended' }, { status: 400 });
     }
 
-    // Parse request body
+    // Parse and validate request body
     const body = await request.json();
-    const { step, section, action } = body;
+    const validation = validateInput(liveSessionStateSchema, body);
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: formatValidationErrors(validation.errors) },
+        { status: 400 }
+      );
+    }
+
+    const { step, section, action, expected_version } = validation.data;
+    const currentVersion = session.state_version ?? 0;
+
+    // Client acted on an outdated state; send it the current one to reconcile
+    if (expected_version !== undefined && expected_version !== currentVersion) {
+      return NextResponse.json(
+        { error: 'Session state has changed', session: toSnapshot(session) },
+        { status: 409 }
+      );
+    }
 
-    const updates: Record<string, unknown> = {};
+    const updates: Parameters<typeof updateSessionState>[3] = {};
 
     if (step !== undefined) {
       updates.current_step = step;
     }
 
     if (section !== undefined) {
-      const validSections = ['briefing', 'resources', 'lab', 'debrief'];
-      if (!validSections.includes(section)) {
-        return NextResponse.json({ error: 'Invalid section' }, { status: 400 });
-      }
       updates.current_section = section;
     }
 
     // Handle special actions
     if (action === 'next_step') {
-      const { data: currentSession } = await supabase
-        .from('live_sessions')
-        .select('current_step')
-        .eq('id', session.id)
-        .single();
-      updates.current_step = (currentSession?.current_step || 0) + 1;
+      updates.current_step = (session.current_step || 0) + 1;
     } else if (action === 'prev_step') {
-      const { data: currentSession } = await supabase
-        .from('live_sessions')
-        .select('current_step')
-        .eq('id', session.id)
-        .single();
-      updates.current_step = Math.max(1, (currentSession?.current_step || 1) - 1);
+      updates.current_step = Math.max(1, (session.current_step || 1) - 1);
     }
 
     if (Object.keys(updates).length === 0) {
       return NextResponse.json({ error: 'No updates provided' }, { status: 400 });
     }
 
-    // Update session
-    const { data: updatedSession, error } = await supabase
-      .from('live_sessions')
-      .update(updates)
-      .eq('id', session.id)
-      .select()
-      .single();
+    // Update session; another change since we read it is a conflict
+    const update = await updateSessionState(supabase, session.id, currentVersion, updates);
 
-    if (error) {
-      console.error('Update session error:', error);
-      return NextResponse.json({ error: 'Failed to update session' }, { status: 500 });
+    if (!update.ok) {
+      return NextResponse.json(
+        { error: 'Session state has changed', session: update.session },
+        { status: 409 }
+      );
+    }
+
+    const updatedSession = update.session;
+
+    if (
+      updatedSession.current_step !== session.current_step ||
+      updatedSession.current_section !== session.current_section
+    ) {
+      await recordTimelineStep(supabase, session.id, updatedSession.current_step, updatedSession.current_section);
+    }
+
+    // Breakout rooms only exist during the lab
+    if (session.current_section === 'lab' && updatedSession.current_section !== 'lab') {
+      await closeBreakoutRooms(supabase, session.id);
     }
 
     return NextResponse.json({
       success: true,
-      session: {
-        current_step: updatedSession.current_step,
-        current_section: updatedSession.current_section,
-      },
+      session: updatedSession,
     });
   } catch (error) {
     console.error('Update session error:', error);
@@ -178,46 +176,25 @@ export async function DELETE(
   try {
     const { code } = await params;
 
-    // Get current user from Clerk
-    const { userId } = await auth();
-    if (!userId) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
     const supabase = createServiceSupabaseClient();
 
-    // Get participant
-    const { data: participant } = await supabase
-      .from('participants')
-      .select('id')
-      .eq('auth_user_id', userId)
-      .single();
-
-    if (!participant) {
-      return NextResponse.json({ error: 'Participant not found' }, { status: 404 });
+    const result = await getLiveSessionAccess(supabase, code);
+    if (!result.found) {
+      return result.response;
     }
+    const { session, role } = result.access;
 
-    // Get session and verify instructor
-    const { data: session } = await supabase
-      .from('live_sessions')
-      .select('id, instructor_id')
-      .eq('join_code', code.toUpperCase())
-      .single();
-
-    if (!session) {
-      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
-    }
-
-    if (session.instructor_id !== participant.id) {
-      return NextResponse.json({ error: 'Only the instructor can end the session' }, { status: 403 });
+    if (!hasSessionRight(role, 'end')) {
+      return NextResponse.json({ error: 'Only the lead or a co-instructor can end the session' }, { status: 403 });
     }
 
     // End session
+    const endedAt = new Date().toISOString();
     const { error } = await supabase
       .from('live_sessions')
       .update({
         is_active: false,
-        ended_at: new Date().toISOString(),
+        ended_at: endedAt,
       })
       .eq('id', session.id);
 
@@ -226,11 +203,17 @@ export async function DELETE(
       return NextResponse.json({ error: 'Failed to end session' }, { status: 500 });
     }
 
-    // Mark all participants as inactive
-    await supabase
-      .from('live_session_participants')
-      .update({ is_active: false, left_at: new Date().toISOString() })
-      .eq('session_id', session.id);
+    // Mark remaining participants as inactive and close the timeline
+    await closeAttendance(supabase, session.id, { at: endedAt, isLeave: false });
+    await closeTimeline(supabase, session.id, endedAt);
+    await closeBreakoutRooms(supabase, session.id);
+
+    // Save results of a poll left open
+    await closeOpenPolls(supabase, session.id);
+
+    // Live lab attendance counters of the people who joined; the mastery-update
+    // cron catches up everyone who missed it
+    await syncAttendanceMastery(supabase, session.id);
 
     return NextResponse.json({ success: true });
   } catch (error) {
@@ -0,0 +1,155 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceSupabaseClient } from '@/lib/supabase';
+import { getLiveSessionAccess } from '@/lib/liveSession';
+import { getSessionStaff, getStaffCandidates, hasSessionRight } from '@/lib/liveSessionRoles';
+import { liveSessionStaffSchema, uuidSchema, validateInput, formatValidationErrors } from '@/lib/validation';
+
+// GET /api/live-session/[code]/staff - Session team and the caller's role
+// The lead also gets the admins and mentors who can be invited.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ code: string }> }
+) {
+  try {
+    const { code } = await params;
+    const supabase = createServiceSupabaseClient();
+
+    const result = await getLiveSessionAccess(supabase, code);
+    if (!result.found) {
+      return result.response;
+    }
+    const { session, role } = result.access;
+
+    const [staff, candidates] = await Promise.all([
+      getSessionStaff(supabase, session.id),
+      hasSessionRight(role, 'manage_staff') ? getStaffCandidates(supabase, session.id) : Promise.resolve([]),
+    ]);
+
+    return NextResponse.json({ staff, candidates, my_role: role });
+  } catch (error) {
+    console.error('Get session staff error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST /api/live-session/[code]/staff - Invite a mentor or admin as co-instructor or TA
+// Also changes the role of someone already on the team.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ code: string }> }
+) {
+  try {
+    const { code } = await params;
+    const supabase = createServiceSupabaseClient();
+
+    const result = await getLiveSessionAccess(supabase, code);
+    if (!result.found) {
+      return result.response;
+    }
+    const { participant, session, role } = result.access;
+
+    if (!hasSessionRight(role, 'manage_staff')) {
+      return NextResponse.json({ error: 'Only the lead can manage the session team' }, { status: 403 });
+    }
+
+    if (!session.is_active) {
+      return NextResponse.json({ error: 'Session has ended' }, { status: 400 });
+    }
+
+    const body = await request.json();
+    const validation = validateInput(liveSessionStaffSchema, body);
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: formatValidationErrors(validation.errors) },
+        { status: 400 }
+      );
+    }
+
+    const { participant_id, role: staffRole } = validation.data;
+
+    if (participant_id === session.instructor_id) {
+      return NextResponse.json({ error: 'The lead is already on the team' }, { status: 400 });
+    }
+
+    const { data: invitee } = await supabase
+      .from('participants')
+      .select('id, is_admin, is_mentor')
+      .eq('id', participant_id)
+      .single();
+
+    if (!invitee) {
+      return NextResponse.json({ error: 'Participant not found' }, { status: 404 });
+    }
+
+    if (!invitee.is_admin && !invitee.is_mentor) {
+      return NextResponse.json({ error: 'Only admins and mentors can join the session team' }, { status: 400 });
+    }
+
+    const { error } = await supabase
+      .from('live_session_staff')
+      .upsert({
+        session_id: session.id,
+        participant_id,
+        role: staffRole,
+        invited_by: participant.id,
+      });
+
+    if (error) {
+      console.error('Invite session staff error:', error);
+      return NextResponse.json({ error: 'Failed to update the session team' }, { status: 500 });
+    }
+
+    return NextResponse.json({ staff: await getSessionStaff(supabase, session.id) });
+  } catch (error) {
+    console.error('Invite session staff error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// DELETE /api/live-session/[code]/staff?participant_id= - Remove someone from the team
+// Co-instructors and TAs may also step down themselves.
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ code: string }> }
+) {
+  try {
+    const { code } = await params;
+    const supabase = createServiceSupabaseClient();
+
+    const result = await getLiveSessionAccess(supabase, code);
+    if (!result.found) {
+      return result.response;
+    }
+    const { participant, session, role } = result.access;
+
+    const parsed = uuidSchema.safeParse(request.nextUrl.searchParams.get('participant_id'));
+    if (!parsed.success) {
+      return NextResponse.json({ error: 'participant_id is required' }, { status: 400 });
+    }
+    const participantId = parsed.data;
+
+    if (!hasSessionRight(role, 'manage_staff') && participantId !== participant.id) {
+      return NextResponse.json({ error: 'Only the lead can manage the session team' }, { status: 403 });
+    }
+
+    if (participantId === session.instructor_id) {
+      return NextResponse.json({ error: 'The lead cannot be removed from the team' }, { status: 400 });
+    }
+
+    const { error } = await supabase
+      .from('live_session_staff')
+      .delete()
+      .eq('session_id', session.id)
+      .eq('participant_id', participantId);
+
+    if (error) {
+      console.error('Remove session staff error:', error);
+      return NextResponse.json({ error: 'Failed to update the session team' }, { status: 500 });
+    }
+
+    return NextResponse.json({ staff: await getSessionStaff(supabase, session.id) });
+  } catch (error) {
+    console.error('Remove session staff error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
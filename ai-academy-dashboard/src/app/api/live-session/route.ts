@@ -1,9 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs/server';
 import { createServiceSupabaseClient } from '@/lib/supabase';
+import { recordTimelineStep } from '@/lib/liveAttendance';
+import { uuidSchema } from '@/lib/validation';
 import crypto from 'crypto';
 
 // POST /api/live-session - Create a new live session
+// Pass scheduled_session_id to start a session that was scheduled ahead.
 export async function POST(request: NextRequest) {
   try {
     // Get current user from Clerk
@@ -14,20 +17,46 @@ export async function POST(request: NextRequest) {
 
     const supabase = createServiceSupabaseClient();
 
-    // Check if user is instructor/admin
+    // Admins and mentors can lead sessions
     const { data: participant } = await supabase
       .from('participants')
-      .select('id, is_admin')
+      .select('id, is_admin, is_mentor')
       .eq('auth_user_id', userId)
       .single();
 
-    if (!participant?.is_admin) {
-      return NextResponse.json({ error: 'Only instructors can start sessions' }, { status: 403 });
+    if (!participant?.is_admin && !participant?.is_mentor) {
+      return NextResponse.json({ error: 'Only admins and mentors can start sessions' }, { status: 403 });
     }
 
     // Parse request body
     const body = await request.json();
-    const { mission_day_id } = body;
+    const { scheduled_session_id } = body;
+    let { mission_day_id } = body;
+
+    // Starting a scheduled session runs it for the day it was booked for
+    let scheduledSessionId: string | null = null;
+    if (scheduled_session_id) {
+      if (!uuidSchema.safeParse(scheduled_session_id).success) {
+        return NextResponse.json({ error: 'Invalid scheduled_session_id' }, { status: 400 });
+      }
+
+      const { data: scheduled } = await supabase
+        .from('scheduled_live_sessions')
+        .select('id, mission_day_id, session_id, cancelled_at')
+        .eq('id', scheduled_session_id)
+        .single();
+
+      if (!scheduled || scheduled.cancelled_at) {
+        return NextResponse.json({ error: 'Scheduled session not found' }, { status: 404 });
+      }
+
+      if (scheduled.session_id) {
+        return NextResponse.json({ error: 'Scheduled session has already started' }, { status: 400 });
+      }
+
+      scheduledSessionId = scheduled.id;
+      mission_day_id = scheduled.mission_day_id;
+    }
 
     if (!mission_day_id) {
       return NextResponse.json({ error: 'mission_day_id is required' }, { status: 400 });
@@ -63,6 +92,7 @@ export async function POST(request: NextRequest) {
         current_step: 1,
         current_section: 'briefing',
         is_active: true,
+        instructor_heartbeat_at: new Date().toISOString(),
       })
       .select()
       .single();
@@ -72,6 +102,34 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Failed to create session' }, { status: 500 });
     }
 
+    // Claim the scheduled slot; a simultaneous start may have taken it first
+    if (scheduledSessionId) {
+      const { data: claimed, error: claimError } = await supabase
+        .from('scheduled_live_sessions')
+        .update({ session_id: session.id })
+        .eq('id', scheduledSessionId)
+        .is('session_id', null)
+        .is('cancelled_at', null)
+        .select('id');
+
+      if (claimError || !claimed || claimed.length === 0) {
+        await supabase.from('live_sessions').delete().eq('id', session.id);
+
+        if (claimError) {
+          console.error('Failed to link scheduled session:', claimError);
+          return NextResponse.json({ error: 'Failed to create session' }, { status: 500 });
+        }
+        return NextResponse.json({ error: 'Scheduled session has already started' }, { status: 409 });
+      }
+    }
+
+    await recordTimelineStep(supabase, session.id, session.current_step, session.current_section, session.started_at);
+
+    // The instructor leads the session team
+    await supabase
+      .from('live_session_staff')
+      .insert({ session_id: session.id, participant_id: participant.id, role: 'lead', last_seen_at: session.started_at });
+
     return NextResponse.json({
       success: true,
       session: {
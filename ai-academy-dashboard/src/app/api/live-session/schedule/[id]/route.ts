@@ -0,0 +1,141 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceSupabaseClient } from '@/lib/supabase';
+import { requireAdminOrMentor, type AuthenticatedUser } from '@/lib/api-auth';
+import {
+  scheduledLiveSessionUpdateSchema,
+  uuidSchema,
+  validateInput,
+  formatValidationErrors,
+} from '@/lib/validation';
+
+type ServiceClient = ReturnType<typeof createServiceSupabaseClient>;
+
+// Admins manage every slot, mentors the ones they lead
+async function getEditableSlot(supabase: ServiceClient, id: string, user: AuthenticatedUser) {
+  const { data: slot } = await supabase
+    .from('scheduled_live_sessions')
+    .select('id, instructor_id, session_id, cancelled_at')
+    .eq('id', id)
+    .single();
+
+  if (!slot) {
+    return { slot: null, response: NextResponse.json({ error: 'Scheduled session not found' }, { status: 404 }) };
+  }
+
+  if (!user.isAdmin && slot.instructor_id !== user.participantId) {
+    return {
+      slot: null,
+      response: NextResponse.json({ error: 'Only the instructor or an admin can change this session' }, { status: 403 }),
+    };
+  }
+
+  if (slot.session_id || slot.cancelled_at) {
+    return {
+      slot: null,
+      response: NextResponse.json({ error: 'Session has already started or was cancelled' }, { status: 400 }),
+    };
+  }
+
+  return { slot, response: null };
+}
+
+// PATCH /api/live-session/schedule/[id] - Reschedule or edit a scheduled session
+// Moving the start time re-arms the reminder email.
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await requireAdminOrMentor(request);
+    if (!authResult.authenticated) {
+      return authResult.response;
+    }
+
+    const { id } = await params;
+    if (!uuidSchema.safeParse(id).success) {
+      return NextResponse.json({ error: 'Invalid session id' }, { status: 400 });
+    }
+
+    const body = await request.json();
+    const validation = validateInput(scheduledLiveSessionUpdateSchema, body);
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: formatValidationErrors(validation.errors) },
+        { status: 400 }
+      );
+    }
+
+    const supabase = createServiceSupabaseClient();
+    const { slot, response } = await getEditableSlot(supabase, id, authResult.user);
+    if (!slot) {
+      return response;
+    }
+
+    const { starts_at, ...rest } = validation.data;
+    const updates: Record<string, unknown> = { ...rest };
+
+    if (starts_at) {
+      if (new Date(starts_at) <= new Date()) {
+        return NextResponse.json({ error: 'Sessions must be scheduled in the future' }, { status: 400 });
+      }
+      updates.starts_at = new Date(starts_at).toISOString();
+      updates.reminder_sent_at = null;
+    }
+
+    const { data: scheduled, error } = await supabase
+      .from('scheduled_live_sessions')
+      .update(updates)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Failed to update scheduled session:', error);
+      return NextResponse.json({ error: 'Failed to update scheduled session' }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true, scheduled });
+  } catch (error) {
+    console.error('Update scheduled session error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// DELETE /api/live-session/schedule/[id] - Cancel a scheduled session
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await requireAdminOrMentor(request);
+    if (!authResult.authenticated) {
+      return authResult.response;
+    }
+
+    const { id } = await params;
+    if (!uuidSchema.safeParse(id).success) {
+      return NextResponse.json({ error: 'Invalid session id' }, { status: 400 });
+    }
+
+    const supabase = createServiceSupabaseClient();
+    const { slot, response } = await getEditableSlot(supabase, id, authResult.user);
+    if (!slot) {
+      return response;
+    }
+
+    const { error } = await supabase
+      .from('scheduled_live_sessions')
+      .update({ cancelled_at: new Date().toISOString() })
+      .eq('id', id);
+
+    if (error) {
+      console.error('Failed to cancel scheduled session:', error);
+      return NextResponse.json({ error: 'Failed to cancel scheduled session' }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Cancel scheduled session error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceSupabaseClient } from '@/lib/supabase';
+import { requireAdminOrMentor, requireAuth } from '@/lib/api-auth';
+import { getUpcomingLiveSessions } from '@/lib/liveSchedule';
+import { scheduledLiveSessionSchema, validateInput, formatValidationErrors } from '@/lib/validation';
+
+// GET /api/live-session/schedule - Upcoming scheduled live sessions
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await requireAuth(request);
+    if (!authResult.authenticated) {
+      return authResult.response;
+    }
+
+    const supabase = createServiceSupabaseClient();
+    const sessions = await getUpcomingLiveSessions(supabase, { limit: 50 });
+
+    return NextResponse.json({ sessions });
+  } catch (error) {
+    console.error('Get scheduled sessions error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST /api/live-session/schedule - Schedule a live session for a mission day
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await requireAdminOrMentor(request);
+    if (!authResult.authenticated) {
+      return authResult.response;
+    }
+
+    const body = await request.json();
+    const validation = validateInput(scheduledLiveSessionSchema, body);
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: formatValidationErrors(validation.errors) },
+        { status: 400 }
+      );
+    }
+
+    const { mission_day_id, title, description, starts_at, duration_minutes, instructor_id } = validation.data;
+
+    if (new Date(starts_at) <= new Date()) {
+      return NextResponse.json({ error: 'Sessions must be scheduled in the future' }, { status: 400 });
+    }
+
+    const supabase = createServiceSupabaseClient();
+
+    const { data: missionDay } = await supabase
+      .from('mission_days')
+      .select('id')
+      .eq('id', mission_day_id)
+      .single();
+
+    if (!missionDay) {
+      return NextResponse.json({ error: 'Invalid mission_day_id - mission day not found' }, { status: 400 });
+    }
+
+    if (instructor_id) {
+      const { data: instructor } = await supabase
+        .from('participants')
+        .select('id, is_admin, is_mentor')
+        .eq('id', instructor_id)
+        .single();
+
+      if (!instructor?.is_admin && !instructor?.is_mentor) {
+        return NextResponse.json({ error: 'Only admins and mentors can lead sessions' }, { status: 400 });
+      }
+    }
+
+    const { data: scheduled, error } = await supabase
+      .from('scheduled_live_sessions')
+      .insert({
+        mission_day_id,
+        title,
+        description: description ?? null,
+        starts_at: new Date(starts_at).toISOString(),
+        duration_minutes: duration_minutes ?? 90,
+        instructor_id: instructor_id ?? authResult.user.participantId ?? null,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Failed to schedule session:', error);
+      return NextResponse.json({ error: 'Failed to schedule session' }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true, scheduled });
+  } catch (error) {
+    console.error('Schedule session error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth, currentUser } from '@clerk/nextjs/server';
 import { createServiceSupabaseClient } from '@/lib/supabase';
+import { isValidTimeZone } from '@/lib/timezone';
 
 // Valid values for profile fields
 const VALID_ROLES = ['FDE', 'AI-SE', 'AI-PM', 'AI-DA', 'AI-DS', 'AI-SEC', 'AI-FE'];
@@ -77,7 +78,7 @@ export async function PATCH(request: NextRequest) {
     }
 
     const body = await request.json();
-    const { participant_id, role, team, stream } = body;
+    const { participant_id, role, team, stream, timezone } = body;
 
     if (!participant_id) {
       return NextResponse.json({ error: 'participant_id required' }, { status: 400 });
@@ -143,6 +144,17 @@ export async function PATCH(request: NextRequest) {
       }
     }
 
+    // Update timezone if provided and valid (empty = use task force timezone)
+    if (timezone !== undefined) {
+      if (timezone === '' || timezone === null) {
+        updates.timezone = null;
+      } else if (typeof timezone === 'string' && isValidTimeZone(timezone)) {
+        updates.timezone = timezone;
+      } else {
+        return NextResponse.json({ error: 'Invalid timezone' }, { status: 400 });
+      }
+    }
+
     // Link GitHub username if available and not already set
     const githubUsername = clerkUser.externalAccounts?.find(
       (acc) => acc.provider === 'github'
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceSupabaseClient } from '@/lib/supabase';
+import { requireAuth } from '@/lib/api-auth';
+import { uuidSchema } from '@/lib/validation';
+import { getPeerConsensus } from '@/lib/peerCalibration';
+
+// GET /api/peer-review/consensus?participant_id=... - Peer rating of a participant's
+// submissions, weighted by how reliable each reviewer has been
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await requireAuth(request);
+    if (!authResult.authenticated) {
+      return authResult.response;
+    }
+
+    const participantId = request.nextUrl.searchParams.get('participant_id') ?? authResult.user.participantId;
+    if (!participantId || !uuidSchema.safeParse(participantId).success) {
+      return NextResponse.json({ error: 'Invalid participant_id' }, { status: 400 });
+    }
+
+    const { user } = authResult;
+    if (participantId !== user.participantId && !user.isAdmin && !user.isMentor) {
+      return NextResponse.json({ error: 'Cannot view other users\' peer ratings' }, { status: 403 });
+    }
+
+    const supabase = createServiceSupabaseClient();
+    const { data: submissions, error } = await supabase
+      .from('submissions')
+      .select('id')
+      .eq('participant_id', participantId);
+
+    if (error) {
+      console.error('Peer consensus submissions error:', error);
+      return NextResponse.json({ error: 'Failed to fetch peer ratings' }, { status: 500 });
+    }
+
+    const consensus = await getPeerConsensus(supabase, (submissions ?? []).map((s) => s.id as string));
+    return NextResponse.json(consensus);
+  } catch (error) {
+    console.error('Peer consensus error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -1,11 +1,20 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createServiceSupabaseClient } from '@/lib/supabase';
-import { sendEmail, getAchievementNotificationEmail } from '@/lib/email';
-import { ACHIEVEMENT_ICONS } from '@/lib/types';
 import { requireAuth } from '@/lib/api-auth';
-import crypto from 'crypto';
-
-const BONUS_POINTS_PER_REVIEW = 2;
+import { evaluateAchievements } from '@/lib/achievementEngine';
+import { assignPeerReviewers, assignPeerReviewsForDay } from '@/lib/peerReviewMatching';
+import { feedbackQuality } from '@/lib/peerCalibration';
+import {
+  peerReviewAssignSchema,
+  peerReviewAssignDaySchema,
+  peerReviewHelpfulnessSchema,
+  peerReviewReplySchema,
+  peerReviewFlagSchema,
+  validateInput,
+  formatValidationErrors,
+} from '@/lib/validation';
+
+type ServiceClient = ReturnType<typeof createServiceSupabaseClient>;
 
 // GET - Fetch peer reviews for a participant
 export async function GET(request: NextRequest) {
@@ -17,6 +26,15 @@ export async function GET(request: NextRequest) {
     }
 
     const searchParams = request.nextUrl.searchParams;
+
+    // Reviews of the caller's own submissions
+    if (searchParams.get('received') === 'true') {
+      if (!authResult.user.participantId) {
+        return NextResponse.json({ peer_reviews: [] });
+      }
+      return handleGetReceived(authResult.user.participantId);
+    }
+
     const reviewerId = searchParams.get('reviewer_id');
     const submissionId = searchParams.get('submission_id');
     const status = searchParams.get('status');
@@ -108,14 +126,28 @@ export async function POST(request: NextRequest) {
         );
       }
       return handleAssignReviews(body);
+    } else if (action === 'assign_day') {
+      if (!authResult.user.isAdmin) {
+        return NextResponse.json(
+          { error: 'Only admins can assign peer reviews' },
+          { status: 403 }
+        );
+      }
+      return handleAssignDay(body, authResult.user.participantId);
     } else if (action === 'submit') {
       return handleSubmitReview(body, authResult.user.participantId);
     } else if (action === 'skip') {
       return handleSkipReview(body, authResult.user.participantId);
+    } else if (action === 'rate_helpfulness') {
+      return handleRateHelpfulness(body, authResult.user.participantId);
+    } else if (action === 'reply') {
+      return handleReply(body, authResult.user.participantId);
+    } else if (action === 'flag') {
+      return handleFlag(body, authResult.user.participantId);
     }
 
     return NextResponse.json(
-      { error: 'Invalid action. Use "assign", "submit", or "skip"' },
+      { error: 'Invalid action. Use "assign", "assign_day", "submit", "skip", "rate_helpfulness", "reply", or "flag"' },
       { status: 400 }
     );
   } catch (error) {
@@ -127,105 +159,93 @@ export async function POST(request: NextRequest) {
   }
 }
 
-// Assign peer reviews for a submission
-async function handleAssignReviews(body: {
-  submission_id: string;
-  count?: number;
-}) {
-  const { submission_id, count = 2 } = body;
-
-  if (!submission_id) {
+// Assign peer reviewers to a submission (see lib/peerReviewMatching)
+async function handleAssignReviews(body: unknown) {
+  const validation = validateInput(peerReviewAssignSchema, body);
+  if (!validation.success) {
     return NextResponse.json(
-      { error: 'submission_id is required' },
+      { error: 'Validation failed', details: formatValidationErrors(validation.errors) },
       { status: 400 }
     );
   }
 
+  const { submission_id, count, cross_role } = validation.data;
   const supabase = createServiceSupabaseClient();
 
-  // Get the submission to find the participant
-  const { data: submission, error: subError } = await supabase
+  const { data: submission } = await supabase
     .from('submissions')
-    .select('participant_id')
+    .select('id')
     .eq('id', submission_id)
     .single();
 
-  if (subError || !submission) {
+  if (!submission) {
     return NextResponse.json(
       { error: 'Submission not found' },
       { status: 404 }
     );
   }
 
-  // Get all participants except the submission author
-  const { data: participants, error: partError } = await supabase
-    .from('participants')
-    .select('id')
-    .neq('id', submission.participant_id);
+  try {
+    const result = await assignPeerReviewers(supabase, submission_id, { count, crossRole: cross_role });
+
+    if (result.needed > 0 && result.reviewerIds.length === 0) {
+      return NextResponse.json(
+        { error: 'No available reviewers' },
+        { status: 400 }
+      );
+    }
 
-  if (partError || !participants || participants.length === 0) {
+    return NextResponse.json({
+      success: true,
+      assigned: result.reviewerIds.length,
+      reviewer_ids: result.reviewerIds,
+    });
+  } catch (error) {
+    console.error('Failed to assign peer reviews:', error);
     return NextResponse.json(
-      { error: 'No available reviewers' },
-      { status: 400 }
+      { error: 'Failed to assign peer reviews' },
+      { status: 500 }
     );
   }
+}
 
-  // Check who already has this submission assigned
-  const { data: existingReviews } = await supabase
-    .from('peer_reviews')
-    .select('reviewer_id')
-    .eq('submission_id', submission_id);
-
-  const existingReviewerIds = new Set(
-    existingReviews?.map((r) => r.reviewer_id) ?? []
-  );
-
-  // Filter out existing reviewers
-  const availableReviewers = participants.filter(
-    (p) => !existingReviewerIds.has(p.id)
-  );
-
-  if (availableReviewers.length === 0) {
+// Assign peer reviewers to every under-reviewed submission of a program day
+async function handleAssignDay(body: unknown, adminId: string) {
+  const validation = validateInput(peerReviewAssignDaySchema, body);
+  if (!validation.success) {
     return NextResponse.json(
-      { error: 'All participants already assigned this review' },
+      { error: 'Validation failed', details: formatValidationErrors(validation.errors) },
       { status: 400 }
     );
   }
 
-  // Randomly select reviewers using cryptographically secure random
-  const shuffled = availableReviewers
-    .map(r => ({ r, sort: crypto.randomBytes(4).readUInt32BE(0) }))
-    .sort((a, b) => a.sort - b.sort)
-    .map(({ r }) => r);
-  const selectedReviewers = shuffled.slice(0, Math.min(count, shuffled.length));
-
-  // Create peer review assignments
-  const newReviews = selectedReviewers.map((reviewer) => ({
-    submission_id,
-    reviewer_id: reviewer.id,
-    is_anonymous: true,
-    status: 'pending',
-    bonus_points_earned: 0,
-  }));
+  const { day, count, cross_role } = validation.data;
+  const supabase = createServiceSupabaseClient();
 
-  const { data: created, error: createError } = await supabase
-    .from('peer_reviews')
-    .insert(newReviews)
-    .select();
+  try {
+    const summary = await assignPeerReviewsForDay(supabase, day, { count, crossRole: cross_role });
+
+    await supabase.from('activity_log').insert({
+      participant_id: adminId,
+      action: 'peer_review_assign',
+      details: {
+        day,
+        count: count ?? null,
+        cross_role: !!cross_role,
+        submissions: summary.submissions,
+        assigned: summary.assigned,
+        short: summary.short.length,
+      },
+    });
 
-  if (createError) {
-    console.error('Failed to assign peer reviews:', createError);
+    return NextResponse.json({ success: true, ...summary });
+  } catch (error) {
+    console.error('Failed to assign peer reviews for day:', error);
     return NextResponse.json(
       { error: 'Failed to assign peer reviews' },
       { status: 500 }
     );
   }
-
-  return NextResponse.json({
-    success: true,
-    assigned: created?.length ?? 0,
-    peer_reviews: created,
-  });
 }
 
 // Submit a peer review
@@ -264,7 +284,7 @@ async function handleSubmitReview(body: {
   // Verify this review is assigned to the authenticated user
   const { data: existingReview } = await supabase
     .from('peer_reviews')
-    .select('reviewer_id, status')
+    .select('reviewer_id, submission_id, status, submissions(mentor_rating)')
     .eq('id', peer_review_id)
     .single();
 
@@ -284,11 +304,30 @@ async function handleSubmitReview(body: {
 
   if (existingReview.status !== 'pending') {
     return NextResponse.json(
-      { error: 'This review has already been completed' },
+      { error: existingReview.status === 'expired' ? 'This review has expired' : 'This review has already been completed' },
       { status: 400 }
     );
   }
 
+  // Bonus scales with feedback quality, judged against the mentor rating or
+  // else the peers who already reviewed this submission
+  let reference =
+    (existingReview.submissions as unknown as { mentor_rating: number | null } | null)?.mentor_rating ?? null;
+  if (reference === null) {
+    const { data: otherReviews } = await supabase
+      .from('peer_reviews')
+      .select('rating')
+      .eq('submission_id', existingReview.submission_id)
+      .eq('status', 'completed')
+      .neq('id', peer_review_id);
+
+    const ratings = (otherReviews ?? []).map((r) => r.rating as number | null).filter((r): r is number => r !== null);
+    if (ratings.length > 0) {
+      reference = ratings.reduce((sum, r) => sum + r, 0) / ratings.length;
+    }
+  }
+  const quality = feedbackQuality(feedback ?? null, rating, reference);
+
   // Update the peer review
   const { data: peerReview, error } = await supabase
     .from('peer_reviews')
@@ -297,12 +336,15 @@ async function handleSubmitReview(body: {
       feedback: feedback || null,
       status: 'completed',
       completed_at: new Date().toISOString(),
-      bonus_points_earned: BONUS_POINTS_PER_REVIEW,
+      bonus_points_earned: quality.bonus,
+      quality_score: quality.score,
     })
     .eq('id', peer_review_id)
     .eq('reviewer_id', authenticatedUserId)
+    // The deadline job may have expired and reassigned it since the check above
+    .eq('status', 'pending')
     .select('reviewer_id, submission_id')
-    .single();
+    .maybeSingle();
 
   if (error) {
     console.error('Submit peer review error:', error);
@@ -312,10 +354,17 @@ async function handleSubmitReview(body: {
     );
   }
 
+  if (!peerReview) {
+    return NextResponse.json(
+      { error: 'This review is no longer open' },
+      { status: 409 }
+    );
+  }
+
   // Update the reviewer's bonus points in leaderboard
   await supabase.rpc('increment_bonus_points', {
     p_participant_id: peerReview.reviewer_id,
-    p_points: BONUS_POINTS_PER_REVIEW,
+    p_points: quality.bonus,
   });
 
   // Log activity
@@ -325,24 +374,18 @@ async function handleSubmitReview(body: {
     details: {
       peer_review_id,
       rating,
-      bonus_points: BONUS_POINTS_PER_REVIEW,
+      bonus_points: quality.bonus,
+      quality_score: quality.score,
     },
   });
 
   // Check for peer_reviewer achievement (complete 5 reviews)
-  const { count } = await supabase
-    .from('peer_reviews')
-    .select('*', { count: 'exact', head: true })
-    .eq('reviewer_id', peerReview.reviewer_id)
-    .eq('status', 'completed');
-
-  if (count && count >= 5) {
-    await checkAndAwardAchievement(supabase, peerReview.reviewer_id, 'team_player');
-  }
+  await evaluateAchievements(supabase, peerReview.reviewer_id, 'peer_review');
 
   return NextResponse.json({
     success: true,
-    bonus_points_earned: BONUS_POINTS_PER_REVIEW,
+    bonus_points_earned: quality.bonus,
+    quality_score: quality.score,
   });
 }
 
@@ -389,6 +432,13 @@ async function handleSkipReview(body: { peer_review_id: string }, authenticatedU
     );
   }
 
+  if (existingReview.status !== 'pending') {
+    return NextResponse.json(
+      { error: existingReview.status === 'expired' ? 'This review has expired' : 'This review is no longer pending' },
+      { status: 400 }
+    );
+  }
+
   const { error } = await supabase
     .from('peer_reviews')
     .update({
@@ -409,61 +459,204 @@ async function handleSkipReview(body: { peer_review_id: string }, authenticatedU
   return NextResponse.json({ success: true });
 }
 
-// Helper to check and award achievement
-async function checkAndAwardAchievement(
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  supabase: any,
-  participantId: string,
-  achievementCode: string
-) {
-  const { data: achievement } = await supabase
-    .from('achievements')
-    .select('id, name, description, points_bonus')
-    .eq('code', achievementCode)
-    .single();
-
-  if (!achievement) return;
+// Completed reviews of the author's submissions. Anonymous reviews come without
+// the reviewer, and feedback removed by a moderator is withheld.
+async function handleGetReceived(participantId: string) {
+  const supabase = createServiceSupabaseClient();
 
-  const { data: existing } = await supabase
-    .from('participant_achievements')
+  const { data: submissions, error: submissionsError } = await supabase
+    .from('submissions')
     .select('id')
-    .eq('participant_id', participantId)
-    .eq('achievement_id', achievement.id)
-    .single();
+    .eq('participant_id', participantId);
 
-  if (existing) return;
+  if (submissionsError) {
+    console.error('Received peer reviews submissions error:', submissionsError);
+    return NextResponse.json({ error: 'Failed to fetch peer reviews' }, { status: 500 });
+  }
 
-  await supabase.from('participant_achievements').insert({
-    participant_id: participantId,
-    achievement_id: achievement.id,
-  });
+  const submissionIds = (submissions ?? []).map((s) => s.id as string);
+  if (submissionIds.length === 0) {
+    return NextResponse.json({ peer_reviews: [] });
+  }
 
-  await supabase.from('activity_log').insert({
-    participant_id: participantId,
-    action: 'achievement',
-    details: { achievement_code: achievementCode },
+  const { data, error } = await supabase
+    .from('peer_reviews')
+    .select(`
+      *,
+      submissions(
+        id,
+        commit_message,
+        readme_content,
+        commit_url,
+        assignments(title, day, type)
+      )
+    `)
+    .in('submission_id', submissionIds)
+    .eq('status', 'completed')
+    .order('completed_at', { ascending: false });
+
+  if (error) {
+    console.error('Received peer reviews fetch error:', error);
+    return NextResponse.json({ error: 'Failed to fetch peer reviews' }, { status: 500 });
+  }
+
+  const peerReviews = (data ?? []).map((review) => {
+    const { reviewer_id, ...rest } = review;
+    return {
+      ...rest,
+      ...(review.is_anonymous ? {} : { reviewer_id }),
+      feedback: review.moderation_status === 'removed' ? null : review.feedback,
+    };
   });
 
-  // Get participant email for notification
-  const { data: participant } = await supabase
-    .from('participants')
-    .select('name, email')
-    .eq('id', participantId)
+  return NextResponse.json({ peer_reviews: peerReviews });
+}
+
+// A completed review of one of the author's submissions, or the error response
+async function loadReceivedReview(supabase: ServiceClient, peerReviewId: string, authorId: string) {
+  const { data: review } = await supabase
+    .from('peer_reviews')
+    .select('id, reviewer_id, status, bonus_points_earned, helpfulness, author_reply, moderation_status, submissions(participant_id)')
+    .eq('id', peerReviewId)
     .single();
 
-  if (participant?.email) {
-    const achievementEmail = getAchievementNotificationEmail({
-      participantName: participant.name,
-      achievementName: achievement.name,
-      achievementDescription: achievement.description || undefined,
-      achievementIcon: ACHIEVEMENT_ICONS[achievementCode] || '🏆',
-      bonusPoints: achievement.points_bonus,
-    });
+  if (!review) {
+    return { response: NextResponse.json({ error: 'Peer review not found' }, { status: 404 }) };
+  }
+
+  const author = (review.submissions as unknown as { participant_id: string } | null)?.participant_id;
+  if (author !== authorId) {
+    return {
+      response: NextResponse.json({ error: 'Only the author can respond to this review' }, { status: 403 }),
+    };
+  }
+
+  if (review.status !== 'completed') {
+    return { response: NextResponse.json({ error: 'This review is not completed' }, { status: 400 }) };
+  }
+
+  return { review };
+}
+
+// Author rates how helpful a review was (once); helpful reviews earn the reviewer extra bonus
+async function handleRateHelpfulness(body: unknown, authenticatedUserId: string) {
+  const validation = validateInput(peerReviewHelpfulnessSchema, body);
+  if (!validation.success) {
+    return NextResponse.json(
+      { error: 'Validation failed', details: formatValidationErrors(validation.errors) },
+      { status: 400 }
+    );
+  }
+
+  const { peer_review_id, helpfulness } = validation.data;
+  const supabase = createServiceSupabaseClient();
+
+  const loaded = await loadReceivedReview(supabase, peer_review_id, authenticatedUserId);
+  if (!loaded.review) return loaded.response;
+  const { review } = loaded;
+
+  if (review.helpfulness !== null) {
+    return NextResponse.json({ error: 'You already rated this review' }, { status: 409 });
+  }
+
+  // Stores the rating and pays the bonus in one statement, so it is paid once.
+  // Removed feedback earns nothing.
+  const { data: bonus, error } = await supabase.rpc('rate_peer_review_helpfulness', {
+    p_peer_review_id: peer_review_id,
+    p_helpfulness: helpfulness,
+  });
+
+  if (error) {
+    console.error('Rate peer review helpfulness error:', error);
+    return NextResponse.json({ error: 'Failed to rate review' }, { status: 500 });
+  }
+
+  if (bonus === null) {
+    return NextResponse.json({ error: 'You already rated this review' }, { status: 409 });
+  }
+
+  return NextResponse.json({ success: true, helpfulness });
+}
+
+// Author replies to a review once; the reviewer sees it without the author's name on anonymous reviews
+async function handleReply(body: unknown, authenticatedUserId: string) {
+  const validation = validateInput(peerReviewReplySchema, body);
+  if (!validation.success) {
+    return NextResponse.json(
+      { error: 'Validation failed', details: formatValidationErrors(validation.errors) },
+      { status: 400 }
+    );
+  }
+
+  const { peer_review_id, reply } = validation.data;
+  const supabase = createServiceSupabaseClient();
+
+  const loaded = await loadReceivedReview(supabase, peer_review_id, authenticatedUserId);
+  if (!loaded.review) return loaded.response;
+
+  if (loaded.review.author_reply !== null) {
+    return NextResponse.json({ error: 'You already replied to this review' }, { status: 409 });
+  }
+
+  const { data: updated, error } = await supabase
+    .from('peer_reviews')
+    .update({ author_reply: reply, author_replied_at: new Date().toISOString() })
+    .eq('id', peer_review_id)
+    .is('author_reply', null)
+    .select('id');
+
+  if (error) {
+    console.error('Reply to peer review error:', error);
+    return NextResponse.json({ error: 'Failed to save reply' }, { status: 500 });
+  }
+
+  if (!updated || updated.length === 0) {
+    return NextResponse.json({ error: 'You already replied to this review' }, { status: 409 });
+  }
+
+  return NextResponse.json({ success: true });
+}
+
+// Author flags a review for admin moderation
+async function handleFlag(body: unknown, authenticatedUserId: string) {
+  const validation = validateInput(peerReviewFlagSchema, body);
+  if (!validation.success) {
+    return NextResponse.json(
+      { error: 'Validation failed', details: formatValidationErrors(validation.errors) },
+      { status: 400 }
+    );
+  }
+
+  const { peer_review_id, reason, details } = validation.data;
+  const supabase = createServiceSupabaseClient();
+
+  const loaded = await loadReceivedReview(supabase, peer_review_id, authenticatedUserId);
+  if (!loaded.review) return loaded.response;
+
+  if (loaded.review.moderation_status !== null) {
+    return NextResponse.json({ error: 'This review was already flagged' }, { status: 409 });
+  }
+
+  const { error } = await supabase
+    .from('peer_reviews')
+    .update({
+      flag_reason: reason,
+      flag_details: details?.trim() || null,
+      flagged_at: new Date().toISOString(),
+      moderation_status: 'pending',
+    })
+    .eq('id', peer_review_id);
 
-    sendEmail({
-      to: participant.email,
-      subject: achievementEmail.subject,
-      html: achievementEmail.html,
-    }).catch((err) => console.error('Failed to send achievement email:', err));
+  if (error) {
+    console.error('Flag peer review error:', error);
+    return NextResponse.json({ error: 'Failed to flag review' }, { status: 500 });
   }
+
+  await supabase.from('activity_log').insert({
+    participant_id: authenticatedUserId,
+    action: 'peer_review_flag',
+    details: { peer_review_id, reason },
+  });
+
+  return NextResponse.json({ success: true });
 }
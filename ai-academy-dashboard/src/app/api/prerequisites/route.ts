@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceSupabaseClient } from '@/lib/supabase';
+import { requireAuth } from '@/lib/api-auth';
+import { prerequisiteUpdateSchema, validateInput, formatValidationErrors } from '@/lib/validation';
+import { getParticipantPrerequisites, summarizeProgress } from '@/lib/prerequisites';
+
+// GET /api/prerequisites - The signed-in participant's setup checklist
+// Pending participants can use it too, so they are ready before the course starts.
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await requireAuth(request);
+    if (!authResult.authenticated) {
+      return authResult.response;
+    }
+
+    if (!authResult.user.participantId) {
+      return NextResponse.json({ error: 'User account not fully set up' }, { status: 403 });
+    }
+
+    const supabase = createServiceSupabaseClient();
+    const items = await getParticipantPrerequisites(supabase, authResult.user.participantId);
+
+    return NextResponse.json({ items, summary: summarizeProgress(items) });
+  } catch (error) {
+    console.error('Prerequisites fetch error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// PATCH /api/prerequisites - Tick an item off (or back on) and/or save a note
+export async function PATCH(request: NextRequest) {
+  try {
+    const authResult = await requireAuth(request);
+    if (!authResult.authenticated) {
+      return authResult.response;
+    }
+
+    if (!authResult.user.participantId) {
+      return NextResponse.json({ error: 'User account not fully set up' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const validation = validateInput(prerequisiteUpdateSchema, body);
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: formatValidationErrors(validation.errors) },
+        { status: 400 }
+      );
+    }
+
+    const { prerequisite_id, is_completed, notes } = validation.data;
+    const participantId = authResult.user.participantId;
+    const supabase = createServiceSupabaseClient();
+
+    const { data: item } = await supabase
+      .from('prerequisite_items')
+      .select('id')
+      .eq('id', prerequisite_id)
+      .maybeSingle();
+
+    if (!item) {
+      return NextResponse.json({ error: 'Prerequisite not found' }, { status: 404 });
+    }
+
+    const { data: existing } = await supabase
+      .from('participant_prerequisites')
+      .select('is_completed, completed_at')
+      .eq('participant_id', participantId)
+      .eq('prerequisite_id', prerequisite_id)
+      .maybeSingle();
+
+    const completed = is_completed ?? existing?.is_completed ?? false;
+    const now = new Date().toISOString();
+
+    const { error } = await supabase.from('participant_prerequisites').upsert(
+      {
+        participant_id: participantId,
+        prerequisite_id,
+        is_completed: completed,
+        // Keep the original completion time when only the note changes
+        completed_at: completed ? (existing?.is_completed ? existing.completed_at : now) : null,
+        ...(notes !== undefined ? { notes: notes || null } : {}),
+        updated_at: now,
+      },
+      { onConflict: 'participant_id,prerequisite_id' }
+    );
+
+    if (error) {
+      console.error('Prerequisite update error:', error);
+      return NextResponse.json({ error: 'Failed to update checklist' }, { status: 500 });
+    }
+
+    const items = await getParticipantPrerequisites(supabase, participantId);
+
+    return NextResponse.json({ success: true, items, summary: summarizeProgress(items) });
+  } catch (error) {
+    console.error('Prerequisite update error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
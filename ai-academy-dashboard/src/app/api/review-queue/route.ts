@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceSupabaseClient } from '@/lib/supabase';
+import { requireAdminOrMentor } from '@/lib/api-auth';
+import { getMentorLoads, getSlaState } from '@/lib/mentorAssignment';
+
+// GET /api/review-queue - Open review assignments of the signed-in mentor, due first
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await requireAdminOrMentor(request);
+    if (!authResult.authenticated) {
+      return authResult.response;
+    }
+
+    const mentorId = authResult.user.participantId;
+    if (!mentorId) {
+      return NextResponse.json({ assignments: [], pool: null });
+    }
+
+    const supabase = createServiceSupabaseClient();
+    const now = new Date();
+
+    const [{ data, error }, loads] = await Promise.all([
+      supabase
+        .from('review_assignments')
+        .select(`
+          id, revision, reason, assigned_at, due_at,
+          submissions(
+            id, submitted_at, commit_url, self_rating, mentor_rating, mentor_notes,
+            current_revision, reviewed_revision, readme_analysis, rubric_scores,
+            participants!participant_id(name, github_username, avatar_url, role, team),
+            assignments(title, day, type, rubric)
+          )
+        `)
+        .eq('mentor_id', mentorId)
+        .eq('status', 'open')
+        .order('due_at'),
+      getMentorLoads(supabase, now),
+    ]);
+
+    if (error) {
+      console.error('Review queue fetch error:', error);
+      return NextResponse.json({ error: 'Failed to fetch review queue' }, { status: 500 });
+    }
+
+    const assignments = (data || []).map((row) => ({
+      ...row,
+      sla_state: getSlaState(row.due_at, now),
+    }));
+
+    return NextResponse.json({
+      assignments,
+      pool: loads.find((load) => load.participant_id === mentorId) ?? null,
+    });
+  } catch (error) {
+    console.error('Review queue fetch error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
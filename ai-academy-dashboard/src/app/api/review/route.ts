@@ -1,14 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createServiceSupabaseClient } from '@/lib/supabase';
-import {
-  sendEmail,
-  getReviewNotificationEmail,
-  getAchievementNotificationEmail,
-} from '@/lib/email';
-import { ACHIEVEMENT_ICONS } from '@/lib/types';
+import { sendEmail, getReviewNotificationEmail } from '@/lib/email';
 import { requireAdminOrMentor, getCorrelationId } from '@/lib/api-auth';
 import { reviewSchema, validateInput, formatValidationErrors } from '@/lib/validation';
 import { logger, logApiRequest } from '@/lib/logger';
+import { recordRevisionReview } from '@/lib/submissionRevisions';
+import { evaluateAchievements } from '@/lib/achievementEngine';
+import { applyScoringPolicy } from '@/lib/scoring';
+import { completeReviewAssignments } from '@/lib/mentorAssignment';
+import { scoreRubric } from '@/lib/rubric';
+import type { Rubric, RubricScore } from '@/lib/types';
 
 export async function POST(request: NextRequest) {
   const startTime = Date.now();
@@ -39,21 +40,56 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const { submission_id, mentor_rating, mentor_notes } = validation.data;
+    const { submission_id, mentor_notes } = validation.data;
 
     const supabase = createServiceSupabaseClient();
 
+    // Rubric assignments are scored per criterion; the rating follows from the scores
+    const { data: target } = await supabase
+      .from('submissions')
+      .select('assignments(rubric)')
+      .eq('id', submission_id)
+      .single();
+
+    if (!target) {
+      logApiRequest('POST', '/api/review', 404, Date.now() - startTime, { correlationId });
+      return NextResponse.json({ error: 'Submission not found' }, { status: 404 });
+    }
+
+    const rubric = (target.assignments as unknown as { rubric: Rubric | null } | null)?.rubric ?? null;
+    let mentor_rating = validation.data.mentor_rating;
+    let rubricScores: RubricScore[] | null = null;
+
+    if (rubric) {
+      const scored = scoreRubric(rubric, validation.data.rubric_scores ?? []);
+      if (!scored.ok) {
+        logApiRequest('POST', '/api/review', 400, Date.now() - startTime, { correlationId });
+        return NextResponse.json({ error: 'Validation failed', details: scored.error }, { status: 400 });
+      }
+      rubricScores = scored.scores;
+      mentor_rating = scored.mentorRating;
+    } else if (validation.data.rubric_scores || mentor_rating === undefined) {
+      logApiRequest('POST', '/api/review', 400, Date.now() - startTime, { correlationId });
+      return NextResponse.json(
+        { error: 'Validation failed', details: 'This assignment has no rubric, mentor_rating is required' },
+        { status: 400 }
+      );
+    }
+
+    const reviewedAt = new Date().toISOString();
+
     // Update submission with review and get participant + assignment info for email
     const { data: submission, error } = await supabase
       .from('submissions')
       .update({
         mentor_rating,
         mentor_notes: mentor_notes || null,
+        rubric_scores: rubricScores,
         status: 'reviewed',
-        reviewed_at: new Date().toISOString(),
+        reviewed_at: reviewedAt,
       })
       .eq('id', submission_id)
-      .select('participant_id, assignment_id')
+      .select('participant_id, assignment_id, current_revision')
       .single();
 
     if (error) {
@@ -65,6 +101,34 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Attach the review to the revision that was reviewed
+    try {
+      await recordRevisionReview(supabase, [{ id: submission_id, current_revision: submission.current_revision }], {
+        status: 'reviewed',
+        mentorRating: mentor_rating,
+        mentorNotes: mentor_notes || null,
+        rubricScores,
+        reviewedBy: authResult.user.id,
+        reviewedAt,
+      });
+    } catch (revisionError) {
+      logger.error('Failed to record revision review', { correlationId, submission_id }, revisionError as Error);
+    }
+
+    // Reviewed, so it leaves the assigned mentor's queue
+    try {
+      await completeReviewAssignments(supabase, [submission_id], authResult.user.participantId ?? null);
+    } catch (assignmentError) {
+      logger.error('Failed to complete review assignment', { correlationId }, assignmentError as Error);
+    }
+
+    // Mentor rating can change points under the scoring policy
+    try {
+      await applyScoringPolicy(supabase, [submission_id]);
+    } catch (scoreError) {
+      logger.error('Failed to apply scoring policy', { correlationId }, scoreError as Error);
+    }
+
     // Get participant details for email
     const { data: participant } = await supabase
       .from('participants')
@@ -104,6 +168,7 @@ export async function POST(request: NextRequest) {
         assignmentTitle: `Day ${assignment.day}: ${assignment.title}`,
         mentorRating: mentor_rating,
         mentorNotes: mentor_notes || undefined,
+        rubricScores: rubricScores ?? undefined,
       });
 
       // Send email asynchronously (don't block the response)
@@ -114,58 +179,14 @@ export async function POST(request: NextRequest) {
       }).catch((err) => logger.error('Failed to send review email', { correlationId }, err as Error));
     }
 
-    // Check for mentor_favorite achievement (5/5 rating)
-    if (mentor_rating === 5) {
-      const { data: achievement } = await supabase
-        .from('achievements')
-        .select('id, name, description, icon, points_bonus')
-        .eq('code', 'mentor_favorite')
-        .single();
-
-      if (achievement) {
-        const { data: existingAchievement } = await supabase
-          .from('participant_achievements')
-          .select('id')
-          .eq('participant_id', submission.participant_id)
-          .eq('achievement_id', achievement.id)
-          .single();
-
-        if (!existingAchievement) {
-          await supabase.from('participant_achievements').insert({
-            participant_id: submission.participant_id,
-            achievement_id: achievement.id,
-          });
-
-          await supabase.from('activity_log').insert({
-            participant_id: submission.participant_id,
-            action: 'achievement',
-            details: { achievement_code: 'mentor_favorite' },
-          });
-
-          logger.info('Achievement awarded', {
-            correlationId,
-            participantId: submission.participant_id,
-            achievement: 'mentor_favorite',
-          });
-
-          // Send achievement notification email
-          if (participant?.email) {
-            const achievementEmail = getAchievementNotificationEmail({
-              participantName: participant.name,
-              achievementName: achievement.name,
-              achievementDescription: achievement.description || undefined,
-              achievementIcon: ACHIEVEMENT_ICONS['mentor_favorite'] || '🌟',
-              bonusPoints: achievement.points_bonus,
-            });
-
-            sendEmail({
-              to: participant.email,
-              subject: achievementEmail.subject,
-              html: achievementEmail.html,
-            }).catch((err) => logger.error('Failed to send achievement email', { correlationId }, err as Error));
-          }
-        }
-      }
+    // Review-triggered achievements (mentor_favorite); emails the participant
+    const awarded = await evaluateAchievements(supabase, submission.participant_id, 'review');
+    for (const achievement of awarded) {
+      logger.info('Achievement awarded', {
+        correlationId,
+        participantId: submission.participant_id,
+        achievement: achievement.code,
+      });
     }
 
     logApiRequest('POST', '/api/review', 200, Date.now() - startTime, { correlationId });
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceSupabaseClient } from '@/lib/supabase';
+import { requireAdminOrMentor } from '@/lib/api-auth';
+
+// GET - Fetch the revision history of a submission (mentors and admins)
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await requireAdminOrMentor(request);
+    if (!authResult.authenticated) {
+      return authResult.response;
+    }
+
+    const submissionId = request.nextUrl.searchParams.get('submission_id');
+    if (!submissionId) {
+      return NextResponse.json(
+        { error: 'submission_id is required' },
+        { status: 400 }
+      );
+    }
+
+    const supabase = createServiceSupabaseClient();
+
+    const [submissionResult, revisionsResult] = await Promise.all([
+      supabase
+        .from('submissions')
+        .select('id, current_revision, reviewed_revision')
+        .eq('id', submissionId)
+        .single(),
+      supabase
+        .from('submission_revisions')
+        .select('*')
+        .eq('submission_id', submissionId)
+        .order('revision_number', { ascending: false }),
+    ]);
+
+    if (submissionResult.error || !submissionResult.data) {
+      return NextResponse.json({ error: 'Submission not found' }, { status: 404 });
+    }
+
+    if (revisionsResult.error) {
+      console.error('Revisions fetch error:', revisionsResult.error);
+      return NextResponse.json(
+        { error: 'Failed to fetch revisions' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      revisions: revisionsResult.data || [],
+      current_revision: submissionResult.data.current_revision,
+      reviewed_revision: submissionResult.data.reviewed_revision,
+    });
+  } catch (error) {
+    console.error('Revisions error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { createServiceSupabaseClient } from '@/lib/supabase';
 import { z } from 'zod';
 import { requireAuth } from '@/lib/api-auth';
+import { evaluateAchievements } from '@/lib/achievementEngine';
 
 // Validation schema for tutor session
 const tutorSessionSchema = z.object({
@@ -99,6 +100,8 @@ export async function POST(request: NextRequest) {
 
       const uniqueRoles = new Set(roleCount?.map(r => r.role_code) || []);
 
+      await evaluateAchievements(supabase, authResult.user.participantId, 'tutor_session');
+
       return NextResponse.json({
         success: true,
         interaction,
@@ -154,6 +157,8 @@ export async function POST(request: NextRequest) {
         );
       }
 
+      await evaluateAchievements(supabase, authResult.user.participantId, 'tutor_session');
+
       return NextResponse.json({
         success: true,
         session,
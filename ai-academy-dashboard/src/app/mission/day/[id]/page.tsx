@@ -2,6 +2,7 @@ import { createServerSupabaseClient, createServiceSupabaseClient } from '@/lib/s
 import { auth } from '@clerk/nextjs/server';
 import { notFound } from 'next/navigation';
 import { DayBriefing } from '@/components/DayBriefing';
+import { getProgramDay, getUnlockDate, loadProgramCalendar, programToday } from '@/lib/programCalendar';
 import type { MissionDay, Assignment } from '@/lib/types';
 
 export const revalidate = 0;
@@ -14,15 +15,14 @@ export default async function MissionDayPage({ params }: PageProps) {
   const { id } = await params;
   const dayNumber = parseInt(id, 10);
 
-  if (isNaN(dayNumber) || dayNumber < 1 || dayNumber > 25) {
+  const supabase = await createServerSupabaseClient();
+  const calendar = await loadProgramCalendar(createServiceSupabaseClient());
+
+  if (isNaN(dayNumber) || dayNumber < 1 || dayNumber > calendar.total_days) {
     notFound();
   }
 
-  const supabase = await createServerSupabaseClient();
-
-  // Check if day is accessible
-  const programStart = new Date('2026-02-02');
-  const today = new Date();
+  const today = programToday();
 
   // Get current user and check admin status first
   const { userId } = await auth();
@@ -66,8 +66,8 @@ export default async function MissionDayPage({ params }: PageProps) {
   }
 
   // Check if day is unlocked (skip for admins - they can see all content)
-  if (!isAdmin && missionDay.unlock_date) {
-    const unlockDate = new Date(missionDay.unlock_date);
+  const unlockDate = getUnlockDate(calendar, dayNumber);
+  if (!isAdmin && unlockDate) {
     if (today < unlockDate) {
       // Day is locked for non-admin users
       return (
@@ -75,7 +75,8 @@ export default async function MissionDayPage({ params }: PageProps) {
           <div className="text-6xl">🔒</div>
           <h1 className="text-2xl font-bold">Day {dayNumber} is Locked</h1>
           <p className="text-muted-foreground text-center max-w-md">
-            This briefing will be available on {unlockDate.toLocaleDateString('en-US', {
+            This briefing will be available on {new Date(`${unlockDate}T00:00:00Z`).toLocaleDateString('en-US', {
+              timeZone: 'UTC',
               weekday: 'long',
               year: 'numeric',
               month: 'long',
@@ -92,7 +93,7 @@ export default async function MissionDayPage({ params }: PageProps) {
     dayNumber > 1
       ? supabase.from('mission_days').select('day, title').eq('day', dayNumber - 1).single()
       : Promise.resolve({ data: null }),
-    dayNumber < 25
+    dayNumber < calendar.total_days
       ? supabase.from('mission_days').select('day, title').eq('day', dayNumber + 1).single()
       : Promise.resolve({ data: null }),
     // Fetch assignments for this day
@@ -113,22 +114,7 @@ export default async function MissionDayPage({ params }: PageProps) {
   const assignments = (assignmentsResult.data as Assignment[]) ?? [];
   const allDays = (allDaysResult.data as Pick<MissionDay, 'day' | 'title' | 'codename' | 'act' | 'week'>[]) ?? [];
 
-  // Calculate current program day
-  const daysSinceStart = Math.floor((today.getTime() - programStart.getTime()) / (1000 * 60 * 60 * 24));
-  let currentProgramDay = 1;
-  if (daysSinceStart >= 0) {
-    if (daysSinceStart < 5) {
-      currentProgramDay = daysSinceStart + 1;
-    } else if (daysSinceStart < 10) {
-      currentProgramDay = daysSinceStart + 1;
-    } else if (daysSinceStart < 17) {
-      currentProgramDay = 10;
-    } else if (daysSinceStart < 22) {
-      currentProgramDay = daysSinceStart - 6;
-    } else {
-      currentProgramDay = Math.min(daysSinceStart - 6, 25);
-    }
-  }
+  const currentProgramDay = getProgramDay(calendar, today);
 
   return (
     <DayBriefing
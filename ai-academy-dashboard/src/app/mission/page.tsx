@@ -1,6 +1,8 @@
 import { createServerSupabaseClient, createServiceSupabaseClient } from '@/lib/supabase-server';
 import { auth } from '@clerk/nextjs/server';
 import { MissionHub } from '@/components/MissionHub';
+import { getProgramDay, isDayUnlocked, loadProgramCalendar, programToday } from '@/lib/programCalendar';
+import { getUpcomingLiveSessions } from '@/lib/liveSchedule';
 import type {
   MissionDay,
   TaskForce,
@@ -26,6 +28,8 @@ export default async function MissionPage() {
     pilotClientsResult,
     intelDropsResult,
     participantResult,
+    calendar,
+    upcomingSessions,
   ] = await Promise.all([
     supabase
       .from('mission_days')
@@ -51,6 +55,8 @@ export default async function MissionPage() {
       `)
       .eq('auth_user_id', userId)
       .single() : Promise.resolve({ data: null }),
+    loadProgramCalendar(serviceSupabase),
+    getUpcomingLiveSessions(serviceSupabase, { limit: 3 }),
   ]);
 
   const allMissionDays = (missionDaysResult.data as MissionDay[]) ?? [];
@@ -58,12 +64,9 @@ export default async function MissionPage() {
   const pilotClients = (pilotClientsResult.data as PilotClient[]) ?? [];
   const intelDrops = (intelDropsResult.data as IntelDrop[]) ?? [];
 
-  // Filter mission days to only show unlocked ones (unlock_date <= today)
-  const todayStr = new Date().toISOString().split('T')[0];
-  const missionDays = allMissionDays.filter(md => {
-    if (!md.unlock_date) return false; // No unlock date = not unlocked
-    return new Date(md.unlock_date) <= new Date(todayStr);
-  });
+  // Filter mission days to only show unlocked ones (program calendar)
+  const today = programToday();
+  const missionDays = allMissionDays.filter(md => isDayUnlocked(calendar, md.day, today));
   const participant = participantResult.data as {
     id: string;
     name: string;
@@ -78,26 +81,7 @@ export default async function MissionPage() {
     ? pilotClients.find(c => c.id === participantTaskForce.client_id) ?? null
     : null;
 
-  // Calculate current day based on program dates
-  const programStart = new Date('2026-02-02');
-  const today = new Date();
-  const daysSinceStart = Math.floor((today.getTime() - programStart.getTime()) / (1000 * 60 * 60 * 24));
-
-  // Map to actual program day (accounting for spring break week 3)
-  let currentProgramDay = 1;
-  if (daysSinceStart >= 0) {
-    if (daysSinceStart < 5) {
-      currentProgramDay = daysSinceStart + 1; // Days 1-5 (Week 1)
-    } else if (daysSinceStart < 10) {
-      currentProgramDay = daysSinceStart + 1; // Days 6-10 (Week 2)
-    } else if (daysSinceStart < 17) {
-      currentProgramDay = 10; // Spring break - stay on day 10
-    } else if (daysSinceStart < 22) {
-      currentProgramDay = daysSinceStart - 6; // Days 11-15 (Week 4)
-    } else {
-      currentProgramDay = Math.min(daysSinceStart - 6, 25); // Days 16-25 (Week 5)
-    }
-  }
+  const currentProgramDay = getProgramDay(calendar, today);
 
   return (
     <div className="space-y-6">
@@ -108,7 +92,7 @@ export default async function MissionPage() {
             Your mission control center
           </p>
         </div>
-        {currentProgramDay > 0 && currentProgramDay <= 25 && (
+        {currentProgramDay > 0 && currentProgramDay <= calendar.total_days && (
           <div className="flex items-center gap-2 px-4 py-2 rounded-lg bg-blue-500/10 border border-blue-500/20">
             <span className="relative flex h-3 w-3">
               <span className="animate-ping absolute inline-flex h-full w-full rounded-full bg-blue-400 opacity-75"></span>
@@ -123,7 +107,9 @@ export default async function MissionPage() {
         missionDays={missionDays}
         taskForces={taskForces}
         intelDrops={intelDrops}
+        upcomingSessions={upcomingSessions}
         currentProgramDay={currentProgramDay}
+        calendar={calendar}
         participant={participant}
         participantTaskForce={participantTaskForce}
         participantClient={participantClient}
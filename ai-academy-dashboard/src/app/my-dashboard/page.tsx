@@ -1,18 +1,18 @@
-import { createServerSupabaseClient } from '@/lib/supabase-server';
+import { createServerSupabaseClient, createServiceSupabaseClient } from '@/lib/supabase-server';
+import { isDayUnlocked, loadProgramCalendar, programToday } from '@/lib/programCalendar';
 import { MyDashboardClient } from '@/components/MyDashboardClient';
 import type {
   Assignment,
   LeaderboardView,
   Achievement,
   TeamProgress,
-  MissionDay
 } from '@/lib/types';
 
 export const revalidate = 0;
 
 export default async function MyDashboardPage() {
   const supabase = await createServerSupabaseClient();
-  const today = new Date().toISOString().split('T')[0]; // YYYY-MM-DD format
+  const today = programToday();
 
   // Fetch all data needed for the dashboard
   const [
@@ -20,36 +20,24 @@ export default async function MyDashboardPage() {
     leaderboardResult,
     achievementsResult,
     teamProgressResult,
-    missionDaysResult,
+    calendar,
   ] = await Promise.all([
     supabase.from('assignments').select('*').order('day').order('type'),
     supabase.from('leaderboard_view').select('*').order('rank'),
     supabase.from('achievements').select('*'),
     supabase.from('team_progress').select('*'),
-    // Fetch mission days to determine which are unlocked
-    supabase.from('mission_days').select('day, unlock_date, is_visible'),
+    // Program calendar determines which days are unlocked
+    loadProgramCalendar(createServiceSupabaseClient()),
   ]);
 
   const allAssignments = (assignmentsResult.data as Assignment[]) ?? [];
   const leaderboard = (leaderboardResult.data as LeaderboardView[]) ?? [];
   const allAchievements = (achievementsResult.data as Achievement[]) ?? [];
   const teamProgress = (teamProgressResult.data as TeamProgress[]) ?? [];
-  const missionDays = (missionDaysResult.data as Pick<MissionDay, 'day' | 'unlock_date' | 'is_visible'>[]) ?? [];
-
-  // Determine which days are unlocked (unlock_date <= today)
-  // Note: is_visible is for admin override, unlock_date is the primary control
-  const unlockedDays = new Set(
-    missionDays
-      .filter(md => {
-        if (!md.unlock_date) return false; // No unlock date = not unlocked
-        return new Date(md.unlock_date) <= new Date(today);
-      })
-      .map(md => md.day)
-  );
 
   // Filter assignments to only include those for unlocked days
   // Students should only see assignments for days that have been unlocked
-  const assignments = allAssignments.filter(a => unlockedDays.has(a.day));
+  const assignments = allAssignments.filter(a => isDayUnlocked(calendar, a.day, today));
 
   return (
     <div className="space-y-6">
@@ -2,6 +2,7 @@ import { createServerSupabaseClient, createServiceSupabaseClient } from '@/lib/s
 import { redirect } from 'next/navigation';
 import { auth } from '@clerk/nextjs/server';
 import { MyProgressDashboard } from '@/components/MyProgressDashboard';
+import { isDayUnlocked, loadProgramCalendar, programToday } from '@/lib/programCalendar';
 import type {
   Participant,
   ParticipantMastery,
@@ -10,6 +11,7 @@ import type {
   RecognitionType,
   ParticipantRecognition,
   MissionDay,
+  RubricScore,
 } from '@/lib/types';
 
 export const revalidate = 0;
@@ -72,19 +74,31 @@ export default async function MyProgressPage() {
     .select('*')
     .order('day');
 
-  // Filter mission days to only show unlocked ones (unlock_date <= today)
-  const today = new Date().toISOString().split('T')[0]; // YYYY-MM-DD format
-  const missionDays = (allMissionDays ?? []).filter(md => {
-    if (!md.unlock_date) return false; // No unlock date = not unlocked
-    return new Date(md.unlock_date) <= new Date(today);
-  });
+  // Filter mission days to only show unlocked ones (program calendar)
+  const calendar = await loadProgramCalendar(supabase);
+  const today = programToday();
+  const missionDays = (allMissionDays ?? []).filter(md => isDayUnlocked(calendar, md.day, today));
 
   // Fetch submissions to calculate progress
   const { data: submissions } = await supabase
     .from('submissions')
-    .select('*, assignments(day)')
+    .select('*, assignments(day, title)')
     .eq('participant_id', participant.id);
 
+  // Latest mentor reviews with their rubric feedback
+  const feedback = (submissions ?? [])
+    .filter(s => s.mentor_rating !== null && s.reviewed_at)
+    .sort((a, b) => new Date(b.reviewed_at).getTime() - new Date(a.reviewed_at).getTime())
+    .slice(0, 5)
+    .map(s => ({
+      submission_id: s.id as string,
+      assignment: s.assignments as { day: number; title: string } | null,
+      mentor_rating: s.mentor_rating as number | null,
+      mentor_notes: s.mentor_notes as string | null,
+      rubric_scores: s.rubric_scores as RubricScore[] | null,
+      reviewed_at: s.reviewed_at as string | null,
+    }));
+
   // Calculate completed days (only for unlocked days)
   const unlockedDayNumbers = new Set(missionDays.map(md => md.day));
   const completedDays = new Set(
@@ -106,6 +120,7 @@ export default async function MyProgressPage() {
       missionDays={(missionDays as MissionDay[]) ?? []}
       completedDays={Array.from(completedDays) as number[]}
       totalSubmissions={submissions?.length ?? 0}
+      feedback={feedback}
     />
   );
 }
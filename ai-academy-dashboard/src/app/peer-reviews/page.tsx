@@ -15,6 +15,7 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Separator } from '@/components/ui/separator';
 import { Skeleton } from '@/components/ui/skeleton';
 import { PeerReviewCard } from '@/components/PeerReviewCard';
+import { ReceivedPeerReviewCard } from '@/components/ReceivedPeerReviewCard';
 import {
   Users,
   Star,
@@ -26,6 +27,7 @@ import {
   UserCircle,
 } from 'lucide-react';
 import type { Participant, PeerReviewWithDetails, PeerReviewStats } from '@/lib/types';
+import type { PeerConsensus } from '@/lib/peerCalibration';
 
 export default function PeerReviewsPage() {
   const [participants, setParticipants] = useState<Participant[]>([]);
@@ -33,6 +35,7 @@ export default function PeerReviewsPage() {
   const [peerReviews, setPeerReviews] = useState<PeerReviewWithDetails[]>([]);
   const [receivedReviews, setReceivedReviews] = useState<PeerReviewWithDetails[]>([]);
   const [stats, setStats] = useState<PeerReviewStats | null>(null);
+  const [consensus, setConsensus] = useState<PeerConsensus | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [activeTab, setActiveTab] = useState('pending');
 
@@ -74,35 +77,12 @@ export default function PeerReviewsPage() {
       );
       const reviewsData = await reviewsResponse.json();
 
-      // Fetch reviews received (on my submissions)
-      const supabase = getSupabaseClient();
-      const { data: mySubmissions } = await supabase
-        .from('submissions')
-        .select('id')
-        .eq('participant_id', participant.id);
-
-      const submissionIds = mySubmissions?.map((s) => s.id) ?? [];
-
-      let receivedData: PeerReviewWithDetails[] = [];
-      if (submissionIds.length > 0) {
-        const { data } = await supabase
-          .from('peer_reviews')
-          .select(`
-            *,
-            submissions(
-              id,
-              commit_message,
-              readme_content,
-              commit_url,
-              participants(name, github_username, avatar_url, role, team),
-              assignments(title, day, type)
-            )
-          `)
-          .in('submission_id', submissionIds)
-          .eq('status', 'completed')
-          .order('completed_at', { ascending: false });
-        receivedData = (data as PeerReviewWithDetails[]) ?? [];
-      }
+      // Fetch reviews received (on my submissions); the server leaves out
+      // anonymous reviewers and removed feedback
+      const receivedResponse = await fetch('/api/peer-review?received=true');
+      const receivedData: PeerReviewWithDetails[] = receivedResponse.ok
+        ? ((await receivedResponse.json()).peer_reviews ?? [])
+        : [];
 
       // Calculate stats
       const completed = reviewsData.peer_reviews?.filter(
@@ -121,6 +101,11 @@ export default function PeerReviewsPage() {
             receivedData.length
           : null;
 
+      // Received rating weighted by reviewer reliability; the plain average
+      // stays as a fallback when it cannot be loaded
+      const consensusResponse = await fetch(`/api/peer-review/consensus?participant_id=${participant.id}`);
+      setConsensus(consensusResponse.ok ? ((await consensusResponse.json()).overall ?? null) : null);
+
       const bonusPoints = completed.reduce(
         (sum: number, r: PeerReviewWithDetails) => sum + r.bonus_points_earned,
         0
@@ -150,9 +135,12 @@ export default function PeerReviewsPage() {
     }
   }, [selectedUsername, fetchPeerReviews]);
 
-  const pendingReviews = peerReviews.filter((r) => r.status === 'pending');
+  // Soonest deadline first
+  const pendingReviews = peerReviews
+    .filter((r) => r.status === 'pending')
+    .sort((a, b) => (a.due_at ?? '').localeCompare(b.due_at ?? ''));
   const completedReviews = peerReviews.filter((r) => r.status === 'completed');
-  const skippedReviews = peerReviews.filter((r) => r.status === 'skipped');
+  const skippedReviews = peerReviews.filter((r) => r.status === 'skipped' || r.status === 'expired');
 
   if (isLoading && !selectedUsername) {
     return (
@@ -259,7 +247,7 @@ export default function PeerReviewsPage() {
                 </div>
                 <div>
                   <p className="text-2xl font-bold">
-                    {stats.avg_rating_received?.toFixed(1) ?? '-'}
+                    {(consensus?.rating ?? stats.avg_rating_received)?.toFixed(1) ?? '-'}
                   </p>
                   <p className="text-sm text-muted-foreground">Average rating</p>
                 </div>
@@ -366,7 +354,7 @@ export default function PeerReviewsPage() {
                     <>
                       <Separator />
                       <p className="text-sm text-muted-foreground">
-                        Skipped ({skippedReviews.length})
+                        Skipped or expired ({skippedReviews.length})
                       </p>
                       {skippedReviews.map((review) => (
                         <PeerReviewCard
@@ -404,23 +392,29 @@ export default function PeerReviewsPage() {
                       <div className="flex items-center justify-between">
                         <div>
                           <p className="text-sm text-muted-foreground">
-                            Your average peer rating
+                            {consensus ? 'Your calibrated peer rating' : 'Your average peer rating'}
                           </p>
                           <div className="flex items-center gap-2 mt-1">
                             {[1, 2, 3, 4, 5].map((star) => (
                               <Star
                                 key={star}
                                 className={`h-6 w-6 ${
-                                  star <= Math.round(stats?.avg_rating_received || 0)
+                                  star <= Math.round(consensus?.rating ?? stats?.avg_rating_received ?? 0)
                                     ? 'text-yellow-500 fill-yellow-500'
                                     : 'text-muted-foreground'
                                 }`}
                               />
                             ))}
                             <span className="text-2xl font-bold ml-2">
-                              {stats?.avg_rating_received?.toFixed(1) ?? '-'}
+                              {(consensus?.rating ?? stats?.avg_rating_received)?.toFixed(1) ?? '-'}
                             </span>
                           </div>
+                          {consensus && (
+                            <p className="text-xs text-muted-foreground mt-1">
+                              Weighted by how closely each reviewer&apos;s ratings match mentors and other peers
+                              (plain average {stats?.avg_rating_received?.toFixed(1) ?? '-'})
+                            </p>
+                          )}
                         </div>
                         <Trophy className="h-12 w-12 text-yellow-500" />
                       </div>
@@ -428,38 +422,11 @@ export default function PeerReviewsPage() {
                   </Card>
 
                   {receivedReviews.map((review) => (
-                    <Card key={review.id}>
-                      <CardContent className="p-4">
-                        <div className="flex items-start justify-between gap-4">
-                          <div>
-                            <h4 className="font-medium">
-                              Day {review.submissions?.assignments?.day}:{' '}
-                              {review.submissions?.assignments?.title}
-                            </h4>
-                            <div className="flex items-center gap-1 mt-2">
-                              {[1, 2, 3, 4, 5].map((star) => (
-                                <Star
-                                  key={star}
-                                  className={`h-4 w-4 ${
-                                    star <= (review.rating || 0)
-                                      ? 'text-yellow-500 fill-yellow-500'
-                                      : 'text-muted-foreground'
-                                  }`}
-                                />
-                              ))}
-                            </div>
-                            {review.feedback && (
-                              <p className="text-sm text-muted-foreground mt-2 italic">
-                                &quot;{review.feedback}&quot;
-                              </p>
-                            )}
-                          </div>
-                          <Badge variant="outline">
-                            {review.is_anonymous ? 'Anonymous' : 'Public'}
-                          </Badge>
-                        </div>
-                      </CardContent>
-                    </Card>
+                    <ReceivedPeerReviewCard
+                      key={review.id}
+                      peerReview={review}
+                      onChange={fetchPeerReviews}
+                    />
                   ))}
                 </>
               )}
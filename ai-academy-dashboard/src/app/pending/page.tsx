@@ -1,6 +1,7 @@
 'use client';
 
-import { useEffect } from 'react';
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
 import { useRouter } from 'next/navigation';
 import { useAuth, useClerk } from '@clerk/nextjs';
 import { useParticipant } from '@/components/ParticipantProvider';
@@ -8,7 +9,25 @@ import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/com
 import { Button } from '@/components/ui/button';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Badge } from '@/components/ui/badge';
-import { Loader2, Clock, XCircle, LogOut, RefreshCw, Github, Mail } from 'lucide-react';
+import { Loader2, Clock, XCircle, LogOut, RefreshCw, Github, Mail, ListChecks } from 'lucide-react';
+import { missingRequired, type PrerequisiteProgress } from '@/lib/prerequisites';
+import type { PrerequisiteWithStatus } from '@/lib/types';
+
+interface Checklist {
+  items: PrerequisiteWithStatus[];
+  summary: PrerequisiteProgress;
+}
+
+async function loadChecklist(): Promise<Checklist | null> {
+  try {
+    const response = await fetch('/api/prerequisites');
+    if (!response.ok) return null;
+    return (await response.json()) as Checklist;
+  } catch (error) {
+    console.error('Error fetching prerequisites:', error);
+    return null;
+  }
+}
 
 export default function PendingPage() {
   const { isSignedIn, isLoaded } = useAuth();
@@ -16,6 +35,16 @@ export default function PendingPage() {
   const { participant, isLoading: participantLoading, isAdmin, userStatus, refreshParticipant } = useParticipant();
   const router = useRouter();
   const isLoading = !isLoaded || participantLoading;
+  const [checklist, setChecklist] = useState<Checklist | null>(null);
+
+  // Waiting for approval is a good time to get set up for the course
+  useEffect(() => {
+    if (participant?.id) {
+      loadChecklist().then((loaded) => {
+        if (loaded) setChecklist(loaded);
+      });
+    }
+  }, [participant?.id]);
 
   // Redirect if approved or admin
   useEffect(() => {
@@ -147,6 +176,34 @@ export default function PendingPage() {
             )}
           </div>
 
+          {/* Setup checklist */}
+          {!isRejected && checklist && checklist.summary.required_total > 0 && (
+            <div className="p-4 rounded-lg text-sm border space-y-2">
+              <p className="font-medium flex items-center gap-2">
+                <ListChecks className="h-4 w-4 text-[#0062FF]" />
+                Before the course starts
+              </p>
+              {checklist.summary.required_completed === checklist.summary.required_total ? (
+                <p className="text-green-600">Your required setup is complete.</p>
+              ) : (
+                <>
+                  <p className="text-muted-foreground">
+                    {checklist.summary.required_total - checklist.summary.required_completed} required items are still
+                    open. You cannot join live sessions until they are done:
+                  </p>
+                  <ul className="space-y-1 text-muted-foreground">
+                    {missingRequired(checklist.items).map((item) => (
+                      <li key={item.id}>• {item.name}</li>
+                    ))}
+                  </ul>
+                </>
+              )}
+              <Link href="/prerequisites" className="inline-block font-medium text-[#0062FF] hover:underline">
+                Open setup checklist
+              </Link>
+            </div>
+          )}
+
           {/* Actions */}
           <div className="flex flex-col gap-2">
             <Button
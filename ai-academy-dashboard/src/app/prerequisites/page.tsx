@@ -0,0 +1,214 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Progress } from '@/components/ui/progress';
+import { Textarea } from '@/components/ui/textarea';
+import { Skeleton } from '@/components/ui/skeleton';
+import { CheckCircle2, ExternalLink, ListChecks } from 'lucide-react';
+import { toast } from 'sonner';
+import { cn } from '@/lib/utils';
+import { groupByCategory, type PrerequisiteProgress } from '@/lib/prerequisites';
+import {
+  PREREQUISITE_CATEGORY_ICONS,
+  PREREQUISITE_CATEGORY_NAMES,
+  type PrerequisiteWithStatus,
+} from '@/lib/types';
+
+interface Checklist {
+  items: PrerequisiteWithStatus[];
+  summary: PrerequisiteProgress;
+}
+
+async function loadChecklist(): Promise<Checklist | null> {
+  try {
+    const response = await fetch('/api/prerequisites');
+    if (!response.ok) {
+      console.error('Failed to fetch prerequisites:', response.status);
+      return null;
+    }
+    return (await response.json()) as Checklist;
+  } catch (error) {
+    console.error('Error fetching prerequisites:', error);
+    return null;
+  }
+}
+
+export default function PrerequisitesPage() {
+  const [checklist, setChecklist] = useState<Checklist | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [savingId, setSavingId] = useState<number | null>(null);
+  const [notes, setNotes] = useState<Record<number, string>>({});
+
+  useEffect(() => {
+    loadChecklist().then((loaded) => {
+      if (loaded) setChecklist(loaded);
+      setIsLoading(false);
+    });
+  }, []);
+
+  const updateItem = async (
+    item: PrerequisiteWithStatus,
+    changes: { is_completed?: boolean; notes?: string | null }
+  ) => {
+    setSavingId(item.id);
+
+    try {
+      const response = await fetch('/api/prerequisites', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ prerequisite_id: item.id, ...changes }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.details || data.error || 'Failed to update checklist');
+      }
+
+      setChecklist({ items: data.items, summary: data.summary });
+      if (changes.notes !== undefined) toast.success('Note saved');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update checklist');
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const saveNote = (item: PrerequisiteWithStatus) => {
+    const draft = notes[item.id];
+    if (draft === undefined || draft.trim() === (item.notes ?? '')) return;
+    updateItem(item, { notes: draft.trim() || null });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold">Setup Checklist</h1>
+          <p className="text-muted-foreground">Tools and access you need before the course starts</p>
+        </div>
+        <div className="space-y-4">
+          {[...Array(4)].map((_, i) => (
+            <Skeleton key={i} className="h-32 w-full" />
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  if (!checklist) {
+    return (
+      <Card>
+        <CardContent className="py-12 text-center text-muted-foreground">
+          Could not load your checklist. Please try again later.
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const { summary } = checklist;
+  const requiredDone = summary.required_completed === summary.required_total;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold flex items-center gap-2">
+          <ListChecks className="h-8 w-8 text-[#0062FF]" />
+          Setup Checklist
+        </h1>
+        <p className="text-muted-foreground">
+          Tools and access you need before the course starts. Required items must be done before you can join a live
+          session.
+        </p>
+      </div>
+
+      {/* Progress */}
+      <Card className={cn(requiredDone && 'border-green-500/50')}>
+        <CardContent className="pt-6 space-y-3">
+          <div className="flex items-center justify-between text-sm">
+            <span className="font-medium">
+              {requiredDone ? (
+                <span className="flex items-center gap-1 text-green-600">
+                  <CheckCircle2 className="h-4 w-4" />
+                  All required items done
+                </span>
+              ) : (
+                `${summary.required_completed} of ${summary.required_total} required items done`
+              )}
+            </span>
+            <span className="text-muted-foreground">
+              {summary.completed_count}/{summary.total_items} overall
+            </span>
+          </div>
+          <Progress value={summary.required_completion_pct} className="h-2" />
+        </CardContent>
+      </Card>
+
+      {groupByCategory(checklist.items).map(({ category, items }) => (
+        <Card key={category}>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-lg">
+              <span>{PREREQUISITE_CATEGORY_ICONS[category]}</span>
+              {PREREQUISITE_CATEGORY_NAMES[category] ?? category}
+            </CardTitle>
+            <CardDescription>
+              {items.filter((item) => item.is_completed).length}/{items.length} done
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {items.map((item) => (
+              <div key={item.id} className="flex items-start gap-3 rounded-lg border p-3">
+                <Checkbox
+                  id={`prerequisite-${item.id}`}
+                  checked={item.is_completed}
+                  disabled={savingId === item.id}
+                  onCheckedChange={(checked) => updateItem(item, { is_completed: checked === true })}
+                  className="mt-1"
+                />
+                <div className="flex-1 space-y-2">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <label
+                      htmlFor={`prerequisite-${item.id}`}
+                      className={cn('font-medium cursor-pointer', item.is_completed && 'text-muted-foreground line-through')}
+                    >
+                      {item.name}
+                    </label>
+                    {item.is_required ? (
+                      <Badge variant="outline" className="text-xs">Required</Badge>
+                    ) : (
+                      <Badge variant="secondary" className="text-xs">Optional</Badge>
+                    )}
+                    {item.help_url && (
+                      <a
+                        href={item.help_url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="inline-flex items-center gap-1 text-xs text-[#0062FF] hover:underline"
+                      >
+                        <ExternalLink className="h-3 w-3" />
+                        How to set up
+                      </a>
+                    )}
+                  </div>
+                  {item.description && <p className="text-sm text-muted-foreground">{item.description}</p>}
+                  <Textarea
+                    rows={1}
+                    maxLength={1000}
+                    placeholder="Notes (e.g. waiting for license approval)"
+                    className="min-h-9 text-sm"
+                    value={notes[item.id] ?? item.notes ?? ''}
+                    onChange={(e) => setNotes((current) => ({ ...current, [item.id]: e.target.value }))}
+                    onBlur={() => saveNote(item)}
+                  />
+                </div>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+}
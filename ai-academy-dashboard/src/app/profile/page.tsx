@@ -49,6 +49,7 @@ import {
 import { toast } from 'sonner';
 import Link from 'next/link';
 import type { RoleType, TeamType, StreamType } from '@/lib/types';
+import { TIMEZONE_OPTIONS } from '@/lib/timezone';
 
 const ROLES: RoleType[] = ['FDE', 'AI-SE', 'AI-PM', 'AI-DA', 'AI-DS', 'AI-SEC', 'AI-FE'];
 const TEAMS: TeamType[] = ['Alpha', 'Beta', 'Gamma', 'Delta', 'Epsilon', 'Zeta', 'Eta', 'Theta'];
@@ -72,6 +73,7 @@ export default function ProfilePage() {
   const [isDeleting, setIsDeleting] = useState(false);
   const [isSavingAssignment, setIsSavingAssignment] = useState(false);
   const [showWebhookSetup, setShowWebhookSetup] = useState(false);
+  const [isSavingTimezone, setIsSavingTimezone] = useState(false);
 
   // Academy assignment state
   const [assignmentData, setAssignmentData] = useState({
@@ -131,6 +133,35 @@ export default function ProfilePage() {
     }
   };
 
+  // 'default' = follow the task force timezone
+  const handleTimezoneChange = async (value: string) => {
+    if (!participant) return;
+    setIsSavingTimezone(true);
+
+    try {
+      const response = await fetch('/api/participant', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          participant_id: participant.id,
+          timezone: value === 'default' ? null : value,
+        }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to update timezone');
+      }
+
+      await refreshParticipant();
+      toast.success('Timezone updated');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update timezone');
+    } finally {
+      setIsSavingTimezone(false);
+    }
+  };
+
   const handleDeleteAccount = async () => {
     setIsDeleting(true);
     try {
@@ -476,6 +507,34 @@ export default function ProfilePage() {
 
           <Separator />
 
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <p className="font-medium">Timezone</p>
+              <p className="text-sm text-muted-foreground">
+                Used for early bird, night owl and streak achievements
+              </p>
+            </div>
+            <Select
+              value={participant.timezone ?? 'default'}
+              onValueChange={handleTimezoneChange}
+              disabled={isSavingTimezone}
+            >
+              <SelectTrigger className="w-[220px]" aria-label="Timezone">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="default">Task force default</SelectItem>
+                {TIMEZONE_OPTIONS.map((timezone) => (
+                  <SelectItem key={timezone} value={timezone}>
+                    {timezone.replace('_', ' ')}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <Separator />
+
           <div className="flex items-center justify-between">
             <div>
               <p className="font-medium">Account Status</p>
@@ -0,0 +1,237 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Skeleton } from '@/components/ui/skeleton';
+import { ReviewForm } from '@/components/ReviewForm';
+import { SubmissionRevisionHistory } from '@/components/SubmissionRevisionHistory';
+import { ClipboardCheck, Clock, ExternalLink, History, Inbox } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { cn } from '@/lib/utils';
+import type { MentorLoad, SlaState } from '@/lib/mentorAssignment';
+import type { ReviewAssignmentReason, SubmissionWithDetails } from '@/lib/types';
+
+interface QueueItem {
+  id: string;
+  revision: number;
+  reason: ReviewAssignmentReason;
+  assigned_at: string;
+  due_at: string;
+  sla_state: SlaState;
+  submissions: Pick<
+    SubmissionWithDetails,
+    | 'id'
+    | 'submitted_at'
+    | 'commit_url'
+    | 'self_rating'
+    | 'mentor_rating'
+    | 'mentor_notes'
+    | 'current_revision'
+    | 'reviewed_revision'
+    | 'readme_analysis'
+    | 'rubric_scores'
+    | 'participants'
+    | 'assignments'
+  > | null;
+}
+
+interface QueueData {
+  assignments: QueueItem[];
+  pool: MentorLoad | null;
+}
+
+const SLA_STYLES: Record<SlaState, string> = {
+  on_track: 'text-muted-foreground',
+  due_soon: 'text-orange-500',
+  overdue: 'text-red-500',
+};
+
+async function loadQueue(): Promise<QueueData | null> {
+  try {
+    const response = await fetch('/api/review-queue');
+    if (!response.ok) {
+      console.error('Failed to fetch review queue:', response.status);
+      return null;
+    }
+    return (await response.json()) as QueueData;
+  } catch (error) {
+    console.error('Error fetching review queue:', error);
+    return null;
+  }
+}
+
+export default function ReviewQueuePage() {
+  const [data, setData] = useState<QueueData | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const fetchQueue = useCallback(async () => {
+    const loaded = await loadQueue();
+    if (loaded) setData(loaded);
+  }, []);
+
+  useEffect(() => {
+    loadQueue().then((loaded) => {
+      if (loaded) setData(loaded);
+      setIsLoading(false);
+    });
+  }, []);
+
+  if (isLoading) {
+    return (
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold">Review Queue</h1>
+          <p className="text-muted-foreground">Submissions assigned to you</p>
+        </div>
+        <div className="space-y-4">
+          {[...Array(3)].map((_, i) => (
+            <Skeleton key={i} className="h-24 w-full" />
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  const assignments = data?.assignments ?? [];
+  const pool = data?.pool ?? null;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold flex items-center gap-2">
+            <ClipboardCheck className="h-8 w-8 text-[#0062FF]" />
+            Review Queue
+          </h1>
+          <p className="text-muted-foreground">
+            Submissions assigned to you, due first. Reviews not done in time move to another mentor.
+          </p>
+        </div>
+        {pool && (
+          <div className="text-right">
+            <p className="text-2xl font-bold">
+              {pool.open_count}/{pool.capacity}
+            </p>
+            <p className="text-xs text-muted-foreground">
+              {pool.is_active ? 'open reviews' : 'paused - no new assignments'}
+            </p>
+          </div>
+        )}
+      </div>
+
+      {!pool && (
+        <Card>
+          <CardContent className="pt-6 text-sm text-muted-foreground">
+            You are not in the mentor pool yet, so no submissions are assigned to you. Ask an admin to add you.
+          </CardContent>
+        </Card>
+      )}
+
+      {pool && assignments.length === 0 && (
+        <Card>
+          <CardContent className="py-12 text-center text-muted-foreground">
+            <Inbox className="mx-auto mb-3 h-10 w-10" />
+            Nothing to review right now
+          </CardContent>
+        </Card>
+      )}
+
+      {assignments.map((item) => {
+        const sub = item.submissions;
+        if (!sub) return null;
+
+        const assignmentTitle = `Day ${sub.assignments?.day}: ${sub.assignments?.title}`;
+        const participantName = sub.participants?.name || 'Unknown';
+        const dueIn = formatDistanceToNow(new Date(item.due_at), { addSuffix: true });
+
+        return (
+          <Card key={item.id} className={cn(item.sla_state === 'overdue' && 'border-red-500/50')}>
+            <CardHeader className="pb-3">
+              <div className="flex items-start justify-between gap-4">
+                <div className="flex items-center gap-3">
+                  <Avatar className="h-10 w-10">
+                    <AvatarImage src={sub.participants?.avatar_url ?? undefined} />
+                    <AvatarFallback>
+                      {participantName
+                        .split(' ')
+                        .map((n) => n[0])
+                        .join('')}
+                    </AvatarFallback>
+                  </Avatar>
+                  <div>
+                    <CardTitle className="text-base">{assignmentTitle}</CardTitle>
+                    <CardDescription className="flex flex-wrap items-center gap-1">
+                      {participantName}
+                      {sub.participants?.role && (
+                        <Badge variant="outline" className="text-xs">
+                          {sub.participants.role}
+                        </Badge>
+                      )}
+                      {sub.current_revision > 1 && (
+                        <Badge variant="secondary" className="text-xs">
+                          Rev {sub.current_revision}
+                        </Badge>
+                      )}
+                      {sub.reviewed_revision !== null && sub.current_revision > sub.reviewed_revision && (
+                        <Badge className="bg-orange-500 text-xs">Changed since review</Badge>
+                      )}
+                      {item.reason !== 'auto' && (
+                        <Badge variant="outline" className="text-xs">
+                          {item.reason === 'overdue' ? 'Reassigned (overdue)' : 'Assigned by admin'}
+                        </Badge>
+                      )}
+                    </CardDescription>
+                  </div>
+                </div>
+                <div className={cn('flex items-center gap-1 text-sm whitespace-nowrap', SLA_STYLES[item.sla_state])}>
+                  <Clock className="h-4 w-4" />
+                  {item.sla_state === 'overdue' ? `Overdue, was due ${dueIn}` : `Due ${dueIn}`}
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent className="flex items-center justify-between gap-2">
+              <p className="text-sm text-muted-foreground">
+                Submitted {formatDistanceToNow(new Date(sub.submitted_at), { addSuffix: true })}
+                {sub.self_rating ? ` · self-rating ${sub.self_rating}/5` : ''}
+              </p>
+              <div className="flex items-center gap-2">
+                <ReviewForm
+                  submissionId={sub.id}
+                  participantName={participantName}
+                  assignmentTitle={assignmentTitle}
+                  onReviewComplete={fetchQueue}
+                  existingRating={sub.mentor_rating ?? undefined}
+                  existingNotes={sub.mentor_notes ?? undefined}
+                  readmeAnalysis={sub.readme_analysis}
+                  rubric={sub.assignments?.rubric}
+                  existingRubricScores={sub.rubric_scores}
+                />
+                <SubmissionRevisionHistory
+                  submissionId={sub.id}
+                  participantName={participantName}
+                  assignmentTitle={assignmentTitle}
+                  trigger={
+                    <Button size="sm" variant="ghost">
+                      <History className="h-4 w-4" />
+                    </Button>
+                  }
+                />
+                {sub.commit_url && (
+                  <a href={sub.commit_url} target="_blank" rel="noopener noreferrer">
+                    <Button size="sm" variant="ghost">
+                      <ExternalLink className="h-4 w-4" />
+                    </Button>
+                  </a>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        );
+      })}
+    </div>
+  );
+}
@@ -45,6 +45,7 @@ import {
   Clock,
   Target,
   Award,
+  Radio,
 } from 'lucide-react';
 import type {
   Participant,
@@ -81,6 +82,13 @@ interface ActivityLogEntry {
   created_at: string;
 }
 
+interface LiveAttendanceEntry {
+  participant_id: string;
+  live_sessions_attended: number;
+  live_sessions_missed: number;
+  live_minutes_attended: number;
+}
+
 interface AnalyticsDashboardProps {
   participants: Participant[];
   assignments: Assignment[];
@@ -88,6 +96,7 @@ interface AnalyticsDashboardProps {
   leaderboard: LeaderboardView[];
   teamProgress: TeamProgress[];
   activityLog: ActivityLogEntry[];
+  liveAttendance: LiveAttendanceEntry[];
 }
 
 const TEAM_COLORS: Record<string, string> = {
@@ -119,6 +128,7 @@ export function AnalyticsDashboard({
   teamProgress,
   // eslint-disable-next-line @typescript-eslint/no-unused-vars
   activityLog,
+  liveAttendance,
 }: AnalyticsDashboardProps) {
   // eslint-disable-next-line @typescript-eslint/no-unused-vars
   const [selectedTeam, setSelectedTeam] = useState<string>('all');
@@ -231,6 +241,18 @@ export function AnalyticsDashboard({
       .sort((a, b) => b.daysSinceLastSubmission - a.daysSinceLastSubmission);
   }, [participants, submissions, leaderboard]);
 
+  // Participants who missed live labs (counted when a session ends)
+  const missedLiveLabs = useMemo(() => {
+    return liveAttendance
+      .filter((entry) => entry.live_sessions_missed > 0)
+      .map((entry) => ({
+        ...entry,
+        participant: participants.find((p) => p.id === entry.participant_id),
+      }))
+      .filter((entry) => entry.participant)
+      .sort((a, b) => b.live_sessions_missed - a.live_sessions_missed);
+  }, [liveAttendance, participants]);
+
   // Submission status distribution
   const statusDistribution = useMemo(() => {
     const counts: Record<string, number> = {
@@ -686,6 +708,51 @@ export function AnalyticsDashboard({
               )}
             </CardContent>
           </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Radio className="h-5 w-5 text-orange-500" />
+                Missed Live Labs ({missedLiveLabs.length})
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {missedLiveLabs.length === 0 ? (
+                <p className="text-center text-muted-foreground py-8">
+                  Nobody has missed a live lab
+                </p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Name</TableHead>
+                      <TableHead>Team</TableHead>
+                      <TableHead className="text-right">Attended</TableHead>
+                      <TableHead className="text-right">Missed</TableHead>
+                      <TableHead className="text-right">Minutes Present</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {missedLiveLabs.map((entry) => (
+                      <TableRow key={entry.participant_id}>
+                        <TableCell className="font-medium">{entry.participant?.name}</TableCell>
+                        <TableCell>
+                          <Badge variant="secondary">{entry.participant?.team}</Badge>
+                        </TableCell>
+                        <TableCell className="text-right">{entry.live_sessions_attended}</TableCell>
+                        <TableCell className="text-right">
+                          <span className={entry.live_sessions_missed >= 3 ? 'text-red-500 font-bold' : 'text-orange-500'}>
+                            {entry.live_sessions_missed}
+                          </span>
+                        </TableCell>
+                        <TableCell className="text-right">{entry.live_minutes_attended}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
         </TabsContent>
       </Tabs>
     </div>
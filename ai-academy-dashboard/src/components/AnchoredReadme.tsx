@@ -0,0 +1,118 @@
+'use client';
+
+import { useMemo, useRef } from 'react';
+import { cn } from '@/lib/utils';
+import type { AnchorRange } from '@/lib/commentAnchors';
+
+export interface ReadmeHighlight extends AnchorRange {
+  id: string;
+  resolved: boolean;
+}
+
+interface AnchoredReadmeProps {
+  content: string;
+  highlights: ReadmeHighlight[];
+  activeId?: string | null;
+  pendingRange?: AnchorRange | null;
+  onSelectRange?: (range: AnchorRange) => void;
+  onHighlightClick?: (id: string) => void;
+}
+
+interface Segment {
+  start: number;
+  end: number;
+  ids: string[];
+  resolved: boolean;
+  pending: boolean;
+}
+
+/**
+ * README shown as submitted, with commented passages highlighted.
+ * Selecting text reports its character range in the raw README, which is what
+ * comment anchors are stored against.
+ */
+export function AnchoredReadme({
+  content,
+  highlights,
+  activeId,
+  pendingRange,
+  onSelectRange,
+  onHighlightClick,
+}: AnchoredReadmeProps) {
+  const containerRef = useRef<HTMLPreElement>(null);
+
+  // Cut the text at every highlight boundary so overlapping threads stay clickable
+  const segments = useMemo<Segment[]>(() => {
+    const ranges = pendingRange ? [...highlights, { ...pendingRange, id: '', resolved: false }] : highlights;
+    const cuts = new Set([0, content.length]);
+    for (const range of ranges) {
+      cuts.add(Math.min(range.start, content.length));
+      cuts.add(Math.min(range.end, content.length));
+    }
+    const points = [...cuts].sort((a, b) => a - b);
+
+    return points.slice(0, -1).map((start, i) => {
+      const end = points[i + 1];
+      const covering = highlights.filter((h) => h.start <= start && h.end >= end);
+      return {
+        start,
+        end,
+        ids: covering.map((h) => h.id),
+        resolved: covering.length > 0 && covering.every((h) => h.resolved),
+        pending: !!pendingRange && pendingRange.start <= start && pendingRange.end >= end,
+      };
+    });
+  }, [content, highlights, pendingRange]);
+
+  const handleMouseUp = () => {
+    const container = containerRef.current;
+    const selection = window.getSelection();
+    if (!container || !onSelectRange || !selection || selection.isCollapsed || selection.rangeCount === 0) return;
+
+    const range = selection.getRangeAt(0);
+    if (!container.contains(range.startContainer) || !container.contains(range.endContainer)) return;
+
+    // Offsets are the length of the rendered text before each end of the selection
+    const measure = document.createRange();
+    measure.selectNodeContents(container);
+    measure.setEnd(range.startContainer, range.startOffset);
+    const start = measure.toString().length;
+    const end = start + range.toString().length;
+
+    if (end > start) onSelectRange({ start, end });
+  };
+
+  return (
+    <pre
+      ref={containerRef}
+      onMouseUp={handleMouseUp}
+      className="whitespace-pre-wrap font-mono text-xs bg-muted p-3 rounded max-h-72 overflow-y-auto"
+    >
+      {segments.map((segment) => {
+        const text = content.slice(segment.start, segment.end);
+        if (segment.ids.length === 0 && !segment.pending) {
+          return <span key={segment.start}>{text}</span>;
+        }
+
+        return (
+          <mark
+            key={segment.start}
+            onClick={() => segment.ids[0] && onHighlightClick?.(segment.ids[0])}
+            className={cn(
+              'rounded-sm text-inherit',
+              segment.ids.length > 0 && 'cursor-pointer',
+              segment.pending
+                ? 'bg-[#0062FF]/30'
+                : segment.resolved
+                  ? 'bg-muted-foreground/15'
+                  : 'bg-yellow-300/40 dark:bg-yellow-500/30',
+              activeId && segment.ids.includes(activeId) && 'ring-1 ring-[#0062FF]'
+            )}
+          >
+            {text}
+          </mark>
+        );
+      })}
+    </pre>
+  );
+}
@@ -32,6 +32,7 @@ const PUBLIC_PREFIXES = [
 const AUTH_ONLY_ROUTES = [
   '/pending',
   '/onboarding',
+  '/prerequisites',
 ];
 
 // Routes that require admin access
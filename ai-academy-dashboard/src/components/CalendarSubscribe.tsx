@@ -0,0 +1,86 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { CalendarPlus, Copy, ExternalLink, Loader2, RotateCcw } from 'lucide-react';
+import { toast } from 'sonner';
+
+async function requestFeedUrl(method: 'GET' | 'POST'): Promise<string> {
+  const response = await fetch('/api/calendar', { method });
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to get the calendar link');
+  }
+  return data.url as string;
+}
+
+/**
+ * Personal iCal feed with live sessions, deadlines and intel drops.
+ * Calendar apps poll the URL, so it works without signing in - resetting it
+ * stops old subscriptions.
+ */
+export function CalendarSubscribe() {
+  const [isLoading, setIsLoading] = useState(false);
+
+  const withFeedUrl = async (method: 'GET' | 'POST', action: (url: string) => void | Promise<void>) => {
+    setIsLoading(true);
+    try {
+      await action(await requestFeedUrl(method));
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to get the calendar link');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const openInCalendarApp = () =>
+    withFeedUrl('GET', (url) => {
+      window.location.href = url.replace(/^https?:/, 'webcal:');
+    });
+
+  const copyFeedUrl = () =>
+    withFeedUrl('GET', async (url) => {
+      await navigator.clipboard.writeText(url);
+      toast.success('Calendar link copied - add it as a subscription in your calendar app');
+    });
+
+  const resetFeedUrl = () =>
+    withFeedUrl('POST', async (url) => {
+      await navigator.clipboard.writeText(url);
+      toast.success('New calendar link copied - the old one no longer updates');
+    });
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" disabled={isLoading}>
+          {isLoading ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <CalendarPlus className="h-4 w-4 mr-2" />}
+          Subscribe
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuItem onClick={openInCalendarApp}>
+          <ExternalLink className="h-4 w-4 mr-2" />
+          Open in calendar app
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={copyFeedUrl}>
+          <Copy className="h-4 w-4 mr-2" />
+          Copy calendar link
+        </DropdownMenuItem>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onClick={resetFeedUrl}>
+          <RotateCcw className="h-4 w-4 mr-2" />
+          Reset link
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -19,7 +19,12 @@ import {
 } from '@/components/ui/alert-dialog';
 import { useLiveSession, useInstructorSession } from '@/hooks/useLiveSession';
 import { useLiveSessionPresence } from '@/hooks/usePresence';
-import type { LiveSession, MissionDay } from '@/lib/types';
+import { InstructorPollPanel } from '@/components/LivePolls';
+import { InstructorQuestionQueue } from '@/components/LiveQuestions';
+import { InstructorBreakoutPanel } from '@/components/LiveBreakouts';
+import { LiveSessionTeam } from '@/components/LiveSessionTeam';
+import { LIVE_SESSION_ROLE_LABELS, hasSessionRight } from '@/lib/liveSessionRoles';
+import type { LiveSession, LiveSessionRole, MissionDay } from '@/lib/types';
 import {
   SkipBack,
   SkipForward,
@@ -42,6 +47,8 @@ interface InstructorControlPanelProps {
   session: LiveSession;
   missionDay: MissionDay;
   instructorName: string;
+  // Team role of the viewer; TAs get the panel without session controls
+  role?: LiveSessionRole;
 }
 
 const SECTIONS = [
@@ -55,12 +62,19 @@ export function InstructorControlPanel({
   session,
   missionDay,
   instructorName,
+  role = 'lead',
 }: InstructorControlPanelProps) {
   const router = useRouter();
   const [copiedCode, setCopiedCode] = useState(false);
   const [elapsedTime, setElapsedTime] = useState(0);
   const [endDialogOpen, setEndDialogOpen] = useState(false);
   const [isEnding, setIsEnding] = useState(false);
+  const [pollRefreshKey, setPollRefreshKey] = useState(0);
+  const [questionRefreshKey, setQuestionRefreshKey] = useState(0);
+  const [breakoutRefreshKey, setBreakoutRefreshKey] = useState(0);
+  const [teamRefreshKey, setTeamRefreshKey] = useState(0);
+  const canAdvance = hasSessionRight(role, 'advance');
+  const canEnd = hasSessionRight(role, 'end');
 
   const {
     sessionState,
@@ -68,13 +82,24 @@ export function InstructorControlPanel({
     isConnected,
     error,
     sendStateUpdate,
+    sendSessionEnd,
+    sendPollEvent,
+    sendQuestionEvent,
+    sendBreakoutEvent,
   } = useLiveSession({
     code: session.join_code || '',
-    isInstructor: true,
+    isInstructor: canAdvance,
     onSessionEnd: () => {
       toast.info('Session ended');
       router.push('/live-session');
     },
+    onPollEvent: () => setPollRefreshKey((key) => key + 1),
+    onQuestionEvent: () => setQuestionRefreshKey((key) => key + 1),
+    onBreakoutEvent: () => setBreakoutRefreshKey((key) => key + 1),
+    onInstructorChange: () => {
+      setTeamRefreshKey((key) => key + 1);
+      toast.warning('The lead lost connection; a co-instructor has taken over the session');
+    },
   });
 
   const { updateStep, updateSection, endSession, isUpdating } = useInstructorSession(
@@ -88,7 +113,7 @@ export function InstructorControlPanel({
       id: 'instructor',
       name: instructorName,
       avatar_url: null,
-      role: 'Instructor',
+      role: LIVE_SESSION_ROLE_LABELS[role],
     }
   );
 
@@ -124,44 +149,58 @@ export function InstructorControlPanel({
     setTimeout(() => setCopiedCode(false), 2000);
   };
 
-  // Handle step navigation
+  // Handle step navigation; the server state is broadcast, also on a conflict
+  const stateVersion = sessionState?.version;
+
   const handlePrevStep = useCallback(async () => {
     try {
-      const result = await updateStep('prev');
-      sendStateUpdate({ currentStep: result.session.current_step });
+      const result = await updateStep('prev', stateVersion);
+      sendStateUpdate(result.session);
+      if (result.conflict) {
+        toast.warning('The session changed in the meantime; showing the current step');
+        return;
+      }
       toast.success('Moved to previous step');
     } catch {
       toast.error('Failed to update step');
     }
-  }, [updateStep, sendStateUpdate]);
+  }, [updateStep, sendStateUpdate, stateVersion]);
 
   const handleNextStep = useCallback(async () => {
     try {
-      const result = await updateStep('next');
-      sendStateUpdate({ currentStep: result.session.current_step });
+      const result = await updateStep('next', stateVersion);
+      sendStateUpdate(result.session);
+      if (result.conflict) {
+        toast.warning('The session changed in the meantime; showing the current step');
+        return;
+      }
       toast.success('Moved to next step');
     } catch {
       toast.error('Failed to update step');
     }
-  }, [updateStep, sendStateUpdate]);
+  }, [updateStep, sendStateUpdate, stateVersion]);
 
   // Handle section change
   const handleSectionChange = useCallback(async (section: string) => {
     try {
-      await updateSection(section);
-      sendStateUpdate({ currentSection: section });
+      const result = await updateSection(section, stateVersion);
+      sendStateUpdate(result.session);
+      if (result.conflict) {
+        toast.warning('The session changed in the meantime; showing the current section');
+        return;
+      }
       toast.success(`Switched to ${section}`);
     } catch {
       toast.error('Failed to change section');
     }
-  }, [updateSection, sendStateUpdate]);
+  }, [updateSection, sendStateUpdate, stateVersion]);
 
   // Handle end session
   const handleEndSession = async () => {
     setIsEnding(true);
     try {
       await endSession();
-      sendStateUpdate({ isActive: false });
+      sendSessionEnd();
       toast.success('Session ended');
       router.push('/live-session');
     } catch {
@@ -211,13 +250,15 @@ export function InstructorControlPanel({
           </Card>
 
           {/* End Session */}
-          <Button
-            variant="destructive"
-            onClick={() => setEndDialogOpen(true)}
-          >
-            <XCircle className="mr-2 h-4 w-4" />
-            End Session
-          </Button>
+          {canEnd && (
+            <Button
+              variant="destructive"
+              onClick={() => setEndDialogOpen(true)}
+            >
+              <XCircle className="mr-2 h-4 w-4" />
+              End Session
+            </Button>
+          )}
         </div>
       </div>
 
@@ -270,7 +311,7 @@ export function InstructorControlPanel({
                   variant="outline"
                   size="lg"
                   onClick={handlePrevStep}
-                  disabled={isUpdating || currentStep <= 1}
+                  disabled={!canAdvance || isUpdating || currentStep <= 1}
                 >
                   <SkipBack className="mr-2 h-5 w-5" />
                   Previous
@@ -284,7 +325,7 @@ export function InstructorControlPanel({
                 <Button
                   size="lg"
                   onClick={handleNextStep}
-                  disabled={isUpdating}
+                  disabled={!canAdvance || isUpdating}
                   className="bg-blue-500 hover:bg-blue-600"
                 >
                   Next
@@ -304,7 +345,7 @@ export function InstructorControlPanel({
                           key={section.id}
                           value={section.id}
                           className="flex items-center gap-2"
-                          disabled={isUpdating}
+                          disabled={!canAdvance || isUpdating}
                         >
                           <Icon className="h-4 w-4" />
                           {section.name}
@@ -317,6 +358,16 @@ export function InstructorControlPanel({
             </CardContent>
           </Card>
 
+          {/* Polls */}
+          {canAdvance && (
+            <InstructorPollPanel
+              code={session.join_code || ''}
+              refreshKey={pollRefreshKey}
+              onPollEvent={sendPollEvent}
+              participantCount={onlineCount}
+            />
+          )}
+
           {/* Content Preview */}
           <Card>
             <CardHeader>
@@ -411,6 +462,26 @@ export function InstructorControlPanel({
             </CardContent>
           </Card>
 
+          {/* Question Queue */}
+          <InstructorQuestionQueue
+            code={session.join_code || ''}
+            refreshKey={questionRefreshKey}
+            onQuestionEvent={sendQuestionEvent}
+          />
+
+          {/* Breakout Rooms */}
+          {canAdvance && (
+            <InstructorBreakoutPanel
+              code={session.join_code || ''}
+              refreshKey={breakoutRefreshKey}
+              section={currentSection}
+              onBreakoutEvent={sendBreakoutEvent}
+            />
+          )}
+
+          {/* Session Team */}
+          <LiveSessionTeam code={session.join_code || ''} refreshKey={teamRefreshKey} />
+
           {/* Session Info */}
           <Card>
             <CardHeader>
@@ -0,0 +1,385 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ChevronDown, ChevronUp, DoorOpen, Loader2, Megaphone, Shuffle, StickyNote } from 'lucide-react';
+import { toast } from 'sonner';
+import { useBreakoutRoomPresence, useBreakoutRoomsOccupancy } from '@/hooks/usePresence';
+import {
+  BREAKOUT_STRATEGY_LABELS,
+  roomActivityLevel,
+  type BreakoutRoomView,
+  type RoomActivityLevel,
+} from '@/lib/liveBreakouts';
+import type { BreakoutEvent } from '@/hooks/useLiveSession';
+import type { LiveBreakoutStrategy } from '@/lib/types';
+
+interface LiveBreakoutsProps {
+  code: string;
+  // Bumped by the parent whenever a breakout event arrives on the session channel
+  refreshKey: number;
+  // Section the instructor is on; rooms only exist during the lab
+  section: string;
+  onBreakoutEvent: (event: BreakoutEvent) => void;
+}
+
+interface StudentBreakoutData {
+  room: BreakoutRoomView | null;
+  me: { id: string; name: string; avatar_url: string | null; role: string | null } | null;
+}
+
+const ACTIVITY_STYLES: Record<RoomActivityLevel, { label: string; className: string }> = {
+  active: { label: 'Active', className: 'bg-green-500' },
+  quiet: { label: 'Quiet', className: 'bg-amber-500' },
+  empty: { label: 'Empty', className: 'bg-muted text-muted-foreground' },
+};
+
+async function fetchBreakouts<T>(code: string): Promise<T | null> {
+  try {
+    const response = await fetch(`/api/live-session/${code}/breakouts`);
+    if (!response.ok) return null;
+    return (await response.json()) as T;
+  } catch (error) {
+    console.error('Failed to fetch breakout rooms:', error);
+    return null;
+  }
+}
+
+function initials(name: string) {
+  return name.split(' ').map((n) => n[0]).join('') || '?';
+}
+
+/**
+ * Instructor: split the lab into rooms, watch activity and call everyone back
+ */
+export function InstructorBreakoutPanel({ code, refreshKey, section, onBreakoutEvent }: LiveBreakoutsProps) {
+  const [rooms, setRooms] = useState<BreakoutRoomView[]>([]);
+  const [strategy, setStrategy] = useState<LiveBreakoutStrategy>('task_force');
+  const [roomCount, setRoomCount] = useState('4');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [expandedRoomId, setExpandedRoomId] = useState<string | null>(null);
+
+  const occupancy = useBreakoutRoomsOccupancy(code, rooms.map((r) => r.id));
+
+  const fetchRooms = useCallback(async () => {
+    const data = await fetchBreakouts<{ rooms: BreakoutRoomView[] }>(code);
+    if (data) setRooms(data.rooms);
+  }, [code]);
+
+  useEffect(() => {
+    fetchBreakouts<{ rooms: BreakoutRoomView[] }>(code).then((data) => {
+      if (data) setRooms(data.rooms);
+    });
+  }, [code, refreshKey, section]);
+
+  const openRooms = async () => {
+    setIsSubmitting(true);
+    try {
+      const response = await fetch(`/api/live-session/${code}/breakouts`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          strategy,
+          room_count: strategy === 'random' ? parseInt(roomCount, 10) : undefined,
+        }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.details || data.error || 'Failed to open rooms');
+      }
+
+      setRooms(data.rooms);
+      onBreakoutEvent({ type: 'opened' });
+      toast.success(`Opened ${data.rooms.length} breakout rooms`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to open rooms');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const callEveryoneBack = async () => {
+    setIsSubmitting(true);
+    try {
+      const response = await fetch(`/api/live-session/${code}/breakouts`, { method: 'DELETE' });
+      if (!response.ok) {
+        throw new Error('Failed to close rooms');
+      }
+
+      onBreakoutEvent({ type: 'recalled' });
+      await fetchRooms();
+      toast.success('Everyone has been called back');
+    } catch {
+      toast.error('Failed to close rooms');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (section !== 'lab' && rooms.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span className="flex items-center gap-2">
+            <DoorOpen className="h-5 w-5" />
+            Breakout Rooms
+          </span>
+          {rooms.length > 0 && <Badge variant="secondary">{rooms.length} open</Badge>}
+        </CardTitle>
+        <CardDescription>Split the lab into small groups with their own notes</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-center gap-2">
+          <Select value={strategy} onValueChange={(value) => setStrategy(value as LiveBreakoutStrategy)}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(BREAKOUT_STRATEGY_LABELS) as LiveBreakoutStrategy[]).map((key) => (
+                <SelectItem key={key} value={key}>
+                  {BREAKOUT_STRATEGY_LABELS[key]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {strategy === 'random' && (
+            <Input
+              type="number"
+              min={2}
+              max={20}
+              value={roomCount}
+              onChange={(e) => setRoomCount(e.target.value)}
+              className="w-20"
+              aria-label="Number of rooms"
+            />
+          )}
+          <Button
+            className="bg-[#0062FF] hover:bg-[#0052D9]"
+            disabled={isSubmitting || section !== 'lab'}
+            onClick={openRooms}
+          >
+            {isSubmitting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Shuffle className="mr-2 h-4 w-4" />}
+            {rooms.length > 0 ? 'Reassign Rooms' : 'Open Rooms'}
+          </Button>
+          {rooms.length > 0 && (
+            <Button variant="outline" disabled={isSubmitting} onClick={callEveryoneBack}>
+              <Megaphone className="mr-2 h-4 w-4" />
+              Call Everyone Back
+            </Button>
+          )}
+        </div>
+
+        {rooms.length > 0 && (
+          <div className="space-y-2">
+            {rooms.map((room) => {
+              const online = occupancy[room.id] ?? 0;
+              const activity = ACTIVITY_STYLES[roomActivityLevel(online, room.notes_updated_at)];
+              const isExpanded = expandedRoomId === room.id;
+
+              return (
+                <div key={room.id} className="p-3 rounded-lg bg-muted/50 space-y-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="min-w-0">
+                      <p className="font-medium truncate">{room.name}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {online} / {room.members.length} online
+                        {room.notes_updated_at &&
+                          ` • notes edited ${formatDistanceToNow(new Date(room.notes_updated_at), { addSuffix: true })}`}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Badge className={activity.className}>{activity.label}</Badge>
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        onClick={() => setExpandedRoomId(isExpanded ? null : room.id)}
+                        aria-label={isExpanded ? 'Hide room details' : 'Show room details'}
+                      >
+                        {isExpanded ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+                      </Button>
+                    </div>
+                  </div>
+                  {isExpanded && (
+                    <div className="space-y-2">
+                      <div className="flex flex-wrap gap-1">
+                        {room.members.map((member) => (
+                          <Badge key={member.participant_id} variant="outline">
+                            {member.name}
+                          </Badge>
+                        ))}
+                      </div>
+                      <p className="text-sm whitespace-pre-wrap p-2 rounded bg-background">
+                        {room.notes || <span className="text-muted-foreground">No notes yet</span>}
+                      </p>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function StudentRoom({
+  code,
+  room,
+  me,
+  onBreakoutEvent,
+  onSaved,
+}: {
+  code: string;
+  room: BreakoutRoomView;
+  me: NonNullable<StudentBreakoutData['me']>;
+  onBreakoutEvent: (event: BreakoutEvent) => void;
+  onSaved: () => Promise<void>;
+}) {
+  // Local edits; null shows the saved notes
+  const [draft, setDraft] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const saveTimerRef = useRef<NodeJS.Timeout | null>(null);
+
+  const presenceUser = useMemo(
+    () => ({ id: me.id, name: me.name, avatar_url: me.avatar_url, role: me.role ?? 'Participant' }),
+    [me.id, me.name, me.avatar_url, me.role]
+  );
+  const { users } = useBreakoutRoomPresence(code, room.id, presenceUser);
+  const onlineIds = new Set(users.map((u) => u.id));
+
+  const saveNotes = async (notes: string) => {
+    setIsSaving(true);
+    try {
+      const response = await fetch(`/api/live-session/${code}/breakouts/${room.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ notes }),
+      });
+      if (!response.ok) {
+        throw new Error('Failed to save notes');
+      }
+
+      onBreakoutEvent({ type: 'notes', roomId: room.id });
+      await onSaved();
+      // Keep typing that happened while saving
+      setDraft((current) => (current === notes ? null : current));
+    } catch {
+      toast.error('Failed to save notes');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleChange = (value: string) => {
+    setDraft(value);
+    if (saveTimerRef.current) clearTimeout(saveTimerRef.current);
+    saveTimerRef.current = setTimeout(() => saveNotes(value), 1000);
+  };
+
+  return (
+    <Card className="border-[#0062FF]/30 bg-[#0062FF]/5">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span className="flex items-center gap-2">
+            <DoorOpen className="h-5 w-5 text-[#0062FF]" />
+            {room.name}
+          </span>
+          <Badge variant="secondary">{users.length} online</Badge>
+        </CardTitle>
+        <CardDescription>Your breakout room for this lab</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap gap-3">
+          {room.members.map((member) => (
+            <div key={member.participant_id} className="flex items-center gap-2">
+              <div className="relative">
+                <Avatar className="h-8 w-8">
+                  <AvatarImage src={member.avatar_url || undefined} />
+                  <AvatarFallback>{initials(member.name)}</AvatarFallback>
+                </Avatar>
+                {onlineIds.has(member.participant_id) && (
+                  <span className="absolute -bottom-0.5 -right-0.5 h-2.5 w-2.5 rounded-full bg-green-500 border-2 border-background" />
+                )}
+              </div>
+              <span className="text-sm">{member.participant_id === me.id ? 'You' : member.name}</span>
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between text-sm">
+            <span className="flex items-center gap-1 font-medium">
+              <StickyNote className="h-4 w-4" />
+              Shared Notes
+            </span>
+            <span className="text-xs text-muted-foreground">
+              {isSaving
+                ? 'Saving...'
+                : room.notes_updated_at
+                  ? `Saved ${formatDistanceToNow(new Date(room.notes_updated_at), { addSuffix: true })}`
+                  : 'Everyone in the room can edit'}
+            </span>
+          </div>
+          <Textarea
+            value={draft ?? room.notes}
+            rows={6}
+            placeholder="Capture decisions, questions and findings for the debrief..."
+            onChange={(e) => handleChange(e.target.value)}
+          />
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * Student: the breakout room the participant was placed in, if any
+ */
+export function StudentBreakoutRoom({ code, refreshKey, section, onBreakoutEvent }: LiveBreakoutsProps) {
+  const [data, setData] = useState<StudentBreakoutData>({ room: null, me: null });
+
+  const fetchRoom = useCallback(async () => {
+    const loaded = await fetchBreakouts<StudentBreakoutData>(code);
+    if (loaded) setData(loaded);
+  }, [code]);
+
+  useEffect(() => {
+    fetchBreakouts<StudentBreakoutData>(code).then((loaded) => {
+      if (loaded) setData(loaded);
+    });
+  }, [code, refreshKey, section]);
+
+  if (!data.room || !data.me) {
+    return null;
+  }
+
+  return (
+    <StudentRoom
+      key={data.room.id}
+      code={code}
+      room={data.room}
+      me={data.me}
+      onBreakoutEvent={onBreakoutEvent}
+      onSaved={fetchRoom}
+    />
+  );
+}
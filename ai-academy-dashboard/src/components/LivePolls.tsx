@@ -0,0 +1,376 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { BarChart3, CheckCircle2, Loader2, Plus, Send, Square, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { POLL_KIND_LABELS, type PollWithResults } from '@/lib/livePolls';
+import type { PollEvent } from '@/hooks/useLiveSession';
+import type { LivePollKind } from '@/lib/types';
+
+interface LivePollsProps {
+  code: string;
+  // Bumped by the parent whenever a poll event arrives on the session channel
+  refreshKey: number;
+  onPollEvent: (event: PollEvent) => void;
+}
+
+function useSessionPolls(code: string, refreshKey: number) {
+  const [polls, setPolls] = useState<PollWithResults[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const fetchPolls = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/live-session/${code}/polls`);
+      if (!response.ok) return;
+
+      const data = await response.json();
+      setPolls(data.polls || []);
+    } catch (error) {
+      console.error('Failed to fetch polls:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [code]);
+
+  useEffect(() => {
+    fetchPolls();
+  }, [fetchPolls, refreshKey]);
+
+  return { polls, setPolls, isLoading, fetchPolls };
+}
+
+/**
+ * Bar per option; highlights the correct answer of a quick check
+ */
+export function PollResultsView({ poll }: { poll: PollWithResults }) {
+  if (!poll.results) return null;
+  const { counts, total, correct_percent, average } = poll.results;
+
+  return (
+    <div className="space-y-3">
+      {poll.options.map((option, i) => {
+        const percent = total > 0 ? Math.round((counts[i] / total) * 100) : 0;
+        const isCorrect = poll.correct_option === i;
+        return (
+          <div key={i} className="space-y-1">
+            <div className="flex items-center justify-between text-sm">
+              <span className={`flex items-center gap-1 ${isCorrect ? 'font-medium text-green-500' : ''}`}>
+                {isCorrect && <CheckCircle2 className="h-3 w-3" />}
+                {option}
+              </span>
+              <span className="text-muted-foreground">
+                {counts[i]} ({percent}%)
+              </span>
+            </div>
+            <Progress value={percent} className="h-2" />
+          </div>
+        );
+      })}
+      <div className="flex flex-wrap gap-2 text-xs text-muted-foreground">
+        <span>{total} response{total === 1 ? '' : 's'}</span>
+        {correct_percent !== null && <span>• {correct_percent}% correct</span>}
+        {average !== null && <span>• Average confidence {average}/5</span>}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Instructor: compose polls, watch results live, review closed polls
+ */
+export function InstructorPollPanel({
+  code,
+  refreshKey,
+  onPollEvent,
+  participantCount,
+}: LivePollsProps & { participantCount: number }) {
+  const { polls, isLoading, fetchPolls } = useSessionPolls(code, refreshKey);
+  const [kind, setKind] = useState<LivePollKind>('multiple_choice');
+  const [question, setQuestion] = useState('');
+  const [options, setOptions] = useState<string[]>(['', '']);
+  const [correctOption, setCorrectOption] = useState(0);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const activePoll = polls.find((p) => p.status === 'open') ?? null;
+  const closedPolls = polls.filter((p) => p.status === 'closed').reverse();
+
+  const resetComposer = () => {
+    setQuestion('');
+    setOptions(['', '']);
+    setCorrectOption(0);
+  };
+
+  const handleOpen = async () => {
+    setIsSubmitting(true);
+    try {
+      const response = await fetch(`/api/live-session/${code}/polls`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          kind,
+          question,
+          options: kind === 'confidence' ? undefined : options.map((o) => o.trim()),
+          correct_option: kind === 'multiple_choice' ? correctOption : null,
+        }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.details || data.error || 'Failed to start poll');
+      }
+
+      onPollEvent({ type: 'opened', pollId: data.poll.id });
+      resetComposer();
+      await fetchPolls();
+      toast.success(`${POLL_KIND_LABELS[kind]} sent to participants`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to start poll');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleClose = async (pollId: string) => {
+    setIsSubmitting(true);
+    try {
+      const response = await fetch(`/api/live-session/${code}/polls/${pollId}`, { method: 'PATCH' });
+      if (!response.ok) {
+        throw new Error('Failed to close poll');
+      }
+
+      onPollEvent({ type: 'closed', pollId });
+      await fetchPolls();
+    } catch {
+      toast.error('Failed to close poll');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <BarChart3 className="h-5 w-5" />
+          Polls &amp; Quick Checks
+        </CardTitle>
+        <CardDescription>Ask everyone in the session and see answers as they arrive</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {activePoll ? (
+          <div className="space-y-4 p-4 rounded-lg border border-blue-500/30 bg-blue-500/5">
+            <div className="flex items-start justify-between gap-4">
+              <div>
+                <Badge variant="outline" className="mb-2">{POLL_KIND_LABELS[activePoll.kind]}</Badge>
+                <p className="font-medium">{activePoll.question}</p>
+                <p className="text-xs text-muted-foreground">
+                  {activePoll.results?.total ?? 0} of {participantCount} answered
+                </p>
+              </div>
+              <Button size="sm" variant="outline" onClick={() => handleClose(activePoll.id)} disabled={isSubmitting}>
+                <Square className="mr-2 h-3 w-3" />
+                Close
+              </Button>
+            </div>
+            <PollResultsView poll={activePoll} />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid gap-4 sm:grid-cols-3">
+              <div className="space-y-2">
+                <Label>Type</Label>
+                <Select value={kind} onValueChange={(value) => setKind(value as LivePollKind)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(POLL_KIND_LABELS) as LivePollKind[]).map((k) => (
+                      <SelectItem key={k} value={k}>
+                        {POLL_KIND_LABELS[k]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2 sm:col-span-2">
+                <Label htmlFor="poll-question">Question</Label>
+                <Input
+                  id="poll-question"
+                  value={question}
+                  placeholder={kind === 'confidence' ? 'How confident are you with RAG pipelines?' : 'Ask a question'}
+                  onChange={(e) => setQuestion(e.target.value)}
+                />
+              </div>
+            </div>
+
+            {kind !== 'confidence' && (
+              <div className="space-y-2">
+                <Label>Options{kind === 'multiple_choice' && ' (select the correct one)'}</Label>
+                {options.map((option, i) => (
+                  <div key={i} className="flex items-center gap-2">
+                    {kind === 'multiple_choice' && (
+                      <input
+                        type="radio"
+                        name="correct-option"
+                        checked={correctOption === i}
+                        onChange={() => setCorrectOption(i)}
+                        aria-label={`Option ${i + 1} is correct`}
+                      />
+                    )}
+                    <Input
+                      value={option}
+                      placeholder={`Option ${i + 1}`}
+                      onChange={(e) => setOptions(options.map((o, j) => (j === i ? e.target.value : o)))}
+                    />
+                    {options.length > 2 && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => {
+                          setOptions(options.filter((_, j) => j !== i));
+                          if (correctOption >= i && correctOption > 0) setCorrectOption(correctOption - 1);
+                        }}
+                        aria-label={`Remove option ${i + 1}`}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                ))}
+                {options.length < 6 && (
+                  <Button variant="outline" size="sm" onClick={() => setOptions([...options, ''])}>
+                    <Plus className="mr-2 h-3 w-3" />
+                    Add Option
+                  </Button>
+                )}
+              </div>
+            )}
+
+            <Button
+              onClick={handleOpen}
+              disabled={
+                isSubmitting ||
+                question.trim().length < 3 ||
+                (kind !== 'confidence' && options.some((o) => !o.trim()))
+              }
+              className="w-full bg-[#0062FF] hover:bg-[#0052D9]"
+            >
+              {isSubmitting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Send className="mr-2 h-4 w-4" />}
+              Send to Participants
+            </Button>
+          </div>
+        )}
+
+        {!isLoading && closedPolls.length > 0 && (
+          <div className="space-y-4">
+            <p className="text-sm font-medium text-muted-foreground">Earlier in this session</p>
+            {closedPolls.map((poll) => (
+              <div key={poll.id} className="space-y-3 p-3 rounded-lg bg-muted/50">
+                <div className="flex items-center gap-2">
+                  <Badge variant="secondary" className="text-xs">{POLL_KIND_LABELS[poll.kind]}</Badge>
+                  <p className="text-sm font-medium">{poll.question}</p>
+                </div>
+                <PollResultsView poll={poll} />
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * Student: answer the open poll, then see results once it closes
+ */
+export function StudentPollCard({ code, refreshKey, onPollEvent }: LivePollsProps) {
+  const { polls, setPolls } = useSessionPolls(code, refreshKey);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [dismissedId, setDismissedId] = useState<string | null>(null);
+
+  const activePoll = polls.find((p) => p.status === 'open') ?? null;
+  const lastClosed = [...polls].reverse().find((p) => p.status === 'closed') ?? null;
+  const poll = activePoll ?? (lastClosed && lastClosed.id !== dismissedId ? lastClosed : null);
+
+  if (!poll) return null;
+
+  const handleAnswer = async (optionIndex: number) => {
+    setIsSubmitting(true);
+    try {
+      const response = await fetch(`/api/live-session/${code}/polls/${poll.id}/responses`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ option_index: optionIndex }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to send answer');
+      }
+
+      setPolls((current) => current.map((p) => (p.id === poll.id ? { ...p, my_response: optionIndex } : p)));
+      onPollEvent({ type: 'response', pollId: poll.id });
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to send answer');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Card className={poll.status === 'open' ? 'border-blue-500/50 bg-blue-500/5' : ''}>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <Badge variant="outline">
+            {POLL_KIND_LABELS[poll.kind]}
+            {poll.status === 'closed' && ' • Results'}
+          </Badge>
+          {poll.status === 'closed' && (
+            <Button variant="ghost" size="icon" onClick={() => setDismissedId(poll.id)} aria-label="Dismiss results">
+              <X className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+        <CardTitle className="text-lg">{poll.question}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {poll.status === 'open' ? (
+          <div className="grid gap-2 sm:grid-cols-2">
+            {poll.options.map((option, i) => (
+              <Button
+                key={i}
+                variant={poll.my_response === i ? 'default' : 'outline'}
+                className="justify-start h-auto py-3 whitespace-normal text-left"
+                disabled={isSubmitting}
+                onClick={() => handleAnswer(i)}
+              >
+                {poll.kind === 'confidence' && <span className="mr-2 font-bold">{i + 1}</span>}
+                {option}
+              </Button>
+            ))}
+            {poll.my_response !== null && (
+              <p className="text-xs text-muted-foreground sm:col-span-2">
+                Answer sent. You can change it until the instructor closes the poll.
+              </p>
+            )}
+          </div>
+        ) : (
+          <PollResultsView poll={poll} />
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,332 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { CheckCircle2, Hand, Loader2, MessageCircleQuestion, RotateCcw, Send, ThumbsUp, X } from 'lucide-react';
+import { toast } from 'sonner';
+import type { QueuedQuestion } from '@/lib/liveQuestions';
+import type { QuestionEvent } from '@/hooks/useLiveSession';
+import type { LiveQuestionStatus } from '@/lib/types';
+
+interface LiveQuestionsProps {
+  code: string;
+  // Bumped by the parent whenever a question event arrives on the session channel
+  refreshKey: number;
+  onQuestionEvent: (event: QuestionEvent) => void;
+}
+
+function useQuestionQueue(code: string, refreshKey: number) {
+  const [questions, setQuestions] = useState<QueuedQuestion[]>([]);
+
+  const loadQuestions = useCallback(async (): Promise<QueuedQuestion[] | null> => {
+    try {
+      const response = await fetch(`/api/live-session/${code}/questions`);
+      if (!response.ok) return null;
+
+      const data = await response.json();
+      return data.questions || [];
+    } catch (error) {
+      console.error('Failed to fetch questions:', error);
+      return null;
+    }
+  }, [code]);
+
+  const fetchQuestions = useCallback(async () => {
+    const loaded = await loadQuestions();
+    if (loaded) setQuestions(loaded);
+  }, [loadQuestions]);
+
+  useEffect(() => {
+    loadQuestions().then((loaded) => {
+      if (loaded) setQuestions(loaded);
+    });
+  }, [loadQuestions, refreshKey]);
+
+  return { questions, fetchQuestions };
+}
+
+function QuestionMeta({ question }: { question: QueuedQuestion }) {
+  return (
+    <p className="text-xs text-muted-foreground">
+      {question.author_name ?? 'A classmate'}
+      {question.section && ` • ${question.section}`}
+      {' • '}
+      {formatDistanceToNow(new Date(question.created_at), { addSuffix: true })}
+    </p>
+  );
+}
+
+/**
+ * Instructor: moderated queue of raised hands and questions
+ */
+export function InstructorQuestionQueue({ code, refreshKey, onQuestionEvent }: LiveQuestionsProps) {
+  const { questions, fetchQuestions } = useQuestionQueue(code, refreshKey);
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+
+  const open = questions.filter((q) => q.status === 'open');
+  const handled = questions.filter((q) => q.status !== 'open');
+
+  const setStatus = async (questionId: string, status: LiveQuestionStatus) => {
+    setUpdatingId(questionId);
+    try {
+      const response = await fetch(`/api/live-session/${code}/questions/${questionId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status }),
+      });
+      if (!response.ok) {
+        throw new Error('Failed to update question');
+      }
+
+      onQuestionEvent({ type: 'updated', questionId });
+      await fetchQuestions();
+    } catch {
+      toast.error('Failed to update question');
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span className="flex items-center gap-2">
+            <MessageCircleQuestion className="h-5 w-5" />
+            Question Queue
+          </span>
+          <Badge variant={open.length > 0 ? 'default' : 'secondary'}>{open.length}</Badge>
+        </CardTitle>
+        <CardDescription>Raised hands first, then the most upvoted questions</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {open.length === 0 ? (
+          <p className="text-center py-4 text-sm text-muted-foreground">No open questions</p>
+        ) : (
+          <div className="space-y-3 max-h-96 overflow-y-auto">
+            {open.map((question) => (
+              <div key={question.id} className="p-3 rounded-lg bg-muted/50 space-y-2">
+                <div className="flex items-start gap-2">
+                  {question.kind === 'hand' ? (
+                    <Hand className="h-4 w-4 mt-0.5 text-amber-500 shrink-0" />
+                  ) : (
+                    <Badge variant="outline" className="shrink-0 gap-1">
+                      <ThumbsUp className="h-3 w-3" />
+                      {question.votes}
+                    </Badge>
+                  )}
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium break-words">
+                      {question.kind === 'hand' ? 'Raised hand' : question.body}
+                    </p>
+                    <QuestionMeta question={question} />
+                  </div>
+                </div>
+                <div className="flex gap-2 justify-end">
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    disabled={updatingId === question.id}
+                    onClick={() => setStatus(question.id, 'dismissed')}
+                  >
+                    <X className="mr-1 h-3 w-3" />
+                    Dismiss
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={updatingId === question.id}
+                    onClick={() => setStatus(question.id, 'answered')}
+                  >
+                    <CheckCircle2 className="mr-1 h-3 w-3 text-green-500" />
+                    {question.kind === 'hand' ? 'Done' : 'Answered'}
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {handled.length > 0 && (
+          <div className="space-y-2">
+            <Button variant="ghost" size="sm" className="w-full" onClick={() => setShowHistory(!showHistory)}>
+              {showHistory ? 'Hide' : 'Show'} {handled.length} handled
+            </Button>
+            {showHistory &&
+              handled.map((question) => (
+                <div key={question.id} className="flex items-start justify-between gap-2 p-2 text-sm opacity-70">
+                  <div className="min-w-0">
+                    <p className="break-words">{question.kind === 'hand' ? 'Raised hand' : question.body}</p>
+                    <QuestionMeta question={question} />
+                  </div>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    disabled={updatingId === question.id}
+                    onClick={() => setStatus(question.id, 'open')}
+                    aria-label="Reopen question"
+                  >
+                    <RotateCcw className="h-3 w-3" />
+                  </Button>
+                </div>
+              ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * Student: raise a hand, ask a question and upvote classmates' questions
+ */
+export function StudentQuestionPanel({ code, refreshKey, onQuestionEvent }: LiveQuestionsProps) {
+  const { questions, fetchQuestions } = useQuestionQueue(code, refreshKey);
+  const [draft, setDraft] = useState('');
+  const [isSending, setIsSending] = useState(false);
+
+  const myHand = questions.find((q) => q.is_mine && q.kind === 'hand' && q.status === 'open') ?? null;
+  const visibleQuestions = questions.filter((q) => q.kind === 'question' && q.status !== 'dismissed');
+
+  const send = async (kind: 'hand' | 'question') => {
+    setIsSending(true);
+    try {
+      const response = await fetch(`/api/live-session/${code}/questions`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ kind, body: kind === 'question' ? draft : null }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.details || data.error || 'Failed to send');
+      }
+
+      onQuestionEvent({ type: 'asked', questionId: data.question.id });
+      if (kind === 'question') setDraft('');
+      await fetchQuestions();
+      toast.success(kind === 'hand' ? 'Hand raised' : 'Question sent to the instructor');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to send');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const lowerHand = async () => {
+    if (!myHand) return;
+    setIsSending(true);
+    try {
+      const response = await fetch(`/api/live-session/${code}/questions/${myHand.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status: 'dismissed' }),
+      });
+      if (!response.ok) {
+        throw new Error('Failed to lower hand');
+      }
+
+      onQuestionEvent({ type: 'updated', questionId: myHand.id });
+      await fetchQuestions();
+    } catch {
+      toast.error('Failed to lower hand');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const toggleVote = async (question: QueuedQuestion) => {
+    try {
+      const response = await fetch(`/api/live-session/${code}/questions/${question.id}/votes`, {
+        method: question.has_voted ? 'DELETE' : 'POST',
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to vote');
+      }
+
+      onQuestionEvent({ type: 'voted', questionId: question.id });
+      await fetchQuestions();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to vote');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span className="flex items-center gap-2">
+            <MessageCircleQuestion className="h-5 w-5" />
+            Questions
+          </span>
+          <Button
+            size="sm"
+            variant={myHand ? 'default' : 'outline'}
+            className={myHand ? 'bg-amber-500 hover:bg-amber-600' : ''}
+            disabled={isSending}
+            onClick={() => (myHand ? lowerHand() : send('hand'))}
+          >
+            <Hand className="mr-2 h-4 w-4" />
+            {myHand ? 'Lower Hand' : 'Raise Hand'}
+          </Button>
+        </CardTitle>
+        <CardDescription>Ask the instructor or upvote what classmates already asked</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex gap-2">
+          <Textarea
+            value={draft}
+            rows={2}
+            placeholder="Type your question..."
+            onChange={(e) => setDraft(e.target.value)}
+          />
+          <Button
+            size="icon"
+            className="self-end bg-[#0062FF] hover:bg-[#0052D9]"
+            disabled={isSending || draft.trim().length < 3}
+            onClick={() => send('question')}
+            aria-label="Send question"
+          >
+            {isSending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+          </Button>
+        </div>
+
+        {visibleQuestions.length > 0 && (
+          <div className="space-y-2 max-h-72 overflow-y-auto">
+            {visibleQuestions.map((question) => (
+              <div key={question.id} className="flex items-start gap-3 p-2 rounded-lg bg-muted/50">
+                <Button
+                  size="sm"
+                  variant={question.has_voted ? 'default' : 'outline'}
+                  className="shrink-0 gap-1"
+                  disabled={question.is_mine || question.status !== 'open'}
+                  onClick={() => toggleVote(question)}
+                  aria-label={question.has_voted ? 'Remove upvote' : 'Upvote'}
+                >
+                  <ThumbsUp className="h-3 w-3" />
+                  {question.votes}
+                </Button>
+                <div className="min-w-0 flex-1">
+                  <p className="text-sm break-words">{question.body}</p>
+                  <div className="flex items-center gap-2">
+                    <QuestionMeta question={question} />
+                    {question.status === 'answered' && (
+                      <Badge variant="secondary" className="text-xs text-green-500">Answered</Badge>
+                    )}
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -45,6 +45,7 @@ export function LiveSessionPage({
   const [isJoining, setIsJoining] = useState(false);
   const [copiedCode, setCopiedCode] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [missingPrerequisites, setMissingPrerequisites] = useState<{ code: string; name: string }[]>([]);
 
   const supabase = getSupabaseClient();
 
@@ -84,6 +85,7 @@ export function LiveSessionPage({
 
     setIsJoining(true);
     setError(null);
+    setMissingPrerequisites([]);
 
     try {
       const { data: session, error: fetchError } = await supabase
@@ -98,6 +100,15 @@ export function LiveSessionPage({
         return;
       }
 
+      // The server checks the setup checklist before letting a participant in
+      const response = await fetch(`/api/live-session/${session.join_code}/participants`, { method: 'POST' });
+      if (!response.ok) {
+        const data = await response.json();
+        setError(data.error || 'Failed to join session.');
+        setMissingPrerequisites(data.missing_prerequisites ?? []);
+        return;
+      }
+
       // Redirect to the live session view
       window.location.href = `/live-session/view?code=${session.join_code}`;
     } catch (err) {
@@ -136,6 +147,18 @@ export function LiveSessionPage({
         <Card className="border-red-500 bg-red-500/10">
           <CardContent className="pt-6 text-red-500">
             {error}
+            {missingPrerequisites.length > 0 && (
+              <>
+                <ul className="mt-2 list-disc pl-5 text-sm">
+                  {missingPrerequisites.map((item) => (
+                    <li key={item.code}>{item.name}</li>
+                  ))}
+                </ul>
+                <Link href="/prerequisites" className="mt-2 inline-block text-sm font-medium underline">
+                  Open your setup checklist
+                </Link>
+              </>
+            )}
           </CardContent>
         </Card>
       )}
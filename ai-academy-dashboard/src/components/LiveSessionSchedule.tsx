@@ -0,0 +1,268 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { CalendarClock, Loader2, Play, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { getSupabaseClient } from '@/lib/supabase';
+import { ScheduledSessionRow } from '@/components/UpcomingLiveSessions';
+import type { UpcomingLiveSession } from '@/lib/liveSchedule';
+
+interface DayOption {
+  id: number;
+  day: number;
+  title: string;
+}
+
+async function loadSchedule(): Promise<UpcomingLiveSession[] | null> {
+  try {
+    const response = await fetch('/api/live-session/schedule');
+    if (!response.ok) return null;
+    const data = await response.json();
+    return data.sessions as UpcomingLiveSession[];
+  } catch (error) {
+    console.error('Failed to fetch scheduled sessions:', error);
+    return null;
+  }
+}
+
+/**
+ * Schedule live sessions ahead of time, start or cancel them
+ */
+export function LiveSessionSchedule() {
+  const [sessions, setSessions] = useState<UpcomingLiveSession[]>([]);
+  const [missionDays, setMissionDays] = useState<DayOption[]>([]);
+  const [dayId, setDayId] = useState('');
+  const [title, setTitle] = useState('');
+  const [startsAt, setStartsAt] = useState('');
+  const [duration, setDuration] = useState('90');
+  const [description, setDescription] = useState('');
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const fetchSchedule = useCallback(async () => {
+    const loaded = await loadSchedule();
+    if (loaded) setSessions(loaded);
+  }, []);
+
+  useEffect(() => {
+    loadSchedule().then((loaded) => {
+      if (loaded) setSessions(loaded);
+    });
+
+    getSupabaseClient()
+      .from('mission_days')
+      .select('id, day, title')
+      .order('day')
+      .then(({ data }) => setMissionDays((data as DayOption[]) ?? []));
+  }, []);
+
+  const selectDay = (value: string) => {
+    setDayId(value);
+    const day = missionDays.find((d) => String(d.id) === value);
+    if (day && !title) setTitle(day.title);
+  };
+
+  const scheduleSession = async () => {
+    setIsSaving(true);
+    try {
+      const response = await fetch('/api/live-session/schedule', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          mission_day_id: Number(dayId),
+          title,
+          description: description || null,
+          // datetime-local is the browser's local time
+          starts_at: new Date(startsAt).toISOString(),
+          duration_minutes: Number(duration),
+        }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.details || data.error || 'Failed to schedule session');
+      }
+
+      setDayId('');
+      setTitle('');
+      setStartsAt('');
+      setDescription('');
+      await fetchSchedule();
+      toast.success('Session scheduled');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to schedule session');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const startSession = async (session: UpcomingLiveSession) => {
+    setBusyId(session.id);
+    try {
+      const response = await fetch('/api/live-session', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ scheduled_session_id: session.id }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to start session');
+      }
+
+      window.location.href = `/live-session/control?code=${data.session.join_code}`;
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to start session');
+      setBusyId(null);
+    }
+  };
+
+  const cancelSession = async (session: UpcomingLiveSession) => {
+    setBusyId(session.id);
+    try {
+      const response = await fetch(`/api/live-session/schedule/${session.id}`, { method: 'DELETE' });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to cancel session');
+      }
+
+      await fetchSchedule();
+      toast.success('Session cancelled');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to cancel session');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const canSchedule = !!dayId && title.trim().length >= 3 && !!startsAt && !isSaving;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarClock className="h-5 w-5 text-[#0062FF]" />
+          Scheduled Sessions
+        </CardTitle>
+        <CardDescription>
+          Participants see these on Mission Control, in their calendar feed, and get an email an hour before
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="grid gap-6 lg:grid-cols-2">
+        <div className="space-y-3">
+          <div className="space-y-1">
+            <Label>Mission day</Label>
+            <Select value={dayId} onValueChange={selectDay}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select a day" />
+              </SelectTrigger>
+              <SelectContent>
+                {missionDays.map((day) => (
+                  <SelectItem key={day.id} value={String(day.id)}>
+                    Day {day.day}: {day.title}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="schedule-title">Title</Label>
+            <Input id="schedule-title" value={title} onChange={(e) => setTitle(e.target.value)} maxLength={200} />
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="schedule-starts-at">Starts</Label>
+              <Input
+                id="schedule-starts-at"
+                type="datetime-local"
+                value={startsAt}
+                onChange={(e) => setStartsAt(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="schedule-duration">Minutes</Label>
+              <Input
+                id="schedule-duration"
+                type="number"
+                min={15}
+                max={480}
+                step={15}
+                value={duration}
+                onChange={(e) => setDuration(e.target.value)}
+              />
+            </div>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="schedule-description">Description</Label>
+            <Textarea
+              id="schedule-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              maxLength={1000}
+              rows={2}
+            />
+          </div>
+          <Button
+            className="w-full bg-[#0062FF] hover:bg-[#0052D9]"
+            disabled={!canSchedule}
+            onClick={scheduleSession}
+          >
+            {isSaving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <CalendarClock className="h-4 w-4 mr-2" />}
+            Schedule Session
+          </Button>
+        </div>
+
+        <div className="space-y-3">
+          {sessions.length === 0 ? (
+            <p className="text-center py-4 text-sm text-muted-foreground">No sessions scheduled</p>
+          ) : (
+            sessions.map((session) => (
+              <div key={session.id} className="space-y-2">
+                <ScheduledSessionRow session={session} />
+                {!session.is_live && (
+                  <div className="flex justify-end gap-2">
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      disabled={busyId === session.id}
+                      onClick={() => cancelSession(session)}
+                    >
+                      <X className="h-4 w-4 mr-1" />
+                      Cancel
+                    </Button>
+                    <Button
+                      size="sm"
+                      className="bg-[#0062FF] hover:bg-[#0052D9]"
+                      disabled={busyId === session.id}
+                      onClick={() => startSession(session)}
+                    >
+                      {busyId === session.id ? (
+                        <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                      ) : (
+                        <Play className="h-4 w-4 mr-1" />
+                      )}
+                      Start now
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
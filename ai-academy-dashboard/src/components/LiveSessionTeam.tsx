@@ -0,0 +1,218 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Loader2, UserPlus, UsersRound, X } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  LIVE_SESSION_ROLE_LABELS,
+  hasSessionRight,
+  type StaffCandidate,
+  type StaffMember,
+} from '@/lib/liveSessionRoles';
+import { isHeartbeatStale } from '@/lib/liveSessionState';
+import type { LiveSessionRole } from '@/lib/types';
+
+interface LiveSessionTeamProps {
+  code: string;
+  // Bumped by the parent when the lead changes hands
+  refreshKey: number;
+}
+
+interface TeamData {
+  staff: StaffMember[];
+  candidates: StaffCandidate[];
+  my_role: LiveSessionRole | null;
+}
+
+async function loadTeam(code: string): Promise<TeamData | null> {
+  try {
+    const response = await fetch(`/api/live-session/${code}/staff`);
+    if (!response.ok) return null;
+    return (await response.json()) as TeamData;
+  } catch (error) {
+    console.error('Failed to fetch session team:', error);
+    return null;
+  }
+}
+
+/**
+ * Session team: lead, co-instructors and TAs. The lead invites mentors and
+ * admins and can change or remove their roles.
+ */
+export function LiveSessionTeam({ code, refreshKey }: LiveSessionTeamProps) {
+  const [team, setTeam] = useState<TeamData>({ staff: [], candidates: [], my_role: null });
+  const [inviteId, setInviteId] = useState('');
+  const [inviteRole, setInviteRole] = useState<Exclude<LiveSessionRole, 'lead'>>('co_instructor');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const fetchTeam = useCallback(async () => {
+    const loaded = await loadTeam(code);
+    if (loaded) setTeam(loaded);
+  }, [code]);
+
+  useEffect(() => {
+    loadTeam(code).then((loaded) => {
+      if (loaded) setTeam(loaded);
+    });
+  }, [code, refreshKey]);
+
+  const canManage = hasSessionRight(team.my_role, 'manage_staff');
+
+  const saveMember = async (participantId: string, role: Exclude<LiveSessionRole, 'lead'>) => {
+    setIsSaving(true);
+    try {
+      const response = await fetch(`/api/live-session/${code}/staff`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ participant_id: participantId, role }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.details || data.error || 'Failed to update the team');
+      }
+
+      setInviteId('');
+      await fetchTeam();
+      toast.success('Session team updated');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update the team');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const removeMember = async (participantId: string) => {
+    setIsSaving(true);
+    try {
+      const response = await fetch(`/api/live-session/${code}/staff?participant_id=${participantId}`, {
+        method: 'DELETE',
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update the team');
+      }
+
+      await fetchTeam();
+      toast.success('Removed from the session team');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update the team');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <UsersRound className="h-5 w-5" />
+          Session Team
+        </CardTitle>
+        <CardDescription>Co-instructors can run and end the session, TAs moderate questions</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          {team.staff.map((member) => {
+            const isOnline = !isHeartbeatStale(member.last_seen_at);
+            return (
+              <div key={member.participant_id} className="flex items-center gap-2">
+                <div className="relative">
+                  <Avatar className="h-8 w-8">
+                    <AvatarImage src={member.avatar_url || undefined} />
+                    <AvatarFallback>{member.name.split(' ').map((n) => n[0]).join('')}</AvatarFallback>
+                  </Avatar>
+                  {isOnline && (
+                    <span className="absolute -bottom-0.5 -right-0.5 h-2.5 w-2.5 rounded-full bg-green-500 border-2 border-background" />
+                  )}
+                </div>
+                <span className="flex-1 text-sm truncate">{member.name}</span>
+                {canManage && member.role !== 'lead' ? (
+                  <>
+                    <Select
+                      value={member.role}
+                      onValueChange={(value) => saveMember(member.participant_id, value as Exclude<LiveSessionRole, 'lead'>)}
+                      disabled={isSaving}
+                    >
+                      <SelectTrigger className="h-8 w-36">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="co_instructor">{LIVE_SESSION_ROLE_LABELS.co_instructor}</SelectItem>
+                        <SelectItem value="ta">{LIVE_SESSION_ROLE_LABELS.ta}</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      disabled={isSaving}
+                      onClick={() => removeMember(member.participant_id)}
+                      aria-label={`Remove ${member.name}`}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </>
+                ) : (
+                  <Badge variant={member.role === 'lead' ? 'default' : 'secondary'}>
+                    {LIVE_SESSION_ROLE_LABELS[member.role]}
+                  </Badge>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        {canManage && (
+          <div className="flex flex-wrap items-center gap-2 pt-2 border-t">
+            <Select value={inviteId} onValueChange={setInviteId}>
+              <SelectTrigger className="flex-1 min-w-40">
+                <SelectValue placeholder="Invite a mentor or admin" />
+              </SelectTrigger>
+              <SelectContent>
+                {team.candidates.map((candidate) => (
+                  <SelectItem key={candidate.id} value={candidate.id}>
+                    {candidate.name}
+                    {candidate.is_admin ? ' (admin)' : ' (mentor)'}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select
+              value={inviteRole}
+              onValueChange={(value) => setInviteRole(value as Exclude<LiveSessionRole, 'lead'>)}
+            >
+              <SelectTrigger className="w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="co_instructor">{LIVE_SESSION_ROLE_LABELS.co_instructor}</SelectItem>
+                <SelectItem value="ta">{LIVE_SESSION_ROLE_LABELS.ta}</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button
+              size="icon"
+              className="bg-[#0062FF] hover:bg-[#0052D9]"
+              disabled={!inviteId || isSaving}
+              onClick={() => saveMember(inviteId, inviteRole)}
+              aria-label="Invite to the session team"
+            >
+              {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : <UserPlus className="h-4 w-4" />}
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -17,7 +17,11 @@ import {
   CLEARANCE_COLORS,
   CLEARANCE_LABELS,
   ClearanceLevel,
+  ProgramCalendar,
 } from '@/lib/types';
+import { isDayUnlocked } from '@/lib/programCalendar';
+import type { UpcomingLiveSession } from '@/lib/liveSchedule';
+import { UpcomingLiveSessions } from '@/components/UpcomingLiveSessions';
 import {
   CheckCircle2,
   Circle,
@@ -34,7 +38,9 @@ interface MissionHubProps {
   missionDays: MissionDay[];
   taskForces: (TaskForce & { pilot_clients: PilotClient | null })[];
   intelDrops: IntelDrop[];
+  upcomingSessions: UpcomingLiveSession[];
   currentProgramDay: number;
+  calendar: ProgramCalendar;
   participant: {
     id: string;
     name: string;
@@ -49,7 +55,9 @@ export function MissionHub({
   missionDays,
   taskForces,
   intelDrops,
+  upcomingSessions,
   currentProgramDay,
+  calendar,
   participant,
   participantTaskForce,
   participantClient,
@@ -72,11 +80,7 @@ export function MissionHub({
   const masteryLevel = participantMastery?.mastery_level ?? 1;
 
   // Check if day is accessible
-  const isDayAccessible = (day: MissionDay) => {
-    if (!day.unlock_date) return true;
-    const unlockDate = new Date(day.unlock_date);
-    return new Date() >= unlockDate;
-  };
+  const isDayAccessible = (day: MissionDay) => isDayUnlocked(calendar, day.day);
 
   // Get day status
   const getDayStatus = (day: MissionDay) => {
@@ -132,6 +136,9 @@ export function MissionHub({
         </Card>
       )}
 
+      {/* Scheduled Live Sessions */}
+      <UpcomingLiveSessions sessions={upcomingSessions} />
+
       {/* Program Progress */}
       <div className="grid gap-4 md:grid-cols-4">
         {[1, 2, 3, 4].map((act) => {
@@ -18,6 +18,7 @@ import {
   CLEARANCE_LABELS,
   ClearanceLevel,
   ACT_NAMES,
+  RubricScore,
 } from '@/lib/types';
 import {
   User,
@@ -32,7 +33,19 @@ import {
   FileText,
   Users,
   TrendingUp,
+  Radio,
 } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { RubricFeedback } from '@/components/RubricFeedback';
+
+interface MentorFeedback {
+  submission_id: string;
+  assignment: { day: number; title: string } | null;
+  mentor_rating: number | null;
+  mentor_notes: string | null;
+  rubric_scores: RubricScore[] | null;
+  reviewed_at: string | null;
+}
 
 interface MyProgressDashboardProps {
   participant: Participant;
@@ -44,6 +57,7 @@ interface MyProgressDashboardProps {
   missionDays: MissionDay[];
   completedDays: number[];
   totalSubmissions: number;
+  feedback: MentorFeedback[];
 }
 
 export function MyProgressDashboard({
@@ -56,9 +70,11 @@ export function MyProgressDashboard({
   missionDays,
   completedDays,
   totalSubmissions,
+  feedback,
 }: MyProgressDashboardProps) {
   const clearance = mastery?.clearance ?? 'TRAINEE';
   const masteryLevel = mastery?.mastery_level ?? 1;
+  const liveAttended = mastery?.live_sessions_attended ?? 0;
 
   // Calculate progress percentages based on unlocked days only
   const daysCompleted = completedDays.length;
@@ -207,7 +223,7 @@ export function MyProgressDashboard({
       </Card>
 
       {/* Stats Grid */}
-      <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+      <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-5">
         <Card>
           <CardContent className="pt-6">
             <div className="flex items-center gap-4">
@@ -251,6 +267,22 @@ export function MyProgressDashboard({
           </CardContent>
         </Card>
 
+        <Card>
+          <CardContent className="pt-6">
+            <div className="flex items-center gap-4">
+              <div className="p-3 rounded-lg bg-cyan-500/10">
+                <Radio className="h-6 w-6 text-cyan-500" />
+              </div>
+              <div>
+                <p className="text-2xl font-bold">
+                  {liveAttended} / {liveAttended + (mastery?.live_sessions_missed ?? 0)}
+                </p>
+                <p className="text-sm text-muted-foreground">Live Labs Attended</p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
         <Card>
           <CardContent className="pt-6">
             <div className="flex items-center gap-4">
@@ -424,6 +456,50 @@ export function MyProgressDashboard({
         </Card>
       )}
 
+      {/* Mentor Feedback - rubric scores explain the rating */}
+      {feedback.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Star className="h-5 w-5 text-yellow-500" />
+              Mentor Feedback
+            </CardTitle>
+            <CardDescription>What your mentors said about your latest reviewed work</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {feedback.map((item, index) => (
+              <div key={item.submission_id} className="space-y-3">
+                {index > 0 && <Separator />}
+                <div className="flex items-start justify-between gap-2">
+                  <div>
+                    <p className="font-medium">
+                      {item.assignment ? `Day ${item.assignment.day}: ${item.assignment.title}` : 'Assignment'}
+                    </p>
+                    {item.reviewed_at && (
+                      <p className="text-xs text-muted-foreground">
+                        Reviewed {formatDistanceToNow(new Date(item.reviewed_at), { addSuffix: true })}
+                      </p>
+                    )}
+                  </div>
+                  {item.mentor_rating !== null && (
+                    <Badge variant="secondary" className="shrink-0">
+                      <Star className="mr-1 h-3 w-3 text-yellow-500" />
+                      {item.mentor_rating}/5
+                    </Badge>
+                  )}
+                </div>
+                {item.rubric_scores && item.rubric_scores.length > 0 && (
+                  <RubricFeedback scores={item.rubric_scores} />
+                )}
+                {item.mentor_notes && (
+                  <p className="text-sm italic text-muted-foreground">&ldquo;{item.mentor_notes}&rdquo;</p>
+                )}
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
       {/* Motivational Quote */}
       <Card className="bg-gradient-to-r from-primary/5 to-transparent border-primary/20">
         <CardContent className="pt-6">
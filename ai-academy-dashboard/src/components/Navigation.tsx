@@ -26,6 +26,8 @@ import {
   Eye,
   EyeOff,
   HelpCircle,
+  ClipboardCheck,
+  ListChecks,
 } from 'lucide-react';
 import { Switch } from '@/components/ui/switch';
 import { ThemeToggle } from '@/components/ThemeToggle';
@@ -37,12 +39,14 @@ interface NavItem {
   requiresAuth?: boolean;
   requiresApproval?: boolean;
   adminOnly?: boolean;
+  mentorOnly?: boolean;
 }
 
 const navItems: NavItem[] = [
   { href: '/', label: 'Academy', icon: BookOpen },
   { href: '/admin', label: 'Submissions', icon: ShieldCheck, adminOnly: true },
   { href: '/admin/users', label: 'Users', icon: Users, adminOnly: true },
+  { href: '/review-queue', label: 'Review Queue', icon: ClipboardCheck, mentorOnly: true },
 ];
 
 export function Navigation() {
@@ -68,6 +72,7 @@ export function Navigation() {
 
   const filteredNavItems = navItems.filter((item) => {
     if (item.adminOnly) return isAdmin;
+    if (item.mentorOnly) return isAdmin || !!participant?.is_mentor;
     if (item.requiresApproval) return isAdmin || true;
     if (item.requiresAuth) return !!isSignedIn;
     return true;
@@ -183,6 +188,11 @@ export function Navigation() {
                           labelIcon={<BookOpen className="h-4 w-4" />}
                           href="/"
                         />
+                        <UserButton.Link
+                          label="Setup Checklist"
+                          labelIcon={<ListChecks className="h-4 w-4" />}
+                          href="/prerequisites"
+                        />
                         <UserButton.Link
                           label="Help"
                           labelIcon={<HelpCircle className="h-4 w-4" />}
@@ -299,6 +309,14 @@ export function Navigation() {
                       </div>
 
                       <div className="flex flex-col gap-1">
+                        <Link
+                          href="/prerequisites"
+                          onClick={closeMobileMenu}
+                          className="flex items-center gap-3 rounded-lg px-3 py-3 text-base font-medium text-muted-foreground hover:bg-accent hover:text-accent-foreground active:scale-[0.98]"
+                        >
+                          <ListChecks className="h-5 w-5" />
+                          Setup Checklist
+                        </Link>
                         <Link
                           href="/help"
                           onClick={closeMobileMenu}
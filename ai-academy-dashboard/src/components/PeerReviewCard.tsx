@@ -1,6 +1,6 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -25,11 +25,25 @@ import {
   CheckCircle,
   SkipForward,
   Gift,
+  MessageSquare,
+  Timer,
+  TimerOff,
+  ThumbsUp,
 } from 'lucide-react';
 import { toast } from 'sonner';
 import { formatDistanceToNow } from 'date-fns';
+import { SubmissionComments } from '@/components/SubmissionComments';
+import { PEER_REVIEW_BONUS_MIN, PEER_REVIEW_BONUS_MAX } from '@/lib/peerCalibration';
+import { formatTimeLeft, getPeerReviewDueState } from '@/lib/peerReviewDeadlines';
+import type { SlaState } from '@/lib/mentorAssignment';
 import type { PeerReviewWithDetails } from '@/lib/types';
 
+const DUE_STYLES: Record<SlaState, string> = {
+  on_track: 'text-muted-foreground',
+  due_soon: 'text-orange-500',
+  overdue: 'text-red-500',
+};
+
 interface PeerReviewCardProps {
   peerReview: PeerReviewWithDetails;
   onComplete: () => void;
@@ -46,6 +60,14 @@ export function PeerReviewCard({
   const [rating, setRating] = useState<number>(0);
   const [hoveredRating, setHoveredRating] = useState<number>(0);
   const [feedback, setFeedback] = useState('');
+  const [now, setNow] = useState(() => new Date());
+
+  // Keep the countdown current while the review is open
+  useEffect(() => {
+    if (peerReview.status !== 'pending' || !peerReview.due_at) return;
+    const timer = setInterval(() => setNow(new Date()), 60_000);
+    return () => clearInterval(timer);
+  }, [peerReview.status, peerReview.due_at]);
 
   const submission = peerReview.submissions;
   const assignment = submission?.assignments;
@@ -80,8 +102,8 @@ export function PeerReviewCard({
       toast.success(`Review submitted! +${data.bonus_points_earned} bonus points`);
       setIsViewOpen(false);
       onComplete();
-    } catch {
-      toast.error('Failed to submit review');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to submit review');
     } finally {
       setIsSubmitting(false);
     }
@@ -117,6 +139,8 @@ export function PeerReviewCard({
   const isPending = peerReview.status === 'pending';
   const isCompleted = peerReview.status === 'completed';
   const isSkipped = peerReview.status === 'skipped';
+  const isExpired = peerReview.status === 'expired';
+  const dueState = isPending && peerReview.due_at ? getPeerReviewDueState(peerReview.due_at, now) : null;
 
   return (
     <Card
@@ -141,7 +165,8 @@ export function PeerReviewCard({
                 {isPending && <Clock className="mr-1 h-3 w-3" />}
                 {isCompleted && <CheckCircle className="mr-1 h-3 w-3" />}
                 {isSkipped && <SkipForward className="mr-1 h-3 w-3" />}
-                {isPending ? 'Pending Review' : isCompleted ? 'Completed' : 'Skipped'}
+                {isExpired && <TimerOff className="mr-1 h-3 w-3" />}
+                {isPending ? 'Pending Review' : isCompleted ? 'Completed' : isExpired ? 'Expired' : 'Skipped'}
               </Badge>
               {isCompleted && peerReview.bonus_points_earned > 0 && (
                 <Badge variant="secondary" className="bg-green-500/20 text-green-500">
@@ -179,6 +204,17 @@ export function PeerReviewCard({
                   addSuffix: true,
                 })}
               </span>
+              {dueState && peerReview.due_at && (
+                <>
+                  <span>•</span>
+                  <span className={`flex items-center gap-1 ${DUE_STYLES[dueState]}`}>
+                    <Timer className="h-3 w-3" />
+                    {dueState === 'overdue'
+                      ? 'Overdue, moving to another reviewer'
+                      : `${formatTimeLeft(peerReview.due_at, now)} left`}
+                  </span>
+                </>
+              )}
             </div>
 
             {isCompleted && peerReview.rating && (
@@ -201,6 +237,29 @@ export function PeerReviewCard({
                 )}
               </div>
             )}
+
+            {/* Author's response */}
+            {isCompleted && isReviewer && (peerReview.helpfulness !== null || peerReview.author_reply) && (
+              <div className="mt-2 space-y-1 text-sm">
+                {peerReview.helpfulness !== null && (
+                  <div className="flex items-center gap-1 text-muted-foreground">
+                    <ThumbsUp className="h-3 w-3" />
+                    Author rated it {peerReview.helpfulness}/5 helpful
+                  </div>
+                )}
+                {peerReview.author_reply && (
+                  <p className="rounded-md bg-muted/50 p-2">
+                    <span className="text-xs font-medium text-muted-foreground">
+                      {peerReview.is_anonymous || !author ? 'Author' : author.name} replied:
+                    </span>{' '}
+                    {peerReview.author_reply}
+                  </p>
+                )}
+              </div>
+            )}
+            {isCompleted && isReviewer && peerReview.moderation_status === 'removed' && (
+              <p className="mt-2 text-sm text-red-500">Feedback removed by a moderator. Its bonus points were taken back.</p>
+            )}
           </div>
 
           <div className="flex-shrink-0">
@@ -259,6 +318,19 @@ export function PeerReviewCard({
                       </a>
                     )}
 
+                    {submission?.id && isReviewer && (
+                      <SubmissionComments
+                        submissionId={submission.id}
+                        currentUserId={peerReview.reviewer_id}
+                        trigger={
+                          <Button variant="outline" size="sm">
+                            <MessageSquare className="mr-2 h-4 w-4" />
+                            Comment on README
+                          </Button>
+                        }
+                      />
+                    )}
+
                     <Separator />
 
                     {/* Rating */}
@@ -308,10 +380,13 @@ export function PeerReviewCard({
                     <div className="bg-green-500/10 border border-green-500/30 rounded-lg p-3">
                       <div className="flex items-center gap-2 text-green-600 dark:text-green-400">
                         <Gift className="h-5 w-5" />
-                        <span className="font-medium">+2 bonus points</span>
+                        <span className="font-medium">
+                          +{PEER_REVIEW_BONUS_MIN}-{PEER_REVIEW_BONUS_MAX} bonus points
+                        </span>
                       </div>
                       <p className="text-sm text-muted-foreground mt-1">
-                        Complete this review to earn bonus points for the leaderboard.
+                        Detailed, specific feedback (what works, what to change and why) with a fair rating earns
+                        the most points for the leaderboard.
                       </p>
                     </div>
 
@@ -341,7 +416,7 @@ export function PeerReviewCard({
               </Dialog>
             ) : (
               <Badge variant="outline">
-                {isCompleted ? 'Completed' : isSkipped ? 'Skipped' : 'Pending'}
+                {isCompleted ? 'Completed' : isSkipped ? 'Skipped' : isExpired ? 'Expired' : 'Pending'}
               </Badge>
             )}
           </div>
@@ -0,0 +1,270 @@
+'use client';
+
+import { useState } from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Flag, Loader2, MessageSquare, Star, ThumbsUp } from 'lucide-react';
+import { toast } from 'sonner';
+import { MAX_AUTHOR_REPLY_LENGTH, PEER_REVIEW_FLAG_REASONS } from '@/lib/peerReviewResponses';
+import type { PeerReviewFlagReason, PeerReviewWithDetails } from '@/lib/types';
+
+interface ReceivedPeerReviewCardProps {
+  peerReview: PeerReviewWithDetails;
+  onChange: () => void;
+}
+
+async function respond(action: string, payload: Record<string, unknown>): Promise<void> {
+  const response = await fetch('/api/peer-review', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ action, ...payload }),
+  });
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.details || data.error || 'Request failed');
+  }
+}
+
+export function ReceivedPeerReviewCard({ peerReview, onChange }: ReceivedPeerReviewCardProps) {
+  const [hoveredHelpfulness, setHoveredHelpfulness] = useState(0);
+  const [reply, setReply] = useState('');
+  const [isReplying, setIsReplying] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isFlagOpen, setIsFlagOpen] = useState(false);
+  const [flagReason, setFlagReason] = useState<PeerReviewFlagReason | ''>('');
+  const [flagDetails, setFlagDetails] = useState('');
+
+  const assignment = peerReview.submissions?.assignments;
+  const isRemoved = peerReview.moderation_status === 'removed';
+  const canReply = !peerReview.author_reply && !isReplying && !isRemoved;
+  const canFlag = !peerReview.moderation_status;
+
+  const run = async (action: string, payload: Record<string, unknown>, success: string) => {
+    setIsSaving(true);
+    try {
+      await respond(action, { peer_review_id: peerReview.id, ...payload });
+      toast.success(success);
+      onChange();
+      return true;
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Request failed');
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const rateHelpfulness = (helpfulness: number) =>
+    run('rate_helpfulness', { helpfulness }, 'Thanks! Your rating goes to the reviewer');
+
+  const sendReply = async () => {
+    if (!reply.trim()) return;
+    if (await run('reply', { reply: reply.trim() }, 'Reply sent')) {
+      setIsReplying(false);
+      setReply('');
+    }
+  };
+
+  const sendFlag = async () => {
+    if (!flagReason) return;
+    const details = flagDetails.trim() || undefined;
+    if (await run('flag', { reason: flagReason, details }, 'Review flagged for moderation')) {
+      setIsFlagOpen(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardContent className="p-4 space-y-3">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h4 className="font-medium">
+              Day {assignment?.day}: {assignment?.title}
+            </h4>
+            <div className="flex items-center gap-1 mt-2">
+              {[1, 2, 3, 4, 5].map((star) => (
+                <Star
+                  key={star}
+                  className={`h-4 w-4 ${
+                    star <= (peerReview.rating || 0)
+                      ? 'text-yellow-500 fill-yellow-500'
+                      : 'text-muted-foreground'
+                  }`}
+                />
+              ))}
+            </div>
+            {isRemoved ? (
+              <p className="text-sm text-muted-foreground mt-2">Feedback removed by a moderator.</p>
+            ) : (
+              peerReview.feedback && (
+                <p className="text-sm text-muted-foreground mt-2 italic">
+                  &quot;{peerReview.feedback}&quot;
+                </p>
+              )
+            )}
+          </div>
+          <div className="flex flex-col items-end gap-2">
+            <Badge variant="outline">
+              {peerReview.is_anonymous ? 'Anonymous' : 'Public'}
+            </Badge>
+            {peerReview.moderation_status === 'pending' && (
+              <Badge variant="secondary" className="text-orange-500">Flagged</Badge>
+            )}
+          </div>
+        </div>
+
+        {/* Helpfulness */}
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <ThumbsUp className="h-4 w-4 text-muted-foreground" />
+          {peerReview.helpfulness !== null ? (
+            <span className="text-muted-foreground">
+              You rated this review {peerReview.helpfulness}/5 helpful
+            </span>
+          ) : (
+            <>
+              <span className="text-muted-foreground">Was this helpful?</span>
+              <div className="flex items-center" onMouseLeave={() => setHoveredHelpfulness(0)}>
+                {[1, 2, 3, 4, 5].map((value) => (
+                  <button
+                    key={value}
+                    type="button"
+                    disabled={isSaving}
+                    aria-label={`Helpfulness ${value} of 5`}
+                    className="p-0.5"
+                    onMouseEnter={() => setHoveredHelpfulness(value)}
+                    onClick={() => rateHelpfulness(value)}
+                  >
+                    <Star
+                      className={`h-4 w-4 ${
+                        value <= hoveredHelpfulness ? 'text-[#0062FF] fill-[#0062FF]' : 'text-muted-foreground'
+                      }`}
+                    />
+                  </button>
+                ))}
+              </div>
+            </>
+          )}
+        </div>
+
+        {/* Reply */}
+        {peerReview.author_reply ? (
+          <div className="rounded-lg bg-muted/50 p-3 text-sm">
+            <p className="text-xs font-medium text-muted-foreground mb-1">Your reply</p>
+            <p>{peerReview.author_reply}</p>
+          </div>
+        ) : (
+          isReplying && (
+            <div className="space-y-2">
+              <Textarea
+                value={reply}
+                onChange={(e) => setReply(e.target.value)}
+                maxLength={MAX_AUTHOR_REPLY_LENGTH}
+                placeholder="Thank the reviewer, ask a follow-up question or explain a choice..."
+                rows={3}
+              />
+              <p className="text-xs text-muted-foreground">
+                You can reply once. {peerReview.is_anonymous && 'The reviewer will not see your name.'}
+              </p>
+              <div className="flex justify-end gap-2">
+                <Button variant="ghost" size="sm" onClick={() => setIsReplying(false)}>
+                  Cancel
+                </Button>
+                <Button
+                  size="sm"
+                  className="bg-[#0062FF] hover:bg-[#0052D9]"
+                  disabled={isSaving || !reply.trim()}
+                  onClick={sendReply}
+                >
+                  {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Send reply
+                </Button>
+              </div>
+            </div>
+          )
+        )}
+
+        {(canReply || canFlag) && (
+          <div className="flex items-center gap-2">
+            {canReply && (
+              <Button variant="outline" size="sm" onClick={() => setIsReplying(true)}>
+                <MessageSquare className="mr-2 h-4 w-4" />
+                Reply
+              </Button>
+            )}
+            {canFlag && (
+              <Dialog open={isFlagOpen} onOpenChange={setIsFlagOpen}>
+                <DialogTrigger asChild>
+                  <Button variant="ghost" size="sm" className="text-muted-foreground">
+                    <Flag className="mr-2 h-4 w-4" />
+                    Report
+                  </Button>
+                </DialogTrigger>
+                <DialogContent>
+                  <DialogHeader>
+                    <DialogTitle>Report this review</DialogTitle>
+                    <DialogDescription>
+                      An admin will look at it. If the feedback breaks the rules it is removed and the reviewer loses
+                      its bonus points.
+                    </DialogDescription>
+                  </DialogHeader>
+                  <div className="space-y-4">
+                    <div className="space-y-1">
+                      <Label>Reason</Label>
+                      <Select value={flagReason} onValueChange={(v) => setFlagReason(v as PeerReviewFlagReason)}>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select a reason" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {Object.entries(PEER_REVIEW_FLAG_REASONS).map(([value, label]) => (
+                            <SelectItem key={value} value={value}>
+                              {label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-1">
+                      <Label htmlFor={`flag-details-${peerReview.id}`}>Details (optional)</Label>
+                      <Textarea
+                        id={`flag-details-${peerReview.id}`}
+                        value={flagDetails}
+                        onChange={(e) => setFlagDetails(e.target.value)}
+                        maxLength={500}
+                        rows={3}
+                      />
+                    </div>
+                    <div className="flex justify-end">
+                      <Button variant="destructive" disabled={isSaving || !flagReason} onClick={sendFlag}>
+                        {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                        Report review
+                      </Button>
+                    </div>
+                  </div>
+                </DialogContent>
+              </Dialog>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -3,6 +3,7 @@
 import { useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
+import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import {
   Select,
@@ -18,8 +19,13 @@ import {
   DialogTitle,
   DialogTrigger,
 } from '@/components/ui/dialog';
-import { Star, Loader2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Star, Loader2, AlertTriangle, CheckCircle2, XCircle, Link2 } from 'lucide-react';
 import { toast } from 'sonner';
+import { cn } from '@/lib/utils';
+import { scoreRubric } from '@/lib/rubric';
+import type { ReadmeAnalysis, Rubric, RubricScore } from '@/lib/types';
 
 interface ReviewFormProps {
   submissionId: string;
@@ -28,6 +34,66 @@ interface ReviewFormProps {
   onReviewComplete: () => void;
   existingRating?: number;
   existingNotes?: string;
+  readmeAnalysis?: ReadmeAnalysis | null;
+  rubric?: Rubric | null;
+  existingRubricScores?: RubricScore[] | null;
+}
+
+function ReadmeSummary({ analysis }: { analysis: ReadmeAnalysis }) {
+  return (
+    <div className="space-y-3 rounded-lg border p-3">
+      <div className="flex items-center justify-between text-sm">
+        <span className="font-medium">README completeness</span>
+        <span className="text-muted-foreground">{analysis.completeness}%</span>
+      </div>
+      <Progress value={analysis.completeness} className="h-2" />
+
+      <div className="flex flex-wrap gap-2">
+        {analysis.sections.map((section) => (
+          <Badge
+            key={section.key}
+            variant="outline"
+            className={section.complete ? 'text-green-600' : section.required ? 'text-red-500' : 'text-muted-foreground'}
+          >
+            {section.complete ? (
+              <CheckCircle2 className="mr-1 h-3 w-3" />
+            ) : (
+              <XCircle className="mr-1 h-3 w-3" />
+            )}
+            {section.label}
+          </Badge>
+        ))}
+        {analysis.self_rating !== null && (
+          <Badge variant="secondary">Self-rating {analysis.self_rating}/5</Badge>
+        )}
+      </div>
+
+      {analysis.warnings.length > 0 && (
+        <ul className="space-y-1 text-sm text-orange-600">
+          {analysis.warnings.map((warning) => (
+            <li key={warning} className="flex items-start gap-2">
+              <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0" />
+              {warning}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {analysis.links.length > 0 && (
+        <ul className="space-y-1 text-sm">
+          {analysis.links.map((link) => (
+            <li key={link.url} className="flex items-center gap-2 truncate">
+              <Link2 className="h-4 w-4 shrink-0 text-muted-foreground" />
+              <a href={link.url} target="_blank" rel="noopener noreferrer" className="truncate hover:underline">
+                {link.text}
+              </a>
+              {link.kind === 'demo' && <Badge className="bg-[#0062FF]">Demo</Badge>}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
 }
 
 export function ReviewForm({
@@ -37,19 +103,35 @@ export function ReviewForm({
   onReviewComplete,
   existingRating,
   existingNotes,
+  readmeAnalysis,
+  rubric,
+  existingRubricScores,
 }: ReviewFormProps) {
   const [rating, setRating] = useState<string>(existingRating?.toString() ?? '');
   const [notes, setNotes] = useState(existingNotes ?? '');
+  const [levels, setLevels] = useState<Record<string, number>>(() =>
+    Object.fromEntries((existingRubricScores ?? []).map((s) => [s.key, s.score]))
+  );
+  const [comments, setComments] = useState<Record<string, string>>(() =>
+    Object.fromEntries((existingRubricScores ?? []).map((s) => [s.key, s.comment ?? '']))
+  );
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isOpen, setIsOpen] = useState(false);
 
   const isEdit = existingRating !== undefined;
 
+  const rubricInput = rubric
+    ? rubric.criteria
+        .filter((c) => levels[c.key] !== undefined)
+        .map((c) => ({ key: c.key, score: levels[c.key], comment: comments[c.key] || null }))
+    : [];
+  const rubricResult = rubric && rubricInput.length === rubric.criteria.length ? scoreRubric(rubric, rubricInput) : null;
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    
-    if (!rating) {
-      toast.error('Please select a rating');
+
+    if (rubric ? !rubricResult?.ok : !rating) {
+      toast.error(rubric ? 'Please score every criterion' : 'Please select a rating');
       return;
     }
 
@@ -61,22 +143,25 @@ export function ReviewForm({
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           submission_id: submissionId,
-          mentor_rating: parseInt(rating),
+          ...(rubric ? { rubric_scores: rubricInput } : { mentor_rating: parseInt(rating) }),
           mentor_notes: notes,
         }),
       });
 
       if (!response.ok) {
-        throw new Error('Failed to submit review');
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.details || 'Failed to submit review');
       }
 
       toast.success('Review submitted successfully');
       setIsOpen(false);
       setRating('');
       setNotes('');
+      setLevels({});
+      setComments({});
       onReviewComplete();
-    } catch {
-      toast.error('Failed to submit review');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to submit review');
     } finally {
       setIsSubmitting(false);
     }
@@ -90,7 +175,7 @@ export function ReviewForm({
           {isEdit ? 'Edit Review' : 'Review'}
         </Button>
       </DialogTrigger>
-      <DialogContent>
+      <DialogContent className={cn(rubric && 'max-h-[90vh] overflow-y-auto sm:max-w-2xl')}>
         <DialogHeader>
           <DialogTitle>{isEdit ? 'Edit Review' : 'Review Submission'}</DialogTitle>
         </DialogHeader>
@@ -101,21 +186,72 @@ export function ReviewForm({
             </p>
           </div>
 
-          <div className="space-y-2">
-            <Label htmlFor="rating">Rating</Label>
-            <Select value={rating} onValueChange={setRating}>
-              <SelectTrigger>
-                <SelectValue placeholder="Select rating" />
-              </SelectTrigger>
-              <SelectContent>
-                {[1, 2, 3, 4, 5].map((r) => (
-                  <SelectItem key={r} value={r.toString()}>
-                    {'⭐'.repeat(r)} ({r}/5)
-                  </SelectItem>
-                ))}
-              </SelectContent>
-            </Select>
-          </div>
+          {readmeAnalysis && <ReadmeSummary analysis={readmeAnalysis} />}
+
+          {rubric ? (
+            <div className="space-y-4">
+              {rubric.criteria.map((criterion) => (
+                <div key={criterion.key} className="space-y-2">
+                  <Label>
+                    {criterion.name}
+                    {rubric.criteria.length > 1 && (
+                      <span className="ml-1 text-xs font-normal text-muted-foreground">×{criterion.weight}</span>
+                    )}
+                  </Label>
+                  <div className="grid gap-2 sm:grid-cols-2">
+                    {[...criterion.levels]
+                      .sort((a, b) => a.score - b.score)
+                      .map((level) => (
+                        <button
+                          key={level.score}
+                          type="button"
+                          onClick={() => setLevels((current) => ({ ...current, [criterion.key]: level.score }))}
+                          className={cn(
+                            'rounded-lg border p-2 text-left text-sm transition-colors hover:bg-accent',
+                            levels[criterion.key] === level.score && 'border-[#0062FF] bg-[#0062FF]/10'
+                          )}
+                        >
+                          <span className="font-medium">
+                            {level.label} ({level.score})
+                          </span>
+                          {level.description && (
+                            <span className="block text-xs text-muted-foreground">{level.description}</span>
+                          )}
+                        </button>
+                      ))}
+                  </div>
+                  <Input
+                    value={comments[criterion.key] ?? ''}
+                    onChange={(e) => setComments((current) => ({ ...current, [criterion.key]: e.target.value }))}
+                    placeholder={`Comment on ${criterion.name.toLowerCase()} (optional)`}
+                    maxLength={1000}
+                  />
+                </div>
+              ))}
+              {rubricResult?.ok && (
+                <p className="text-sm text-muted-foreground">
+                  Rubric score {rubricResult.percent}% · rating {'⭐'.repeat(rubricResult.mentorRating)} (
+                  {rubricResult.mentorRating}/5)
+                </p>
+              )}
+            </div>
+          ) : (
+            <div className="space-y-2">
+              <Label htmlFor="rating">Rating</Label>
+              <Select value={rating} onValueChange={setRating}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select rating" />
+                </SelectTrigger>
+                <SelectContent>
+                  {[1, 2, 3, 4, 5].map((r) => (
+                    <SelectItem key={r} value={r.toString()}>
+                      {'⭐'.repeat(r)} ({r}/5)
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
 
           <div className="space-y-2">
             <Label htmlFor="notes">Notes (optional)</Label>
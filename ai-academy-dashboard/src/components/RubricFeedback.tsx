@@ -0,0 +1,56 @@
+'use client';
+
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { cn } from '@/lib/utils';
+import { rubricPercent } from '@/lib/rubric';
+import type { RubricScore } from '@/lib/types';
+
+interface RubricFeedbackProps {
+  scores: RubricScore[];
+  compact?: boolean;
+}
+
+/**
+ * Per-criterion rubric scores with the level descriptor and mentor comment
+ */
+export function RubricFeedback({ scores, compact = false }: RubricFeedbackProps) {
+  const percent = rubricPercent(scores);
+
+  return (
+    <div className={cn('space-y-3', compact && 'space-y-2')}>
+      {!compact && (
+        <div className="flex items-center gap-3">
+          <Progress value={percent} className="h-2 flex-1" />
+          <span className="text-sm font-medium">{percent}%</span>
+        </div>
+      )}
+      {scores.map((score) => (
+        <div key={score.key} className="space-y-1">
+          <div className="flex items-center justify-between gap-2 text-sm">
+            <span className="font-medium">
+              {score.name}
+              {!compact && scores.length > 1 && (
+                <span className="ml-1 text-xs font-normal text-muted-foreground">×{score.weight}</span>
+              )}
+            </span>
+            <Badge
+              variant="outline"
+              className={cn(
+                'shrink-0 text-xs',
+                score.score === score.max_score && 'text-green-600',
+                score.score === 0 && 'text-red-500'
+              )}
+            >
+              {score.level_label} · {score.score}/{score.max_score}
+            </Badge>
+          </div>
+          {!compact && score.level_description && (
+            <p className="text-xs text-muted-foreground">{score.level_description}</p>
+          )}
+          {score.comment && <p className="text-xs italic">&quot;{score.comment}&quot;</p>}
+        </div>
+      ))}
+    </div>
+  );
+}
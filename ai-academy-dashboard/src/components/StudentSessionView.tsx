@@ -9,6 +9,9 @@ import { Button } from '@/components/ui/button';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Progress } from '@/components/ui/progress';
 import { useLiveSession } from '@/hooks/useLiveSession';
+import { StudentPollCard } from '@/components/LivePolls';
+import { StudentQuestionPanel } from '@/components/LiveQuestions';
+import { StudentBreakoutRoom } from '@/components/LiveBreakouts';
 import type { LiveSession, MissionDay } from '@/lib/types';
 import {
   Radio,
@@ -53,6 +56,9 @@ export function StudentSessionView({
   const [localStep, setLocalStep] = useState(session.current_step);
   const [localSection, setLocalSection] = useState(session.current_section);
   const [elapsedTime, setElapsedTime] = useState(0);
+  const [pollRefreshKey, setPollRefreshKey] = useState(0);
+  const [questionRefreshKey, setQuestionRefreshKey] = useState(0);
+  const [breakoutRefreshKey, setBreakoutRefreshKey] = useState(0);
   const contentRef = useRef<HTMLDivElement>(null);
 
   const {
@@ -60,6 +66,9 @@ export function StudentSessionView({
     participants,
     isConnected,
     error,
+    sendPollEvent,
+    sendQuestionEvent,
+    sendBreakoutEvent,
   } = useLiveSession({
     code: session.join_code || '',
     isInstructor: false,
@@ -75,6 +84,19 @@ export function StudentSessionView({
       toast.info('Session has ended');
       router.push('/live-session');
     },
+    onPollEvent: () => setPollRefreshKey((key) => key + 1),
+    onQuestionEvent: () => setQuestionRefreshKey((key) => key + 1),
+    onInstructorChange: () => {
+      toast.info('The instructor lost connection; a co-instructor has taken over');
+    },
+    onBreakoutEvent: (event) => {
+      setBreakoutRefreshKey((key) => key + 1);
+      if (event.type === 'opened') {
+        toast.info('Breakout rooms are open');
+      } else if (event.type === 'recalled') {
+        toast.info('The instructor is calling everyone back');
+      }
+    },
   });
 
   // Timer
@@ -221,6 +243,13 @@ export function StudentSessionView({
         </Card>
       )}
 
+      {/* Poll from the instructor */}
+      <StudentPollCard
+        code={session.join_code || ''}
+        refreshKey={pollRefreshKey}
+        onPollEvent={sendPollEvent}
+      />
+
       {/* Instructor Info */}
       <Card className="border-blue-500/30 bg-blue-500/5">
         <CardContent className="py-4">
@@ -392,6 +421,21 @@ export function StudentSessionView({
         </Card>
       </div>
 
+      {/* Breakout room during the lab */}
+      <StudentBreakoutRoom
+        code={session.join_code || ''}
+        refreshKey={breakoutRefreshKey}
+        section={instructorSection}
+        onBreakoutEvent={sendBreakoutEvent}
+      />
+
+      {/* Raise hand / questions */}
+      <StudentQuestionPanel
+        code={session.join_code || ''}
+        refreshKey={questionRefreshKey}
+        onQuestionEvent={sendQuestionEvent}
+      />
+
       {/* Your Info */}
       <Card className="bg-muted/30">
         <CardContent className="py-4">
@@ -31,11 +31,21 @@ import {
   AtSign,
   Loader2,
   X,
+  CheckCircle,
+  RotateCcw,
+  FileText,
 } from 'lucide-react';
 import { toast } from 'sonner';
 import { formatDistanceToNow } from 'date-fns';
+import { AnchoredReadme, type ReadmeHighlight } from '@/components/AnchoredReadme';
+import type { AnchorRange } from '@/lib/commentAnchors';
 import type { CommentWithAuthor, Participant } from '@/lib/types';
 
+interface ReadmeState {
+  content: string;
+  revision: number;
+}
+
 interface SubmissionCommentsProps {
   submissionId: string;
   currentUserId?: string;
@@ -60,6 +70,10 @@ export function SubmissionComments({
   const [showMentions, setShowMentions] = useState(false);
   const [mentionQuery, setMentionQuery] = useState('');
   const [isOpen, setIsOpen] = useState(false);
+  const [readme, setReadme] = useState<ReadmeState | null>(null);
+  const [pendingAnchor, setPendingAnchor] = useState<AnchorRange | null>(null);
+  const [activeThreadId, setActiveThreadId] = useState<string | null>(null);
+  const [showResolved, setShowResolved] = useState(false);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
 
   const fetchComments = useCallback(async () => {
@@ -70,6 +84,7 @@ export function SubmissionComments({
       if (response.ok) {
         setComments(data.comments);
         setTotalCount(data.total_count);
+        setReadme(data.readme);
       }
     } catch (error) {
       console.error('Failed to fetch comments:', error);
@@ -99,6 +114,10 @@ export function SubmissionComments({
           author_id: currentUserId,
           content: content.trim(),
           parent_id: parentId || null,
+          anchor:
+            !parentId && pendingAnchor && readme
+              ? { revision: readme.revision, start: pendingAnchor.start, end: pendingAnchor.end }
+              : null,
         }),
       });
 
@@ -114,6 +133,7 @@ export function SubmissionComments({
         setEditContent('');
       } else {
         setNewComment('');
+        setPendingAnchor(null);
       }
 
       fetchComments();
@@ -177,6 +197,26 @@ export function SubmissionComments({
     }
   };
 
+  const handleResolveThread = async (commentId: string, resolved: boolean) => {
+    try {
+      const response = await fetch('/api/comments', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ comment_id: commentId, resolved }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to update thread');
+      }
+
+      toast.success(resolved ? 'Thread resolved' : 'Thread reopened');
+      fetchComments();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update thread');
+    }
+  };
+
   const handleMentionSelect = (username: string) => {
     const textarea = textareaRef.current;
     if (!textarea) return;
@@ -313,9 +353,15 @@ export function SubmissionComments({
   }) => {
     const isOwner = comment.author_id === currentUserId;
     const isEditing = editingId === comment.id;
+    const isThread = depth === 0;
+    const isResolved = isThread && !!comment.resolved_at;
 
     return (
-      <div className={`${depth > 0 ? 'ml-8 border-l-2 border-muted pl-4' : ''}`}>
+      <div
+        className={`${depth > 0 ? 'ml-8 border-l-2 border-muted pl-4' : ''} ${
+          isThread && activeThreadId === comment.id ? 'rounded-md bg-accent/40 px-2' : ''
+        }`}
+      >
         <div className="flex items-start gap-3 py-3">
           <Avatar className="h-8 w-8 flex-shrink-0">
             <AvatarImage src={comment.author?.avatar_url ?? undefined} />
@@ -351,8 +397,43 @@ export function SubmissionComments({
                   (edited)
                 </span>
               )}
+              {isResolved && (
+                <Badge variant="secondary" className="text-[10px] px-1 py-0">
+                  Resolved
+                </Badge>
+              )}
+              {isThread && comment.is_outdated && (
+                <Badge variant="outline" className="text-[10px] px-1 py-0 text-orange-500">
+                  Outdated
+                </Badge>
+              )}
             </div>
 
+            {/* Quoted README passage of an anchored thread */}
+            {isThread && comment.anchor_text && (
+              <button
+                type="button"
+                className="mt-2 w-full text-left border-l-4 border-yellow-400 bg-muted/60 rounded-r px-2 py-1 hover:bg-muted"
+                onClick={() => setActiveThreadId(activeThreadId === comment.id ? null : comment.id)}
+              >
+                <span className="block font-mono text-xs whitespace-pre-wrap line-clamp-3">
+                  {comment.anchor_text}
+                </span>
+                {comment.is_outdated ? (
+                  <span className="text-[10px] text-muted-foreground">
+                    No longer in the README since a later revision
+                  </span>
+                ) : (
+                  readme &&
+                  comment.anchor_revision !== readme.revision && (
+                    <span className="text-[10px] text-muted-foreground">
+                      On revision {comment.anchor_revision}
+                    </span>
+                  )
+                )}
+              </button>
+            )}
+
             {isEditing ? (
               <div className="mt-2 space-y-2">
                 <Textarea
@@ -403,6 +484,22 @@ export function SubmissionComments({
                   Reply
                 </Button>
 
+                {isThread && (
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="h-6 px-2 text-xs"
+                    onClick={() => handleResolveThread(comment.id, !isResolved)}
+                  >
+                    {isResolved ? (
+                      <RotateCcw className="mr-1 h-3 w-3" />
+                    ) : (
+                      <CheckCircle className="mr-1 h-3 w-3" />
+                    )}
+                    {isResolved ? 'Reopen' : 'Resolve'}
+                  </Button>
+                )}
+
                 {isOwner && (
                   <DropdownMenu>
                     <DropdownMenuTrigger asChild>
@@ -515,17 +612,80 @@ export function SubmissionComments({
     );
   };
 
+  const openThreads = comments.filter((c) => !c.resolved_at);
+  const resolvedThreads = comments.filter((c) => c.resolved_at);
+
+  // Passages of threads that still point into the current README
+  const highlights: ReadmeHighlight[] = comments
+    .filter(
+      (c) =>
+        c.anchor_text &&
+        !c.is_outdated &&
+        c.anchor_revision === readme?.revision &&
+        c.anchor_start !== null &&
+        c.anchor_end !== null
+    )
+    .map((c) => ({
+      id: c.id,
+      start: c.anchor_start as number,
+      end: c.anchor_end as number,
+      resolved: !!c.resolved_at,
+    }));
+
+  const handleHighlightClick = (id: string) => {
+    setActiveThreadId(id);
+    if (comments.find((c) => c.id === id)?.resolved_at) {
+      setShowResolved(true);
+    }
+  };
+
   const dialogContent = (
     <div className="space-y-4">
+      {/* Submitted README - select a passage to comment on it */}
+      {readme?.content && (
+        <div className="space-y-1">
+          <p className="flex items-center gap-1 text-xs text-muted-foreground">
+            <FileText className="h-3 w-3" />
+            README{readme.revision > 1 ? ` (revision ${readme.revision})` : ''}
+            {currentUserId && ' - select text to comment on it'}
+          </p>
+          <AnchoredReadme
+            content={readme.content}
+            highlights={highlights}
+            activeId={activeThreadId}
+            pendingRange={pendingAnchor}
+            onSelectRange={currentUserId ? setPendingAnchor : undefined}
+            onHighlightClick={handleHighlightClick}
+          />
+        </div>
+      )}
+
       {/* New comment form */}
       {currentUserId ? (
         <div className="space-y-2">
+          {pendingAnchor && readme && (
+            <div className="flex items-start gap-2 border-l-4 border-[#0062FF] bg-muted/60 rounded-r px-2 py-1">
+              <span className="flex-1 font-mono text-xs whitespace-pre-wrap line-clamp-3">
+                {readme.content.slice(pendingAnchor.start, pendingAnchor.end)}
+              </span>
+              <Button
+                size="sm"
+                variant="ghost"
+                className="h-5 w-5 p-0"
+                onClick={() => setPendingAnchor(null)}
+              >
+                <X className="h-3 w-3" />
+              </Button>
+            </div>
+          )}
           <div className="relative">
             <Textarea
               ref={!replyingTo ? textareaRef : undefined}
               value={newComment}
               onChange={(e) => handleTextChange(e.target.value, false)}
-              placeholder="Write a comment... Use @name to mention"
+              placeholder={
+                pendingAnchor ? 'Comment on the selected passage...' : 'Write a comment... Use @name to mention'
+              }
               rows={3}
               className="resize-none"
             />
@@ -618,9 +778,29 @@ export function SubmissionComments({
         </div>
       ) : (
         <div className="space-y-1">
-          {comments.map((comment) => (
+          {openThreads.map((comment) => (
             <CommentItem key={comment.id} comment={comment} />
           ))}
+          {resolvedThreads.length > 0 && (
+            <>
+              <Button
+                size="sm"
+                variant="ghost"
+                className="h-7 px-2 text-xs text-muted-foreground"
+                onClick={() => setShowResolved((prev) => !prev)}
+              >
+                <CheckCircle className="mr-1 h-3 w-3" />
+                {showResolved ? 'Hide' : 'Show'} resolved ({resolvedThreads.length})
+              </Button>
+              {showResolved && (
+                <div className="opacity-75">
+                  {resolvedThreads.map((comment) => (
+                    <CommentItem key={comment.id} comment={comment} />
+                  ))}
+                </div>
+              )}
+            </>
+          )}
         </div>
       )}
     </div>
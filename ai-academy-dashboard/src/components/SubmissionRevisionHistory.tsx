@@ -0,0 +1,232 @@
+'use client';
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { History, ExternalLink, CornerDownRight } from 'lucide-react';
+import { format } from 'date-fns';
+import { diffLines, diffStats } from '@/lib/textDiff';
+import { RubricFeedback } from '@/components/RubricFeedback';
+import type { SubmissionRevision } from '@/lib/types';
+
+interface SubmissionRevisionHistoryProps {
+  submissionId: string;
+  participantName: string;
+  assignmentTitle: string;
+  trigger: React.ReactNode;
+}
+
+const REVIEW_STATUS_LABELS: Record<string, string> = {
+  reviewed: 'Reviewed',
+  approved: 'Approved',
+  needs_revision: 'Needs Revision',
+  submitted: 'Submitted',
+};
+
+export function SubmissionRevisionHistory({
+  submissionId,
+  participantName,
+  assignmentTitle,
+  trigger,
+}: SubmissionRevisionHistoryProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [revisions, setRevisions] = useState<SubmissionRevision[]>([]);
+  const [fromRevision, setFromRevision] = useState<string>('');
+  const [toRevision, setToRevision] = useState<string>('');
+
+  const fetchRevisions = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch(`/api/submission-revisions?submission_id=${submissionId}`);
+      const data = await response.json();
+
+      if (response.ok) {
+        const list = data.revisions as SubmissionRevision[];
+        setRevisions(list);
+
+        // Default: what changed since the mentor's last review
+        const current = data.current_revision as number;
+        const reviewed = data.reviewed_revision as number | null;
+        const base = reviewed && reviewed < current ? reviewed : Math.max(current - 1, 1);
+        setFromRevision(base.toString());
+        setToRevision(current.toString());
+      }
+    } catch (error) {
+      console.error('Failed to fetch revisions:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [submissionId]);
+
+  useEffect(() => {
+    if (isOpen) {
+      fetchRevisions();
+    }
+  }, [isOpen, fetchRevisions]);
+
+  const from = revisions.find((r) => r.revision_number.toString() === fromRevision);
+  const to = revisions.find((r) => r.revision_number.toString() === toRevision);
+
+  const diff = useMemo(
+    () => (from && to ? diffLines(from.readme_content || '', to.readme_content || '') : []),
+    [from, to]
+  );
+  const stats = diffStats(diff);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>{trigger}</DialogTrigger>
+      <DialogContent className="max-w-4xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            Revision History
+          </DialogTitle>
+          <DialogDescription>
+            <strong>{participantName}</strong> - {assignmentTitle}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="space-y-2">
+            {[...Array(3)].map((_, i) => (
+              <Skeleton key={i} className="h-12 w-full" />
+            ))}
+          </div>
+        ) : revisions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No revisions recorded yet.</p>
+        ) : (
+          <div className="space-y-4">
+            {/* Revision list */}
+            <div className="space-y-2">
+              {revisions.map((rev) => (
+                <div key={rev.id} className="flex items-start justify-between rounded-md border p-3 text-sm">
+                  <div className="space-y-1">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">Revision {rev.revision_number}</span>
+                      <code className="text-xs text-muted-foreground">{rev.commit_sha.slice(0, 7)}</code>
+                      {rev.review_status && (
+                        <Badge variant={rev.review_status === 'needs_revision' ? 'destructive' : 'secondary'}>
+                          {REVIEW_STATUS_LABELS[rev.review_status] || rev.review_status}
+                          {rev.mentor_rating ? ` · ${rev.mentor_rating}/5` : ''}
+                        </Badge>
+                      )}
+                    </div>
+                    {rev.commit_message && (
+                      <p className="text-muted-foreground">{rev.commit_message}</p>
+                    )}
+                    {rev.in_response_to && (
+                      <p className="flex items-center gap-1 text-xs text-orange-500">
+                        <CornerDownRight className="h-3 w-3" />
+                        Resubmitted in response to revision{' '}
+                        {revisions.find((r) => r.id === rev.in_response_to)?.revision_number ?? '?'} review
+                      </p>
+                    )}
+                    {rev.rubric_scores && rev.rubric_scores.length > 0 && (
+                      <div className="pt-1">
+                        <RubricFeedback scores={rev.rubric_scores} compact />
+                      </div>
+                    )}
+                    {rev.mentor_notes && (
+                      <p className="text-xs italic text-muted-foreground">&quot;{rev.mentor_notes}&quot;</p>
+                    )}
+                  </div>
+                  <div className="flex flex-col items-end gap-1 text-xs text-muted-foreground">
+                    <span>{format(new Date(rev.submitted_at), 'yyyy-MM-dd HH:mm')}</span>
+                    {rev.commit_url && (
+                      <a
+                        href={rev.commit_url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="flex items-center gap-1 hover:underline"
+                      >
+                        Commit <ExternalLink className="h-3 w-3" />
+                      </a>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            {/* Diff view */}
+            {revisions.length > 1 && (
+              <div className="space-y-3">
+                <div className="flex flex-wrap items-end gap-4">
+                  <div className="space-y-1">
+                    <Label>From</Label>
+                    <Select value={fromRevision} onValueChange={setFromRevision}>
+                      <SelectTrigger className="w-[160px]">
+                        <SelectValue placeholder="Revision" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {revisions.map((rev) => (
+                          <SelectItem key={rev.id} value={rev.revision_number.toString()}>
+                            Revision {rev.revision_number}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-1">
+                    <Label>To</Label>
+                    <Select value={toRevision} onValueChange={setToRevision}>
+                      <SelectTrigger className="w-[160px]">
+                        <SelectValue placeholder="Revision" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {revisions.map((rev) => (
+                          <SelectItem key={rev.id} value={rev.revision_number.toString()}>
+                            Revision {rev.revision_number}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    <span className="text-green-500">+{stats.added}</span>{' '}
+                    <span className="text-red-500">-{stats.removed}</span> lines
+                  </p>
+                </div>
+
+                <pre className="max-h-[50vh] overflow-auto rounded-md border bg-muted/30 p-3 text-xs">
+                  {diff.map((line, index) => (
+                    <div
+                      key={index}
+                      className={
+                        line.type === 'added'
+                          ? 'bg-green-500/15 text-green-700 dark:text-green-400'
+                          : line.type === 'removed'
+                            ? 'bg-red-500/15 text-red-700 dark:text-red-400'
+                            : ''
+                      }
+                    >
+                      {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}
+                      {line.text}
+                    </div>
+                  ))}
+                </pre>
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -5,10 +5,15 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { differenceInHours, differenceInSeconds } from 'date-fns';
 import { Clock, AlertTriangle, CheckCircle } from 'lucide-react';
+import { CalendarSubscribe } from '@/components/CalendarSubscribe';
+import { ScheduledSessionRow } from '@/components/UpcomingLiveSessions';
+import type { UpcomingLiveSession } from '@/lib/liveSchedule';
 import type { Assignment } from '@/lib/types';
 
 interface UpcomingDeadlinesProps {
   assignments: Assignment[];
+  // Scheduled live sessions, listed above the deadlines
+  liveSessions?: UpcomingLiveSession[];
 }
 
 function LiveCountdown({ dueAt }: { dueAt: string }) {
@@ -78,22 +83,28 @@ function LiveCountdown({ dueAt }: { dueAt: string }) {
   );
 }
 
-export function UpcomingDeadlines({ assignments }: UpcomingDeadlinesProps) {
+export function UpcomingDeadlines({ assignments, liveSessions = [] }: UpcomingDeadlinesProps) {
   // Filter assignments with deadlines and sort by due date
   const upcomingAssignments = assignments
     .filter((a) => a.due_at)
     .sort((a, b) => new Date(a.due_at!).getTime() - new Date(b.due_at!).getTime())
     .slice(0, 3); // Show only next 3
+  const upcomingSessions = liveSessions.slice(0, 2);
+
+  const header = (
+    <CardHeader className="flex flex-row items-center justify-between">
+      <CardTitle className="flex items-center gap-2">
+        <Clock className="h-5 w-5 text-[#0062FF]" />
+        Upcoming Deadlines
+      </CardTitle>
+      <CalendarSubscribe />
+    </CardHeader>
+  );
 
-  if (upcomingAssignments.length === 0) {
+  if (upcomingAssignments.length === 0 && upcomingSessions.length === 0) {
     return (
       <Card>
-        <CardHeader>
-          <CardTitle className="flex items-center gap-2">
-            <Clock className="h-5 w-5 text-[#0062FF]" />
-            Upcoming Deadlines
-          </CardTitle>
-        </CardHeader>
+        {header}
         <CardContent>
           <div className="flex items-center gap-3 text-muted-foreground">
             <CheckCircle className="h-5 w-5 text-green-500" />
@@ -106,14 +117,12 @@ export function UpcomingDeadlines({ assignments }: UpcomingDeadlinesProps) {
 
   return (
     <Card>
-      <CardHeader>
-        <CardTitle className="flex items-center gap-2">
-          <Clock className="h-5 w-5 text-[#0062FF]" />
-          Upcoming Deadlines
-        </CardTitle>
-      </CardHeader>
+      {header}
       <CardContent>
         <div className="space-y-3">
+          {upcomingSessions.map((session) => (
+            <ScheduledSessionRow key={session.id} session={session} />
+          ))}
           {upcomingAssignments.map((assignment) => {
             const hoursLeft = differenceInHours(
               new Date(assignment.due_at!),
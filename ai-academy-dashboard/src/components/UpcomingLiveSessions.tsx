@@ -0,0 +1,82 @@
+'use client';
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { CalendarSubscribe } from '@/components/CalendarSubscribe';
+import { format, formatDistanceToNow, isToday } from 'date-fns';
+import { Radio } from 'lucide-react';
+import type { UpcomingLiveSession } from '@/lib/liveSchedule';
+
+export function ScheduledSessionRow({ session }: { session: UpcomingLiveSession }) {
+  const startsAt = new Date(session.starts_at);
+
+  return (
+    <div
+      className={`flex items-center justify-between gap-3 p-3 rounded-lg ${
+        session.is_live ? 'bg-green-500/10 border border-green-500/30' : 'bg-[#0062FF]/5 border border-[#0062FF]/20'
+      }`}
+    >
+      <div className="flex items-center gap-3 min-w-0">
+        <Radio className={`h-5 w-5 shrink-0 ${session.is_live ? 'text-green-500 animate-pulse' : 'text-[#0062FF]'}`} />
+        <div className="min-w-0">
+          <p className="font-medium truncate">
+            {session.mission_day && `Day ${session.mission_day.day}: `}
+            {session.title}
+          </p>
+          <p className="text-xs text-muted-foreground">
+            {isToday(startsAt) ? `Today ${format(startsAt, 'HH:mm')}` : format(startsAt, 'EEE d MMM, HH:mm')}
+            {` • ${session.duration_minutes} min`}
+            {session.instructor_name && ` • ${session.instructor_name}`}
+          </p>
+        </div>
+      </div>
+      <div className="text-right shrink-0">
+        {session.is_live ? (
+          <>
+            <Badge className="bg-green-500">Live now</Badge>
+            {session.join_code && (
+              <p className="text-xs font-mono text-muted-foreground mt-1">{session.join_code}</p>
+            )}
+          </>
+        ) : (
+          <span className="text-xs text-muted-foreground">
+            {formatDistanceToNow(startsAt, { addSuffix: true })}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Scheduled live sessions with a link to the participant's calendar feed
+ */
+export function UpcomingLiveSessions({ sessions }: { sessions: UpcomingLiveSession[] }) {
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <Radio className="h-5 w-5 text-[#0062FF]" />
+            Live Sessions
+          </CardTitle>
+          <CardDescription>Scheduled sessions with your instructors</CardDescription>
+        </div>
+        <CalendarSubscribe />
+      </CardHeader>
+      <CardContent>
+        {sessions.length > 0 ? (
+          <div className="space-y-3">
+            {sessions.map((session) => (
+              <ScheduledSessionRow key={session.id} session={session} />
+            ))}
+          </div>
+        ) : (
+          <p className="text-muted-foreground text-sm text-center py-4">
+            No live sessions scheduled
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -2,22 +2,49 @@
 
 import { useEffect, useState, useCallback, useRef } from 'react';
 import { getSupabaseClient } from '@/lib/supabase';
+import {
+  HEARTBEAT_INTERVAL_SECONDS,
+  reconcileStateVersion,
+  type LiveSessionSnapshot,
+} from '@/lib/liveSessionState';
 import type { RealtimeChannel } from '@supabase/supabase-js';
 
-interface SessionState {
+export interface SessionState {
   currentStep: number;
   currentSection: string;
   isActive: boolean;
+  // Server state version; broadcasts carry it so missed updates are noticed
+  version: number;
+  instructorId: string | null;
 }
 
 interface Participant {
   id: string;
+  participant_id?: string;
   name: string;
   avatar_url: string | null;
   role: string;
   joined_at: string;
 }
 
+// Broadcast so other clients refetch polls (see /api/live-session/[code]/polls)
+export interface PollEvent {
+  type: 'opened' | 'closed' | 'response';
+  pollId: string;
+}
+
+// Broadcast so other clients refetch the question queue
+export interface QuestionEvent {
+  type: 'asked' | 'updated' | 'voted';
+  questionId: string;
+}
+
+// Broadcast so other clients refetch breakout rooms; 'recalled' calls everyone back
+export interface BreakoutEvent {
+  type: 'opened' | 'recalled' | 'notes';
+  roomId?: string;
+}
+
 interface UseLiveSessionOptions {
   code: string;
   isInstructor?: boolean;
@@ -25,6 +52,11 @@ interface UseLiveSessionOptions {
   onParticipantJoin?: (participant: Participant) => void;
   onParticipantLeave?: (participantId: string) => void;
   onSessionEnd?: () => void;
+  onPollEvent?: (event: PollEvent) => void;
+  onQuestionEvent?: (event: QuestionEvent) => void;
+  onBreakoutEvent?: (event: BreakoutEvent) => void;
+  // The session was handed off (instructor went quiet, co-instructor took over)
+  onInstructorChange?: (instructorId: string | null) => void;
 }
 
 interface UseLiveSessionReturn {
@@ -32,8 +64,23 @@ interface UseLiveSessionReturn {
   participants: Participant[];
   isConnected: boolean;
   error: string | null;
-  sendStateUpdate: (state: Partial<SessionState>) => void;
+  sendStateUpdate: (snapshot: LiveSessionSnapshot) => void;
+  sendSessionEnd: () => void;
   sendHeartbeat: () => void;
+  refreshState: () => Promise<SessionState | null>;
+  sendPollEvent: (event: PollEvent) => void;
+  sendQuestionEvent: (event: QuestionEvent) => void;
+  sendBreakoutEvent: (event: BreakoutEvent) => void;
+}
+
+function fromSnapshot(snapshot: LiveSessionSnapshot): SessionState {
+  return {
+    currentStep: snapshot.current_step,
+    currentSection: snapshot.current_section,
+    isActive: snapshot.is_active,
+    version: snapshot.state_version ?? 0,
+    instructorId: snapshot.instructor_id,
+  };
 }
 
 export function useLiveSession({
@@ -43,6 +90,10 @@ export function useLiveSession({
   onParticipantJoin,
   onParticipantLeave,
   onSessionEnd,
+  onPollEvent,
+  onQuestionEvent,
+  onBreakoutEvent,
+  onInstructorChange,
 }: UseLiveSessionOptions): UseLiveSessionReturn {
   const [sessionState, setSessionState] = useState<SessionState | null>(null);
   const [participants, setParticipants] = useState<Participant[]>([]);
@@ -52,20 +103,82 @@ export function useLiveSession({
   const supabase = getSupabaseClient();
   const channelRef = useRef<RealtimeChannel | null>(null);
   const heartbeatIntervalRef = useRef<NodeJS.Timeout | null>(null);
+  const serverHeartbeatIntervalRef = useRef<NodeJS.Timeout | null>(null);
+  // Latest state, readable from channel handlers without resubscribing
+  const stateRef = useRef<SessionState | null>(null);
+
+  // Callbacks change on every render of the parent; keep the latest in a ref
+  // so the channel is not torn down (and updates missed) on each render
+  const handlersRef = useRef({
+    onStateChange,
+    onParticipantJoin,
+    onParticipantLeave,
+    onSessionEnd,
+    onPollEvent,
+    onQuestionEvent,
+    onBreakoutEvent,
+    onInstructorChange,
+  });
 
-  // Send state update (instructor only)
-  const sendStateUpdate = useCallback((state: Partial<SessionState>) => {
-    if (!channelRef.current || !isInstructor) return;
+  useEffect(() => {
+    handlersRef.current = {
+      onStateChange,
+      onParticipantJoin,
+      onParticipantLeave,
+      onSessionEnd,
+      onPollEvent,
+      onQuestionEvent,
+      onBreakoutEvent,
+      onInstructorChange,
+    };
+  });
 
-    channelRef.current.send({
+  // Adopt a server state; older versions than the one we have are ignored
+  const applyState = useCallback((next: SessionState) => {
+    const prev = stateRef.current;
+    if (prev && next.version < prev.version) return;
+
+    stateRef.current = next;
+    setSessionState(next);
+
+    const handlers = handlersRef.current;
+    if (prev && (prev.currentStep !== next.currentStep || prev.currentSection !== next.currentSection)) {
+      handlers.onStateChange?.(next);
+    }
+    if (prev && prev.instructorId !== next.instructorId) {
+      handlers.onInstructorChange?.(next.instructorId);
+    }
+    if (!next.isActive) {
+      handlers.onSessionEnd?.();
+    }
+  }, []);
+
+  const broadcastState = useCallback((state: SessionState) => {
+    channelRef.current?.send({
       type: 'broadcast',
       event: 'state_update',
       payload: state,
     });
+  }, []);
 
-    // Also update local state
-    setSessionState((prev) => prev ? { ...prev, ...state } : null);
-  }, [isInstructor]);
+  // Send state update (instructor only): adopt the state the server returned
+  // from PATCH /api/live-session/[code] and broadcast it
+  const sendStateUpdate = useCallback((snapshot: LiveSessionSnapshot) => {
+    if (!isInstructor) return;
+
+    const state = fromSnapshot(snapshot);
+    applyState(state);
+    broadcastState(state);
+  }, [isInstructor, applyState, broadcastState]);
+
+  // Tell everyone the session is over
+  const sendSessionEnd = useCallback(() => {
+    channelRef.current?.send({
+      type: 'broadcast',
+      event: 'session_end',
+      payload: {},
+    });
+  }, []);
 
   // Send heartbeat
   const sendHeartbeat = useCallback(() => {
@@ -78,7 +191,40 @@ export function useLiveSession({
     });
   }, [isInstructor]);
 
-  // Fetch initial session state
+  // Send poll event (instructor opens/closes, students answer)
+  const sendPollEvent = useCallback((event: PollEvent) => {
+    if (!channelRef.current) return;
+
+    channelRef.current.send({
+      type: 'broadcast',
+      event: 'poll',
+      payload: event,
+    });
+  }, []);
+
+  // Send question queue event (asked, answered/dismissed, upvoted)
+  const sendQuestionEvent = useCallback((event: QuestionEvent) => {
+    if (!channelRef.current) return;
+
+    channelRef.current.send({
+      type: 'broadcast',
+      event: 'question',
+      payload: event,
+    });
+  }, []);
+
+  // Send breakout event (rooms opened, everyone called back, notes saved)
+  const sendBreakoutEvent = useCallback((event: BreakoutEvent) => {
+    if (!channelRef.current) return;
+
+    channelRef.current.send({
+      type: 'broadcast',
+      event: 'breakout',
+      payload: event,
+    });
+  }, []);
+
+  // Fetch the authoritative session state (initial load and reconnects)
   const fetchSessionState = useCallback(async () => {
     try {
       const response = await fetch(`/api/live-session/${code}`);
@@ -87,25 +233,36 @@ export function useLiveSession({
       }
 
       const data = await response.json();
-      const state: SessionState = {
-        currentStep: data.session.current_step,
-        currentSection: data.session.current_section,
-        isActive: data.session.is_active,
-      };
-
-      setSessionState(state);
-
-      if (!data.session.is_active) {
-        onSessionEnd?.();
-      }
-
+      const state = fromSnapshot(data.session);
+      applyState(state);
       return state;
     } catch (err) {
       setError('Failed to load session');
       console.error(err);
       return null;
     }
-  }, [code, onSessionEnd]);
+  }, [code, applyState]);
+
+  // Report to the server; the response is the authoritative state
+  const sendServerHeartbeat = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/live-session/${code}/heartbeat`, { method: 'POST' });
+      if (!response.ok) return;
+
+      const data = await response.json();
+      const state = fromSnapshot(data.session);
+      if (state.version > (stateRef.current?.version ?? -1) || state.isActive !== stateRef.current?.isActive) {
+        applyState(state);
+      }
+
+      // This heartbeat triggered the hand-off; let everyone else know
+      if (data.handed_off) {
+        broadcastState(state);
+      }
+    } catch (err) {
+      console.error('Heartbeat failed:', err);
+    }
+  }, [code, applyState, broadcastState]);
 
   // Fetch participants
   const fetchParticipants = useCallback(async () => {
@@ -131,26 +288,21 @@ export function useLiveSession({
       },
     });
 
-    // Handle state updates
+    // Handle state updates; a skipped version means we missed one
     channel.on('broadcast', { event: 'state_update' }, ({ payload }) => {
-      const newState: SessionState = {
-        currentStep: payload.currentStep ?? sessionState?.currentStep ?? 1,
-        currentSection: payload.currentSection ?? sessionState?.currentSection ?? 'briefing',
-        isActive: payload.isActive ?? sessionState?.isActive ?? true,
-      };
-
-      setSessionState(newState);
-      onStateChange?.(newState);
+      const incoming = payload as Partial<SessionState>;
+      const reconciliation = reconcileStateVersion(stateRef.current?.version ?? null, incoming.version);
 
-      if (!newState.isActive) {
-        onSessionEnd?.();
+      if (reconciliation === 'apply') {
+        applyState({ ...(stateRef.current as SessionState), ...incoming });
+      } else if (reconciliation === 'refetch') {
+        fetchSessionState();
       }
     });
 
     // Handle session end
     channel.on('broadcast', { event: 'session_end' }, () => {
-      setSessionState((prev) => prev ? { ...prev, isActive: false } : null);
-      onSessionEnd?.();
+      fetchSessionState();
     });
 
     // Handle participant join
@@ -159,13 +311,28 @@ export function useLiveSession({
         if (prev.find((p) => p.id === payload.id)) return prev;
         return [...prev, payload];
       });
-      onParticipantJoin?.(payload);
+      handlersRef.current.onParticipantJoin?.(payload);
     });
 
     // Handle participant leave
     channel.on('broadcast', { event: 'participant_leave' }, ({ payload }) => {
       setParticipants((prev) => prev.filter((p) => p.id !== payload.id));
-      onParticipantLeave?.(payload.id);
+      handlersRef.current.onParticipantLeave?.(payload.id);
+    });
+
+    // Handle poll events
+    channel.on('broadcast', { event: 'poll' }, ({ payload }) => {
+      handlersRef.current.onPollEvent?.(payload as PollEvent);
+    });
+
+    // Handle question queue events
+    channel.on('broadcast', { event: 'question' }, ({ payload }) => {
+      handlersRef.current.onQuestionEvent?.(payload as QuestionEvent);
+    });
+
+    // Handle breakout room events
+    channel.on('broadcast', { event: 'breakout' }, ({ payload }) => {
+      handlersRef.current.onBreakoutEvent?.(payload as BreakoutEvent);
     });
 
     // Handle heartbeat for connection detection
@@ -176,36 +343,58 @@ export function useLiveSession({
       }
     });
 
-    // Subscribe to channel
+    // Subscribe to channel; fires again after the client reconnects
     channel.subscribe(async (status) => {
       if (status === 'SUBSCRIBED') {
         setIsConnected(true);
         setError(null);
         channelRef.current = channel;
 
-        // Fetch initial state
+        // Fetch the current state (catches anything missed while offline)
         await fetchSessionState();
         await fetchParticipants();
 
-        // Start heartbeat interval (every 5 seconds)
+        // Start heartbeat intervals: broadcast every 5 seconds, server less often
+        if (heartbeatIntervalRef.current) clearInterval(heartbeatIntervalRef.current);
+        if (serverHeartbeatIntervalRef.current) clearInterval(serverHeartbeatIntervalRef.current);
         heartbeatIntervalRef.current = setInterval(() => {
           sendHeartbeat();
         }, 5000);
-      } else if (status === 'CHANNEL_ERROR') {
+        sendServerHeartbeat();
+        serverHeartbeatIntervalRef.current = setInterval(() => {
+          sendServerHeartbeat();
+        }, HEARTBEAT_INTERVAL_SECONDS * 1000);
+      } else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT' || status === 'CLOSED') {
         setIsConnected(false);
-        setError('Connection error');
+        if (status !== 'CLOSED') {
+          setError('Connection error');
+        }
       }
     });
 
+    // Back from sleep or a dropped network: reconcile right away
+    const handleResume = () => {
+      if (document.visibilityState === 'visible') {
+        fetchSessionState();
+      }
+    };
+    window.addEventListener('online', handleResume);
+    document.addEventListener('visibilitychange', handleResume);
+
     return () => {
       // Cleanup
+      window.removeEventListener('online', handleResume);
+      document.removeEventListener('visibilitychange', handleResume);
       if (heartbeatIntervalRef.current) {
         clearInterval(heartbeatIntervalRef.current);
       }
+      if (serverHeartbeatIntervalRef.current) {
+        clearInterval(serverHeartbeatIntervalRef.current);
+      }
       channel.unsubscribe();
       channelRef.current = null;
     };
-  }, [code, supabase, isInstructor, fetchSessionState, fetchParticipants, sendHeartbeat, onStateChange, onParticipantJoin, onParticipantLeave, onSessionEnd, sessionState?.currentStep, sessionState?.currentSection, sessionState?.isActive]);
+  }, [code, supabase, isInstructor, applyState, fetchSessionState, fetchParticipants, sendHeartbeat, sendServerHeartbeat]);
 
   return {
     sessionState,
@@ -213,7 +402,12 @@ export function useLiveSession({
     isConnected,
     error,
     sendStateUpdate,
+    sendSessionEnd,
     sendHeartbeat,
+    refreshState: fetchSessionState,
+    sendPollEvent,
+    sendQuestionEvent,
+    sendBreakoutEvent,
   };
 }
 
@@ -221,7 +415,9 @@ export function useLiveSession({
 export function useInstructorSession(code: string) {
   const [isUpdating, setIsUpdating] = useState(false);
 
-  const updateStep = useCallback(async (action: 'next' | 'prev' | number) => {
+  // Resolves with { session } on success, or { conflict: true, session } when
+  // the state changed since `expectedVersion` (the session is the current one)
+  const updateStep = useCallback(async (action: 'next' | 'prev' | number, expectedVersion?: number) => {
     setIsUpdating(true);
     try {
       const body = typeof action === 'number'
@@ -231,9 +427,13 @@ export function useInstructorSession(code: string) {
       const response = await fetch(`/api/live-session/${code}`, {
         method: 'PATCH',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(body),
+        body: JSON.stringify({ ...body, expected_version: expectedVersion }),
       });
 
+      if (response.status === 409) {
+        return { ...(await response.json()), conflict: true };
+      }
+
       if (!response.ok) {
         throw new Error('Failed to update step');
       }
@@ -247,15 +447,19 @@ export function useInstructorSession(code: string) {
     }
   }, [code]);
 
-  const updateSection = useCallback(async (section: string) => {
+  const updateSection = useCallback(async (section: string, expectedVersion?: number) => {
     setIsUpdating(true);
     try {
       const response = await fetch(`/api/live-session/${code}`, {
         method: 'PATCH',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ section }),
+        body: JSON.stringify({ section, expected_version: expectedVersion }),
       });
 
+      if (response.status === 409) {
+        return { ...(await response.json()), conflict: true };
+      }
+
       if (!response.ok) {
         throw new Error('Failed to update section');
       }
@@ -2,6 +2,7 @@
 
 import { useEffect, useState, useCallback, useRef } from 'react';
 import { getSupabaseClient } from '@/lib/supabase';
+import { breakoutPresenceChannel } from '@/lib/liveBreakouts';
 import type { RealtimeChannel, RealtimePresenceState } from '@supabase/supabase-js';
 
 export interface PresenceUser {
@@ -157,3 +158,42 @@ export function useLiveSessionPresence(sessionCode: string, user: UsePresenceOpt
     user,
   });
 }
+
+// Hook for the presence of one breakout room within a live session
+export function useBreakoutRoomPresence(
+  sessionCode: string,
+  roomId: string,
+  user: UsePresenceOptions['user']
+) {
+  return usePresence({
+    channelName: breakoutPresenceChannel(sessionCode, roomId),
+    user,
+  });
+}
+
+// Watch how many users are online in each breakout room without joining them
+export function useBreakoutRoomsOccupancy(sessionCode: string, roomIds: string[]): Record<string, number> {
+  const [counts, setCounts] = useState<Record<string, number>>({});
+  const supabase = getSupabaseClient();
+  const roomKey = roomIds.join(',');
+
+  useEffect(() => {
+    if (!roomKey) return;
+
+    const channels = roomKey.split(',').map((roomId) => {
+      const channel = supabase.channel(breakoutPresenceChannel(sessionCode, roomId));
+      channel.on('presence', { event: 'sync' }, () => {
+        const onlineCount = Object.keys(channel.presenceState()).length;
+        setCounts((prev) => ({ ...prev, [roomId]: onlineCount }));
+      });
+      channel.subscribe();
+      return channel;
+    });
+
+    return () => {
+      channels.forEach((channel) => channel.unsubscribe());
+    };
+  }, [sessionCode, roomKey, supabase]);
+
+  return counts;
+}
@@ -0,0 +1,339 @@
+import type { createServiceSupabaseClient } from './supabase';
+import { awardAchievement } from './achievements';
+import { sendEmail, getAchievementNotificationEmail } from './email';
+import { getParticipantTimeZones, longestConsecutiveDays, toLocalDateTime } from './timezone';
+import { ACHIEVEMENT_ICONS, type Achievement, type AssignmentType } from './types';
+import { VALID_ROLES } from './validation';
+
+/**
+ * Achievement rule engine
+ * Every achievement is a declarative rule: which triggers can change it and a
+ * check over the participant's data. Routes call evaluateAchievements with
+ * their trigger; the backfill re-runs every rule for everyone.
+ */
+
+type ServiceClient = ReturnType<typeof createServiceSupabaseClient>;
+
+export type AchievementTrigger = 'submission' | 'review' | 'peer_review' | 'comment' | 'tutor_session';
+
+interface SubmissionFacts {
+  id: string;
+  assignment_id: string;
+  mentor_rating: number | null;
+  withdrawn_at: string | null;
+}
+
+export interface SubmissionTime {
+  assignment_id: string;
+  date: string;
+  hour: number;
+}
+
+interface AssignmentFacts {
+  id: string;
+  day: number;
+  type: AssignmentType;
+  target_roles: string[] | null;
+}
+
+interface AchievementContext {
+  supabase: ServiceClient;
+  participant: { id: string; role: string | null; team: string | null };
+  // Active (not withdrawn) submissions
+  submissions: () => Promise<SubmissionFacts[]>;
+  // Every push that created a revision of an active submission, in the
+  // participant's local time
+  submissionTimes: () => Promise<SubmissionTime[]>;
+  // Assignments that apply to the participant's role
+  assignments: () => Promise<AssignmentFacts[]>;
+}
+
+/**
+ * Local date and hour of each revision. Revisions of withdrawn submissions are
+ * left out, so removing a folder also removes the pushes that created it.
+ */
+export function toSubmissionTimes(
+  revisions: { submitted_at: string; submissions: unknown }[],
+  timeZone: string
+): SubmissionTime[] {
+  return revisions.flatMap((row) => {
+    const submission = row.submissions as { assignment_id: string; withdrawn_at: string | null } | null;
+    if (!submission || submission.withdrawn_at) return [];
+    return [{ assignment_id: submission.assignment_id, ...toLocalDateTime(row.submitted_at, timeZone) }];
+  });
+}
+
+/**
+ * Lazily loaded participant data shared by all rules in one evaluation
+ */
+function createAchievementContext(
+  supabase: ServiceClient,
+  participant: AchievementContext['participant'],
+  timeZone: string
+): AchievementContext {
+  const cache = new Map<string, Promise<unknown>>();
+  const memo = <T>(key: string, load: () => Promise<T>) => (): Promise<T> => {
+    if (!cache.has(key)) cache.set(key, load());
+    return cache.get(key) as Promise<T>;
+  };
+
+  return {
+    supabase,
+    participant,
+    submissions: memo('submissions', async () => {
+      const { data } = await supabase
+        .from('submissions')
+        .select('id, assignment_id, mentor_rating, withdrawn_at')
+        .eq('participant_id', participant.id)
+        .is('withdrawn_at', null);
+      return (data || []) as SubmissionFacts[];
+    }),
+    submissionTimes: memo('submissionTimes', async () => {
+      const { data } = await supabase
+        .from('submission_revisions')
+        .select('submitted_at, submissions!inner(participant_id, assignment_id, withdrawn_at)')
+        .eq('submissions.participant_id', participant.id);
+
+      return toSubmissionTimes(data || [], timeZone);
+    }),
+    assignments: memo('assignments', async () => {
+      const { data } = await supabase.from('assignments').select('id, day, type, target_roles');
+      return ((data || []) as AssignmentFacts[]).filter(
+        (a) => !a.target_roles || (participant.role !== null && a.target_roles.includes(participant.role))
+      );
+    }),
+  };
+}
+
+interface AchievementRule {
+  code: string;
+  triggers: AchievementTrigger[];
+  check: (ctx: AchievementContext) => Promise<boolean>;
+}
+
+const EARLY_BIRD_BEFORE_HOUR = 9;
+const NIGHT_OWL_FROM_HOUR = 22;
+
+export const ACHIEVEMENT_RULES: AchievementRule[] = [
+  {
+    code: 'first_blood',
+    triggers: ['submission'],
+    check: async (ctx) => (await ctx.submissions()).length >= 1,
+  },
+  {
+    code: 'streak_3',
+    triggers: ['submission'],
+    check: async (ctx) => longestConsecutiveDays((await ctx.submissionTimes()).map((t) => t.date)) >= 3,
+  },
+  {
+    code: 'streak_5',
+    triggers: ['submission'],
+    check: async (ctx) => longestConsecutiveDays((await ctx.submissionTimes()).map((t) => t.date)) >= 5,
+  },
+  {
+    code: 'early_bird',
+    triggers: ['submission'],
+    check: async (ctx) => (await ctx.submissionTimes()).some((t) => t.hour < EARLY_BIRD_BEFORE_HOUR),
+  },
+  {
+    code: 'night_owl',
+    triggers: ['submission'],
+    check: async (ctx) => (await ctx.submissionTimes()).some((t) => t.hour >= NIGHT_OWL_FROM_HOUR),
+  },
+  {
+    // In-class and homework for the same program day, both pushed on one local date
+    code: 'perfect_day',
+    triggers: ['submission'],
+    check: async (ctx) => {
+      const assignments = new Map((await ctx.assignments()).map((a) => [a.id, a]));
+      const seen = new Map<string, Set<AssignmentType>>();
+      for (const time of await ctx.submissionTimes()) {
+        const assignment = assignments.get(time.assignment_id);
+        if (!assignment) continue;
+        const key = `${assignment.day}|${time.date}`;
+        const types = seen.get(key) ?? new Set<AssignmentType>();
+        types.add(assignment.type);
+        seen.set(key, types);
+        if (types.size === 2) return true;
+      }
+      return false;
+    },
+  },
+  {
+    // First member of the team to submit an assignment (withdrawn ones aside)
+    code: 'team_player',
+    triggers: ['submission'],
+    check: async (ctx) => {
+      if (!ctx.participant.team) return false;
+
+      const { data: teamRevisions } = await ctx.supabase
+        .from('submission_revisions')
+        .select('submitted_at, submissions!inner(participant_id, assignment_id, withdrawn_at, participants!inner(team))')
+        .eq('revision_number', 1)
+        .eq('submissions.participants.team', ctx.participant.team)
+        .is('submissions.withdrawn_at', null);
+
+      const firstByAssignment = new Map<string, { participantId: string; at: string }>();
+      for (const row of teamRevisions || []) {
+        const submission = row.submissions as unknown as { participant_id: string; assignment_id: string };
+        const current = firstByAssignment.get(submission.assignment_id);
+        if (!current || row.submitted_at < current.at) {
+          firstByAssignment.set(submission.assignment_id, {
+            participantId: submission.participant_id,
+            at: row.submitted_at,
+          });
+        }
+      }
+      return [...firstByAssignment.values()].some((first) => first.participantId === ctx.participant.id);
+    },
+  },
+  {
+    code: 'completionist',
+    triggers: ['submission'],
+    check: async (ctx) => {
+      const assignments = await ctx.assignments();
+      const submitted = new Set((await ctx.submissions()).map((s) => s.assignment_id));
+      return assignments.length > 0 && assignments.every((a) => submitted.has(a.id));
+    },
+  },
+  {
+    code: 'mentor_favorite',
+    triggers: ['review'],
+    check: async (ctx) => (await ctx.submissions()).some((s) => s.mentor_rating === 5),
+  },
+  {
+    code: 'peer_reviewer',
+    triggers: ['peer_review'],
+    check: async (ctx) => {
+      const { count } = await ctx.supabase
+        .from('peer_reviews')
+        .select('*', { count: 'exact', head: true })
+        .eq('reviewer_id', ctx.participant.id)
+        .eq('status', 'completed');
+      return (count ?? 0) >= 5;
+    },
+  },
+  {
+    code: 'discussion_starter',
+    triggers: ['comment'],
+    check: async (ctx) => {
+      const { count } = await ctx.supabase
+        .from('comments')
+        .select('id', { count: 'exact', head: true })
+        .eq('author_id', ctx.participant.id);
+      return (count ?? 0) >= 5;
+    },
+  },
+  {
+    // Role Expo: explored every role
+    code: 't_shape_explorer',
+    triggers: ['tutor_session'],
+    check: async (ctx) => {
+      const { data } = await ctx.supabase
+        .from('role_expo_interactions')
+        .select('role_code')
+        .eq('participant_id', ctx.participant.id);
+      return new Set(data?.map((r) => r.role_code)).size >= VALID_ROLES.length;
+    },
+  },
+];
+
+export interface EvaluateOptions {
+  // Re-check every rule regardless of trigger (backfill)
+  allRules?: boolean;
+  // Email the participant about new achievements (off for backfill)
+  notify?: boolean;
+}
+
+/**
+ * Evaluate the rules for a trigger and award anything newly earned
+ */
+export async function evaluateAchievements(
+  supabase: ServiceClient,
+  participantId: string,
+  trigger: AchievementTrigger | null,
+  options: EvaluateOptions = {}
+): Promise<Achievement[]> {
+  const { allRules = false, notify = true } = options;
+
+  const rules = ACHIEVEMENT_RULES.filter((rule) => allRules || (trigger && rule.triggers.includes(trigger)));
+  if (rules.length === 0) return [];
+
+  const { data: participant } = await supabase
+    .from('participants')
+    .select('id, name, email, role, team, email_notifications')
+    .eq('id', participantId)
+    .single();
+
+  if (!participant) return [];
+
+  const { data: existing } = await supabase
+    .from('participant_achievements')
+    .select('achievements(code)')
+    .eq('participant_id', participantId);
+
+  const earned = new Set(
+    existing?.map((a) => (a as unknown as { achievements: { code: string } | null }).achievements?.code) || []
+  );
+
+  const timeZones = await getParticipantTimeZones(supabase, [participantId]);
+  const ctx = createAchievementContext(supabase, participant, timeZones.get(participantId)!);
+  const awarded: Achievement[] = [];
+
+  for (const rule of rules) {
+    if (earned.has(rule.code)) continue;
+
+    try {
+      if (!(await rule.check(ctx))) continue;
+    } catch (error) {
+      console.error(`Achievement rule ${rule.code} failed:`, error);
+      continue;
+    }
+
+    const achievement = await awardAchievement(supabase, participantId, rule.code, {
+      trigger: trigger ?? 'backfill',
+    });
+    if (achievement) awarded.push(achievement);
+  }
+
+  if (notify && participant.email && participant.email_notifications !== false) {
+    for (const achievement of awarded) {
+      const email = getAchievementNotificationEmail({
+        participantName: participant.name,
+        achievementName: achievement.name,
+        achievementDescription: achievement.description || undefined,
+        achievementIcon: ACHIEVEMENT_ICONS[achievement.code] || '🏆',
+        bonusPoints: achievement.points_bonus,
+      });
+
+      sendEmail({
+        to: participant.email,
+        subject: email.subject,
+        html: email.html,
+      }).catch((err) => console.error('Failed to send achievement email:', err));
+    }
+  }
+
+  return awarded;
+}
+
+/**
+ * Re-evaluate every rule for every participant (no emails)
+ */
+export async function backfillAchievements(
+  supabase: ServiceClient
+): Promise<{ participants: number; awarded: { participant_id: string; code: string }[] }> {
+  const { data: participants, error } = await supabase.from('participants').select('id');
+  if (error) throw error;
+
+  const awarded: { participant_id: string; code: string }[] = [];
+  for (const participant of participants || []) {
+    const newlyAwarded = await evaluateAchievements(supabase, participant.id, null, {
+      allRules: true,
+      notify: false,
+    });
+    awarded.push(...newlyAwarded.map((a) => ({ participant_id: participant.id, code: a.code })));
+  }
+
+  return { participants: participants?.length ?? 0, awarded };
+}
@@ -0,0 +1,58 @@
+import { createServiceSupabaseClient } from './supabase';
+import type { Achievement } from './types';
+
+type ServiceClient = ReturnType<typeof createServiceSupabaseClient>;
+
+/**
+ * Award an achievement to a participant.
+ *
+ * Safe to call repeatedly: participant_achievements has a primary key on
+ * (participant_id, achievement_id), so a duplicate insert is ignored and the
+ * activity log entry is only written the first time.
+ *
+ * Returns the achievement when it was newly awarded, otherwise null.
+ */
+export async function awardAchievement(
+  supabase: ServiceClient,
+  participantId: string,
+  code: string,
+  details: Record<string, unknown> = {}
+): Promise<Achievement | null> {
+  const { data: achievement } = await supabase
+    .from('achievements')
+    .select('id, code, name, description, icon, points_bonus')
+    .eq('code', code)
+    .single();
+
+  if (!achievement) return null;
+
+  const { data: inserted, error } = await supabase
+    .from('participant_achievements')
+    .upsert(
+      {
+        participant_id: participantId,
+        achievement_id: achievement.id,
+      },
+      {
+        onConflict: 'participant_id,achievement_id',
+        ignoreDuplicates: true,
+      }
+    )
+    .select('achievement_id');
+
+  if (error) {
+    console.error(`Failed to award achievement ${code}:`, error);
+    return null;
+  }
+
+  // Conflict = already earned
+  if (!inserted || inserted.length === 0) return null;
+
+  await supabase.from('activity_log').insert({
+    participant_id: participantId,
+    action: 'achievement',
+    details: { achievement_code: code, ...details },
+  });
+
+  return achievement as Achievement;
+}
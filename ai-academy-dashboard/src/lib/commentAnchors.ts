@@ -0,0 +1,161 @@
+import type { createServiceSupabaseClient } from './supabase';
+import type { CommentAnchor } from './types';
+
+type ServiceClient = ReturnType<typeof createServiceSupabaseClient>;
+
+/**
+ * README comment anchors
+ * A discussion thread can point at a passage of the submitted README as a
+ * character range of readme_content. Next to the range we keep the quoted
+ * text and a little context on each side, so when the participant pushes a
+ * new revision the thread can follow its passage (like a code review comment
+ * following its line) or, once the passage is gone, be marked outdated.
+ */
+
+// Characters of context kept on each side of the quoted passage
+export const ANCHOR_CONTEXT_LENGTH = 40;
+export const MAX_ANCHOR_LENGTH = 1000;
+
+export type AnchorResult =
+  | { ok: true; anchor: CommentAnchor }
+  | { ok: false; error: string };
+
+export interface AnchorRange {
+  start: number;
+  end: number;
+}
+
+export interface ReanchorSummary {
+  moved: number;
+  outdated: number;
+}
+
+/**
+ * Build an anchor from a selected range of the README.
+ * Whitespace around the selection is dropped so the quote starts and ends on text.
+ */
+export function createAnchor(readme: string, start: number, end: number, revision: number): AnchorResult {
+  if (!Number.isInteger(start) || !Number.isInteger(end) || start < 0 || end > readme.length || end <= start) {
+    return { ok: false, error: 'Selection is outside the README' };
+  }
+
+  while (start < end && /\s/.test(readme[start])) start++;
+  while (end > start && /\s/.test(readme[end - 1])) end--;
+
+  if (start === end) {
+    return { ok: false, error: 'Selection is empty' };
+  }
+  if (end - start > MAX_ANCHOR_LENGTH) {
+    return { ok: false, error: `Selection is longer than ${MAX_ANCHOR_LENGTH} characters` };
+  }
+
+  return {
+    ok: true,
+    anchor: {
+      revision,
+      start,
+      end,
+      text: readme.slice(start, end),
+      prefix: readme.slice(Math.max(0, start - ANCHOR_CONTEXT_LENGTH), start),
+      suffix: readme.slice(end, end + ANCHOR_CONTEXT_LENGTH),
+    },
+  };
+}
+
+function commonSuffixLength(a: string, b: string): number {
+  let n = 0;
+  while (n < a.length && n < b.length && a[a.length - 1 - n] === b[b.length - 1 - n]) n++;
+  return n;
+}
+
+function commonPrefixLength(a: string, b: string): number {
+  let n = 0;
+  while (n < a.length && n < b.length && a[n] === b[n]) n++;
+  return n;
+}
+
+/**
+ * Find an anchored passage in another version of the README.
+ * Every occurrence of the quoted text is a candidate; the one whose
+ * surroundings best match the stored context wins, then the one closest to
+ * the old position. Returns null when the passage no longer appears.
+ */
+export function locateAnchor(
+  readme: string,
+  anchor: Pick<CommentAnchor, 'start' | 'text' | 'prefix' | 'suffix'>
+): AnchorRange | null {
+  if (!anchor.text) return null;
+
+  let best: { range: AnchorRange; context: number; distance: number } | null = null;
+  let index = readme.indexOf(anchor.text);
+
+  while (index !== -1) {
+    const end = index + anchor.text.length;
+    const context =
+      commonSuffixLength(readme.slice(Math.max(0, index - anchor.prefix.length), index), anchor.prefix) +
+      commonPrefixLength(readme.slice(end, end + anchor.suffix.length), anchor.suffix);
+    const distance = Math.abs(index - anchor.start);
+
+    if (!best || context > best.context || (context === best.context && distance < best.distance)) {
+      best = { range: { start: index, end }, context, distance };
+    }
+    index = readme.indexOf(anchor.text, index + 1);
+  }
+
+  return best?.range ?? null;
+}
+
+/**
+ * Move the open anchored threads of a submission onto a new revision.
+ * Threads whose passage is gone keep their quote and are marked outdated.
+ */
+export async function reanchorSubmissionComments(
+  supabase: ServiceClient,
+  submissionId: string,
+  readme: string,
+  revision: number
+): Promise<ReanchorSummary> {
+  const { data: threads, error } = await supabase
+    .from('comments')
+    .select('id, anchor_revision, anchor_start, anchor_text, anchor_prefix, anchor_suffix')
+    .eq('submission_id', submissionId)
+    .is('parent_id', null)
+    .not('anchor_text', 'is', null)
+    .eq('is_outdated', false)
+    .lt('anchor_revision', revision);
+
+  if (error) throw error;
+
+  const summary: ReanchorSummary = { moved: 0, outdated: 0 };
+
+  for (const thread of threads ?? []) {
+    const range = locateAnchor(readme, {
+      start: thread.anchor_start,
+      text: thread.anchor_text,
+      prefix: thread.anchor_prefix ?? '',
+      suffix: thread.anchor_suffix ?? '',
+    });
+
+    const { error: updateError } = await supabase
+      .from('comments')
+      .update(
+        range
+          ? {
+              anchor_revision: revision,
+              anchor_start: range.start,
+              anchor_end: range.end,
+              anchor_prefix: readme.slice(Math.max(0, range.start - ANCHOR_CONTEXT_LENGTH), range.start),
+              anchor_suffix: readme.slice(range.end, range.end + ANCHOR_CONTEXT_LENGTH),
+            }
+          : { is_outdated: true }
+      )
+      .eq('id', thread.id);
+
+    if (updateError) throw updateError;
+
+    if (range) summary.moved++;
+    else summary.outdated++;
+  }
+
+  return summary;
+}
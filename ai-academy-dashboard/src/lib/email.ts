@@ -1,4 +1,5 @@
 import { Resend } from 'resend';
+import type { RubricScore } from './types';
 
 // ============================================================================
 // HTML Escaping for XSS Prevention in Email Templates
@@ -52,7 +53,13 @@ const FROM_EMAIL = process.env.EMAIL_FROM || 'AI Academy <notifications@ai-acade
 const APP_URL = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
 
 // Email types
-export type EmailType = 'review' | 'achievement' | 'deadline_reminder' | 'intel_drop';
+export type EmailType =
+  | 'review'
+  | 'achievement'
+  | 'deadline_reminder'
+  | 'intel_drop'
+  | 'live_session_reminder'
+  | 'peer_review_reminder';
 
 interface SendEmailParams {
   to: string;
@@ -95,9 +102,10 @@ export function getReviewNotificationEmail(params: {
   assignmentTitle: string;
   mentorRating: number;
   mentorNotes?: string;
+  rubricScores?: RubricScore[];
   dashboardUrl?: string;
 }) {
-  const { participantName, assignmentTitle, mentorRating, mentorNotes, dashboardUrl = `${APP_URL}/my-dashboard` } = params;
+  const { participantName, assignmentTitle, mentorRating, mentorNotes, rubricScores, dashboardUrl = `${APP_URL}/my-dashboard` } = params;
 
   // Escape all dynamic values for XSS prevention
   const safeParticipantName = escapeHtml(participantName);
@@ -109,6 +117,22 @@ export function getReviewNotificationEmail(params: {
   const safeRating = Math.min(5, Math.max(0, Math.floor(mentorRating)));
   const stars = '★'.repeat(safeRating) + '☆'.repeat(5 - safeRating);
 
+  const rubricRows = (rubricScores ?? [])
+    .map(
+      (score) => `
+                <tr>
+                  <td style="padding: 8px 0; border-top: 1px solid #e5e7eb; color: #374151; font-size: 14px; vertical-align: top;">
+                    <strong>${escapeHtml(score.name)}</strong><br>
+                    <span style="color: #6b7280;">${escapeHtml(score.level_description)}</span>
+                    ${score.comment ? `<br><em style="color: #374151;">${escapeHtml(score.comment)}</em>` : ''}
+                  </td>
+                  <td style="padding: 8px 0 8px 12px; border-top: 1px solid #e5e7eb; color: #374151; font-size: 14px; text-align: right; white-space: nowrap; vertical-align: top;">
+                    ${escapeHtml(score.level_label)} (${Math.floor(score.score)}/${Math.floor(score.max_score)})
+                  </td>
+                </tr>`
+    )
+    .join('');
+
   return {
     subject: `Your submission has been reviewed: ${safeAssignmentTitle}`,
     html: `
@@ -157,6 +181,13 @@ export function getReviewNotificationEmail(params: {
                 </p>
               </div>
 
+              ${rubricRows ? `
+              <!-- Rubric -->
+              <table width="100%" cellpadding="0" cellspacing="0" style="margin: 20px 0;">
+                ${rubricRows}
+              </table>
+              ` : ''}
+
               ${safeMentorNotes ? `
               <!-- Notes -->
               <div style="background-color: #eff6ff; border-left: 4px solid #0062FF; padding: 15px; margin: 20px 0;">
@@ -423,6 +454,227 @@ export function getDeadlineReminderEmail(params: {
   };
 }
 
+export function getLiveSessionReminderEmail(params: {
+  participantName: string;
+  sessionTitle: string;
+  day: number | null;
+  startsAt: string; // Already formatted in the participant's timezone
+  durationMinutes: number;
+  instructorName?: string | null;
+  description?: string | null;
+  sessionUrl?: string;
+}) {
+  const {
+    participantName,
+    sessionTitle,
+    day,
+    startsAt,
+    durationMinutes,
+    instructorName,
+    description,
+    sessionUrl = `${APP_URL}/mission`,
+  } = params;
+
+  // Escape dynamic values for XSS prevention
+  const safeParticipantName = escapeHtml(participantName);
+  const safeSessionTitle = escapeHtml(sessionTitle);
+  const safeStartsAt = escapeHtml(startsAt);
+  const safeInstructorName = instructorName ? escapeHtml(instructorName) : null;
+  const safeDescription = description ? escapeHtml(description) : null;
+  const safeSessionUrl = sanitizeUrl(sessionUrl);
+  const safeDay = day != null ? Math.max(0, Math.floor(Number(day) || 0)) : null;
+  const safeDuration = Math.max(0, Math.floor(Number(durationMinutes) || 0));
+
+  return {
+    subject: `Starting soon: ${safeSessionTitle}`,
+    html: `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Live Session Reminder</title>
+</head>
+<body style="margin: 0; padding: 0; background-color: #f4f4f5; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;">
+  <table width="100%" cellpadding="0" cellspacing="0" style="background-color: #f4f4f5; padding: 40px 20px;">
+    <tr>
+      <td align="center">
+        <table width="100%" cellpadding="0" cellspacing="0" style="max-width: 600px; background-color: #ffffff; border-radius: 12px; overflow: hidden; box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);">
+          <!-- Header -->
+          <tr>
+            <td style="background-color: #0062FF; padding: 30px; text-align: center;">
+              <h1 style="margin: 0; color: #ffffff; font-size: 24px; font-weight: 600;">
+                Live Session Starting Soon
+              </h1>
+            </td>
+          </tr>
+
+          <!-- Content -->
+          <tr>
+            <td style="padding: 40px 30px;">
+              <p style="margin: 0 0 20px; color: #374151; font-size: 16px;">
+                Hello <strong>${safeParticipantName}</strong>,
+              </p>
+
+              <p style="margin: 0 0 20px; color: #374151; font-size: 16px;">
+                A live session is about to start:
+              </p>
+
+              <div style="background-color: #f9fafb; border-radius: 8px; padding: 20px; margin: 20px 0;">
+                <h2 style="margin: 0 0 10px; color: #111827; font-size: 18px;">
+                  ${safeDay !== null ? `Day ${safeDay}: ` : ''}${safeSessionTitle}
+                </h2>
+                <p style="margin: 0; color: #374151; font-size: 15px;">
+                  <strong>${safeStartsAt}</strong> &middot; ${safeDuration} min
+                </p>
+                ${safeInstructorName ? `<p style="margin: 8px 0 0; color: #6b7280; font-size: 14px;">Led by ${safeInstructorName}</p>` : ''}
+                ${safeDescription ? `<p style="margin: 12px 0 0; color: #4b5563; font-size: 14px;">${safeDescription}</p>` : ''}
+              </div>
+
+              <!-- CTA Button -->
+              <div style="text-align: center; margin: 30px 0;">
+                <a href="${safeSessionUrl}" style="display: inline-block; background-color: #0062FF; color: #ffffff; text-decoration: none; padding: 14px 28px; border-radius: 8px; font-size: 16px; font-weight: 600;">
+                  Open Mission Control
+                </a>
+              </div>
+
+              <p style="margin: 20px 0 0; color: #6b7280; font-size: 14px; text-align: center;">
+                Your instructor will share the join code at the start.
+              </p>
+            </td>
+          </tr>
+
+          <!-- Footer -->
+          <tr>
+            <td style="background-color: #f9fafb; padding: 20px 30px; text-align: center;">
+              <p style="margin: 0; color: #9ca3af; font-size: 12px;">
+                AI Academy Dashboard
+              </p>
+            </td>
+          </tr>
+        </table>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>
+    `,
+  };
+}
+
+export function getPeerReviewReminderEmail(params: {
+  participantName: string;
+  reviews: Array<{
+    title: string;
+    day: number;
+    hoursRemaining: number;
+  }>;
+  reviewsUrl?: string;
+}) {
+  const { participantName, reviews, reviewsUrl = `${APP_URL}/peer-reviews` } = params;
+
+  // Escape dynamic values for XSS prevention
+  const safeParticipantName = escapeHtml(participantName);
+  const safeReviewsUrl = sanitizeUrl(reviewsUrl);
+  const safeReviewCount = Math.max(0, reviews.length);
+
+  const reviewsList = reviews
+    .map((r) => {
+      const safeTitle = escapeHtml(r.title);
+      const safeDay = Math.max(0, Math.floor(Number(r.day) || 0));
+      const safeHours = Math.max(0, Math.floor(Number(r.hoursRemaining) || 0));
+      return `
+      <tr>
+        <td style="padding: 12px; border-bottom: 1px solid #e5e7eb;">
+          <strong>Day ${safeDay}: ${safeTitle}</strong>
+        </td>
+        <td style="padding: 12px; border-bottom: 1px solid #e5e7eb; text-align: right; color: #dc2626; font-weight: 600;">
+          ${safeHours < 1 ? '<1h' : `${safeHours}h`}
+        </td>
+      </tr>
+    `;
+    })
+    .join('');
+
+  return {
+    subject: `Reminder: ${safeReviewCount} peer ${safeReviewCount === 1 ? 'review' : 'reviews'} due soon`,
+    html: `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Peer Review Reminder</title>
+</head>
+<body style="margin: 0; padding: 0; background-color: #f4f4f5; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;">
+  <table width="100%" cellpadding="0" cellspacing="0" style="background-color: #f4f4f5; padding: 40px 20px;">
+    <tr>
+      <td align="center">
+        <table width="100%" cellpadding="0" cellspacing="0" style="max-width: 600px; background-color: #ffffff; border-radius: 12px; overflow: hidden; box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);">
+          <!-- Header -->
+          <tr>
+            <td style="background-color: #f59e0b; padding: 30px; text-align: center;">
+              <h1 style="margin: 0; color: #ffffff; font-size: 24px; font-weight: 600;">
+                Peer Reviews Due Soon
+              </h1>
+            </td>
+          </tr>
+
+          <!-- Content -->
+          <tr>
+            <td style="padding: 40px 30px;">
+              <p style="margin: 0 0 20px; color: #374151; font-size: 16px;">
+                Hello <strong>${safeParticipantName}</strong>,
+              </p>
+
+              <p style="margin: 0 0 20px; color: #374151; font-size: 16px;">
+                You have <strong>${safeReviewCount} peer ${safeReviewCount === 1 ? 'review' : 'reviews'}</strong> waiting for you:
+              </p>
+
+              <!-- Reviews Table -->
+              <table width="100%" cellpadding="0" cellspacing="0" style="border: 1px solid #e5e7eb; border-radius: 8px; overflow: hidden; margin: 20px 0;">
+                <thead>
+                  <tr style="background-color: #f9fafb;">
+                    <th style="padding: 12px; text-align: left; color: #6b7280; font-size: 12px; text-transform: uppercase;">Submission</th>
+                    <th style="padding: 12px; text-align: right; color: #6b7280; font-size: 12px; text-transform: uppercase;">Remaining</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  ${reviewsList}
+                </tbody>
+              </table>
+
+              <!-- CTA Button -->
+              <div style="text-align: center; margin: 30px 0;">
+                <a href="${safeReviewsUrl}" style="display: inline-block; background-color: #0062FF; color: #ffffff; text-decoration: none; padding: 14px 28px; border-radius: 8px; font-size: 16px; font-weight: 600;">
+                  Open peer reviews
+                </a>
+              </div>
+
+              <p style="margin: 20px 0 0; color: #6b7280; font-size: 14px; text-align: center;">
+                Reviews not done in time go to another participant, without bonus points.
+              </p>
+            </td>
+          </tr>
+
+          <!-- Footer -->
+          <tr>
+            <td style="background-color: #f9fafb; padding: 20px 30px; text-align: center;">
+              <p style="margin: 0; color: #9ca3af; font-size: 12px;">
+                AI Academy Dashboard
+              </p>
+            </td>
+          </tr>
+        </table>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>
+    `,
+  };
+}
+
 export function getIntelDropNotificationEmail(params: {
   participantName: string;
   intelTitle: string;
@@ -0,0 +1,309 @@
+import { createServiceSupabaseClient } from './supabase';
+import { collectPushSubmissions, type PushCommit } from './submissionFolders';
+import { isCommitRecorded, recordSubmissionRevision } from './submissionRevisions';
+import { reanchorSubmissionComments } from './commentAnchors';
+import { evaluateAchievements } from './achievementEngine';
+import { assignSubmission, getMentorLoads, releaseReviewAssignments } from './mentorAssignment';
+import { parseReadme } from './readmeParser';
+import { applyScoringPolicy, calculatePoints, loadScoringPolicy, resolveScoringPolicy } from './scoring';
+import type { ReadmeAnalysis } from './types';
+
+/**
+ * GitHub push processing pipeline
+ * Shared by the webhook route and the admin replay action, so a stored
+ * delivery can be re-run after a username or assignment mapping is fixed.
+ */
+
+type ServiceClient = ReturnType<typeof createServiceSupabaseClient>;
+
+export type DeliveryOutcome = 'pending' | 'processed' | 'ignored' | 'failed';
+
+// A delivery still 'pending' after this long was cut off mid-run (crash,
+// timeout) and may be processed again when GitHub redelivers it
+export const PENDING_DELIVERY_TIMEOUT_MINUTES = 5;
+
+// Subset of a GitHub push payload used by the pipeline
+export interface GitHubPushPayload {
+  ref?: string;
+  repository?: { owner?: { login?: string } };
+  commits?: PushCommit[];
+  head_commit?: PushCommit | null;
+}
+
+export interface PushProcessingResult {
+  outcome: Exclude<DeliveryOutcome, 'pending'>;
+  reason: string | null;
+  httpStatus: number;
+  participantId: string | null;
+  githubUsername: string | null;
+  body: Record<string, unknown>;
+}
+
+/**
+ * Process a GitHub push payload into submissions
+ */
+export async function processPushEvent(
+  supabase: ServiceClient,
+  data: GitHubPushPayload
+): Promise<PushProcessingResult> {
+  const githubUsername: string | null = data.repository?.owner?.login ?? null;
+  const commits: PushCommit[] = data.commits?.length
+    ? data.commits
+    : data.head_commit
+      ? [data.head_commit]
+      : [];
+
+  const result = (
+    outcome: PushProcessingResult['outcome'],
+    reason: string | null,
+    httpStatus: number,
+    body: Record<string, unknown>,
+    participantId: string | null = null
+  ): PushProcessingResult => ({ outcome, reason, httpStatus, participantId, githubUsername, body });
+
+  if (!githubUsername || commits.length === 0) {
+    return result('ignored', 'Missing data', 400, { error: 'Missing data' });
+  }
+
+  // Get participant
+  const { data: participant, error: pError } = await supabase
+    .from('participants')
+    .select('id, role')
+    .eq('github_username', githubUsername)
+    .single();
+
+  if (pError || !participant) {
+    console.log(`Unknown participant: ${githubUsername}`);
+    return result('ignored', `Unknown participant: ${githubUsername}`, 200, { message: 'Unknown participant' });
+  }
+
+  // Folder-to-assignment mapping comes from assignments.folder_name
+  const { data: assignments, error: aError } = await supabase
+    .from('assignments')
+    .select('id, day, type, folder_name, target_roles, max_points, due_at, scoring_policy');
+
+  if (aError || !assignments) {
+    console.error('Assignments error:', aError);
+    return result('failed', 'Database error loading assignments', 500, { error: 'Database error' }, participant.id);
+  }
+
+  // Detect which assignment folders each commit touched
+  const pushSubmissions = collectPushSubmissions(commits, assignments, participant.role);
+  if (pushSubmissions.length === 0) {
+    return result('ignored', 'No submission folder detected', 200, { message: 'No submission folder detected' }, participant.id);
+  }
+
+  const scoringPolicy = await loadScoringPolicy(supabase);
+
+  const results: { submission_id: string; assignment_id: string; points_earned: number; revision: number }[] = [];
+  const withdrawn: string[] = [];
+  const warnings: string[] = [];
+  const duplicates: string[] = [];
+
+  for (const { assignment, folderPath, commit, withdrawn: isWithdrawn } of pushSubmissions) {
+    const committedAt = commit.timestamp ? new Date(commit.timestamp) : new Date();
+
+    // Removed folder: flag the existing submission instead of overwriting it
+    if (isWithdrawn) {
+      const { data: existing } = await supabase
+        .from('submissions')
+        .update({ withdrawn_at: committedAt.toISOString() })
+        .eq('participant_id', participant.id)
+        .eq('assignment_id', assignment.id)
+        .is('withdrawn_at', null)
+        .select('id')
+        .maybeSingle();
+
+      if (existing) {
+        withdrawn.push(existing.id);
+        await supabase.from('activity_log').insert({
+          participant_id: participant.id,
+          action: 'submission_withdrawn',
+          details: {
+            assignment_id: assignment.id,
+            commit_sha: commit.id,
+            folder: folderPath,
+          },
+        });
+      }
+      continue;
+    }
+
+    // Commit already recorded (redelivery or replay) - skip without refetching
+    if (await isCommitRecorded(supabase, participant.id, assignment.id, commit.id)) {
+      duplicates.push(commit.id);
+      continue;
+    }
+
+    const assignmentFull = assignments.find((a) => a.id === assignment.id);
+
+    // Try to fetch README content from the repo at the submitted commit
+    let readmeContent = '';
+    let readmeAnalysis: ReadmeAnalysis | null = null;
+
+    try {
+      const readmeUrl = `https://raw.githubusercontent.com/${githubUsername}/ai-academy-2026/${commit.id}/${folderPath}/README.md`;
+      const readmeResponse = await fetch(readmeUrl);
+      if (readmeResponse.ok) {
+        readmeContent = await readmeResponse.text();
+        readmeAnalysis = parseReadme(readmeContent, { day: assignment.day, type: assignment.type });
+      } else {
+        warnings.push(`README fetch failed for ${folderPath} (HTTP ${readmeResponse.status})`);
+      }
+    } catch {
+      console.log(`Could not fetch README for ${folderPath}`);
+      warnings.push(`Could not fetch README for ${folderPath}`);
+    }
+
+    // Calculate points under the scoring policy (late penalty, early bonus)
+    const score = calculatePoints(resolveScoringPolicy(scoringPolicy, assignmentFull?.scoring_policy), {
+      maxPoints: assignmentFull?.max_points ?? null,
+      dueAt: assignmentFull?.due_at ?? null,
+      submittedAt: committedAt.toISOString(),
+      mentorRating: null,
+    });
+
+    // Record as a new revision (keeps earlier commits and reviews)
+    let revision;
+    try {
+      revision = await recordSubmissionRevision(supabase, {
+        participantId: participant.id,
+        assignmentId: assignment.id,
+        commitSha: commit.id,
+        commitMessage: commit.message ?? null,
+        commitUrl: commit.url ?? null,
+        readmeContent,
+        readmeAnalysis,
+        selfRating: readmeAnalysis?.self_rating ?? null,
+        submittedAt: committedAt.toISOString(),
+        pointsEarned: score.total,
+      });
+    } catch (sError) {
+      console.error('Submission error:', sError);
+      return result('failed', `Database error saving ${folderPath}`, 500, { error: 'Database error' }, participant.id);
+    }
+
+    if (!revision.created) {
+      duplicates.push(commit.id);
+      continue;
+    }
+
+    // Carry README comment threads over to the new revision. Without a README
+    // (fetch failed) they stay on their revision until the next push.
+    if (revision.revisionNumber > 1 && readmeContent) {
+      try {
+        await reanchorSubmissionComments(supabase, revision.submissionId, readmeContent, revision.revisionNumber);
+      } catch (anchorError) {
+        console.error('Comment re-anchor error:', anchorError);
+        warnings.push(`Could not re-anchor README comments for ${folderPath}`);
+      }
+    }
+
+    // Re-score against the first revision and any existing mentor rating
+    let pointsEarned = revision.pointsEarned;
+    try {
+      const scored = await applyScoringPolicy(supabase, [revision.submissionId]);
+      pointsEarned = scored.points.get(revision.submissionId) ?? pointsEarned;
+    } catch (scoreError) {
+      console.error('Scoring error:', scoreError);
+      warnings.push(`Could not apply scoring policy for ${folderPath}`);
+    }
+
+    // Log activity
+    await supabase.from('activity_log').insert({
+      participant_id: participant.id,
+      action: 'submission',
+      details: {
+        assignment_id: assignment.id,
+        commit_sha: commit.id,
+        folder: folderPath,
+        revision: revision.revisionNumber,
+      },
+    });
+
+    results.push({
+      submission_id: revision.submissionId,
+      assignment_id: assignment.id,
+      points_earned: pointsEarned,
+      revision: revision.revisionNumber,
+    });
+  }
+
+  // Hand new revisions to a reviewer; withdrawn submissions free theirs
+  const unassigned: string[] = [];
+  try {
+    await releaseReviewAssignments(supabase, withdrawn);
+    if (results.length > 0) {
+      const mentors = await getMentorLoads(supabase);
+      for (const { submission_id } of results) {
+        const assigned = await assignSubmission(supabase, submission_id, { mentors });
+        if (!assigned.mentorId) unassigned.push(submission_id);
+      }
+    }
+  } catch (assignError) {
+    console.error('Review assignment error:', assignError);
+    warnings.push('Could not assign reviewers');
+  }
+  if (unassigned.length > 0) {
+    warnings.push(`No mentor with capacity for ${unassigned.length} submission(s)`);
+  }
+
+  // Check for achievements
+  if (results.length > 0) {
+    await evaluateAchievements(supabase, participant.id, 'submission');
+  }
+
+  return result(
+    'processed',
+    warnings.length > 0 ? warnings.join('; ') : null,
+    200,
+    {
+      success: true,
+      submissions: results,
+      withdrawn_submission_ids: withdrawn,
+      duplicate_commits: duplicates,
+    },
+    participant.id
+  );
+}
+
+/**
+ * Failed outcome for a push whose processing threw
+ */
+export function processingFailure(error: unknown, data: GitHubPushPayload): PushProcessingResult {
+  return {
+    outcome: 'failed',
+    reason: `Processing error: ${error instanceof Error ? error.message : String(error)}`,
+    httpStatus: 500,
+    participantId: null,
+    githubUsername: data.repository?.owner?.login ?? null,
+    body: { error: 'Failed to process push' },
+  };
+}
+
+/**
+ * Store the outcome of processing a delivery
+ */
+export async function saveDeliveryOutcome(
+  supabase: ServiceClient,
+  deliveryRowId: string,
+  processing: PushProcessingResult,
+  extra: Record<string, unknown> = {}
+): Promise<void> {
+  const { error } = await supabase
+    .from('webhook_deliveries')
+    .update({
+      outcome: processing.outcome,
+      reason: processing.reason,
+      participant_id: processing.participantId,
+      github_username: processing.githubUsername,
+      result: processing.body,
+      processed_at: new Date().toISOString(),
+      ...extra,
+    })
+    .eq('id', deliveryRowId);
+
+  if (error) {
+    console.error('[GitHub Webhook] Failed to store delivery outcome:', error);
+  }
+}
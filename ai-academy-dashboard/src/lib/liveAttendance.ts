@@ -0,0 +1,457 @@
+import { readAllPages, type createServiceSupabaseClient } from './supabase';
+import type { LiveSession, LiveSessionParticipant, LiveSessionTimelineEntry } from './types';
+
+/**
+ * Live session attendance and step timeline
+ * Presence is counted in stretches: joining or re-joining starts one, leaving
+ * or the end of the session closes it and adds its length to
+ * attended_seconds. Every step/section change of the instructor is recorded
+ * as a timeline entry. Ended sessions feed the live lab counters on
+ * participant_mastery.
+ */
+
+type ServiceClient = ReturnType<typeof createServiceSupabaseClient>;
+
+// Joining this long after the start counts as a late join
+export const LATE_JOIN_MINUTES = 5;
+// Leaving this long before the end (without coming back) counts as a drop-off
+export const DROP_OFF_MINUTES = 5;
+// Share of a session a participant must be present for it to count as attended
+export const ATTENDED_MIN_PERCENT = 50;
+
+type SessionTiming = Pick<LiveSession, 'started_at' | 'ended_at'>;
+type AttendanceRecord = Pick<
+  LiveSessionParticipant,
+  'joined_at' | 'left_at' | 'rejoined_at' | 'attended_seconds' | 'leave_count' | 'is_active'
+>;
+
+export interface AttendanceSummary {
+  joined_at: string;
+  left_at: string | null;
+  attended_seconds: number;
+  attendance_percent: number;
+  late_minutes: number;  // 0 when on time
+  is_late: boolean;
+  leave_count: number;
+  dropped_off: boolean;  // Gone before the end and did not come back
+  attended: boolean;  // Present for at least ATTENDED_MIN_PERCENT of the session
+}
+
+export interface TimelineSegment {
+  step: number;
+  section: string;
+  started_at: string;
+  ended_at: string | null;  // NULL while the segment is still running
+  duration_seconds: number;
+}
+
+export interface AttendanceReportRow extends AttendanceSummary {
+  participant_id: string;
+  name: string;
+  github_username: string | null;
+}
+
+export interface LiveSessionReport {
+  session: {
+    id: string;
+    join_code: string | null;
+    started_at: string;
+    ended_at: string | null;
+    is_active: boolean;
+    mission_day: { day: number; title: string } | null;
+    instructor_name: string | null;
+  };
+  duration_seconds: number;
+  attendance: AttendanceReportRow[];
+  // Expected participants who never joined
+  absent: { participant_id: string; name: string; github_username: string | null }[];
+  timeline: TimelineSegment[];
+  section_seconds: Record<string, number>;
+}
+
+function secondsBetween(from: string, to: string): number {
+  return Math.max(0, Math.round((new Date(to).getTime() - new Date(from).getTime()) / 1000));
+}
+
+/**
+ * Attendance of one participant in one session (sessions still running are
+ * measured up to now)
+ */
+export function summarizeAttendance(
+  session: SessionTiming,
+  record: AttendanceRecord,
+  now: Date = new Date()
+): AttendanceSummary {
+  const sessionEnd = session.ended_at ?? now.toISOString();
+  const sessionSeconds = secondsBetween(session.started_at, sessionEnd);
+
+  let attendedSeconds = record.attended_seconds;
+  if (record.is_active) {
+    attendedSeconds += secondsBetween(record.rejoined_at ?? record.joined_at, sessionEnd);
+  } else if (attendedSeconds === 0 && record.leave_count === 0 && record.left_at) {
+    // Rows from before attendance accounting only have joined_at/left_at
+    attendedSeconds = secondsBetween(record.joined_at, record.left_at);
+  }
+  attendedSeconds = Math.min(attendedSeconds, sessionSeconds);
+
+  const lateMinutes = Math.floor(secondsBetween(session.started_at, record.joined_at) / 60);
+  const attendancePercent = sessionSeconds > 0 ? Math.round((attendedSeconds / sessionSeconds) * 100) : 0;
+
+  return {
+    joined_at: record.joined_at,
+    left_at: record.left_at,
+    attended_seconds: attendedSeconds,
+    attendance_percent: attendancePercent,
+    late_minutes: lateMinutes >= LATE_JOIN_MINUTES ? lateMinutes : 0,
+    is_late: lateMinutes >= LATE_JOIN_MINUTES,
+    leave_count: record.leave_count,
+    dropped_off:
+      !record.is_active &&
+      record.left_at !== null &&
+      secondsBetween(record.left_at, sessionEnd) >= DROP_OFF_MINUTES * 60,
+    attended: attendancePercent >= ATTENDED_MIN_PERCENT,
+  };
+}
+
+/**
+ * Turn recorded step/section changes into segments with durations
+ */
+export function buildTimeline(
+  entries: Pick<LiveSessionTimelineEntry, 'step' | 'section' | 'started_at' | 'ended_at'>[],
+  session: SessionTiming,
+  now: Date = new Date()
+): TimelineSegment[] {
+  const sorted = [...entries].sort((a, b) => a.started_at.localeCompare(b.started_at));
+
+  return sorted.map((entry, i) => {
+    const endedAt = entry.ended_at ?? sorted[i + 1]?.started_at ?? session.ended_at ?? null;
+    return {
+      step: entry.step,
+      section: entry.section,
+      started_at: entry.started_at,
+      ended_at: endedAt,
+      duration_seconds: secondsBetween(entry.started_at, endedAt ?? now.toISOString()),
+    };
+  });
+}
+
+/**
+ * Total time spent in each section (sections can be revisited)
+ */
+export function sumSectionSeconds(timeline: TimelineSegment[]): Record<string, number> {
+  const totals: Record<string, number> = {};
+  for (const segment of timeline) {
+    totals[segment.section] = (totals[segment.section] ?? 0) + segment.duration_seconds;
+  }
+  return totals;
+}
+
+/**
+ * "1h 05m", "12m" or "45s"
+ */
+export function formatDuration(seconds: number): string {
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.round(seconds / 60);
+  if (minutes < 60) return `${minutes}m`;
+  return `${Math.floor(minutes / 60)}h ${String(minutes % 60).padStart(2, '0')}m`;
+}
+
+function csvCell(value: string | number | boolean | null): string {
+  if (value === null) return '';
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv(rows: (string | number | boolean | null)[][]): string {
+  return rows.map((row) => row.map(csvCell).join(',')).join('\n');
+}
+
+/**
+ * Attendance of a session as CSV, including expected participants who never joined
+ */
+export function attendanceReportCsv(report: LiveSessionReport): string {
+  return toCsv([
+    ['Name', 'GitHub', 'Joined', 'Left', 'Minutes Present', 'Attendance %', 'Late (min)', 'Times Left', 'Dropped Off', 'Attended'],
+    ...report.attendance.map((row) => [
+      row.name,
+      row.github_username,
+      row.joined_at,
+      row.left_at,
+      Math.round(row.attended_seconds / 60),
+      row.attendance_percent,
+      row.late_minutes,
+      row.leave_count,
+      row.dropped_off ? 'Yes' : 'No',
+      row.attended ? 'Yes' : 'No',
+    ]),
+    ...report.absent.map((row) => [row.name, row.github_username, null, null, 0, 0, null, 0, 'No', 'No']),
+  ]);
+}
+
+/**
+ * Step/section timeline of a session as CSV
+ */
+export function timelineCsv(report: LiveSessionReport): string {
+  return toCsv([
+    ['Step', 'Section', 'Started', 'Ended', 'Minutes'],
+    ...report.timeline.map((segment) => [
+      segment.step,
+      segment.section,
+      segment.started_at,
+      segment.ended_at,
+      Math.round((segment.duration_seconds / 60) * 10) / 10,
+    ]),
+  ]);
+}
+
+/**
+ * Attendance report and timeline of one session
+ */
+export async function getSessionReport(
+  supabase: ServiceClient,
+  sessionId: string,
+  now: Date = new Date()
+): Promise<LiveSessionReport | null> {
+  const { data: session } = await supabase
+    .from('live_sessions')
+    .select('id, join_code, instructor_id, started_at, ended_at, is_active, mission_days(day, title), instructor:instructor_id(name)')
+    .eq('id', sessionId)
+    .single();
+
+  if (!session) return null;
+
+  const [{ data: records }, { data: entries }, { data: expected }] = await Promise.all([
+    supabase
+      .from('live_session_participants')
+      .select('*, participants(id, name, github_username)')
+      .eq('session_id', sessionId),
+    supabase
+      .from('live_session_timeline')
+      .select('step, section, started_at, ended_at')
+      .eq('session_id', sessionId),
+    supabase
+      .from('participants')
+      .select('id, name, github_username')
+      .eq('status', 'approved')
+      .eq('is_admin', false)
+      .lt('created_at', session.ended_at ?? now.toISOString()),
+  ]);
+
+  const attendance: AttendanceReportRow[] = (records || [])
+    .map((record) => {
+      const participant = record.participants as unknown as { id: string; name: string; github_username: string | null } | null;
+      return {
+        participant_id: record.participant_id as string,
+        name: participant?.name ?? 'Unknown',
+        github_username: participant?.github_username ?? null,
+        ...summarizeAttendance(session, record as LiveSessionParticipant, now),
+      };
+    })
+    .sort((a, b) => a.joined_at.localeCompare(b.joined_at));
+
+  const joined = new Set(attendance.map((row) => row.participant_id));
+  const absent = (expected || [])
+    .filter((p) => !joined.has(p.id) && p.id !== session.instructor_id)
+    .map((p) => ({ participant_id: p.id, name: p.name, github_username: p.github_username }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  const timeline = buildTimeline(entries || [], session, now);
+
+  return {
+    session: {
+      id: session.id,
+      join_code: session.join_code,
+      started_at: session.started_at,
+      ended_at: session.ended_at,
+      is_active: session.is_active,
+      mission_day: session.mission_days as unknown as { day: number; title: string } | null,
+      instructor_name: (session.instructor as unknown as { name: string } | null)?.name ?? null,
+    },
+    duration_seconds: secondsBetween(session.started_at, session.ended_at ?? now.toISOString()),
+    attendance,
+    absent,
+    timeline,
+    section_seconds: sumSectionSeconds(timeline),
+  };
+}
+
+/**
+ * Close the running stretch of active participants (one participant leaving,
+ * or everyone when the session ends)
+ */
+export async function closeAttendance(
+  supabase: ServiceClient,
+  sessionId: string,
+  options: { at: string; participantId?: string; isLeave: boolean }
+): Promise<void> {
+  let query = supabase
+    .from('live_session_participants')
+    .select('id, joined_at, rejoined_at, attended_seconds, leave_count')
+    .eq('session_id', sessionId)
+    .eq('is_active', true);
+
+  if (options.participantId) {
+    query = query.eq('participant_id', options.participantId);
+  }
+
+  const { data: records, error } = await query;
+  if (error) throw error;
+
+  for (const record of records || []) {
+    const { error: updateError } = await supabase
+      .from('live_session_participants')
+      .update({
+        is_active: false,
+        left_at: options.at,
+        attended_seconds: record.attended_seconds + secondsBetween(record.rejoined_at ?? record.joined_at, options.at),
+        leave_count: record.leave_count + (options.isLeave ? 1 : 0),
+      })
+      .eq('id', record.id);
+
+    if (updateError) throw updateError;
+  }
+}
+
+/**
+ * Record the instructor moving to a step/section, closing the previous entry
+ */
+export async function recordTimelineStep(
+  supabase: ServiceClient,
+  sessionId: string,
+  step: number,
+  section: string,
+  at: string = new Date().toISOString()
+): Promise<void> {
+  await closeTimeline(supabase, sessionId, at);
+
+  const { error } = await supabase
+    .from('live_session_timeline')
+    .insert({ session_id: sessionId, step, section, started_at: at });
+
+  if (error) throw error;
+}
+
+/**
+ * Close the running timeline entry of a session
+ */
+export async function closeTimeline(supabase: ServiceClient, sessionId: string, at: string): Promise<void> {
+  const { error } = await supabase
+    .from('live_session_timeline')
+    .update({ ended_at: at })
+    .eq('session_id', sessionId)
+    .is('ended_at', null);
+
+  if (error) throw error;
+}
+
+export interface LiveAttendanceTotals {
+  live_sessions_attended: number;
+  live_sessions_missed: number;
+  live_minutes_attended: number;
+}
+
+/**
+ * Live lab totals of one participant over ended sessions. Sessions that ended
+ * before the participant registered, or that they taught, are not counted.
+ */
+export function countLiveAttendance(
+  participant: { id: string; created_at: string },
+  sessions: (SessionTiming & { id: string; instructor_id: string | null })[],
+  records: (AttendanceRecord & { session_id: string; participant_id: string })[]
+): LiveAttendanceTotals {
+  const totals: LiveAttendanceTotals = {
+    live_sessions_attended: 0,
+    live_sessions_missed: 0,
+    live_minutes_attended: 0,
+  };
+
+  for (const session of sessions) {
+    if (!session.ended_at || session.instructor_id === participant.id) continue;
+    if (new Date(participant.created_at) >= new Date(session.ended_at)) continue;
+
+    const record = records.find((r) => r.session_id === session.id && r.participant_id === participant.id);
+    const summary = record ? summarizeAttendance(session, record) : null;
+
+    if (summary?.attended) {
+      totals.live_sessions_attended++;
+    } else {
+      totals.live_sessions_missed++;
+    }
+    totals.live_minutes_attended += Math.round((summary?.attended_seconds ?? 0) / 60);
+  }
+
+  return totals;
+}
+
+/**
+ * Recalculate the live lab counters on participant_mastery from all ended
+ * sessions. With a session id only the people who joined that session are
+ * recalculated; the mastery-update cron runs the full pass that also counts
+ * the session as missed for everyone else.
+ */
+export async function syncAttendanceMastery(supabase: ServiceClient, sessionId?: string): Promise<number> {
+  let participantIds: string[] | null = null;
+  if (sessionId) {
+    const joined = await readAllPages((from, to) =>
+      supabase
+        .from('live_session_participants')
+        .select('participant_id')
+        .eq('session_id', sessionId)
+        .order('participant_id')
+        .range(from, to)
+    );
+    participantIds = [...new Set(joined.map((r) => r.participant_id as string))];
+    if (participantIds.length === 0) return 0;
+  }
+
+  const sessions = await readAllPages((from, to) =>
+    supabase
+      .from('live_sessions')
+      .select('id, instructor_id, started_at, ended_at')
+      .eq('is_active', false)
+      .not('ended_at', 'is', null)
+      .order('id')
+      .range(from, to)
+  );
+
+  const participants = await readAllPages((from, to) => {
+    let query = supabase
+      .from('participants')
+      .select('id, created_at')
+      .eq('status', 'approved')
+      .eq('is_admin', false);
+    if (participantIds) query = query.in('id', participantIds);
+    return query.order('id').range(from, to);
+  });
+  if (participants.length === 0 || sessions.length === 0) return 0;
+
+  const records = await readAllPages((from, to) => {
+    let query = supabase
+      .from('live_session_participants')
+      .select('session_id, participant_id, joined_at, left_at, rejoined_at, attended_seconds, leave_count, is_active');
+    if (participantIds) query = query.in('participant_id', participantIds);
+    return query.order('id').range(from, to);
+  });
+
+  const recordsByParticipant = new Map<string, typeof records>();
+  for (const record of records) {
+    recordsByParticipant.set(record.participant_id, [...(recordsByParticipant.get(record.participant_id) ?? []), record]);
+  }
+
+  let updated = 0;
+  for (const participant of participants) {
+    const totals = countLiveAttendance(participant, sessions, recordsByParticipant.get(participant.id) ?? []);
+    const { error: updateError } = await supabase
+      .from('participant_mastery')
+      .update(totals)
+      .eq('participant_id', participant.id);
+
+    if (updateError) {
+      console.error(`Failed to update live attendance for ${participant.id}:`, updateError);
+    } else {
+      updated++;
+    }
+  }
+
+  return updated;
+}
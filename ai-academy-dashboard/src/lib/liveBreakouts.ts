@@ -0,0 +1,297 @@
+import type { createServiceSupabaseClient } from './supabase';
+import type { LiveBreakoutRoom, LiveBreakoutStrategy } from './types';
+import { getSessionStaff } from './liveSessionRoles';
+
+/**
+ * Live session breakout rooms
+ * During the lab section the instructor splits the participants into rooms
+ * by task force, role or at random. Each room has its own presence channel
+ * (see useBreakoutRoomPresence) and shared notes. Participants who join while
+ * rooms are open are placed in their group's room, or the smallest one.
+ */
+
+type ServiceClient = ReturnType<typeof createServiceSupabaseClient>;
+
+export const BREAKOUT_STRATEGY_LABELS: Record<LiveBreakoutStrategy, string> = {
+  task_force: 'By Task Force',
+  role: 'By Role',
+  random: 'Random',
+};
+
+// Notes edited within this window count as recent room activity
+export const ROOM_ACTIVE_MINUTES = 5;
+
+export interface BreakoutCandidate {
+  participant_id: string;
+  role: string | null;
+  task_force: { id: number; name: string } | null;
+}
+
+export interface PlannedRoom {
+  name: string;
+  group_key: string | null;
+  participant_ids: string[];
+}
+
+export interface BreakoutRoomView extends LiveBreakoutRoom {
+  members: { participant_id: string; name: string; avatar_url: string | null; role: string | null }[];
+}
+
+export type RoomActivityLevel = 'active' | 'quiet' | 'empty';
+
+/**
+ * Presence channel of a breakout room
+ */
+export function breakoutPresenceChannel(sessionCode: string, roomId: string): string {
+  return `presence-session-${sessionCode.toUpperCase()}-room-${roomId}`;
+}
+
+function groupRooms(
+  candidates: BreakoutCandidate[],
+  keyOf: (c: BreakoutCandidate) => { key: string; name: string } | null,
+  fallbackName: string
+): PlannedRoom[] {
+  const rooms = new Map<string, PlannedRoom>();
+  const ungrouped: string[] = [];
+
+  for (const candidate of candidates) {
+    const group = keyOf(candidate);
+    if (!group) {
+      ungrouped.push(candidate.participant_id);
+      continue;
+    }
+    const room = rooms.get(group.key) ?? { name: group.name, group_key: group.key, participant_ids: [] };
+    room.participant_ids.push(candidate.participant_id);
+    rooms.set(group.key, room);
+  }
+
+  const planned = [...rooms.values()].sort((a, b) => a.name.localeCompare(b.name));
+  if (ungrouped.length > 0) {
+    planned.push({ name: fallbackName, group_key: null, participant_ids: ungrouped });
+  }
+  return planned;
+}
+
+/**
+ * Split participants into rooms. Random rooms are filled round-robin after a
+ * shuffle so sizes differ by at most one.
+ */
+export function planBreakoutRooms(
+  candidates: BreakoutCandidate[],
+  strategy: LiveBreakoutStrategy,
+  options: { roomCount?: number; random?: () => number } = {}
+): PlannedRoom[] {
+  if (candidates.length === 0) return [];
+
+  if (strategy === 'task_force') {
+    return groupRooms(
+      candidates,
+      (c) => (c.task_force ? { key: String(c.task_force.id), name: c.task_force.name } : null),
+      'No Task Force'
+    );
+  }
+
+  if (strategy === 'role') {
+    return groupRooms(candidates, (c) => (c.role ? { key: c.role, name: c.role } : null), 'No Role');
+  }
+
+  const random = options.random ?? Math.random;
+  const shuffled = candidates.map((c) => c.participant_id);
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+
+  const roomCount = Math.max(1, Math.min(options.roomCount ?? 2, shuffled.length));
+  const rooms: PlannedRoom[] = Array.from({ length: roomCount }, (_, i) => ({
+    name: `Room ${i + 1}`,
+    group_key: null,
+    participant_ids: [],
+  }));
+  shuffled.forEach((id, i) => rooms[i % roomCount].participant_ids.push(id));
+  return rooms;
+}
+
+/**
+ * Room for a participant who joins while rooms are open: their own group's
+ * room if there is one, otherwise the room with the fewest members
+ */
+export function pickRoomForLateJoiner<T extends { id: string; strategy: LiveBreakoutStrategy; group_key: string | null; member_count: number }>(
+  rooms: T[],
+  candidate: BreakoutCandidate
+): T | null {
+  if (rooms.length === 0) return null;
+
+  const groupKey = rooms[0].strategy === 'task_force'
+    ? (candidate.task_force ? String(candidate.task_force.id) : null)
+    : rooms[0].strategy === 'role'
+      ? candidate.role
+      : null;
+
+  const ownRoom = groupKey ? rooms.find((r) => r.group_key === groupKey) : undefined;
+  if (ownRoom) return ownRoom;
+
+  return [...rooms].sort((a, b) => a.member_count - b.member_count)[0];
+}
+
+/**
+ * How busy a room looks to the instructor: members online and recent notes
+ */
+export function roomActivityLevel(
+  onlineCount: number,
+  notesUpdatedAt: string | null,
+  now: Date = new Date()
+): RoomActivityLevel {
+  if (onlineCount === 0) return 'empty';
+  if (notesUpdatedAt && now.getTime() - new Date(notesUpdatedAt).getTime() <= ROOM_ACTIVE_MINUTES * 60 * 1000) {
+    return 'active';
+  }
+  return 'quiet';
+}
+
+async function loadCandidates(
+  supabase: ServiceClient,
+  sessionId: string,
+  participantIds?: string[]
+): Promise<BreakoutCandidate[]> {
+  let query = supabase
+    .from('live_session_participants')
+    .select('participant_id, participants(role, task_force_members(task_force_id, task_forces(display_name)))')
+    .eq('session_id', sessionId)
+    .eq('is_active', true);
+
+  if (participantIds) {
+    query = query.in('participant_id', participantIds);
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+
+  return (data || []).map((row) => {
+    const participant = row.participants as unknown as {
+      role: string | null;
+      task_force_members: { task_force_id: number; task_forces: { display_name: string } | null }[] | null;
+    } | null;
+    const membership = participant?.task_force_members?.[0];
+    return {
+      participant_id: row.participant_id as string,
+      role: participant?.role ?? null,
+      task_force: membership
+        ? { id: membership.task_force_id, name: membership.task_forces?.display_name ?? `Task Force ${membership.task_force_id}` }
+        : null,
+    };
+  });
+}
+
+/**
+ * Open rooms of a session with their members
+ */
+export async function getOpenRooms(supabase: ServiceClient, sessionId: string): Promise<BreakoutRoomView[]> {
+  const { data: rooms, error } = await supabase
+    .from('live_session_breakout_rooms')
+    .select('*, live_session_breakout_members(participant_id, participants(name, avatar_url, role))')
+    .eq('session_id', sessionId)
+    .is('closed_at', null)
+    .order('name');
+
+  if (error) throw error;
+
+  return (rooms || []).map((room) => {
+    const { live_session_breakout_members: members, ...rest } = room as LiveBreakoutRoom & {
+      live_session_breakout_members: {
+        participant_id: string;
+        participants: { name: string; avatar_url: string | null; role: string | null } | null;
+      }[];
+    };
+    return {
+      ...rest,
+      members: members
+        .map((m) => ({
+          participant_id: m.participant_id,
+          name: m.participants?.name ?? 'Unknown',
+          avatar_url: m.participants?.avatar_url ?? null,
+          role: m.participants?.role ?? null,
+        }))
+        .sort((a, b) => a.name.localeCompare(b.name)),
+    };
+  });
+}
+
+/**
+ * Close all open rooms of a session (everyone called back)
+ */
+export async function closeBreakoutRooms(supabase: ServiceClient, sessionId: string): Promise<void> {
+  const { error } = await supabase
+    .from('live_session_breakout_rooms')
+    .update({ closed_at: new Date().toISOString() })
+    .eq('session_id', sessionId)
+    .is('closed_at', null);
+
+  if (error) throw error;
+}
+
+/**
+ * Replace the open rooms of a session with a new split of the active participants
+ */
+export async function openBreakoutRooms(
+  supabase: ServiceClient,
+  session: { id: string; instructor_id: string | null },
+  strategy: LiveBreakoutStrategy,
+  roomCount?: number
+): Promise<BreakoutRoomView[]> {
+  // The session team moves between rooms instead of joining one
+  const staff = new Set((await getSessionStaff(supabase, session.id)).map((s) => s.participant_id));
+  const candidates = (await loadCandidates(supabase, session.id)).filter(
+    (c) => c.participant_id !== session.instructor_id && !staff.has(c.participant_id)
+  );
+  const planned = planBreakoutRooms(candidates, strategy, { roomCount });
+
+  await closeBreakoutRooms(supabase, session.id);
+  if (planned.length === 0) return [];
+
+  const { data: rooms, error } = await supabase
+    .from('live_session_breakout_rooms')
+    .insert(planned.map((p) => ({ session_id: session.id, name: p.name, strategy, group_key: p.group_key })))
+    .select('id, name');
+
+  if (error) throw error;
+
+  const roomIds = new Map((rooms || []).map((r) => [r.name as string, r.id as string]));
+  const { error: membersError } = await supabase
+    .from('live_session_breakout_members')
+    .insert(
+      planned.flatMap((p) =>
+        p.participant_ids.map((participantId) => ({ room_id: roomIds.get(p.name), participant_id: participantId }))
+      )
+    );
+
+  if (membersError) throw membersError;
+  return getOpenRooms(supabase, session.id);
+}
+
+/**
+ * Place a participant who (re)joined the session into an open room, if any
+ */
+export async function assignLateJoiner(supabase: ServiceClient, sessionId: string, participantId: string): Promise<void> {
+  const rooms = await getOpenRooms(supabase, sessionId);
+  if (rooms.length === 0) return;
+  if (rooms.some((r) => r.members.some((m) => m.participant_id === participantId))) return;
+
+  const staff = await getSessionStaff(supabase, sessionId);
+  if (staff.some((s) => s.participant_id === participantId)) return;
+
+  const [candidate] = await loadCandidates(supabase, sessionId, [participantId]);
+  if (!candidate) return;
+
+  const room = pickRoomForLateJoiner(
+    rooms.map((r) => ({ ...r, member_count: r.members.length })),
+    candidate
+  );
+  if (!room) return;
+
+  const { error } = await supabase
+    .from('live_session_breakout_members')
+    .insert({ room_id: room.id, participant_id: participantId });
+
+  if (error) throw error;
+}
@@ -0,0 +1,135 @@
+import type { createServiceSupabaseClient } from './supabase';
+import type { LivePollKind, LivePollResults, LiveSessionPoll } from './types';
+
+/**
+ * Live session polls
+ * Instructors push a poll, multiple-choice question or confidence check to
+ * everyone in a session. Results are aggregated from the stored responses;
+ * closing a poll snapshots them onto the poll row.
+ */
+
+type ServiceClient = ReturnType<typeof createServiceSupabaseClient>;
+
+// Fixed scale for confidence checks (option index 0 = 1)
+export const CONFIDENCE_OPTIONS = [
+  'Lost',
+  'Shaky',
+  'Getting there',
+  'Confident',
+  'Could teach it',
+];
+
+export const POLL_KIND_LABELS: Record<LivePollKind, string> = {
+  poll: 'Poll',
+  multiple_choice: 'Quick Check',
+  confidence: 'Confidence Check',
+};
+
+/**
+ * Aggregate responses (option indexes) for a poll
+ */
+export function aggregatePollResults(
+  poll: Pick<LiveSessionPoll, 'kind' | 'options' | 'correct_option'>,
+  optionIndexes: number[]
+): LivePollResults {
+  const counts = poll.options.map(() => 0);
+  for (const index of optionIndexes) {
+    if (index >= 0 && index < counts.length) counts[index]++;
+  }
+  const total = counts.reduce((sum, c) => sum + c, 0);
+
+  let correctPercent: number | null = null;
+  if (poll.kind === 'multiple_choice' && poll.correct_option !== null) {
+    correctPercent = total > 0 ? Math.round(((counts[poll.correct_option] ?? 0) / total) * 100) : 0;
+  }
+
+  let average: number | null = null;
+  if (poll.kind === 'confidence' && total > 0) {
+    const sum = counts.reduce((acc, c, i) => acc + c * (i + 1), 0);
+    average = Math.round((sum / total) * 10) / 10;
+  }
+
+  return { counts, total, correct_percent: correctPercent, average };
+}
+
+export interface PollWithResults extends LiveSessionPoll {
+  my_response: number | null;
+}
+
+/**
+ * All polls of a session with live results and the caller's own answer
+ * (closed polls keep their saved snapshot)
+ */
+export async function getSessionPolls(
+  supabase: ServiceClient,
+  sessionId: string,
+  participantId: string | null
+): Promise<PollWithResults[]> {
+  const { data: polls, error } = await supabase
+    .from('live_session_polls')
+    .select('*')
+    .eq('session_id', sessionId)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  if (!polls || polls.length === 0) return [];
+
+  const { data: responses } = await supabase
+    .from('live_session_poll_responses')
+    .select('poll_id, participant_id, option_index')
+    .in('poll_id', polls.map((p) => p.id));
+
+  return (polls as LiveSessionPoll[]).map((poll) => {
+    const pollResponses = (responses || []).filter((r) => r.poll_id === poll.id);
+    return {
+      ...poll,
+      results: poll.results ?? aggregatePollResults(poll, pollResponses.map((r) => r.option_index)),
+      my_response: pollResponses.find((r) => r.participant_id === participantId)?.option_index ?? null,
+    };
+  });
+}
+
+/**
+ * Close a poll, saving its results snapshot
+ */
+export async function closePoll(
+  supabase: ServiceClient,
+  poll: Pick<LiveSessionPoll, 'id' | 'kind' | 'options' | 'correct_option'>
+): Promise<LivePollResults> {
+  const { data: responses } = await supabase
+    .from('live_session_poll_responses')
+    .select('option_index')
+    .eq('poll_id', poll.id);
+
+  const results = aggregatePollResults(poll, (responses || []).map((r) => r.option_index));
+
+  const { error } = await supabase
+    .from('live_session_polls')
+    .update({
+      status: 'closed',
+      closed_at: new Date().toISOString(),
+      results,
+    })
+    .eq('id', poll.id);
+
+  if (error) throw error;
+  return results;
+}
+
+/**
+ * Close every open poll of a session (new poll opened, session ended)
+ */
+export async function closeOpenPolls(supabase: ServiceClient, sessionId: string): Promise<number> {
+  const { data: openPolls, error } = await supabase
+    .from('live_session_polls')
+    .select('id, kind, options, correct_option')
+    .eq('session_id', sessionId)
+    .eq('status', 'open');
+
+  if (error) throw error;
+
+  for (const poll of openPolls || []) {
+    await closePoll(supabase, poll);
+  }
+  return openPolls?.length ?? 0;
+}
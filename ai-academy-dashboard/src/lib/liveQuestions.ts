@@ -0,0 +1,81 @@
+import type { createServiceSupabaseClient } from './supabase';
+import type { LiveSessionQuestion } from './types';
+
+/**
+ * Live session question queue
+ * Students raise a hand or ask a question; classmates upvote questions and
+ * the instructor works through the queue. Students see questions without
+ * author names, and only their own raised hand.
+ */
+
+type ServiceClient = ReturnType<typeof createServiceSupabaseClient>;
+
+// participant_id is left out so classmates cannot identify authors
+export interface QueuedQuestion extends Omit<LiveSessionQuestion, 'participant_id'> {
+  author_name: string | null;  // Only for the instructor and the author
+  votes: number;
+  has_voted: boolean;
+  is_mine: boolean;
+}
+
+/**
+ * Open items first (raised hands, then most upvoted questions, oldest first
+ * on ties), followed by answered and dismissed items, newest first
+ */
+export function sortQuestionQueue<T extends Pick<QueuedQuestion, 'status' | 'kind' | 'votes' | 'created_at'>>(
+  questions: T[]
+): T[] {
+  return [...questions].sort((a, b) => {
+    const aOpen = a.status === 'open';
+    const bOpen = b.status === 'open';
+    if (aOpen !== bOpen) return aOpen ? -1 : 1;
+    if (!aOpen) return b.created_at.localeCompare(a.created_at);
+    if (a.kind !== b.kind) return a.kind === 'hand' ? -1 : 1;
+    if (a.votes !== b.votes) return b.votes - a.votes;
+    return a.created_at.localeCompare(b.created_at);
+  });
+}
+
+/**
+ * Question queue of a session as seen by one participant
+ */
+export async function getSessionQuestions(
+  supabase: ServiceClient,
+  sessionId: string,
+  viewer: { participantId: string; isModerator: boolean }
+): Promise<QueuedQuestion[]> {
+  const { data: questions, error } = await supabase
+    .from('live_session_questions')
+    .select('*, author:participant_id(name)')
+    .eq('session_id', sessionId);
+
+  if (error) throw error;
+  if (!questions || questions.length === 0) return [];
+
+  const { data: votes } = await supabase
+    .from('live_session_question_votes')
+    .select('question_id, participant_id')
+    .in('question_id', questions.map((q) => q.id));
+
+  const queue = questions
+    .filter((q) => {
+      if (viewer.isModerator || q.participant_id === viewer.participantId) return true;
+      // Classmates only see open and answered questions
+      return q.kind === 'question' && q.status !== 'dismissed';
+    })
+    .map((q) => {
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      const { author, participant_id, ...question } = q as LiveSessionQuestion & { author: { name: string } | null };
+      const questionVotes = (votes || []).filter((v) => v.question_id === q.id);
+      const isMine = q.participant_id === viewer.participantId;
+      return {
+        ...question,
+        author_name: viewer.isModerator || isMine ? author?.name ?? null : null,
+        votes: questionVotes.length,
+        has_voted: questionVotes.some((v) => v.participant_id === viewer.participantId),
+        is_mine: isMine,
+      };
+    });
+
+  return sortQuestionQueue(queue);
+}
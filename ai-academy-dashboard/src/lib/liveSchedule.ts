@@ -0,0 +1,271 @@
+import type { createServiceSupabaseClient } from './supabase';
+import { getUnlockDate, isDayUnlocked, programToday } from './programCalendar';
+import { fromLocalDateTime } from './timezone';
+import type { ProgramCalendar } from './types';
+
+/**
+ * Scheduled live sessions and calendar feeds
+ * Live sessions can be booked ahead of time against a mission day
+ * (scheduled_live_sessions). Participants get a reminder email shortly before
+ * the start and can subscribe to a personal iCal feed with the sessions,
+ * assignment deadlines and intel drop times. Intel drops release at their
+ * trigger_time on the day's unlock date, in the program timezone.
+ */
+
+type ServiceClient = ReturnType<typeof createServiceSupabaseClient>;
+
+// The reminder cron runs hourly; sessions starting within this window get their email
+export const REMINDER_LEAD_MINUTES = 60;
+
+// Longest session that can be scheduled, also bounds the "still running" lookup
+export const MAX_SESSION_MINUTES = 480;
+
+export interface UpcomingLiveSession {
+  id: string;
+  title: string;
+  description: string | null;
+  starts_at: string;
+  duration_minutes: number;
+  mission_day: { day: number; title: string } | null;
+  instructor_id: string | null;
+  instructor_name: string | null;
+  // Join code once an instructor started the session
+  join_code: string | null;
+  is_live: boolean;
+}
+
+export interface CalendarEvent {
+  uid: string;
+  title: string;
+  description?: string | null;
+  start: Date;
+  // No end = a point in time, e.g. a deadline
+  end?: Date | null;
+  url?: string | null;
+}
+
+export function sessionEndsAt(session: { starts_at: string; duration_minutes: number }): Date {
+  return new Date(new Date(session.starts_at).getTime() + session.duration_minutes * 60_000);
+}
+
+/**
+ * Whether the reminder cron should email about a scheduled session now
+ */
+export function isDueForReminder(
+  session: { starts_at: string; reminder_sent_at: string | null; cancelled_at: string | null; session_id: string | null },
+  now: Date = new Date(),
+  leadMinutes: number = REMINDER_LEAD_MINUTES
+): boolean {
+  if (session.reminder_sent_at || session.cancelled_at || session.session_id) return false;
+  const minutesToStart = (new Date(session.starts_at).getTime() - now.getTime()) / 60_000;
+  return minutesToStart > 0 && minutesToStart <= leadMinutes;
+}
+
+/**
+ * Release time of an intel drop: its trigger_time on the day's unlock date,
+ * or the start of that date when it has none. Null when the day is not on the calendar.
+ */
+export function intelDropReleaseTime(
+  calendar: ProgramCalendar,
+  drop: { day: number; trigger_time: string | null }
+): Date | null {
+  const unlockDate = getUnlockDate(calendar, drop.day);
+  if (!unlockDate) return null;
+  return fromLocalDateTime(unlockDate, drop.trigger_time ?? '00:00');
+}
+
+/**
+ * Scheduled sessions that have not ended yet, soonest first
+ */
+export async function getUpcomingLiveSessions(
+  supabase: ServiceClient,
+  options: { now?: Date; limit?: number } = {}
+): Promise<UpcomingLiveSession[]> {
+  const { now = new Date(), limit = 10 } = options;
+  const earliestStart = new Date(now.getTime() - MAX_SESSION_MINUTES * 60_000);
+
+  const { data, error } = await supabase
+    .from('scheduled_live_sessions')
+    .select(`
+      id, title, description, starts_at, duration_minutes, instructor_id,
+      mission_days(day, title),
+      instructor:instructor_id(name),
+      live_sessions(join_code, is_active)
+    `)
+    .is('cancelled_at', null)
+    .gte('starts_at', earliestStart.toISOString())
+    .order('starts_at')
+    .limit(limit + 20);
+
+  if (error) throw error;
+
+  return (data || [])
+    .flatMap((row) => {
+      const live = row.live_sessions as unknown as { join_code: string | null; is_active: boolean } | null;
+      // Started and already over
+      if (live && !live.is_active) return [];
+
+      return {
+        id: row.id as string,
+        title: row.title as string,
+        description: row.description as string | null,
+        starts_at: row.starts_at as string,
+        duration_minutes: row.duration_minutes as number,
+        mission_day: row.mission_days as unknown as { day: number; title: string } | null,
+        instructor_id: row.instructor_id as string | null,
+        instructor_name: (row.instructor as unknown as { name: string } | null)?.name ?? null,
+        join_code: live?.is_active ? live.join_code : null,
+        is_live: !!live?.is_active,
+      };
+    })
+    .filter((session) => session.is_live || sessionEndsAt(session) > now)
+    .slice(0, limit);
+}
+
+/**
+ * Everything in a participant's calendar feed: scheduled sessions, deadlines
+ * of their assignments and intel drop times. Titles of days that have not
+ * unlocked yet are left out, as participants cannot see those days.
+ */
+export async function getCalendarFeedEvents(
+  supabase: ServiceClient,
+  participant: { id: string; role: string | null },
+  calendar: ProgramCalendar,
+  appUrl: string
+): Promise<CalendarEvent[]> {
+  const [sessionsResult, assignmentsResult, intelResult] = await Promise.all([
+    supabase
+      .from('scheduled_live_sessions')
+      .select('id, title, description, starts_at, duration_minutes, mission_days(day)')
+      .is('cancelled_at', null),
+    supabase
+      .from('assignments')
+      .select('id, day, title, type, target_roles, due_at')
+      .not('due_at', 'is', null),
+    supabase
+      .from('intel_drops')
+      .select('id, day, title, trigger_time, is_released'),
+  ]);
+
+  if (sessionsResult.error) throw sessionsResult.error;
+  if (assignmentsResult.error) throw assignmentsResult.error;
+  if (intelResult.error) throw intelResult.error;
+
+  const today = programToday();
+  const events: CalendarEvent[] = [];
+
+  for (const session of sessionsResult.data || []) {
+    const day = (session.mission_days as unknown as { day: number } | null)?.day;
+    events.push({
+      uid: `live-session-${session.id}`,
+      title: `Live: ${session.title}`,
+      description: session.description,
+      start: new Date(session.starts_at),
+      end: sessionEndsAt(session),
+      url: day ? `${appUrl}/mission/day/${day}` : `${appUrl}/mission`,
+    });
+  }
+
+  for (const assignment of assignmentsResult.data || []) {
+    const roles = assignment.target_roles as string[] | null;
+    if (roles && (!participant.role || !roles.includes(participant.role))) continue;
+
+    const unlocked = isDayUnlocked(calendar, assignment.day, today);
+    events.push({
+      uid: `assignment-${assignment.id}`,
+      title: unlocked
+        ? `Due: Day ${assignment.day} - ${assignment.title}`
+        : `Due: Day ${assignment.day} ${assignment.type === 'in_class' ? 'in-class' : 'homework'} assignment`,
+      start: new Date(assignment.due_at as string),
+      url: unlocked ? `${appUrl}/mission/day/${assignment.day}` : null,
+    });
+  }
+
+  for (const drop of intelResult.data || []) {
+    const releaseTime = intelDropReleaseTime(calendar, drop);
+    if (!releaseTime) continue;
+
+    events.push({
+      uid: `intel-drop-${drop.id}`,
+      title: drop.is_released ? `Intel: ${drop.title}` : `Intel drop - Day ${drop.day}`,
+      start: releaseTime,
+      url: drop.is_released ? `${appUrl}/intel` : null,
+    });
+  }
+
+  return events.sort((a, b) => a.start.getTime() - b.start.getTime());
+}
+
+// ============================================================================
+// iCalendar (RFC 5545)
+// ============================================================================
+
+function formatICalDate(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function escapeICalText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Split a content line into 75-octet chunks, continuation lines start with a space
+ */
+function foldICalLine(line: string): string {
+  const encoder = new TextEncoder();
+  const chunks: string[] = [];
+  let current = '';
+  let currentOctets = 0;
+
+  for (const char of line) {
+    const octets = encoder.encode(char).length;
+    // The leading space of a continuation line counts towards its 75 octets
+    const limit = chunks.length === 0 ? 75 : 74;
+    if (currentOctets + octets > limit) {
+      chunks.push(current);
+      current = '';
+      currentOctets = 0;
+    }
+    current += char;
+    currentOctets += octets;
+  }
+  chunks.push(current);
+
+  return chunks.join('\r\n ');
+}
+
+export function buildICalendar(
+  events: CalendarEvent[],
+  options: { name: string; now?: Date }
+): string {
+  const stamp = formatICalDate(options.now ?? new Date());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//AI Academy//Dashboard//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeICalText(options.name)}`,
+  ];
+
+  for (const event of events) {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${event.uid}@ai-academy`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART:${formatICalDate(event.start)}`
+    );
+    if (event.end) lines.push(`DTEND:${formatICalDate(event.end)}`);
+    lines.push(`SUMMARY:${escapeICalText(event.title)}`);
+    if (event.description) lines.push(`DESCRIPTION:${escapeICalText(event.description)}`);
+    if (event.url) lines.push(`URL:${event.url}`);
+    lines.push('END:VEVENT');
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldICalLine).join('\r\n') + '\r\n';
+}
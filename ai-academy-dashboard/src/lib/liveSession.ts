@@ -0,0 +1,68 @@
+import { NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import type { createServiceSupabaseClient } from './supabase';
+import type { LiveSessionRole } from './types';
+import { getSessionRole } from './liveSessionRoles';
+
+/**
+ * Shared lookups for the /api/live-session/[code]/* routes
+ */
+
+type ServiceClient = ReturnType<typeof createServiceSupabaseClient>;
+
+export interface LiveSessionAccess {
+  participant: { id: string; name: string };
+  session: {
+    id: string;
+    instructor_id: string | null;
+    is_active: boolean;
+    current_step: number;
+    current_section: string;
+    state_version: number;
+  };
+  // Team role (lead, co-instructor, TA); null for attendees. Check rights
+  // with hasSessionRight from liveSessionRoles.ts
+  role: LiveSessionRole | null;
+}
+
+/**
+ * Resolve the signed-in participant and the session for a join code
+ */
+export async function getLiveSessionAccess(
+  supabase: ServiceClient,
+  code: string
+): Promise<{ found: true; access: LiveSessionAccess } | { found: false; response: NextResponse }> {
+  const { userId } = await auth();
+  if (!userId) {
+    return { found: false, response: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) };
+  }
+
+  const { data: participant } = await supabase
+    .from('participants')
+    .select('id, name')
+    .eq('auth_user_id', userId)
+    .single();
+
+  if (!participant) {
+    return { found: false, response: NextResponse.json({ error: 'Participant not found' }, { status: 404 }) };
+  }
+
+  const { data: session } = await supabase
+    .from('live_sessions')
+    .select('id, instructor_id, is_active, current_step, current_section, state_version')
+    .eq('join_code', code.toUpperCase())
+    .single();
+
+  if (!session) {
+    return { found: false, response: NextResponse.json({ error: 'Session not found' }, { status: 404 }) };
+  }
+
+  return {
+    found: true,
+    access: {
+      participant,
+      session,
+      role: await getSessionRole(supabase, session, participant.id),
+    },
+  };
+}
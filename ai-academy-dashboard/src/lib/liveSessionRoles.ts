@@ -0,0 +1,156 @@
+import type { createServiceSupabaseClient } from './supabase';
+import type { LiveSessionRole } from './types';
+
+/**
+ * Live session team roles
+ * The lead (live_sessions.instructor_id) invites co-instructors and TAs from
+ * the admins and mentors. Rights are checked per role by the
+ * /api/live-session/[code]/* routes:
+ *   advance      - change step/section, run polls and breakout rooms
+ *   moderate     - answer and dismiss questions, see who asked
+ *   end          - end the session
+ *   manage_staff - invite and remove co-instructors and TAs
+ */
+
+type ServiceClient = ReturnType<typeof createServiceSupabaseClient>;
+
+export type LiveSessionRight = 'advance' | 'moderate' | 'end' | 'manage_staff';
+
+export const LIVE_SESSION_ROLE_LABELS: Record<LiveSessionRole, string> = {
+  lead: 'Lead',
+  co_instructor: 'Co-instructor',
+  ta: 'TA',
+};
+
+export const LIVE_SESSION_ROLE_RIGHTS: Record<LiveSessionRole, LiveSessionRight[]> = {
+  lead: ['advance', 'moderate', 'end', 'manage_staff'],
+  co_instructor: ['advance', 'moderate', 'end'],
+  ta: ['moderate'],
+};
+
+export interface StaffMember {
+  participant_id: string;
+  name: string;
+  avatar_url: string | null;
+  role: LiveSessionRole;
+  last_seen_at: string | null;
+}
+
+export interface StaffCandidate {
+  id: string;
+  name: string;
+  avatar_url: string | null;
+  is_admin: boolean;
+}
+
+export function hasSessionRight(role: LiveSessionRole | null, right: LiveSessionRight): boolean {
+  return role !== null && LIVE_SESSION_ROLE_RIGHTS[role].includes(right);
+}
+
+/**
+ * Role of a participant in a session, or null for attendees. The instructor
+ * is always the lead, also for sessions started before staff rows existed.
+ */
+export async function getSessionRole(
+  supabase: ServiceClient,
+  session: { id: string; instructor_id: string | null },
+  participantId: string
+): Promise<LiveSessionRole | null> {
+  if (session.instructor_id === participantId) return 'lead';
+
+  const { data } = await supabase
+    .from('live_session_staff')
+    .select('role')
+    .eq('session_id', session.id)
+    .eq('participant_id', participantId)
+    .maybeSingle();
+
+  const role = (data?.role as LiveSessionRole | undefined) ?? null;
+  // instructor_id decides who leads; a stale lead row mid hand-off does not
+  return role === 'lead' ? 'co_instructor' : role;
+}
+
+export async function getSessionStaff(supabase: ServiceClient, sessionId: string): Promise<StaffMember[]> {
+  const { data, error } = await supabase
+    .from('live_session_staff')
+    .select('participant_id, role, last_seen_at, participants(name, avatar_url)')
+    .eq('session_id', sessionId);
+
+  if (error) throw error;
+
+  const order: LiveSessionRole[] = ['lead', 'co_instructor', 'ta'];
+  return (data || [])
+    .map((row) => {
+      const participant = row.participants as unknown as { name: string; avatar_url: string | null } | null;
+      return {
+        participant_id: row.participant_id as string,
+        name: participant?.name ?? 'Unknown',
+        avatar_url: participant?.avatar_url ?? null,
+        role: row.role as LiveSessionRole,
+        last_seen_at: row.last_seen_at as string | null,
+      };
+    })
+    .sort((a, b) => order.indexOf(a.role) - order.indexOf(b.role) || a.name.localeCompare(b.name));
+}
+
+/**
+ * Admins and mentors who can still be invited to a session's team
+ */
+export async function getStaffCandidates(supabase: ServiceClient, sessionId: string): Promise<StaffCandidate[]> {
+  const [{ data: people, error }, staff] = await Promise.all([
+    supabase
+      .from('participants')
+      .select('id, name, avatar_url, is_admin')
+      .or('is_admin.eq.true,is_mentor.eq.true')
+      .order('name'),
+    getSessionStaff(supabase, sessionId),
+  ]);
+
+  if (error) throw error;
+
+  const onTeam = new Set(staff.map((s) => s.participant_id));
+  return (people || [])
+    .filter((p) => !onTeam.has(p.id))
+    .map((p) => ({ id: p.id, name: p.name, avatar_url: p.avatar_url, is_admin: !!p.is_admin }));
+}
+
+/**
+ * Online co-instructor to take over from a gone lead: the one seen most recently
+ */
+export function pickHandOffTarget(
+  staff: { participant_id: string; role: LiveSessionRole; last_seen_at: string | null }[],
+  isOnline: (lastSeenAt: string | null) => boolean
+): string | null {
+  const candidates = staff
+    .filter((s) => s.role === 'co_instructor' && isOnline(s.last_seen_at))
+    .sort((a, b) => new Date(b.last_seen_at as string).getTime() - new Date(a.last_seen_at as string).getTime());
+
+  return candidates[0]?.participant_id ?? null;
+}
+
+/**
+ * Swap the lead row after live_sessions.instructor_id changed hands
+ */
+export async function transferLead(
+  supabase: ServiceClient,
+  sessionId: string,
+  fromParticipantId: string | null,
+  toParticipantId: string
+): Promise<void> {
+  // Demote first: there is one lead per session
+  if (fromParticipantId) {
+    const { error } = await supabase
+      .from('live_session_staff')
+      .update({ role: 'co_instructor' })
+      .eq('session_id', sessionId)
+      .eq('participant_id', fromParticipantId);
+
+    if (error) throw error;
+  }
+
+  const { error } = await supabase
+    .from('live_session_staff')
+    .upsert({ session_id: sessionId, participant_id: toParticipantId, role: 'lead' });
+
+  if (error) throw error;
+}
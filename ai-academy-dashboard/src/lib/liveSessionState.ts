@@ -0,0 +1,176 @@
+import type { createServiceSupabaseClient } from './supabase';
+import type { LiveSessionRole } from './types';
+import { pickHandOffTarget, transferLead } from './liveSessionRoles';
+
+/**
+ * Server-authoritative live session state
+ * Step/section changes are persisted through PATCH /api/live-session/[code]
+ * and bump live_sessions.state_version. Broadcasts carry the version, so a
+ * client that sees a gap (or reconnects) refetches instead of guessing. The
+ * instructor's heartbeat is stored on the session; when it goes stale the
+ * session is handed off to an online co-instructor (see liveSessionRoles.ts).
+ */
+
+type ServiceClient = ReturnType<typeof createServiceSupabaseClient>;
+
+// How often clients report a heartbeat to the server
+export const HEARTBEAT_INTERVAL_SECONDS = 10;
+
+// Instructor is considered gone after this long without a heartbeat
+export const INSTRUCTOR_TIMEOUT_SECONDS = 30;
+
+export interface LiveSessionSnapshot {
+  current_step: number;
+  current_section: string;
+  is_active: boolean;
+  state_version: number;
+  instructor_id: string | null;
+}
+
+interface SessionRow extends LiveSessionSnapshot {
+  id: string;
+  instructor_heartbeat_at: string | null;
+}
+
+const SNAPSHOT_COLUMNS =
+  'id, current_step, current_section, is_active, state_version, instructor_id, instructor_heartbeat_at';
+
+export type StateReconciliation = 'apply' | 'stale' | 'refetch';
+
+/**
+ * What a client should do with a versioned state broadcast: apply the next
+ * version, drop one it already has, or refetch after missing one
+ */
+export function reconcileStateVersion(localVersion: number | null, incomingVersion: number | undefined): StateReconciliation {
+  if (incomingVersion === undefined || localVersion === null) return 'refetch';
+  if (incomingVersion <= localVersion) return 'stale';
+  if (incomingVersion === localVersion + 1) return 'apply';
+  return 'refetch';
+}
+
+export function isHeartbeatStale(
+  heartbeatAt: string | null,
+  now: Date = new Date(),
+  timeoutSeconds: number = INSTRUCTOR_TIMEOUT_SECONDS
+): boolean {
+  if (!heartbeatAt) return true;
+  return now.getTime() - new Date(heartbeatAt).getTime() > timeoutSeconds * 1000;
+}
+
+export function toSnapshot(row: LiveSessionSnapshot): LiveSessionSnapshot {
+  return {
+    current_step: row.current_step,
+    current_section: row.current_section,
+    is_active: row.is_active,
+    state_version: row.state_version ?? 0,
+    instructor_id: row.instructor_id,
+  };
+}
+
+async function getSessionRow(supabase: ServiceClient, sessionId: string): Promise<SessionRow> {
+  const { data, error } = await supabase
+    .from('live_sessions')
+    .select(SNAPSHOT_COLUMNS)
+    .eq('id', sessionId)
+    .single();
+
+  if (error) throw error;
+  return data as SessionRow;
+}
+
+/**
+ * Apply a state change if nobody else changed the session since
+ * `expectedVersion`. Returns the current state on a conflict.
+ */
+export async function updateSessionState(
+  supabase: ServiceClient,
+  sessionId: string,
+  expectedVersion: number,
+  updates: Partial<Pick<SessionRow, 'current_step' | 'current_section' | 'instructor_id' | 'instructor_heartbeat_at'>>
+): Promise<{ ok: true; session: LiveSessionSnapshot } | { ok: false; session: LiveSessionSnapshot }> {
+  const { data, error } = await supabase
+    .from('live_sessions')
+    .update({
+      ...updates,
+      state_version: expectedVersion + 1,
+      state_updated_at: new Date().toISOString(),
+    })
+    .eq('id', sessionId)
+    .eq('state_version', expectedVersion)
+    .select(SNAPSHOT_COLUMNS);
+
+  if (error) throw error;
+
+  if (!data || data.length === 0) {
+    return { ok: false, session: toSnapshot(await getSessionRow(supabase, sessionId)) };
+  }
+  return { ok: true, session: toSnapshot(data[0] as SessionRow) };
+}
+
+/**
+ * Record a client heartbeat and hand the session off if the instructor is gone
+ */
+export async function recordHeartbeat(
+  supabase: ServiceClient,
+  sessionId: string,
+  participantId: string,
+  role: LiveSessionRole | null
+): Promise<{ session: LiveSessionSnapshot; handedOff: boolean }> {
+  const now = new Date();
+
+  await supabase
+    .from('live_session_participants')
+    .update({ last_seen_at: now.toISOString() })
+    .eq('session_id', sessionId)
+    .eq('participant_id', participantId)
+    .eq('is_active', true);
+
+  if (role) {
+    await supabase
+      .from('live_session_staff')
+      .update({ last_seen_at: now.toISOString() })
+      .eq('session_id', sessionId)
+      .eq('participant_id', participantId);
+  }
+
+  const session = await getSessionRow(supabase, sessionId);
+
+  if (session.is_active && session.instructor_id === participantId) {
+    const { error } = await supabase
+      .from('live_sessions')
+      .update({ instructor_heartbeat_at: now.toISOString() })
+      .eq('id', sessionId);
+
+    if (error) throw error;
+    return { session: toSnapshot(session), handedOff: false };
+  }
+
+  if (!session.is_active || !isHeartbeatStale(session.instructor_heartbeat_at, now)) {
+    return { session: toSnapshot(session), handedOff: false };
+  }
+
+  const { data: staff } = await supabase
+    .from('live_session_staff')
+    .select('participant_id, role, last_seen_at')
+    .eq('session_id', sessionId);
+
+  const target = pickHandOffTarget(
+    (staff || []) as { participant_id: string; role: LiveSessionRole; last_seen_at: string | null }[],
+    (lastSeenAt) => !isHeartbeatStale(lastSeenAt, now)
+  );
+  if (!target) {
+    return { session: toSnapshot(session), handedOff: false };
+  }
+
+  const result = await updateSessionState(supabase, sessionId, session.state_version, {
+    instructor_id: target,
+    instructor_heartbeat_at: now.toISOString(),
+  });
+
+  // The previous lead stays on the team as co-instructor and can take over again
+  if (result.ok) {
+    await transferLead(supabase, sessionId, session.instructor_id, target);
+  }
+
+  return { session: result.session, handedOff: result.ok };
+}
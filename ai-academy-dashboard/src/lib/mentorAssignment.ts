@@ -0,0 +1,345 @@
+import type { createServiceSupabaseClient } from './supabase';
+import type { ReviewAssignmentReason, RoleType } from './types';
+
+/**
+ * Mentor review assignment
+ * Submissions are assigned to a reviewer from the mentor pool as they arrive
+ * from the GitHub webhook. Mentors whose expertise covers the submitter's
+ * role are preferred, then whoever has the most free capacity; a resubmission
+ * goes back to the mentor who reviewed it before when they have room. Each
+ * assignment has an SLA deadline: the review-sla cron hands overdue reviews
+ * to another mentor and retries submissions nobody had room for.
+ * submissions.mentor_id mirrors the current assignee.
+ */
+
+type ServiceClient = ReturnType<typeof createServiceSupabaseClient>;
+
+export const REVIEW_SLA_HOURS = 48;
+
+// Shown as "due soon" in the review queue
+export const REVIEW_SLA_WARNING_HOURS = 12;
+
+export type SlaState = 'on_track' | 'due_soon' | 'overdue';
+
+export interface MentorLoad {
+  participant_id: string;
+  name: string;
+  capacity: number;
+  expertise: RoleType[];
+  is_active: boolean;
+  open_count: number;
+  overdue_count: number;
+}
+
+export interface AssignmentResult {
+  submissionId: string;
+  mentorId: string | null;
+  // False when the submission already had an open assignment
+  created: boolean;
+}
+
+export function getSlaState(dueAt: string, now: Date = new Date()): SlaState {
+  const hoursLeft = (new Date(dueAt).getTime() - now.getTime()) / 3_600_000;
+  if (hoursLeft < 0) return 'overdue';
+  return hoursLeft <= REVIEW_SLA_WARNING_HOURS ? 'due_soon' : 'on_track';
+}
+
+/**
+ * Awaiting review: never reviewed, or resubmitted since the last review
+ */
+export function isAwaitingReview(submission: {
+  status: string;
+  withdrawn_at: string | null;
+  mentor_rating: number | null;
+  current_revision: number;
+  reviewed_revision: number | null;
+}): boolean {
+  if (submission.status !== 'submitted' || submission.withdrawn_at) return false;
+  return (
+    !submission.mentor_rating ||
+    (submission.reviewed_revision !== null && submission.current_revision > submission.reviewed_revision)
+  );
+}
+
+/**
+ * Mentor for a submission: the preferred one if they have room, else an
+ * expert in the submitter's role, else anyone with room - least loaded first
+ */
+export function pickMentor(
+  mentors: MentorLoad[],
+  submitterRole: RoleType | null,
+  options: { exclude?: string[]; prefer?: string | null } = {}
+): string | null {
+  const exclude = options.exclude ?? [];
+  const available = mentors.filter(
+    (m) => m.is_active && m.open_count < m.capacity && !exclude.includes(m.participant_id)
+  );
+
+  if (options.prefer && available.some((m) => m.participant_id === options.prefer)) {
+    return options.prefer;
+  }
+
+  const experts = submitterRole ? available.filter((m) => m.expertise.includes(submitterRole)) : [];
+  const candidates = experts.length > 0 ? experts : available;
+
+  const sorted = [...candidates].sort(
+    (a, b) =>
+      a.open_count / a.capacity - b.open_count / b.capacity ||
+      a.open_count - b.open_count ||
+      a.name.localeCompare(b.name)
+  );
+  return sorted[0]?.participant_id ?? null;
+}
+
+/**
+ * Pool members with their open and overdue review counts
+ */
+export async function getMentorLoads(supabase: ServiceClient, now: Date = new Date()): Promise<MentorLoad[]> {
+  const [{ data: pool, error }, { data: open, error: openError }] = await Promise.all([
+    supabase
+      .from('mentor_pool')
+      .select('participant_id, capacity, expertise, is_active, participants(name)'),
+    supabase
+      .from('review_assignments')
+      .select('mentor_id, due_at')
+      .eq('status', 'open'),
+  ]);
+
+  if (error) throw error;
+  if (openError) throw openError;
+
+  return (pool || []).map((entry) => {
+    const assigned = (open || []).filter((a) => a.mentor_id === entry.participant_id);
+    return {
+      participant_id: entry.participant_id as string,
+      name: (entry.participants as unknown as { name: string } | null)?.name ?? 'Unknown',
+      capacity: entry.capacity as number,
+      expertise: (entry.expertise as RoleType[] | null) ?? [],
+      is_active: entry.is_active as boolean,
+      open_count: assigned.length,
+      overdue_count: assigned.filter((a) => getSlaState(a.due_at, now) === 'overdue').length,
+    };
+  });
+}
+
+/**
+ * Assign a submission to a mentor unless it already has an open assignment.
+ * Pass `mentors` when assigning in a batch: their open counts are updated
+ * in place so capacity holds across the batch.
+ */
+export async function assignSubmission(
+  supabase: ServiceClient,
+  submissionId: string,
+  options: {
+    mentors?: MentorLoad[];
+    mentorId?: string;
+    exclude?: string[];
+    reason?: ReviewAssignmentReason;
+    reassignedFrom?: string | null;
+    now?: Date;
+  } = {}
+): Promise<AssignmentResult> {
+  const now = options.now ?? new Date();
+
+  const { data: existing } = await supabase
+    .from('review_assignments')
+    .select('mentor_id')
+    .eq('submission_id', submissionId)
+    .eq('status', 'open')
+    .maybeSingle();
+
+  if (existing) {
+    return { submissionId, mentorId: existing.mentor_id, created: false };
+  }
+
+  const { data: submission, error } = await supabase
+    .from('submissions')
+    .select('participant_id, current_revision, participants!participant_id(role)')
+    .eq('id', submissionId)
+    .single();
+
+  if (error) throw error;
+
+  const mentors = options.mentors ?? (await getMentorLoads(supabase, now));
+  let mentorId = options.mentorId ?? null;
+
+  if (!mentorId) {
+    // Resubmissions go back to whoever reviewed the submission last
+    const { data: previous } = await supabase
+      .from('review_assignments')
+      .select('mentor_id')
+      .eq('submission_id', submissionId)
+      .eq('status', 'completed')
+      .order('closed_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    const role = (submission.participants as unknown as { role: RoleType | null } | null)?.role ?? null;
+    mentorId = pickMentor(mentors, role, {
+      exclude: [submission.participant_id, ...(options.exclude ?? [])],
+      prefer: previous?.mentor_id ?? null,
+    });
+  }
+
+  if (!mentorId) {
+    return { submissionId, mentorId: null, created: false };
+  }
+
+  const { error: insertError } = await supabase
+    .from('review_assignments')
+    .insert({
+      submission_id: submissionId,
+      mentor_id: mentorId,
+      revision: submission.current_revision,
+      reason: options.reason ?? 'auto',
+      assigned_at: now.toISOString(),
+      due_at: new Date(now.getTime() + REVIEW_SLA_HOURS * 3_600_000).toISOString(),
+      reassigned_from: options.reassignedFrom ?? null,
+    });
+
+  // Assigned concurrently (e.g. a webhook redelivery): keep the other one
+  if (insertError?.code === '23505') {
+    return assignSubmission(supabase, submissionId, { ...options, now });
+  }
+  if (insertError) throw insertError;
+
+  await supabase.from('submissions').update({ mentor_id: mentorId }).eq('id', submissionId);
+
+  const mentor = mentors.find((m) => m.participant_id === mentorId);
+  if (mentor) mentor.open_count++;
+
+  return { submissionId, mentorId, created: true };
+}
+
+/**
+ * Close the open assignment of a submission and assign it again, to the given
+ * mentor or to someone other than the current assignee
+ */
+export async function reassignSubmission(
+  supabase: ServiceClient,
+  submissionId: string,
+  options: { mentors?: MentorLoad[]; mentorId?: string; reason: Exclude<ReviewAssignmentReason, 'auto'>; now?: Date }
+): Promise<AssignmentResult> {
+  const now = options.now ?? new Date();
+  const mentors = options.mentors ?? (await getMentorLoads(supabase, now));
+
+  const { data: current } = await supabase
+    .from('review_assignments')
+    .select('id, mentor_id')
+    .eq('submission_id', submissionId)
+    .eq('status', 'open')
+    .maybeSingle();
+
+  if (current && current.mentor_id === options.mentorId) {
+    return { submissionId, mentorId: current.mentor_id, created: false };
+  }
+
+  // Find someone else first so an overdue review is not dropped when nobody has room
+  if (!options.mentorId && current) {
+    const { data: submission } = await supabase
+      .from('submissions')
+      .select('participant_id, participants!participant_id(role)')
+      .eq('id', submissionId)
+      .single();
+
+    const role = (submission?.participants as unknown as { role: RoleType | null } | null)?.role ?? null;
+    const next = pickMentor(mentors, role, { exclude: [current.mentor_id, submission?.participant_id ?? ''] });
+    if (!next) {
+      return { submissionId, mentorId: current.mentor_id, created: false };
+    }
+    options = { ...options, mentorId: next };
+  }
+
+  if (current) {
+    const { error } = await supabase
+      .from('review_assignments')
+      .update({ status: 'reassigned', closed_at: now.toISOString() })
+      .eq('id', current.id);
+
+    if (error) throw error;
+
+    const previous = mentors.find((m) => m.participant_id === current.mentor_id);
+    if (previous) previous.open_count--;
+  }
+
+  return assignSubmission(supabase, submissionId, {
+    mentors,
+    mentorId: options.mentorId,
+    reason: options.reason,
+    reassignedFrom: current?.id ?? null,
+    now,
+  });
+}
+
+/**
+ * Assign every submission awaiting review that has no open assignment
+ */
+export async function assignPendingSubmissions(
+  supabase: ServiceClient,
+  mentors: MentorLoad[],
+  now: Date = new Date()
+): Promise<AssignmentResult[]> {
+  const [{ data: submissions, error }, { data: open, error: openError }] = await Promise.all([
+    supabase
+      .from('submissions')
+      .select('id, status, withdrawn_at, mentor_rating, current_revision, reviewed_revision')
+      .eq('status', 'submitted')
+      .is('withdrawn_at', null)
+      .order('submitted_at'),
+    supabase
+      .from('review_assignments')
+      .select('submission_id')
+      .eq('status', 'open'),
+  ]);
+
+  if (error) throw error;
+  if (openError) throw openError;
+
+  const assigned = new Set((open || []).map((a) => a.submission_id));
+  const results: AssignmentResult[] = [];
+
+  for (const submission of (submissions || []).filter(isAwaitingReview)) {
+    if (assigned.has(submission.id)) continue;
+    results.push(await assignSubmission(supabase, submission.id, { mentors, now }));
+  }
+  return results;
+}
+
+/**
+ * Close open assignments once a submission was reviewed, by anyone
+ */
+export async function completeReviewAssignments(
+  supabase: ServiceClient,
+  submissionIds: string[],
+  reviewerId: string | null,
+  now: Date = new Date()
+): Promise<void> {
+  if (submissionIds.length === 0) return;
+
+  const { error } = await supabase
+    .from('review_assignments')
+    .update({ status: 'completed', closed_at: now.toISOString(), completed_by: reviewerId })
+    .in('submission_id', submissionIds)
+    .eq('status', 'open');
+
+  if (error) throw error;
+}
+
+/**
+ * Close open assignments of withdrawn submissions
+ */
+export async function releaseReviewAssignments(
+  supabase: ServiceClient,
+  submissionIds: string[],
+  now: Date = new Date()
+): Promise<void> {
+  if (submissionIds.length === 0) return;
+
+  const { error } = await supabase
+    .from('review_assignments')
+    .update({ status: 'released', closed_at: now.toISOString() })
+    .in('submission_id', submissionIds)
+    .eq('status', 'open');
+
+  if (error) throw error;
+}
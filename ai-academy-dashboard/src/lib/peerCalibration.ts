@@ -0,0 +1,217 @@
+import { readAllPages, type createServiceSupabaseClient } from './supabase';
+
+/**
+ * Peer review calibration
+ * A reviewer's reliability (0-1) comes from how far their ratings sit from
+ * the mentor's rating of the same submission and from the other peers'
+ * average. Mentor agreement counts double. Few comparisons pull the score
+ * toward a neutral prior so one lucky or unlucky review does not decide it.
+ * Reliability weights the peer consensus shown to authors, and bonus points
+ * for a review scale with its quality: length, specific detail and agreement
+ * with the reference ratings known when it is submitted.
+ */
+
+type ServiceClient = ReturnType<typeof createServiceSupabaseClient>;
+
+export const PEER_REVIEW_BONUS_MIN = 1;
+export const PEER_REVIEW_BONUS_MAX = 5;
+
+// Reliability before any comparison, and how many comparisons it is worth
+export const DEFAULT_RELIABILITY = 0.6;
+const PRIOR_WEIGHT = 4;
+const MENTOR_WEIGHT = 2;
+
+// Largest possible gap between two 1-5 ratings
+const RATING_SPAN = 4;
+
+// Words that usually point at something concrete in the work
+const SPECIFICITY_CUES = [
+  /\d/,
+  /`[^`]+`/,
+  /\b(because|since|so that|for example|e\.g\.|such as)\b/i,
+  /\b(instead|consider|suggest|recommend|could|try)\b/i,
+  /\b(section|step|prompt|readme|function|test|diagram|table|metric|example)\b/i,
+];
+
+export interface CalibrationReview {
+  reviewer_id: string;
+  submission_id: string;
+  rating: number;
+  mentor_rating: number | null;
+}
+
+export interface ReviewerCalibration {
+  reviewer_id: string;
+  reviews: number;
+  mentor_comparisons: number;
+  peer_comparisons: number;
+  // Mean absolute gap to the mentor / other peers, null without comparisons
+  mentor_gap: number | null;
+  peer_gap: number | null;
+  // Mean signed gap to the mentor: positive rates more generously
+  leniency: number | null;
+  reliability: number;
+}
+
+export interface PeerConsensus {
+  rating: number;
+  reviewers: number;
+}
+
+export interface FeedbackQuality {
+  score: number;
+  bonus: number;
+}
+
+function mean(values: number[]): number | null {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : null;
+}
+
+function round(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Reliability of every reviewer with completed reviews
+ */
+export function calibrateReviewers(reviews: CalibrationReview[]): Map<string, ReviewerCalibration> {
+  const bySubmission = new Map<string, CalibrationReview[]>();
+  for (const review of reviews) {
+    bySubmission.set(review.submission_id, [...(bySubmission.get(review.submission_id) ?? []), review]);
+  }
+
+  const gaps = new Map<string, { mentor: number[]; signed: number[]; peer: number[]; reviews: number }>();
+  for (const review of reviews) {
+    const entry = gaps.get(review.reviewer_id) ?? { mentor: [], signed: [], peer: [], reviews: 0 };
+    entry.reviews++;
+
+    if (review.mentor_rating !== null) {
+      entry.mentor.push(Math.abs(review.rating - review.mentor_rating));
+      entry.signed.push(review.rating - review.mentor_rating);
+    }
+
+    const others = (bySubmission.get(review.submission_id) ?? []).filter((r) => r.reviewer_id !== review.reviewer_id);
+    const peerMean = mean(others.map((r) => r.rating));
+    if (peerMean !== null) {
+      entry.peer.push(Math.abs(review.rating - peerMean));
+    }
+
+    gaps.set(review.reviewer_id, entry);
+  }
+
+  const result = new Map<string, ReviewerCalibration>();
+  for (const [reviewerId, entry] of gaps) {
+    const weight = entry.mentor.length * MENTOR_WEIGHT + entry.peer.length;
+    const weightedGap =
+      weight > 0
+        ? (entry.mentor.reduce((s, g) => s + g, 0) * MENTOR_WEIGHT + entry.peer.reduce((s, g) => s + g, 0)) / weight
+        : 0;
+    const raw = 1 - weightedGap / RATING_SPAN;
+
+    result.set(reviewerId, {
+      reviewer_id: reviewerId,
+      reviews: entry.reviews,
+      mentor_comparisons: entry.mentor.length,
+      peer_comparisons: entry.peer.length,
+      mentor_gap: entry.mentor.length > 0 ? round(mean(entry.mentor)!, 2) : null,
+      peer_gap: entry.peer.length > 0 ? round(mean(entry.peer)!, 2) : null,
+      leniency: entry.signed.length > 0 ? round(mean(entry.signed)!, 2) : null,
+      reliability: round((weight * raw + PRIOR_WEIGHT * DEFAULT_RELIABILITY) / (weight + PRIOR_WEIGHT), 3),
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Peer rating of a submission weighted by reviewer reliability
+ */
+export function peerConsensus(ratings: { rating: number; reliability: number }[]): PeerConsensus | null {
+  if (ratings.length === 0) return null;
+
+  // A very unreliable reviewer still counts a little
+  const weights = ratings.map((r) => Math.max(r.reliability, 0.1));
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  const rating = ratings.reduce((sum, r, i) => sum + r.rating * weights[i], 0) / total;
+
+  return { rating: round(rating, 1), reviewers: ratings.length };
+}
+
+/**
+ * Quality of a submitted review (0-1) and the bonus points it earns.
+ * `reference` is the mentor rating or, without one, the other peers' average.
+ */
+export function feedbackQuality(feedback: string | null, rating: number, reference: number | null): FeedbackQuality {
+  const text = feedback?.trim() ?? '';
+  const words = text ? text.split(/\s+/).length : 0;
+
+  const length = Math.min(words / 60, 1) * 0.4;
+  const cues = SPECIFICITY_CUES.filter((cue) => cue.test(text)).length;
+  const specificity = Math.min(cues / 3, 1) * 0.3;
+  // Nothing to compare with yet: half credit
+  const agreement = (reference !== null ? 1 - Math.abs(rating - reference) / RATING_SPAN : 0.5) * 0.3;
+
+  const score = round(length + specificity + agreement, 3);
+  return {
+    score,
+    bonus: Math.round(PEER_REVIEW_BONUS_MIN + score * (PEER_REVIEW_BONUS_MAX - PEER_REVIEW_BONUS_MIN)),
+  };
+}
+
+/**
+ * Completed peer reviews with the mentor rating of their submission, leaving
+ * out reviews a moderator removed. Read page by page, since calibration needs
+ * every review and not just the first response's worth
+ */
+export async function loadCalibrationReviews(supabase: ServiceClient): Promise<CalibrationReview[]> {
+  const data = await readAllPages((from, to) =>
+    supabase
+      .from('peer_reviews')
+      .select('reviewer_id, submission_id, rating, submissions(mentor_rating)')
+      .eq('status', 'completed')
+      .not('rating', 'is', null)
+      .or('moderation_status.is.null,moderation_status.neq.removed')
+      .order('id')
+      .range(from, to)
+  );
+
+  return data.map((r) => ({
+    reviewer_id: r.reviewer_id,
+    submission_id: r.submission_id,
+    rating: r.rating,
+    mentor_rating: (r.submissions as unknown as { mentor_rating: number | null } | null)?.mentor_rating ?? null,
+  }));
+}
+
+/**
+ * Reliability-weighted peer consensus for each of the given submissions and
+ * across all of them
+ */
+export async function getPeerConsensus(
+  supabase: ServiceClient,
+  submissionIds: string[]
+): Promise<{ submissions: Record<string, PeerConsensus>; overall: PeerConsensus | null }> {
+  const reviews = await loadCalibrationReviews(supabase);
+  const calibration = calibrateReviewers(reviews);
+  const wanted = new Set(submissionIds);
+
+  const all: { rating: number; reliability: number }[] = [];
+  const bySubmission = new Map<string, { rating: number; reliability: number }[]>();
+  for (const review of reviews) {
+    if (!wanted.has(review.submission_id)) continue;
+    const weighted = {
+      rating: review.rating,
+      reliability: calibration.get(review.reviewer_id)?.reliability ?? DEFAULT_RELIABILITY,
+    };
+    all.push(weighted);
+    bySubmission.set(review.submission_id, [...(bySubmission.get(review.submission_id) ?? []), weighted]);
+  }
+
+  const submissions: Record<string, PeerConsensus> = {};
+  for (const [submissionId, ratings] of bySubmission) {
+    const consensus = peerConsensus(ratings);
+    if (consensus) submissions[submissionId] = consensus;
+  }
+  return { submissions, overall: peerConsensus(all) };
+}
@@ -0,0 +1,136 @@
+import { readAllPages, type createServiceSupabaseClient } from './supabase';
+import type { SlaState } from './mentorAssignment';
+import { assignPeerReviewers, loadPeerMatchContext } from './peerReviewMatching';
+
+/**
+ * Peer review deadlines
+ * A pending peer review past its due time expires and, like a skipped one,
+ * is handed to a new reviewer by the peer-review-deadlines cron, so every
+ * submission gets back to the number of reviews it was given. Reviewers are
+ * emailed once when a review enters the reminder window.
+ */
+
+type ServiceClient = ReturnType<typeof createServiceSupabaseClient>;
+
+// Reminder email and "due soon" styling start this long before the deadline
+export const PEER_REVIEW_REMINDER_HOURS = 24;
+
+export interface PeerReviewReplacementSummary {
+  submissions: number;
+  replaced: number;
+  // Submissions still short because no eligible reviewer was left
+  short: string[];
+}
+
+export function getPeerReviewDueState(dueAt: string, now: Date = new Date()): SlaState {
+  const hoursLeft = (new Date(dueAt).getTime() - now.getTime()) / 3_600_000;
+  if (hoursLeft < 0) return 'overdue';
+  return hoursLeft <= PEER_REVIEW_REMINDER_HOURS ? 'due_soon' : 'on_track';
+}
+
+/**
+ * Time left as a compact countdown, e.g. "2d 5h", "3h 20m", "45m"
+ */
+export function formatTimeLeft(dueAt: string, now: Date = new Date()): string {
+  const minutes = Math.max(0, Math.floor((new Date(dueAt).getTime() - now.getTime()) / 60_000));
+  const days = Math.floor(minutes / 1440);
+  const hours = Math.floor((minutes % 1440) / 60);
+
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes % 60}m`;
+  return `${minutes}m`;
+}
+
+/**
+ * Mark pending reviews past their due time as expired
+ */
+export async function expireOverduePeerReviews(supabase: ServiceClient, now: Date = new Date()): Promise<number> {
+  const { data, error } = await supabase
+    .from('peer_reviews')
+    .update({ status: 'expired', completed_at: now.toISOString() })
+    .eq('status', 'pending')
+    .lt('due_at', now.toISOString())
+    .select('id');
+
+  if (error) throw error;
+  return data?.length ?? 0;
+}
+
+/**
+ * Give every skipped or expired review that has no replacement yet a new
+ * reviewer. Withdrawn submissions are left alone.
+ */
+export async function replaceInactivePeerReviews(
+  supabase: ServiceClient,
+  now: Date = new Date()
+): Promise<PeerReviewReplacementSummary> {
+  const summary: PeerReviewReplacementSummary = { submissions: 0, replaced: 0, short: [] };
+
+  const inactive = await readAllPages((from, to) =>
+    supabase
+      .from('peer_reviews')
+      .select('id, submission_id, submissions(assignment_id, withdrawn_at)')
+      .in('status', ['skipped', 'expired'])
+      .order('id')
+      .range(from, to)
+  );
+  if (inactive.length === 0) return summary;
+
+  const replaced = new Set<string>();
+  for (const ids of chunk(inactive.map((r) => r.id))) {
+    const replacements = await readAllPages((from, to) =>
+      supabase.from('peer_reviews').select('reassigned_from').in('reassigned_from', ids).order('id').range(from, to)
+    );
+    for (const r of replacements) replaced.add(r.reassigned_from as string);
+  }
+
+  const bySubmission = new Map<string, { assignmentId: string; active: number; open: number }>();
+  for (const review of inactive) {
+    const submission = review.submissions as unknown as { assignment_id: string; withdrawn_at: string | null } | null;
+    if (!submission || submission.withdrawn_at || replaced.has(review.id)) continue;
+
+    const entry = bySubmission.get(review.submission_id) ?? { assignmentId: submission.assignment_id, active: 0, open: 0 };
+    entry.open++;
+    bySubmission.set(review.submission_id, entry);
+  }
+  if (bySubmission.size === 0) return summary;
+
+  // Reviews still in play decide how many the submission gets back to
+  for (const ids of chunk([...bySubmission.keys()])) {
+    const active = await readAllPages((from, to) =>
+      supabase
+        .from('peer_reviews')
+        .select('submission_id')
+        .in('submission_id', ids)
+        .in('status', ['pending', 'completed'])
+        .order('id')
+        .range(from, to)
+    );
+    for (const r of active) bySubmission.get(r.submission_id)!.active++;
+  }
+
+  const context = await loadPeerMatchContext(supabase, [...new Set([...bySubmission.values()].map((e) => e.assignmentId))]);
+
+  for (const [submissionId, entry] of bySubmission) {
+    const result = await assignPeerReviewers(
+      supabase,
+      submissionId,
+      { count: entry.active + entry.open },
+      context,
+      now
+    );
+
+    summary.submissions++;
+    summary.replaced += result.reviewerIds.length;
+    if (result.reviewerIds.length < result.needed) summary.short.push(submissionId);
+  }
+
+  return summary;
+}
+
+// Keeps .in() filters within URL length limits
+function chunk(ids: string[], size = 200): string[][] {
+  const chunks: string[][] = [];
+  for (let i = 0; i < ids.length; i += size) chunks.push(ids.slice(i, i + size));
+  return chunks;
+}
@@ -0,0 +1,359 @@
+import type { createServiceSupabaseClient } from './supabase';
+import type { RoleType, TeamType } from './types';
+
+/**
+ * Peer review matching
+ * Picks peer reviewers for a submission instead of a random draw. Every
+ * eligible participant gets a score (lower is better): each pending review
+ * they already have costs, having submitted the same assignment helps, and
+ * reviewing someone who reviews them, a teammate or a task force colleague
+ * is penalised. Cross-role matching can be required, so e.g. an AI-SEC
+ * reviews an AI-SE. Loads are updated as reviews are handed out, which keeps
+ * a whole day's batch balanced. Each review is due PEER_REVIEW_DUE_HOURS
+ * after it is handed out.
+ */
+
+type ServiceClient = ReturnType<typeof createServiceSupabaseClient>;
+
+export const DEFAULT_PEER_REVIEWS_PER_SUBMISSION = 2;
+export const PEER_REVIEW_DUE_HOURS = 72;
+
+// Reviews that count toward a submission's target
+const ACTIVE_STATUSES = ['pending', 'completed'];
+
+// Score weights, lower total wins
+export const PEER_MATCH_WEIGHTS = {
+  pendingReview: 10,
+  sameAssignment: -25,
+  reciprocal: 40,
+  sameTeam: 15,
+  sameTaskForce: 15,
+};
+
+export interface PeerReviewer {
+  participant_id: string;
+  role: RoleType | null;
+  team: TeamType | null;
+  task_force_id: number | null;
+  pending_count: number;
+}
+
+export interface PeerReviewSubmission {
+  id: string;
+  assignment_id: string;
+  participant_id: string;
+  role: RoleType | null;
+  team: TeamType | null;
+  task_force_id: number | null;
+}
+
+export interface PeerMatchContext {
+  reviewers: PeerReviewer[];
+  // Assignment id -> participants who submitted it
+  submitters: Map<string, Set<string>>;
+  // Reviewer -> authors whose work they review (skipped and expired reviews excluded)
+  reviewing: Map<string, Set<string>>;
+}
+
+export interface PeerMatchOptions {
+  count?: number;
+  crossRole?: boolean;
+}
+
+export interface PeerAssignmentResult {
+  submissionId: string;
+  // Reviews still needed before this call
+  needed: number;
+  reviewerIds: string[];
+}
+
+export interface DayAssignmentSummary {
+  submissions: number;
+  assigned: number;
+  // Submissions that got fewer reviewers than asked for
+  short: string[];
+}
+
+export function scoreReviewer(
+  submission: PeerReviewSubmission,
+  reviewer: PeerReviewer,
+  context: Pick<PeerMatchContext, 'submitters' | 'reviewing'>
+): number {
+  let score = reviewer.pending_count * PEER_MATCH_WEIGHTS.pendingReview;
+
+  if (context.submitters.get(submission.assignment_id)?.has(reviewer.participant_id)) {
+    score += PEER_MATCH_WEIGHTS.sameAssignment;
+  }
+  if (context.reviewing.get(submission.participant_id)?.has(reviewer.participant_id)) {
+    score += PEER_MATCH_WEIGHTS.reciprocal;
+  }
+  if (submission.team && submission.team === reviewer.team) {
+    score += PEER_MATCH_WEIGHTS.sameTeam;
+  }
+  if (submission.task_force_id !== null && submission.task_force_id === reviewer.task_force_id) {
+    score += PEER_MATCH_WEIGHTS.sameTaskForce;
+  }
+
+  return score;
+}
+
+/**
+ * Best reviewers for a submission, excluding the author and anyone in `exclude`
+ * (e.g. already assigned). Equal scores are broken at random.
+ */
+export function pickPeerReviewers(
+  submission: PeerReviewSubmission,
+  context: PeerMatchContext,
+  options: PeerMatchOptions & { exclude?: Set<string> } = {}
+): PeerReviewer[] {
+  const count = options.count ?? DEFAULT_PEER_REVIEWS_PER_SUBMISSION;
+
+  const eligible = context.reviewers.filter(
+    (r) =>
+      r.participant_id !== submission.participant_id &&
+      !options.exclude?.has(r.participant_id) &&
+      (!options.crossRole || (!!r.role && !!submission.role && r.role !== submission.role))
+  );
+
+  return eligible
+    .map((reviewer) => ({
+      reviewer,
+      score: scoreReviewer(submission, reviewer, context),
+      tiebreak: crypto.getRandomValues(new Uint32Array(1))[0],
+    }))
+    .sort((a, b) => a.score - b.score || a.tiebreak - b.tiebreak)
+    .slice(0, count)
+    .map(({ reviewer }) => reviewer);
+}
+
+/**
+ * Count a new assignment against the reviewer so later picks see it
+ */
+export function recordPeerAssignment(
+  context: PeerMatchContext,
+  submission: PeerReviewSubmission,
+  reviewerId: string
+): void {
+  const reviewer = context.reviewers.find((r) => r.participant_id === reviewerId);
+  if (reviewer) reviewer.pending_count++;
+
+  const authors = context.reviewing.get(reviewerId) ?? new Set<string>();
+  authors.add(submission.participant_id);
+  context.reviewing.set(reviewerId, authors);
+}
+
+/**
+ * Approved participants (not staff) as reviewers, with their pending load,
+ * task force, who they review and who submitted the given assignments
+ */
+export async function loadPeerMatchContext(
+  supabase: ServiceClient,
+  assignmentIds: string[]
+): Promise<PeerMatchContext> {
+  const [participantsResult, taskForcesResult, reviewsResult, submittedResult] = await Promise.all([
+    supabase
+      .from('participants')
+      .select('id, role, team')
+      .eq('status', 'approved')
+      .eq('is_admin', false)
+      .eq('is_mentor', false),
+    supabase.from('task_force_members').select('participant_id, task_force_id'),
+    supabase
+      .from('peer_reviews')
+      .select('reviewer_id, status, submissions(participant_id)')
+      .in('status', ACTIVE_STATUSES),
+    assignmentIds.length > 0
+      ? supabase
+          .from('submissions')
+          .select('assignment_id, participant_id')
+          .in('assignment_id', assignmentIds)
+          .is('withdrawn_at', null)
+      : Promise.resolve({ data: [], error: null }),
+  ]);
+
+  const error = participantsResult.error || taskForcesResult.error || reviewsResult.error || submittedResult.error;
+  if (error) throw error;
+
+  const taskForceOf = new Map<string, number>(
+    (taskForcesResult.data ?? []).map((m) => [m.participant_id as string, m.task_force_id as number])
+  );
+
+  const pending = new Map<string, number>();
+  const reviewing = new Map<string, Set<string>>();
+  for (const review of reviewsResult.data ?? []) {
+    if (review.status === 'pending') {
+      pending.set(review.reviewer_id, (pending.get(review.reviewer_id) ?? 0) + 1);
+    }
+    const author = (review.submissions as unknown as { participant_id: string } | null)?.participant_id;
+    if (author) {
+      const authors = reviewing.get(review.reviewer_id) ?? new Set<string>();
+      authors.add(author);
+      reviewing.set(review.reviewer_id, authors);
+    }
+  }
+
+  const submitters = new Map<string, Set<string>>();
+  for (const row of submittedResult.data ?? []) {
+    const ids = submitters.get(row.assignment_id) ?? new Set<string>();
+    ids.add(row.participant_id);
+    submitters.set(row.assignment_id, ids);
+  }
+
+  return {
+    reviewers: (participantsResult.data ?? []).map((p) => ({
+      participant_id: p.id,
+      role: p.role,
+      team: p.team,
+      task_force_id: taskForceOf.get(p.id) ?? null,
+      pending_count: pending.get(p.id) ?? 0,
+    })),
+    submitters,
+    reviewing,
+  };
+}
+
+// Withdrawn submissions are left out: there is nothing left to review
+async function loadSubmissions(supabase: ServiceClient, submissionIds: string[]): Promise<PeerReviewSubmission[]> {
+  const [{ data, error }, { data: taskForces, error: taskForceError }] = await Promise.all([
+    supabase
+      .from('submissions')
+      .select('id, assignment_id, participant_id, participants!participant_id(role, team)')
+      .in('id', submissionIds)
+      .is('withdrawn_at', null),
+    supabase.from('task_force_members').select('participant_id, task_force_id'),
+  ]);
+
+  if (error) throw error;
+  if (taskForceError) throw taskForceError;
+
+  const taskForceOf = new Map<string, number>(
+    (taskForces ?? []).map((m) => [m.participant_id as string, m.task_force_id as number])
+  );
+
+  return (data ?? []).map((s) => {
+    const author = s.participants as unknown as { role: RoleType | null; team: TeamType | null } | null;
+    return {
+      id: s.id,
+      assignment_id: s.assignment_id,
+      participant_id: s.participant_id,
+      role: author?.role ?? null,
+      team: author?.team ?? null,
+      task_force_id: taskForceOf.get(s.participant_id) ?? null,
+    };
+  });
+}
+
+/**
+ * Top a submission up to `count` active peer reviews (pending or completed).
+ * Reviewers who were ever assigned it, including ones who skipped, are not asked again.
+ * New reviews are recorded as replacements of skipped or expired ones first.
+ * A withdrawn submission gets no new reviewers.
+ */
+export async function assignPeerReviewers(
+  supabase: ServiceClient,
+  submissionId: string,
+  options: PeerMatchOptions = {},
+  context?: PeerMatchContext,
+  now: Date = new Date()
+): Promise<PeerAssignmentResult> {
+  const count = options.count ?? DEFAULT_PEER_REVIEWS_PER_SUBMISSION;
+
+  const [submission] = await loadSubmissions(supabase, [submissionId]);
+  if (!submission) {
+    return { submissionId, needed: 0, reviewerIds: [] };
+  }
+
+  const { data: existing, error } = await supabase
+    .from('peer_reviews')
+    .select('id, reviewer_id, status, reassigned_from')
+    .eq('submission_id', submissionId);
+
+  if (error) throw error;
+
+  const needed = Math.max(0, count - (existing ?? []).filter((r) => ACTIVE_STATUSES.includes(r.status)).length);
+  if (needed === 0) {
+    return { submissionId, needed, reviewerIds: [] };
+  }
+
+  const matchContext = context ?? (await loadPeerMatchContext(supabase, [submission.assignment_id]));
+  const reviewers = pickPeerReviewers(submission, matchContext, {
+    count: needed,
+    crossRole: options.crossRole,
+    exclude: new Set((existing ?? []).map((r) => r.reviewer_id)),
+  });
+
+  if (reviewers.length === 0) {
+    return { submissionId, needed, reviewerIds: [] };
+  }
+
+  const replaced = new Set((existing ?? []).map((r) => r.reassigned_from).filter(Boolean));
+  const unreplaced = (existing ?? []).filter((r) => !ACTIVE_STATUSES.includes(r.status) && !replaced.has(r.id));
+
+  const { data: created, error: insertError } = await supabase
+    .from('peer_reviews')
+    .insert(
+      reviewers.map((reviewer, i) => ({
+        submission_id: submissionId,
+        reviewer_id: reviewer.participant_id,
+        is_anonymous: true,
+        status: 'pending',
+        bonus_points_earned: 0,
+        assigned_at: now.toISOString(),
+        due_at: new Date(now.getTime() + PEER_REVIEW_DUE_HOURS * 3_600_000).toISOString(),
+        reassigned_from: unreplaced[i]?.id ?? null,
+      }))
+    )
+    .select('reviewer_id');
+
+  if (insertError) throw insertError;
+
+  const reviewerIds = (created ?? []).map((r) => r.reviewer_id as string);
+  for (const reviewerId of reviewerIds) {
+    recordPeerAssignment(matchContext, submission, reviewerId);
+  }
+
+  return { submissionId, needed, reviewerIds };
+}
+
+/**
+ * Assign peer reviewers to every submission of a program day that has fewer
+ * than `count` active peer reviews, oldest submission first
+ */
+export async function assignPeerReviewsForDay(
+  supabase: ServiceClient,
+  day: number,
+  options: PeerMatchOptions = {}
+): Promise<DayAssignmentSummary> {
+  const { data: assignments, error: assignmentsError } = await supabase
+    .from('assignments')
+    .select('id')
+    .eq('day', day);
+
+  if (assignmentsError) throw assignmentsError;
+
+  const assignmentIds = (assignments ?? []).map((a) => a.id as string);
+  const summary: DayAssignmentSummary = { submissions: 0, assigned: 0, short: [] };
+  if (assignmentIds.length === 0) return summary;
+
+  const { data: submissions, error } = await supabase
+    .from('submissions')
+    .select('id')
+    .in('assignment_id', assignmentIds)
+    .is('withdrawn_at', null)
+    .order('submitted_at', { ascending: true });
+
+  if (error) throw error;
+
+  const context = await loadPeerMatchContext(supabase, assignmentIds);
+
+  for (const { id } of submissions ?? []) {
+    const result = await assignPeerReviewers(supabase, id, options, context);
+    if (result.needed === 0) continue;
+
+    summary.submissions++;
+    summary.assigned += result.reviewerIds.length;
+    if (result.reviewerIds.length < result.needed) summary.short.push(id);
+  }
+
+  return summary;
+}
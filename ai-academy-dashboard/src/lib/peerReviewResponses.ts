@@ -0,0 +1,39 @@
+import type { PeerReviewFlagReason } from './types';
+
+/**
+ * Author responses to peer reviews
+ * The author of a reviewed submission rates each completed review's
+ * helpfulness (1-5), may reply once and may flag it for moderation. A helpful
+ * rating adds to the reviewer's bonus; reviewers whose reviews are rated
+ * helpful consistently earn the Helpful Reviewer recognition.
+ */
+
+export const HELPFUL_REVIEWER_RECOGNITION = 'helpful_reviewer';
+
+// Rated reviews needed, and their average helpfulness, for the recognition
+export const HELPFUL_REVIEWER_MIN_RATED = 3;
+export const HELPFUL_REVIEWER_MIN_AVERAGE = 4;
+
+export const MAX_AUTHOR_REPLY_LENGTH = 1000;
+
+export const PEER_REVIEW_FLAG_REASONS: Record<PeerReviewFlagReason, string> = {
+  disrespectful: 'Disrespectful or hurtful',
+  off_topic: 'Not about my submission',
+  spam: 'Spam or copy-paste',
+  other: 'Something else',
+};
+
+/**
+ * Extra bonus points the reviewer earns from the author's helpfulness rating.
+ * Paid by rate_peer_review_helpfulness, which applies the same scale in SQL.
+ */
+export function helpfulnessBonus(helpfulness: number): number {
+  if (helpfulness >= 5) return 2;
+  if (helpfulness >= 4) return 1;
+  return 0;
+}
+
+export function isHelpfulReviewer(ratings: number[]): boolean {
+  if (ratings.length < HELPFUL_REVIEWER_MIN_RATED) return false;
+  return ratings.reduce((sum, r) => sum + r, 0) / ratings.length >= HELPFUL_REVIEWER_MIN_AVERAGE;
+}
@@ -0,0 +1,92 @@
+import type { createServiceSupabaseClient } from './supabase';
+import type { ParticipantPrerequisite, PrerequisiteCategory, PrerequisiteItem, PrerequisiteWithStatus } from './types';
+
+/**
+ * Prerequisites checklist
+ * Tools and access every participant needs before the course starts
+ * (prerequisite_items), ticked off per participant in participant_prerequisites.
+ * Missing required items keep a participant out of live sessions.
+ */
+
+type ServiceClient = ReturnType<typeof createServiceSupabaseClient>;
+
+export interface PrerequisiteProgress {
+  completed_count: number;
+  total_items: number;
+  required_completed: number;
+  required_total: number;
+  required_completion_pct: number;
+}
+
+/**
+ * Merge the item list with one participant's progress, in display order
+ */
+export function withStatus(
+  items: PrerequisiteItem[],
+  progress: Pick<ParticipantPrerequisite, 'prerequisite_id' | 'is_completed' | 'completed_at' | 'notes'>[]
+): PrerequisiteWithStatus[] {
+  const byItem = new Map(progress.map((p) => [p.prerequisite_id, p]));
+
+  return [...items]
+    .sort((a, b) => a.display_order - b.display_order)
+    .map((item) => {
+      const entry = byItem.get(item.id);
+      return {
+        ...item,
+        is_completed: entry?.is_completed ?? false,
+        completed_at: entry?.completed_at ?? null,
+        notes: entry?.notes ?? null,
+      };
+    });
+}
+
+export function missingRequired(items: PrerequisiteWithStatus[]): PrerequisiteWithStatus[] {
+  return items.filter((item) => item.is_required && !item.is_completed);
+}
+
+export function summarizeProgress(items: PrerequisiteWithStatus[]): PrerequisiteProgress {
+  const required = items.filter((item) => item.is_required);
+  const requiredCompleted = required.filter((item) => item.is_completed).length;
+
+  return {
+    completed_count: items.filter((item) => item.is_completed).length,
+    total_items: items.length,
+    required_completed: requiredCompleted,
+    required_total: required.length,
+    required_completion_pct: required.length > 0 ? Math.round((requiredCompleted / required.length) * 100) : 100,
+  };
+}
+
+/**
+ * Items grouped by category, categories in the order their first item appears
+ */
+export function groupByCategory(
+  items: PrerequisiteWithStatus[]
+): { category: PrerequisiteCategory; items: PrerequisiteWithStatus[] }[] {
+  const groups = new Map<PrerequisiteCategory, PrerequisiteWithStatus[]>();
+  for (const item of items) {
+    groups.set(item.category, [...(groups.get(item.category) ?? []), item]);
+  }
+  return [...groups.entries()].map(([category, grouped]) => ({ category, items: grouped }));
+}
+
+/**
+ * Load the checklist for a participant
+ */
+export async function getParticipantPrerequisites(
+  supabase: ServiceClient,
+  participantId: string
+): Promise<PrerequisiteWithStatus[]> {
+  const [{ data: items, error: itemsError }, { data: progress, error: progressError }] = await Promise.all([
+    supabase.from('prerequisite_items').select('*').order('display_order'),
+    supabase
+      .from('participant_prerequisites')
+      .select('prerequisite_id, is_completed, completed_at, notes')
+      .eq('participant_id', participantId),
+  ]);
+
+  if (itemsError) throw itemsError;
+  if (progressError) throw progressError;
+
+  return withStatus((items as PrerequisiteItem[]) ?? [], progress ?? []);
+}
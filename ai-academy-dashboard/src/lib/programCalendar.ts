@@ -0,0 +1,143 @@
+import type { createServiceSupabaseClient } from './supabase';
+import { localDateDaysAgo, PROGRAM_TIMEZONE } from './timezone';
+import type { ProgramCalendar, ProgramCalendarSettings } from './types';
+
+/**
+ * Program calendar
+ * Maps calendar dates to program days. Program days fall on weekdays from the
+ * start date, skipping break weeks and holidays; mission_days.unlock_date
+ * overrides the scheduled date of an individual day. Dates are compared in
+ * PROGRAM_TIMEZONE so every page and cron agrees on what "today" is.
+ */
+
+type ServiceClient = ReturnType<typeof createServiceSupabaseClient>;
+
+const DAY_MS = 86_400_000;
+
+export const DEFAULT_PROGRAM_CALENDAR: ProgramCalendarSettings = {
+  start_date: '2026-02-02',
+  total_days: 25,
+  break_weeks: ['2026-02-16'],
+  holidays: [],
+};
+
+function toDayNumber(date: string): number {
+  return Date.parse(`${date}T00:00:00Z`) / DAY_MS;
+}
+
+function fromDayNumber(dayNumber: number): string {
+  return new Date(dayNumber * DAY_MS).toISOString().slice(0, 10);
+}
+
+/**
+ * Monday (YYYY-MM-DD) of the week containing a date
+ */
+export function weekStart(date: string): string {
+  const dayNumber = toDayNumber(date);
+  const weekday = (new Date(dayNumber * DAY_MS).getUTCDay() + 6) % 7; // Monday = 0
+  return fromDayNumber(dayNumber - weekday);
+}
+
+/**
+ * Today's date in the program timezone
+ */
+export function programToday(now: Date = new Date()): string {
+  return localDateDaysAgo(0, PROGRAM_TIMEZONE, now);
+}
+
+/**
+ * Whether a calendar date can hold a program day (weekday, not a break or holiday)
+ */
+export function isProgramDate(settings: ProgramCalendarSettings, date: string): boolean {
+  const weekday = new Date(toDayNumber(date) * DAY_MS).getUTCDay();
+  if (weekday === 0 || weekday === 6) return false;
+  if (settings.holidays.includes(date)) return false;
+  return !settings.break_weeks.includes(weekStart(date));
+}
+
+/**
+ * Scheduled date of each program day, ignoring overrides (index 0 = day 1)
+ */
+export function getScheduledDates(settings: ProgramCalendarSettings): string[] {
+  const dates: string[] = [];
+  // A year of calendar days is far more than any schedule needs
+  const limit = toDayNumber(settings.start_date) + 366;
+
+  for (let d = toDayNumber(settings.start_date); d < limit && dates.length < settings.total_days; d++) {
+    const date = fromDayNumber(d);
+    if (isProgramDate(settings, date)) dates.push(date);
+  }
+  return dates;
+}
+
+/**
+ * Unlock date of every program day: the mission_days override, else the schedule
+ */
+export function getUnlockDates(calendar: ProgramCalendar): Map<number, string> {
+  const unlockDates = new Map<number, string>();
+  getScheduledDates(calendar).forEach((date, i) => {
+    unlockDates.set(i + 1, calendar.unlock_overrides[i + 1] ?? date);
+  });
+  return unlockDates;
+}
+
+export function getUnlockDate(calendar: ProgramCalendar, day: number): string | null {
+  return getUnlockDates(calendar).get(day) ?? null;
+}
+
+export function isDayUnlocked(calendar: ProgramCalendar, day: number, today: string = programToday()): boolean {
+  const unlockDate = getUnlockDate(calendar, day);
+  return unlockDate !== null && unlockDate <= today;
+}
+
+/**
+ * Highest unlocked program day (0 before the program starts). During break
+ * weeks and holidays this stays on the last day that unlocked.
+ */
+export function getProgramDay(calendar: ProgramCalendar, today: string = programToday()): number {
+  let current = 0;
+  for (const [day, unlockDate] of getUnlockDates(calendar)) {
+    if (unlockDate <= today && day > current) current = day;
+  }
+  return current;
+}
+
+export function getCurrentProgramDay(calendar: ProgramCalendar, now: Date = new Date()): number {
+  return getProgramDay(calendar, programToday(now));
+}
+
+/**
+ * Stored calendar settings merged over the defaults
+ */
+export function resolveCalendarSettings(stored?: Partial<ProgramCalendarSettings> | null): ProgramCalendarSettings {
+  return {
+    start_date: stored?.start_date ?? DEFAULT_PROGRAM_CALENDAR.start_date,
+    total_days: stored?.total_days ?? DEFAULT_PROGRAM_CALENDAR.total_days,
+    break_weeks: (stored?.break_weeks ?? DEFAULT_PROGRAM_CALENDAR.break_weeks).map(weekStart),
+    holidays: stored?.holidays ?? DEFAULT_PROGRAM_CALENDAR.holidays,
+  };
+}
+
+/**
+ * Load the program calendar and the per-day unlock overrides
+ */
+export async function loadProgramCalendar(supabase: ServiceClient): Promise<ProgramCalendar> {
+  const [{ data: settings }, { data: missionDays }] = await Promise.all([
+    supabase
+      .from('program_calendar')
+      .select('start_date, total_days, break_weeks, holidays')
+      .eq('id', 'default')
+      .maybeSingle(),
+    supabase.from('mission_days').select('day, unlock_date'),
+  ]);
+
+  const unlockOverrides: Record<number, string> = {};
+  for (const md of missionDays || []) {
+    if (md.unlock_date) unlockOverrides[md.day] = md.unlock_date;
+  }
+
+  return {
+    ...resolveCalendarSettings(settings as Partial<ProgramCalendarSettings> | null),
+    unlock_overrides: unlockOverrides,
+  };
+}
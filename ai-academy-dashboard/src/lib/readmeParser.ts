@@ -0,0 +1,256 @@
+import type {
+  AssignmentType,
+  ReadmeAnalysis,
+  ReadmeLink,
+  ReadmeLinkKind,
+  ReadmeSection,
+  ReadmeSectionKey,
+} from './types';
+
+/**
+ * Submission README parser
+ * Extracts the structured parts of a student template README:
+ * submission tag, self-assessment, required sections and links.
+ */
+
+const SECTION_DEFINITIONS: {
+  key: ReadmeSectionKey;
+  label: string;
+  required: boolean;
+  pattern: RegExp;
+}[] = [
+  { key: 'reflection', label: 'Reflection', required: true, pattern: /reflection/i },
+  { key: 'self_assessment', label: 'Self-Assessment', required: true, pattern: /self[- ]?assessment/i },
+  { key: 'screenshots', label: 'Screenshots / Demo', required: false, pattern: /screenshot|demo/i },
+];
+
+// Everything else at H2 level counts towards deliverables
+const DELIVERABLES_DEFINITION = { key: 'deliverables' as const, label: 'Deliverables', required: true };
+
+// Minimum words of non-placeholder text for a section to count as complete
+const MIN_SECTION_WORDS = 15;
+
+// Completeness weights (sum = 100)
+const COMPLETENESS_WEIGHTS = {
+  submission_tag: 10,
+  self_rating: 10,
+  deliverables: 35,
+  reflection: 25,
+  self_assessment: 10,
+  screenshots: 10,
+};
+
+const DEMO_URL_PATTERN = /loom\.com|youtu\.?be|vercel\.app|netlify\.app|streamlit\.app|huggingface\.co\/spaces|demo/i;
+
+interface RawSection {
+  heading: string;
+  body: string;
+}
+
+/**
+ * Split markdown into H2 sections (H3+ stay inside their parent section)
+ */
+function splitSections(content: string): RawSection[] {
+  const sections: RawSection[] = [];
+  let current: RawSection | null = null;
+  let inCodeBlock = false;
+
+  for (const line of content.split('\n')) {
+    if (line.trim().startsWith('```')) {
+      inCodeBlock = !inCodeBlock;
+    }
+    const match = !inCodeBlock ? line.match(/^##\s+(.+?)\s*$/) : null;
+    if (match) {
+      current = { heading: match[1], body: '' };
+      sections.push(current);
+    } else if (current) {
+      current.body += line + '\n';
+    }
+  }
+
+  return sections;
+}
+
+/**
+ * Strip markdown syntax and template placeholders, leaving the words a student wrote
+ */
+function meaningfulText(body: string): string {
+  return body
+    .replace(/<!--[\s\S]*?-->/g, ' ')
+    .split('\n')
+    .filter((line) => {
+      const trimmed = line.trim();
+      if (!trimmed) return false;
+      if (/^[-*]\s*\.\.\.\s*$/.test(trimmed)) return false; // "- ..."
+      if (/^#{1,6}\s/.test(trimmed)) return false; // sub-headings
+      if (/^\|?[\s:|-]+\|?$/.test(trimmed)) return false; // table separators
+      return true;
+    })
+    .join(' ')
+    .replace(/\[[^\]]*(?:your|insert|describe|YYYY)[^\]]*\]/gi, ' ') // [Your name], [Insert ...]
+    .replace(/[`*_>#|⭐]/g, ' ');
+}
+
+function countWords(text: string): number {
+  return text.split(/\s+/).filter((w) => /[\p{L}\p{N}]/u.test(w)).length;
+}
+
+/**
+ * Parse the submission tag, e.g. <!-- submission:day-01:in-class -->
+ */
+export function parseSubmissionTag(content: string): ReadmeAnalysis['submission_tag'] {
+  const match = content.match(/<!--\s*submission:day-(\d+):(in-class|homework)\s*-->/);
+  if (!match) return null;
+  return { day: parseInt(match[1]), type: match[2].replace('-', '_') as AssignmentType };
+}
+
+/**
+ * Parse the overall self-rating (English template, plus the legacy Slovak one)
+ */
+export function parseSelfRating(content: string): number | null {
+  const match = content.match(/\*\*(?:Overall rating|Celkové hodnotenie):\*\*\s*(\d)\s*\/\s*5/);
+  if (!match) return null;
+  const rating = parseInt(match[1]);
+  return rating >= 1 && rating <= 5 ? rating : null;
+}
+
+/**
+ * Parse self-assessment table rows: | Criterion | ⭐⭐⭐⭐ |
+ */
+function parseSelfAssessmentTable(body: string): { criterion: string; rating: number }[] {
+  const rows: { criterion: string; rating: number }[] = [];
+  for (const line of body.split('\n')) {
+    const cells = line.split('|').map((c) => c.trim()).filter(Boolean);
+    if (cells.length < 2) continue;
+    const stars = (cells[1].match(/⭐/g) || []).length;
+    const numeric = cells[1].match(/^(\d)\s*(?:\/\s*5)?$/);
+    const rating = stars || (numeric ? parseInt(numeric[1]) : 0);
+    if (rating >= 1 && rating <= 5 && !/criterion/i.test(cells[0])) {
+      rows.push({ criterion: cells[0], rating });
+    }
+  }
+  return rows;
+}
+
+/**
+ * Extract markdown links and bare URLs
+ */
+function parseLinks(content: string): ReadmeLink[] {
+  const links: ReadmeLink[] = [];
+  const seen = new Set<string>();
+
+  const add = (text: string, url: string) => {
+    if (seen.has(url)) return;
+    seen.add(url);
+    const kind: ReadmeLinkKind = /github\.com/i.test(url)
+      ? 'repo'
+      : DEMO_URL_PATTERN.test(url) || /demo/i.test(text)
+        ? 'demo'
+        : 'other';
+    links.push({ text, url, kind });
+  };
+
+  for (const match of content.matchAll(/(?<!!)\[([^\]]+)\]\((https?:\/\/[^)\s]+)\)/g)) {
+    add(match[1], match[2]);
+  }
+  for (const match of content.matchAll(/(?<![(\w])(https?:\/\/[^\s)<>\]]+)/g)) {
+    add(match[1], match[1]);
+  }
+
+  return links;
+}
+
+/**
+ * Parse a submission README into structured data for mentors
+ */
+export function parseReadme(
+  content: string,
+  expected?: { day: number; type: AssignmentType }
+): ReadmeAnalysis {
+  const warnings: string[] = [];
+  const rawSections = splitSections(content);
+
+  const submissionTag = parseSubmissionTag(content);
+  const selfRating = parseSelfRating(content);
+  const links = parseLinks(content);
+
+  const sections: ReadmeSection[] = [];
+  const matchedHeadings = new Set<RawSection>();
+  let selfAssessment: { criterion: string; rating: number }[] = [];
+
+  for (const definition of SECTION_DEFINITIONS) {
+    const matching = rawSections.filter((s) => definition.pattern.test(s.heading));
+    matching.forEach((s) => matchedHeadings.add(s));
+
+    const body = matching.map((s) => s.body).join('\n');
+    const wordCount = countWords(meaningfulText(body));
+    let complete = wordCount >= MIN_SECTION_WORDS;
+
+    if (definition.key === 'self_assessment') {
+      selfAssessment = parseSelfAssessmentTable(body);
+      complete = selfAssessment.length > 0 || selfRating !== null;
+    }
+    if (definition.key === 'screenshots') {
+      const hasImage = /!\[[^\]]*\]\([^)]+\)/.test(body);
+      complete = hasImage || links.some((l) => l.kind === 'demo');
+    }
+
+    sections.push({
+      key: definition.key,
+      label: definition.label,
+      required: definition.required,
+      present: matching.length > 0,
+      complete,
+      word_count: wordCount,
+    });
+  }
+
+  // Deliverables: the remaining H2 sections (the assignment-specific work)
+  const deliverableSections = rawSections.filter((s) => !matchedHeadings.has(s));
+  const deliverableWords = countWords(meaningfulText(deliverableSections.map((s) => s.body).join('\n')));
+  sections.unshift({
+    ...DELIVERABLES_DEFINITION,
+    present: deliverableSections.length > 0,
+    complete: deliverableWords >= MIN_SECTION_WORDS * 2,
+    word_count: deliverableWords,
+  });
+
+  // Warnings for mentors
+  for (const section of sections) {
+    if (!section.required) continue;
+    if (!section.present) {
+      warnings.push(`Missing required section: ${section.label}`);
+    } else if (!section.complete) {
+      warnings.push(`${section.label} section looks unfilled (template placeholders only)`);
+    }
+  }
+  if (!submissionTag) {
+    warnings.push('Submission tag is missing');
+  } else if (expected && (submissionTag.day !== expected.day || submissionTag.type !== expected.type)) {
+    warnings.push(
+      `Submission tag says day ${submissionTag.day} ${submissionTag.type}, expected day ${expected.day} ${expected.type}`
+    );
+  }
+  if (selfRating === null) {
+    warnings.push('Overall self-rating is missing');
+  }
+
+  // Completeness score
+  const sectionByKey = new Map(sections.map((s) => [s.key, s]));
+  let completeness = 0;
+  if (submissionTag) completeness += COMPLETENESS_WEIGHTS.submission_tag;
+  if (selfRating !== null) completeness += COMPLETENESS_WEIGHTS.self_rating;
+  for (const key of ['deliverables', 'reflection', 'self_assessment', 'screenshots'] as const) {
+    if (sectionByKey.get(key)?.complete) completeness += COMPLETENESS_WEIGHTS[key];
+  }
+
+  return {
+    submission_tag: submissionTag,
+    self_rating: selfRating,
+    self_assessment: selfAssessment,
+    sections,
+    links,
+    completeness,
+    warnings,
+  };
+}
@@ -0,0 +1,87 @@
+import type { Rubric, RubricCriterion, RubricScore } from './types';
+
+/**
+ * Review rubrics
+ * An assignment can define named criteria, each with a weight and scored
+ * levels that describe what work at that level looks like. A mentor picks one
+ * level per criterion; the weighted share of the top scores becomes the rubric
+ * percent, which sets mentor_rating and scales points in lib/scoring.
+ */
+
+export interface RubricScoreInput {
+  key: string;
+  score: number;
+  comment?: string | null;
+}
+
+export type RubricScoringResult =
+  | { ok: true; scores: RubricScore[]; percent: number; mentorRating: number }
+  | { ok: false; error: string };
+
+export function criterionMaxScore(criterion: RubricCriterion): number {
+  return Math.max(...criterion.levels.map((level) => level.score));
+}
+
+/**
+ * Weighted share of the maximum score, 0-100 with one decimal
+ */
+export function rubricPercent(scores: Pick<RubricScore, 'weight' | 'score' | 'max_score'>[]): number {
+  const totalWeight = scores.reduce((sum, s) => sum + s.weight, 0);
+  if (totalWeight === 0) return 0;
+
+  const weighted = scores.reduce(
+    (sum, s) => sum + (s.max_score > 0 ? (s.weight * s.score) / s.max_score : 0),
+    0
+  );
+  return Math.round((weighted / totalWeight) * 1000) / 10;
+}
+
+/**
+ * 1-5 rating shown and emailed for a rubric review
+ */
+export function ratingFromPercent(percent: number): number {
+  return Math.min(5, Math.max(1, Math.round(percent / 20)));
+}
+
+/**
+ * Check a mentor's level choices against the rubric and score them.
+ * Every criterion needs exactly one score that matches one of its levels.
+ */
+export function scoreRubric(rubric: Rubric, input: RubricScoreInput[]): RubricScoringResult {
+  const byKey = new Map(input.map((s) => [s.key, s]));
+  if (byKey.size !== input.length) {
+    return { ok: false, error: 'Each criterion can only be scored once' };
+  }
+
+  const unknown = input.find((s) => !rubric.criteria.some((c) => c.key === s.key));
+  if (unknown) {
+    return { ok: false, error: `Unknown rubric criterion: ${unknown.key}` };
+  }
+
+  const scores: RubricScore[] = [];
+  for (const criterion of rubric.criteria) {
+    const given = byKey.get(criterion.key);
+    if (!given) {
+      return { ok: false, error: `Missing score for ${criterion.name}` };
+    }
+
+    const level = criterion.levels.find((l) => l.score === given.score);
+    if (!level) {
+      return { ok: false, error: `Invalid level for ${criterion.name}` };
+    }
+
+    scores.push({
+      key: criterion.key,
+      name: criterion.name,
+      weight: criterion.weight,
+      score: level.score,
+      max_score: criterionMaxScore(criterion),
+      level_label: level.label,
+      level_description: level.description,
+      comment: given.comment || null,
+    });
+  }
+
+  const percent = rubricPercent(scores);
+  return { ok: true, scores, percent, mentorRating: ratingFromPercent(percent) };
+}
@@ -0,0 +1,231 @@
+import type { createServiceSupabaseClient } from './supabase';
+import { rubricPercent } from './rubric';
+import type { RubricScore, ScoreBreakdown, ScoringPolicy } from './types';
+
+/**
+ * Scoring policy
+ * Single place where points_earned is computed. The webhook, mentor reviews and
+ * the admin "recalculate all points" action all go through applyScoringPolicy,
+ * so a policy change can be replayed over every existing submission.
+ */
+
+type ServiceClient = ReturnType<typeof createServiceSupabaseClient>;
+
+export const DEFAULT_MAX_POINTS = 15;
+
+// Submissions read and written per round trip when recalculating
+const SCORING_PAGE_SIZE = 500;
+
+// Matches the original behaviour: any late submission earns 50%
+export const DEFAULT_SCORING_POLICY: ScoringPolicy = {
+  grace_period_hours: 0,
+  late_penalty: { unit: 'day', percent_per_unit: 50, max_percent: 50 },
+  zero_after_days: null,
+  early_bonus: null,
+  mentor_rating_multipliers: null,
+};
+
+const HOURS_PER_UNIT = { hour: 1, day: 24 } as const;
+
+export interface ScoringInput {
+  maxPoints: number | null;
+  dueAt: string | null;
+  submittedAt: string;
+  mentorRating: number | null;
+  // Set for rubric reviews: points scale with the weighted rubric score instead
+  // of the rating multipliers
+  rubricPercent?: number | null;
+}
+
+/**
+ * Merge a per-assignment override onto the program policy
+ */
+export function resolveScoringPolicy(
+  programPolicy: ScoringPolicy,
+  override?: Partial<ScoringPolicy> | null
+): ScoringPolicy {
+  if (!override) return programPolicy;
+  return {
+    ...programPolicy,
+    ...override,
+    late_penalty: { ...programPolicy.late_penalty, ...override.late_penalty },
+  };
+}
+
+/**
+ * Compute points for a submission under a policy
+ */
+export function calculatePoints(policy: ScoringPolicy, input: ScoringInput): ScoreBreakdown {
+  const base = input.maxPoints || DEFAULT_MAX_POINTS;
+  const breakdown: ScoreBreakdown = {
+    base,
+    hours_late: 0,
+    late_penalty: 0,
+    early_bonus: 0,
+    rating_adjustment: 0,
+    total: base,
+  };
+
+  if (input.dueAt) {
+    const msFromDue = new Date(input.submittedAt).getTime() - new Date(input.dueAt).getTime();
+    const hoursFromDue = msFromDue / 3_600_000;
+
+    if (hoursFromDue > 0) {
+      breakdown.hours_late = Math.round(hoursFromDue * 10) / 10;
+
+      // Past the cutoff nothing else applies
+      if (policy.zero_after_days !== null && hoursFromDue > policy.zero_after_days * 24) {
+        breakdown.late_penalty = base;
+        breakdown.total = 0;
+        return breakdown;
+      }
+
+      const penalisedHours = hoursFromDue - policy.grace_period_hours;
+      if (penalisedHours > 0) {
+        const units = Math.ceil(penalisedHours / HOURS_PER_UNIT[policy.late_penalty.unit]);
+        const percent = Math.min(
+          policy.late_penalty.max_percent,
+          units * policy.late_penalty.percent_per_unit
+        );
+        breakdown.late_penalty = Math.ceil((base * percent) / 100);
+      }
+    } else if (policy.early_bonus && -hoursFromDue >= policy.early_bonus.hours_before_due) {
+      breakdown.early_bonus = Math.floor((base * policy.early_bonus.percent) / 100);
+    }
+  }
+
+  const subtotal = Math.max(0, base - breakdown.late_penalty + breakdown.early_bonus);
+
+  let multiplier =
+    input.mentorRating !== null
+      ? policy.mentor_rating_multipliers?.[String(input.mentorRating)] ?? 1
+      : 1;
+  if (input.rubricPercent !== undefined && input.rubricPercent !== null) {
+    breakdown.rubric_percent = input.rubricPercent;
+    multiplier = input.rubricPercent / 100;
+  }
+  breakdown.rating_adjustment = Math.round(subtotal * multiplier) - subtotal;
+  breakdown.total = Math.max(0, subtotal + breakdown.rating_adjustment);
+
+  return breakdown;
+}
+
+/**
+ * Load the program-wide policy (falls back to the default)
+ */
+export async function loadScoringPolicy(supabase: ServiceClient): Promise<ScoringPolicy> {
+  const { data } = await supabase
+    .from('scoring_policies')
+    .select('policy')
+    .eq('id', 'default')
+    .maybeSingle();
+
+  return resolveScoringPolicy(DEFAULT_SCORING_POLICY, data?.policy as Partial<ScoringPolicy> | undefined);
+}
+
+export interface ApplyScoringResult {
+  updated: number;
+  unchanged: number;
+  points: Map<string, number>;
+}
+
+/**
+ * Recompute points_earned for submissions under the current policy.
+ * Lateness is measured from the first revision, so revising never costs points.
+ * Pass null to recalculate every submission. Submissions are read and written a
+ * page at a time, so the whole program can be recalculated past the API row cap.
+ */
+export async function applyScoringPolicy(
+  supabase: ServiceClient,
+  submissionIds: string[] | null
+): Promise<ApplyScoringResult> {
+  const result: ApplyScoringResult = { updated: 0, unchanged: 0, points: new Map() };
+  if (submissionIds && submissionIds.length === 0) return result;
+
+  const programPolicy = await loadScoringPolicy(supabase);
+
+  for (let from = 0; ; from += SCORING_PAGE_SIZE) {
+    if (submissionIds && from >= submissionIds.length) break;
+
+    let query = supabase
+      .from('submissions')
+      .select('id, submitted_at, mentor_rating, rubric_scores, points_earned, assignments(max_points, due_at, scoring_policy)')
+      .order('id');
+    query = submissionIds
+      ? query.in('id', submissionIds.slice(from, from + SCORING_PAGE_SIZE))
+      : query.range(from, from + SCORING_PAGE_SIZE - 1);
+
+    const { data: submissions, error } = await query;
+    if (error) throw error;
+    if (!submissions || submissions.length === 0) break;
+
+    await scorePage(supabase, programPolicy, submissions, result);
+
+    if (!submissionIds && submissions.length < SCORING_PAGE_SIZE) break;
+  }
+
+  return result;
+}
+
+async function scorePage(
+  supabase: ServiceClient,
+  programPolicy: ScoringPolicy,
+  submissions: {
+    id: string;
+    submitted_at: string;
+    mentor_rating: number | null;
+    rubric_scores: unknown;
+    points_earned: number | null;
+    assignments: unknown;
+  }[],
+  result: ApplyScoringResult
+): Promise<void> {
+  // Earliest revision per submission
+  const { data: firstRevisions, error: revisionError } = await supabase
+    .from('submission_revisions')
+    .select('submission_id, submitted_at')
+    .eq('revision_number', 1)
+    .in('submission_id', submissions.map((s) => s.id));
+
+  if (revisionError) throw revisionError;
+
+  const firstSubmittedAt = new Map(
+    (firstRevisions || []).map((r) => [r.submission_id as string, r.submitted_at as string])
+  );
+
+  const scores: { id: string; points_earned: number; score_breakdown: ScoreBreakdown }[] = [];
+
+  for (const submission of submissions) {
+    const assignment = submission.assignments as unknown as {
+      max_points: number | null;
+      due_at: string | null;
+      scoring_policy: Partial<ScoringPolicy> | null;
+    } | null;
+
+    const breakdown = calculatePoints(
+      resolveScoringPolicy(programPolicy, assignment?.scoring_policy),
+      {
+        maxPoints: assignment?.max_points ?? null,
+        dueAt: assignment?.due_at ?? null,
+        submittedAt: firstSubmittedAt.get(submission.id) ?? submission.submitted_at,
+        mentorRating: submission.mentor_rating,
+        rubricPercent: submission.rubric_scores
+          ? rubricPercent(submission.rubric_scores as RubricScore[])
+          : null,
+      }
+    );
+
+    result.points.set(submission.id, breakdown.total);
+    // Always store the breakdown; the leaderboard trigger only cares about points
+    scores.push({ id: submission.id, points_earned: breakdown.total, score_breakdown: breakdown });
+
+    if (breakdown.total !== submission.points_earned) {
+      result.updated++;
+    } else {
+      result.unchanged++;
+    }
+  }
+
+  const { error: updateError } = await supabase.rpc('set_submission_scores', { p_scores: scores });
+  if (updateError) throw updateError;
+}
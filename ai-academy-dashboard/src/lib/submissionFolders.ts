@@ -0,0 +1,163 @@
+import type { Assignment, RoleType } from './types';
+
+// Submission folder matching
+//
+// Maps the files touched by a push to assignments using `assignments.folder_name`.
+// A folder_name is either a plain folder path or a glob pattern:
+//
+//   day-01-ceo-briefing     matches at any depth, e.g. week-01-foundations/day-01-ceo-briefing/
+//   homework/day-01         matches the nested path homework/day-01/ at any depth
+//   week-*/day-06*          `*` matches within one path segment
+//   **/week-01-checkpoint   `**` matches any number of segments
+//   /day-05-mvp             a leading slash anchors the pattern at the repo root
+//
+// Adding a cohort's curriculum only needs new assignment rows, no code deploy.
+
+export type AssignmentFolder = Pick<Assignment, 'id' | 'day' | 'type' | 'folder_name' | 'target_roles'>;
+
+export interface FolderMatch {
+  assignment: AssignmentFolder;
+  // Actual folder path in the repo (used to fetch the README)
+  folderPath: string;
+  files: string[];
+}
+
+const GLOB_CHARS = /[*?]/;
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Convert a folder_name pattern into a regex whose first capture group
+ * is the matched folder path (without trailing slash)
+ */
+export function compileFolderPattern(pattern: string): RegExp {
+  const trimmed = pattern.trim().replace(/\/+$/, '');
+  const anchored = trimmed.startsWith('/');
+  const body = anchored ? trimmed.slice(1) : trimmed;
+
+  let source = '';
+  if (GLOB_CHARS.test(body)) {
+    const parts = body.split('/');
+    source = parts
+      .map((part, index) => {
+        const isLast = index === parts.length - 1;
+        if (part === '**') {
+          return isLast ? '(?:[^/]+/)*[^/]+' : '(?:[^/]+/)*';
+        }
+        const segment = escapeRegex(part).replace(/\*/g, '[^/]*').replace(/\?/g, '[^/]');
+        return isLast ? segment : segment + '/';
+      })
+      .join('');
+  } else {
+    source = escapeRegex(body);
+  }
+
+  const prefix = anchored ? '^(' : '^((?:[^/]+/)*?';
+  return new RegExp(`${prefix}${source})/`);
+}
+
+/**
+ * Check whether an assignment applies to a participant's role
+ * (NULL target_roles = common assignment)
+ */
+function appliesToRole(assignment: AssignmentFolder, role: RoleType | null): boolean {
+  if (!assignment.target_roles || assignment.target_roles.length === 0) return true;
+  return role !== null && assignment.target_roles.includes(role);
+}
+
+/**
+ * Find every assignment touched by a set of changed files.
+ * Role-specific assignments are only matched for participants in that role.
+ */
+export function matchSubmissionFolders(
+  files: string[],
+  assignments: AssignmentFolder[],
+  role: RoleType | null = null
+): FolderMatch[] {
+  const matches = new Map<string, FolderMatch>();
+
+  const candidates = assignments
+    .filter((a) => a.folder_name && appliesToRole(a, role))
+    .map((a) => ({ assignment: a, regex: compileFolderPattern(a.folder_name) }));
+
+  for (const file of files) {
+    for (const { assignment, regex } of candidates) {
+      const match = file.match(regex);
+      if (!match) continue;
+
+      const existing = matches.get(assignment.id);
+      if (existing) {
+        existing.files.push(file);
+      } else {
+        matches.set(assignment.id, { assignment, folderPath: match[1], files: [file] });
+      }
+    }
+  }
+
+  return Array.from(matches.values());
+}
+
+// Subset of a commit in a GitHub push payload
+export interface PushCommit {
+  id: string;
+  message?: string;
+  timestamp?: string;
+  url?: string;
+  added?: string[];
+  modified?: string[];
+  removed?: string[];
+}
+
+export interface PushSubmission {
+  assignment: AssignmentFolder;
+  folderPath: string;
+  // Last commit in the push that touched the assignment folder
+  commit: PushCommit;
+  // True when that commit only removed files from the folder
+  withdrawn: boolean;
+}
+
+/**
+ * Walk every commit in a push (oldest first) and pick out each assignment touched.
+ * The latest commit touching an assignment wins, so a later edit re-submits
+ * an earlier removal and a later removal withdraws an earlier edit.
+ */
+export function collectPushSubmissions(
+  commits: PushCommit[],
+  assignments: AssignmentFolder[],
+  role: RoleType | null = null
+): PushSubmission[] {
+  const byAssignment = new Map<string, PushSubmission>();
+
+  for (const commit of commits) {
+    const changed = matchSubmissionFolders(
+      [...(commit.added || []), ...(commit.modified || [])],
+      assignments,
+      role
+    );
+    const removed = matchSubmissionFolders(commit.removed || [], assignments, role);
+
+    for (const match of changed) {
+      byAssignment.set(match.assignment.id, {
+        assignment: match.assignment,
+        folderPath: match.folderPath,
+        commit,
+        withdrawn: false,
+      });
+    }
+
+    for (const match of removed) {
+      if (changed.some((c) => c.assignment.id === match.assignment.id)) continue;
+      byAssignment.set(match.assignment.id, {
+        assignment: match.assignment,
+        folderPath: match.folderPath,
+        commit,
+        withdrawn: true,
+      });
+    }
+  }
+
+  return Array.from(byAssignment.values());
+}
@@ -0,0 +1,286 @@
+import type { createServiceSupabaseClient } from './supabase';
+import type { ReadmeAnalysis, RubricScore, SubmissionStatus } from './types';
+
+type ServiceClient = ReturnType<typeof createServiceSupabaseClient>;
+
+export interface RevisionInput {
+  participantId: string;
+  assignmentId: string;
+  commitSha: string;
+  commitMessage: string | null;
+  commitUrl: string | null;
+  readmeContent: string;
+  readmeAnalysis: ReadmeAnalysis | null;
+  selfRating: number | null;
+  submittedAt: string;
+  pointsEarned: number;
+}
+
+export interface RevisionResult {
+  submissionId: string;
+  revisionNumber: number;
+  pointsEarned: number;
+  // False when the commit was already recorded (e.g. a redelivered push)
+  created: boolean;
+}
+
+export interface RevisionReview {
+  status: SubmissionStatus;
+  mentorRating: number | null;
+  mentorNotes: string | null;
+  rubricScores: RubricScore[] | null;
+  reviewedBy: string;
+  reviewedAt: string;
+}
+
+export interface NextRevision {
+  revisionNumber: number;
+  pointsEarned: number;
+  // Status the submission moves to; unchanged unless a revision was requested
+  status: SubmissionStatus;
+  // True when the revision answers a needs_revision review
+  answersReview: boolean;
+}
+
+/**
+ * Revision number, points and status of a new commit on an existing submission
+ */
+export function planNextRevision(
+  existing: { status: SubmissionStatus; current_revision: number | null; points_earned: number | null },
+  pointsEarned: number
+): NextRevision {
+  const answersReview = existing.status === 'needs_revision';
+  return {
+    revisionNumber: (existing.current_revision ?? 1) + 1,
+    // Revising never costs points already earned
+    pointsEarned: Math.max(existing.points_earned ?? 0, pointsEarned),
+    // Only a requested revision goes back to the queue; reviewed work keeps its status
+    status: answersReview ? 'submitted' : existing.status,
+    answersReview,
+  };
+}
+
+// Postgres unique_violation - a concurrent delivery recorded the same commit first
+function isUniqueViolation(error: { code?: string } | null): boolean {
+  return error?.code === '23505';
+}
+
+/**
+ * Check whether a commit was already recorded for a participant's assignment
+ */
+export async function isCommitRecorded(
+  supabase: ServiceClient,
+  participantId: string,
+  assignmentId: string,
+  commitSha: string
+): Promise<boolean> {
+  const { data } = await supabase
+    .from('submission_revisions')
+    .select('id, submissions!inner(participant_id, assignment_id)')
+    .eq('commit_sha', commitSha)
+    .eq('submissions.participant_id', participantId)
+    .eq('submissions.assignment_id', assignmentId)
+    .limit(1);
+
+  return !!data && data.length > 0;
+}
+
+/**
+ * Record a pushed submission as a new revision.
+ * The submission row always mirrors the latest revision, while earlier commits,
+ * READMEs and the reviews they received stay in submission_revisions.
+ */
+export async function recordSubmissionRevision(
+  supabase: ServiceClient,
+  input: RevisionInput
+): Promise<RevisionResult> {
+  const { data: existing, error: fetchError } = await supabase
+    .from('submissions')
+    .select('id, status, commit_sha, current_revision, points_earned')
+    .eq('participant_id', input.participantId)
+    .eq('assignment_id', input.assignmentId)
+    .maybeSingle();
+
+  if (fetchError) throw fetchError;
+
+  // First submission for this assignment
+  if (!existing) {
+    const { data: submission, error } = await supabase
+      .from('submissions')
+      .insert({
+        participant_id: input.participantId,
+        assignment_id: input.assignmentId,
+        commit_sha: input.commitSha,
+        commit_message: input.commitMessage,
+        commit_url: input.commitUrl,
+        readme_content: input.readmeContent,
+        readme_analysis: input.readmeAnalysis,
+        self_rating: input.selfRating,
+        points_earned: input.pointsEarned,
+        status: 'submitted',
+        submitted_at: input.submittedAt,
+        current_revision: 1,
+      })
+      .select('id')
+      .single();
+
+    if (isUniqueViolation(error)) {
+      const { data: raced, error: racedError } = await supabase
+        .from('submissions')
+        .select('id, current_revision, points_earned')
+        .eq('participant_id', input.participantId)
+        .eq('assignment_id', input.assignmentId)
+        .maybeSingle();
+
+      if (racedError) throw racedError;
+      if (!raced) {
+        throw new Error(`Submission for assignment ${input.assignmentId} conflicted on insert but could not be found`);
+      }
+
+      return {
+        submissionId: raced.id,
+        revisionNumber: raced.current_revision ?? 1,
+        pointsEarned: raced.points_earned ?? input.pointsEarned,
+        created: false,
+      };
+    }
+    if (error) throw error;
+
+    const { error: revisionError } = await supabase.from('submission_revisions').insert({
+      submission_id: submission.id,
+      revision_number: 1,
+      commit_sha: input.commitSha,
+      commit_message: input.commitMessage,
+      commit_url: input.commitUrl,
+      readme_content: input.readmeContent,
+      readme_analysis: input.readmeAnalysis,
+      self_rating: input.selfRating,
+      submitted_at: input.submittedAt,
+    });
+
+    if (revisionError) throw revisionError;
+
+    return {
+      submissionId: submission.id,
+      revisionNumber: 1,
+      pointsEarned: input.pointsEarned,
+      created: true,
+    };
+  }
+
+  // Same commit already recorded (current or earlier revision) - nothing changed
+  const { data: knownRevision } = await supabase
+    .from('submission_revisions')
+    .select('id')
+    .eq('submission_id', existing.id)
+    .eq('commit_sha', input.commitSha)
+    .maybeSingle();
+
+  if (existing.commit_sha === input.commitSha || knownRevision) {
+    return {
+      submissionId: existing.id,
+      revisionNumber: existing.current_revision,
+      pointsEarned: existing.points_earned,
+      created: false,
+    };
+  }
+
+  const next = planNextRevision(existing, input.pointsEarned);
+
+  // A resubmission after needs_revision answers the review of the previous revision
+  let inResponseTo: string | null = null;
+  if (next.answersReview) {
+    const { data: previous } = await supabase
+      .from('submission_revisions')
+      .select('id')
+      .eq('submission_id', existing.id)
+      .eq('revision_number', existing.current_revision)
+      .maybeSingle();
+    inResponseTo = previous?.id ?? null;
+  }
+
+  const { error: revisionError } = await supabase.from('submission_revisions').insert({
+    submission_id: existing.id,
+    revision_number: next.revisionNumber,
+    commit_sha: input.commitSha,
+    commit_message: input.commitMessage,
+    commit_url: input.commitUrl,
+    readme_content: input.readmeContent,
+    readme_analysis: input.readmeAnalysis,
+    self_rating: input.selfRating,
+    submitted_at: input.submittedAt,
+    in_response_to: inResponseTo,
+  });
+
+  if (isUniqueViolation(revisionError)) {
+    return {
+      submissionId: existing.id,
+      revisionNumber: existing.current_revision,
+      pointsEarned: existing.points_earned,
+      created: false,
+    };
+  }
+  if (revisionError) throw revisionError;
+
+  // Keep mentor review fields
+  const { error: updateError } = await supabase
+    .from('submissions')
+    .update({
+      commit_sha: input.commitSha,
+      commit_message: input.commitMessage,
+      commit_url: input.commitUrl,
+      readme_content: input.readmeContent,
+      readme_analysis: input.readmeAnalysis,
+      self_rating: input.selfRating,
+      points_earned: next.pointsEarned,
+      submitted_at: input.submittedAt,
+      current_revision: next.revisionNumber,
+      withdrawn_at: null,
+      ...(next.answersReview ? { status: next.status } : {}),
+    })
+    .eq('id', existing.id);
+
+  if (updateError) throw updateError;
+
+  return {
+    submissionId: existing.id,
+    revisionNumber: next.revisionNumber,
+    pointsEarned: next.pointsEarned,
+    created: true,
+  };
+}
+
+/**
+ * Record a mentor review against the current revision of each submission
+ */
+export async function recordRevisionReview(
+  supabase: ServiceClient,
+  submissions: { id: string; current_revision: number | null }[],
+  review: RevisionReview
+): Promise<void> {
+  for (const submission of submissions) {
+    const revisionNumber = submission.current_revision ?? 1;
+
+    const { error: revisionError } = await supabase
+      .from('submission_revisions')
+      .update({
+        review_status: review.status,
+        mentor_rating: review.mentorRating,
+        mentor_notes: review.mentorNotes,
+        rubric_scores: review.rubricScores,
+        reviewed_by: review.reviewedBy,
+        reviewed_at: review.reviewedAt,
+      })
+      .eq('submission_id', submission.id)
+      .eq('revision_number', revisionNumber);
+
+    if (revisionError) throw revisionError;
+
+    const { error: submissionError } = await supabase
+      .from('submissions')
+      .update({ reviewed_revision: revisionNumber })
+      .eq('id', submission.id);
+
+    if (submissionError) throw submissionError;
+  }
+}
@@ -26,3 +26,19 @@ export function getSupabaseClient() {
   }
   return browserClient;
 }
+
+// PostgREST returns at most this many rows per request
+export const SUPABASE_PAGE_SIZE = 1000;
+
+// Read every row of a query page by page, past the row cap
+export async function readAllPages<T>(
+  page: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += SUPABASE_PAGE_SIZE) {
+    const { data, error } = await page(from, from + SUPABASE_PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...(data ?? []));
+    if (!data || data.length < SUPABASE_PAGE_SIZE) return rows;
+  }
+}
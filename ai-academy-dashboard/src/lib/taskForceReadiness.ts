@@ -1,4 +1,5 @@
-import type { RoleType, ClearanceLevel } from './types';
+import { getCurrentProgramDay } from './programCalendar';
+import type { RoleType, ClearanceLevel, ProgramCalendar, ProgramCalendarSettings } from './types';
 
 interface MemberMastery {
   participant_id: string;
@@ -36,38 +37,25 @@ export interface TaskForceReadiness {
 // Maximum mastery level
 const MAX_MASTERY_LEVEL = 4;
 
-// Program start date for calculating expected progress
-const PROGRAM_START = new Date('2026-02-02');
-
-/**
- * Calculate the current program day
- */
-export function getCurrentProgramDay(): number {
-  const now = new Date();
-  const diffTime = now.getTime() - PROGRAM_START.getTime();
-  const diffDays = Math.floor(diffTime / (1000 * 60 * 60 * 24));
-
-  if (diffDays < 0) return 0;
-  return Math.min(diffDays + 1, 25);
-}
-
 /**
- * Calculate expected readiness based on current program day
- * Assumes linear progression through the 25-day program
+ * Calculate expected readiness based on the program day
+ * Thresholds scale with the calendar length (shown for the 25-day program)
  */
-export function getExpectedReadiness(programDay: number): number {
+export function getExpectedReadiness(programDay: number, calendar: ProgramCalendarSettings): number {
+  const totalDays = calendar.total_days;
   if (programDay <= 0) return 0;
-  if (programDay >= 25) return 100;
+  if (programDay >= totalDays) return 100;
 
   // Expected progression:
   // Day 1-3: Level 1 (25%)
   // Day 4-10: Level 2 (50%)
   // Day 11-20: Level 3 (75%)
   // Day 21-25: Level 4 (100%)
+  const progress = programDay / totalDays;
 
-  if (programDay <= 3) return 25;
-  if (programDay <= 10) return 50;
-  if (programDay <= 20) return 75;
+  if (progress <= 0.12) return 25;
+  if (progress <= 0.4) return 50;
+  if (progress <= 0.8) return 75;
   return 100;
 }
 
@@ -78,6 +66,7 @@ export function calculateTaskForceReadiness(
   taskForceId: string,
   taskForceName: string,
   members: MemberMastery[],
+  calendar: ProgramCalendar,
   previousReadiness?: number
 ): TaskForceReadiness {
   if (members.length === 0) {
@@ -89,7 +78,7 @@ export function calculateTaskForceReadiness(
       roleBreakdown: [],
       trend: 'stable',
       trendValue: 0,
-      targetReadiness: getExpectedReadiness(getCurrentProgramDay()),
+      targetReadiness: getExpectedReadiness(getCurrentProgramDay(calendar), calendar),
       isOnTrack: false,
       members: [],
       lowestRole: null,
@@ -158,7 +147,7 @@ export function calculateTaskForceReadiness(
   }
 
   // Calculate target and track status
-  const targetReadiness = getExpectedReadiness(getCurrentProgramDay());
+  const targetReadiness = getExpectedReadiness(getCurrentProgramDay(calendar), calendar);
   const isOnTrack = overallReadiness >= targetReadiness;
 
   return {
@@ -0,0 +1,161 @@
+import type { createServiceSupabaseClient } from './supabase';
+
+/**
+ * Timezone helpers
+ * Submission timestamps are stored in UTC; achievements such as early_bird,
+ * night_owl and day streaks are about the participant's local clock.
+ * A participant's timezone is their own setting, else their task force's
+ * (participants.timezone > task_forces.timezone > PROGRAM_TIMEZONE).
+ */
+
+type ServiceClient = ReturnType<typeof createServiceSupabaseClient>;
+
+export const PROGRAM_TIMEZONE = process.env.NEXT_PUBLIC_PROGRAM_TIMEZONE || 'Europe/Bratislava';
+
+export interface LocalDateTime {
+  date: string; // YYYY-MM-DD in the given timezone
+  hour: number; // 0-23
+}
+
+// Offered in the profile timezone picker
+export const TIMEZONE_OPTIONS = [
+  'Europe/London',
+  'Europe/Lisbon',
+  'Europe/Amsterdam',
+  'Europe/Berlin',
+  'Europe/Paris',
+  'Europe/Rome',
+  'Europe/Madrid',
+  'Europe/Prague',
+  'Europe/Bratislava',
+  'Europe/Warsaw',
+  'Europe/Athens',
+  'Europe/Bucharest',
+  'America/New_York',
+  'America/Chicago',
+  'America/Los_Angeles',
+  'Asia/Dubai',
+  'Asia/Kolkata',
+  'Asia/Singapore',
+];
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-CA', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      hourCycle: 'h23',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * First valid timezone among the candidates, else the program timezone
+ */
+export function resolveTimeZone(...candidates: (string | null | undefined)[]): string {
+  return candidates.find((tz): tz is string => !!tz && isValidTimeZone(tz)) ?? PROGRAM_TIMEZONE;
+}
+
+/**
+ * Local calendar date and hour of a timestamp in a timezone
+ */
+export function toLocalDateTime(timestamp: string | Date, timeZone: string = PROGRAM_TIMEZONE): LocalDateTime {
+  const parts = getFormatter(timeZone).formatToParts(new Date(timestamp));
+  const get = (type: Intl.DateTimeFormatPartTypes) => parts.find((p) => p.type === type)?.value ?? '';
+  return {
+    date: `${get('year')}-${get('month')}-${get('day')}`,
+    hour: parseInt(get('hour')),
+  };
+}
+
+function offsetMinutes(timeZone: string, at: Date): number {
+  const name = new Intl.DateTimeFormat('en-US', { timeZone, timeZoneName: 'longOffset' })
+    .formatToParts(at)
+    .find((p) => p.type === 'timeZoneName')?.value;
+  const match = name?.match(/GMT([+-])(\d{2}):(\d{2})/);
+  if (!match) return 0; // "GMT" = UTC
+  const minutes = parseInt(match[2]) * 60 + parseInt(match[3]);
+  return match[1] === '-' ? -minutes : minutes;
+}
+
+/**
+ * Instant of a local date (YYYY-MM-DD) and wall-clock time (HH:MM or HH:MM:SS)
+ * in a timezone - the inverse of toLocalDateTime
+ */
+export function fromLocalDateTime(date: string, time: string, timeZone: string = PROGRAM_TIMEZONE): Date {
+  const wallClock = Date.parse(`${date}T${time.slice(0, 5)}:00Z`);
+  const guess = wallClock - offsetMinutes(timeZone, new Date(wallClock)) * 60_000;
+  // Second pass in case a DST change falls between the wall clock and the guess
+  return new Date(wallClock - offsetMinutes(timeZone, new Date(guess)) * 60_000);
+}
+
+/**
+ * Longest run of consecutive calendar dates (YYYY-MM-DD, any order, duplicates allowed)
+ */
+export function longestConsecutiveDays(dates: string[]): number {
+  const days = [...new Set(dates)].map((d) => Date.parse(`${d}T00:00:00Z`) / 86_400_000).sort((a, b) => a - b);
+
+  let longest = 0;
+  let current = 0;
+  for (let i = 0; i < days.length; i++) {
+    current = i > 0 && days[i] - days[i - 1] === 1 ? current + 1 : 1;
+    longest = Math.max(longest, current);
+  }
+  return longest;
+}
+
+/**
+ * Local calendar date `daysAgo` days before `now` in a timezone
+ */
+export function localDateDaysAgo(daysAgo: number, timeZone: string, now: Date = new Date()): string {
+  const today = Date.parse(`${toLocalDateTime(now, timeZone).date}T00:00:00Z`);
+  return new Date(today - daysAgo * 86_400_000).toISOString().slice(0, 10);
+}
+
+/**
+ * Resolved timezone for each participant (own setting, else task force)
+ */
+export async function getParticipantTimeZones(
+  supabase: ServiceClient,
+  participantIds: string[]
+): Promise<Map<string, string>> {
+  const timeZones = new Map<string, string>();
+  if (participantIds.length === 0) return timeZones;
+
+  const { data } = await supabase
+    .from('participants')
+    .select('id, timezone, task_force_members(task_forces(timezone))')
+    .in('id', participantIds);
+
+  for (const row of data || []) {
+    // One-to-one relation: PostgREST may return an object or a single-element array
+    const membership = row.task_force_members as unknown as
+      | { task_forces: { timezone: string | null } | null }
+      | { task_forces: { timezone: string | null } | null }[]
+      | null;
+    const member = Array.isArray(membership) ? membership[0] : membership;
+    timeZones.set(row.id, resolveTimeZone(row.timezone, member?.task_forces?.timezone));
+  }
+
+  for (const id of participantIds) {
+    if (!timeZones.has(id)) timeZones.set(id, PROGRAM_TIMEZONE);
+  }
+  return timeZones;
+}
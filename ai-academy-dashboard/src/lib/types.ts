@@ -26,7 +26,9 @@ export interface Participant {
   auth_user_id: string | null;  // Link to Supabase auth user
   status: UserStatus;
   is_admin: boolean;
+  is_mentor: boolean;
   email_notifications: boolean;
+  timezone: string | null;  // IANA timezone; NULL = task force timezone
   created_at: string;
   updated_at: string;
 }
@@ -53,6 +55,8 @@ export interface Assignment {
   due_at: string | null;
   folder_name: string;
   week: number;
+  scoring_policy: Partial<ScoringPolicy> | null;  // Overrides the program scoring policy
+  rubric: Rubric | null;  // NULL = reviewed with a single 1-5 rating
   created_at: string;
 }
 
@@ -67,12 +71,152 @@ export interface Submission {
   self_rating: number | null;
   mentor_rating: number | null;
   mentor_notes: string | null;
-  mentor_id: string | null;
+  mentor_id: string | null;  // Assigned reviewer (see lib/mentorAssignment)
   points_earned: number;
   bonus_points: number;
   status: SubmissionStatus;
   submitted_at: string;
   reviewed_at: string | null;
+  withdrawn_at: string | null;  // Set when the submission folder was removed in a later push
+  current_revision: number;
+  reviewed_revision: number | null;  // Revision the last mentor review applies to
+  readme_analysis: ReadmeAnalysis | null;  // Parsed README structure (see lib/readmeParser)
+  score_breakdown: ScoreBreakdown | null;  // How points_earned was computed (see lib/scoring)
+  rubric_scores: RubricScore[] | null;  // Latest review against the assignment rubric
+}
+
+// Mentor review assignment (see lib/mentorAssignment)
+export type ReviewAssignmentReason = 'auto' | 'manual' | 'overdue';
+export type ReviewAssignmentStatus = 'open' | 'completed' | 'reassigned' | 'released';
+
+export interface MentorPoolEntry {
+  participant_id: string;
+  capacity: number;  // Open review assignments at a time
+  expertise: RoleType[];  // Empty = generalist
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ReviewAssignment {
+  id: string;
+  submission_id: string;
+  mentor_id: string;
+  revision: number;
+  reason: ReviewAssignmentReason;
+  status: ReviewAssignmentStatus;
+  assigned_at: string;
+  due_at: string;  // SLA deadline
+  closed_at: string | null;
+  completed_by: string | null;
+  reassigned_from: string | null;
+}
+
+export interface SubmissionRevision {
+  id: string;
+  submission_id: string;
+  revision_number: number;
+  commit_sha: string;
+  commit_message: string | null;
+  commit_url: string | null;
+  readme_content: string | null;
+  self_rating: number | null;
+  submitted_at: string;
+  review_status: SubmissionStatus | null;
+  mentor_rating: number | null;
+  mentor_notes: string | null;
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+  in_response_to: string | null;  // Revision whose needs_revision review this answers
+  readme_analysis: ReadmeAnalysis | null;
+  rubric_scores: RubricScore[] | null;
+  created_at: string;
+}
+
+// Review rubric (see lib/rubric)
+export interface RubricLevel {
+  score: number;
+  label: string;  // e.g. "Proficient"
+  description: string;  // What work at this level looks like
+}
+
+export interface RubricCriterion {
+  key: string;
+  name: string;
+  weight: number;  // Relative to the other criteria
+  levels: RubricLevel[];
+}
+
+export interface Rubric {
+  criteria: RubricCriterion[];
+}
+
+// Criterion text is copied from the rubric so feedback survives rubric edits
+export interface RubricScore {
+  key: string;
+  name: string;
+  weight: number;
+  score: number;
+  max_score: number;
+  level_label: string;
+  level_description: string;
+  comment: string | null;
+}
+
+// README analysis - structured view of a submission README for mentors
+export type ReadmeSectionKey = 'deliverables' | 'reflection' | 'self_assessment' | 'screenshots';
+
+export type ReadmeLinkKind = 'demo' | 'repo' | 'other';
+
+export interface ReadmeSection {
+  key: ReadmeSectionKey;
+  label: string;
+  required: boolean;
+  present: boolean;
+  complete: boolean;  // Present with real content, not just the template placeholders
+  word_count: number;
+}
+
+export interface ReadmeLink {
+  text: string;
+  url: string;
+  kind: ReadmeLinkKind;
+}
+
+export interface ReadmeAnalysis {
+  submission_tag: { day: number; type: AssignmentType } | null;
+  self_rating: number | null;
+  self_assessment: { criterion: string; rating: number }[];
+  sections: ReadmeSection[];
+  links: ReadmeLink[];
+  completeness: number;  // 0-100
+  warnings: string[];
+}
+
+// Scoring policy - late penalties and bonuses applied to points_earned
+export interface ScoringPolicy {
+  grace_period_hours: number;  // Lateness within the grace period is not penalised
+  late_penalty: {
+    unit: 'hour' | 'day';
+    percent_per_unit: number;
+    max_percent: number;
+  };
+  zero_after_days: number | null;  // Late by more than this many days = 0 points
+  early_bonus: {
+    hours_before_due: number;
+    percent: number;
+  } | null;
+  mentor_rating_multipliers: Record<string, number> | null;  // Keyed by rating '1'-'5'
+}
+
+export interface ScoreBreakdown {
+  base: number;
+  hours_late: number;
+  late_penalty: number;
+  early_bonus: number;
+  rating_adjustment: number;
+  rubric_percent?: number | null;  // Weighted rubric score, replaces the rating multiplier
+  total: number;
 }
 
 export interface LeaderboardEntry {
@@ -148,7 +292,7 @@ export interface ActivityLogWithParticipant extends ActivityLog {
 
 export interface SubmissionWithDetails extends Submission {
   participants: Pick<Participant, 'name' | 'github_username' | 'avatar_url' | 'role' | 'team'> | null;
-  assignments: Pick<Assignment, 'title' | 'day' | 'type'> | null;
+  assignments: (Pick<Assignment, 'title' | 'day' | 'type'> & Partial<Pick<Assignment, 'rubric'>>) | null;
 }
 
 export interface ParticipantWithAchievements extends Participant {
@@ -168,6 +312,9 @@ export const ACHIEVEMENT_ICONS: Record<string, string> = {
   team_player: '🤝',
   mentor_favorite: '🌟',
   completionist: '🏆',
+  peer_reviewer: '🔍',
+  discussion_starter: '💬',
+  t_shape_explorer: '🎯',
 };
 
 // Role colors for UI
@@ -194,7 +341,8 @@ export const TEAM_COLORS: Record<TeamType, string> = {
 };
 
 // Peer Review types
-export type PeerReviewStatus = 'pending' | 'completed' | 'skipped';
+export type PeerReviewStatus = 'pending' | 'completed' | 'skipped' | 'expired';
+export type PeerReviewFlagReason = 'disrespectful' | 'off_topic' | 'spam' | 'other';
 
 export interface PeerReview {
   id: string;
@@ -205,8 +353,23 @@ export interface PeerReview {
   is_anonymous: boolean;
   status: PeerReviewStatus;
   bonus_points_earned: number;
+  quality_score: number | null;
   assigned_at: string;
+  due_at: string | null;
+  reminder_sent_at: string | null;
+  reassigned_from: string | null;
   completed_at: string | null;
+  // Author's response
+  helpfulness: number | null;
+  helpfulness_at: string | null;
+  author_reply: string | null;
+  author_replied_at: string | null;
+  flag_reason: PeerReviewFlagReason | null;
+  flag_details: string | null;
+  flagged_at: string | null;
+  moderation_status: 'pending' | 'dismissed' | 'removed' | null;
+  moderated_by: string | null;
+  moderated_at: string | null;
 }
 
 export interface PeerReviewWithDetails extends PeerReview {
@@ -238,6 +401,25 @@ export interface Comment {
   created_at: string;
   updated_at: string | null;
   is_edited: boolean;
+  // README passage a thread root points at (see lib/commentAnchors)
+  anchor_revision: number | null;
+  anchor_start: number | null;
+  anchor_end: number | null;
+  anchor_text: string | null;
+  anchor_prefix: string | null;
+  anchor_suffix: string | null;
+  is_outdated: boolean;
+  resolved_at: string | null;
+  resolved_by: string | null;
+}
+
+export interface CommentAnchor {
+  revision: number;
+  start: number;
+  end: number;
+  text: string;
+  prefix: string;
+  suffix: string;
 }
 
 export interface CommentWithAuthor extends Comment {
@@ -281,6 +463,7 @@ export interface TaskForce {
   starting_size: number;
   current_size: number;
   overall_readiness: number | null;
+  timezone: string;  // IANA timezone of the cohort
   created_at: string;
 }
 
@@ -304,11 +487,23 @@ export interface MissionDay {
   resources_content: string | null;
   tech_skills_focus: string[] | null;
   target_roles: string[] | null;
-  unlock_date: string | null;
+  unlock_date: string | null;  // Overrides the program calendar schedule for this day
   is_visible: boolean;
   created_at: string;
 }
 
+// Program calendar - maps calendar dates to program days (see lib/programCalendar)
+export interface ProgramCalendarSettings {
+  start_date: string;  // YYYY-MM-DD, day 1
+  total_days: number;
+  break_weeks: string[];  // Monday (YYYY-MM-DD) of each week without program days
+  holidays: string[];  // Individual dates without program days
+}
+
+export interface ProgramCalendar extends ProgramCalendarSettings {
+  unlock_overrides: Record<number, string>;  // mission_days.unlock_date by day
+}
+
 export interface IntelDrop {
   id: number;
   day: number;
@@ -336,6 +531,9 @@ export interface ParticipantMastery {
   week2_checkpoint_passed: boolean;
   week4_checkpoint_passed: boolean;
   week5_checkpoint_passed: boolean;
+  live_sessions_attended: number;
+  live_sessions_missed: number;
+  live_minutes_attended: number;
   updated_at: string;
 }
 
@@ -367,6 +565,135 @@ export interface LiveSession {
   is_active: boolean;
   join_code: string | null;
   created_at: string;
+  // Bumped on every step/section change (see lib/liveSessionState.ts)
+  state_version: number;
+  state_updated_at: string | null;
+  instructor_heartbeat_at: string | null;
+}
+
+// Session team: one lead (live_sessions.instructor_id), co-instructors and TAs
+export type LiveSessionRole = 'lead' | 'co_instructor' | 'ta';
+
+export interface LiveSessionStaff {
+  session_id: string;
+  participant_id: string;
+  role: LiveSessionRole;
+  invited_by: string | null;
+  last_seen_at: string | null;
+  created_at: string;
+}
+
+// Live session booked ahead of time (see lib/liveSchedule)
+export interface ScheduledLiveSession {
+  id: string;
+  mission_day_id: number;
+  title: string;
+  description: string | null;
+  starts_at: string;
+  duration_minutes: number;
+  instructor_id: string | null;
+  reminder_sent_at: string | null;
+  session_id: string | null;  // Set once started
+  cancelled_at: string | null;
+  created_at: string;
+}
+
+export interface LiveSessionParticipant {
+  id: string;
+  session_id: string;
+  participant_id: string;
+  joined_at: string;
+  last_seen_at: string;
+  is_active: boolean;
+  left_at: string | null;
+  rejoined_at: string | null;  // Start of the current stretch (NULL = joined_at)
+  attended_seconds: number;  // Completed stretches only
+  leave_count: number;
+}
+
+// One step/section of a session as driven by the instructor (see lib/liveAttendance)
+export interface LiveSessionTimelineEntry {
+  id: string;
+  session_id: string;
+  step: number;
+  section: string;
+  started_at: string;
+  ended_at: string | null;
+}
+
+// Live session polls and quick checks (see lib/livePolls)
+export type LivePollKind = 'poll' | 'multiple_choice' | 'confidence';
+export type LivePollStatus = 'open' | 'closed';
+
+export interface LivePollResults {
+  counts: number[];  // Responses per option index
+  total: number;
+  correct_percent: number | null;  // multiple_choice only
+  average: number | null;  // confidence only, 1-5
+}
+
+export interface LiveSessionPoll {
+  id: string;
+  session_id: string;
+  kind: LivePollKind;
+  question: string;
+  options: string[];
+  correct_option: number | null;
+  section: string | null;  // Session section when the poll was opened
+  step: number | null;
+  status: LivePollStatus;
+  results: LivePollResults | null;  // Snapshot saved when the poll closes
+  created_by: string | null;
+  created_at: string;
+  closed_at: string | null;
+}
+
+export interface LiveSessionPollResponse {
+  id: string;
+  poll_id: string;
+  participant_id: string;
+  option_index: number;
+  responded_at: string;
+}
+
+// Live session raise-hand and question queue (see lib/liveQuestions)
+export type LiveQuestionKind = 'hand' | 'question';
+export type LiveQuestionStatus = 'open' | 'answered' | 'dismissed';
+
+export interface LiveSessionQuestion {
+  id: string;
+  session_id: string;
+  participant_id: string;
+  kind: LiveQuestionKind;
+  body: string | null;  // NULL for a raised hand
+  status: LiveQuestionStatus;
+  section: string | null;  // Session section when asked
+  step: number | null;
+  answered_at: string | null;
+  answered_by: string | null;
+  created_at: string;
+}
+
+// Live session breakout rooms (see lib/liveBreakouts)
+export type LiveBreakoutStrategy = 'task_force' | 'role' | 'random';
+
+export interface LiveBreakoutRoom {
+  id: string;
+  session_id: string;
+  name: string;
+  strategy: LiveBreakoutStrategy;
+  group_key: string | null;  // Task force id or role; NULL for random rooms
+  notes: string;
+  notes_updated_at: string | null;
+  notes_updated_by: string | null;
+  created_at: string;
+  closed_at: string | null;
+}
+
+export interface LiveBreakoutMember {
+  room_id: string;
+  participant_id: string;
+  created_at: string;
 }
 
 // View types for mission system
@@ -541,3 +868,28 @@ export const PREREQUISITE_CATEGORY_ICONS: Record<PrerequisiteCategory, string> =
   'technical': '⚙️',
   'confirmation': '✅',
 };
+
+// ============================================================================
+// GITHUB WEBHOOK DELIVERIES
+// ============================================================================
+
+export type WebhookDeliveryOutcome = 'pending' | 'processed' | 'ignored' | 'failed';
+
+export interface WebhookDelivery {
+  id: string;
+  delivery_id: string;  // x-github-delivery header
+  event: string;
+  github_username: string | null;
+  participant_id: string | null;
+  outcome: WebhookDeliveryOutcome;
+  reason: string | null;
+  result: Record<string, unknown> | null;
+  received_at: string;
+  processed_at: string | null;
+  replay_count: number;
+  last_replayed_at: string | null;
+}
+
+export interface WebhookDeliveryWithParticipant extends WebhookDelivery {
+  participants: Pick<Participant, 'name' | 'github_username' | 'avatar_url'> | null;
+}
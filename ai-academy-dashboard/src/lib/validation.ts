@@ -126,12 +126,38 @@ export const mentorNotesSchema = z
   .nullable()
   .transform((val) => val || null);
 
-export const reviewSchema = z.object({
-  submission_id: uuidSchema,
-  mentor_rating: mentorRatingSchema,
-  mentor_notes: mentorNotesSchema,
+const rubricKeySchema = z
+  .string()
+  .min(1, 'Criterion key is required')
+  .max(50, 'Criterion key too long')
+  .regex(/^[a-z0-9_-]+$/, 'Criterion key may only contain lowercase letters, numbers, - and _');
+
+export const rubricScoreSchema = z.object({
+  key: rubricKeySchema,
+  score: z.number().int('Score must be an integer').min(0).max(100),
+  comment: z
+    .string()
+    .max(1000, 'Comment too long')
+    .transform(sanitizeString)
+    .optional()
+    .nullable(),
 });
 
+// Rubric assignments take rubric_scores; mentor_rating is then computed from them
+export const reviewSchema = z
+  .object({
+    submission_id: uuidSchema,
+    mentor_rating: mentorRatingSchema.optional(),
+    rubric_scores: z.array(rubricScoreSchema).min(1).max(20).optional(),
+    mentor_notes: mentorNotesSchema,
+  })
+  .refine(
+    (data) => data.mentor_rating !== undefined || data.rubric_scores !== undefined,
+    {
+      message: 'Either mentor_rating or rubric_scores is required',
+    }
+  );
+
 export type ReviewInput = z.infer<typeof reviewSchema>;
 
 // ============================================================================
@@ -163,6 +189,180 @@ export const bulkReviewSchema = z
 
 export type BulkReviewInput = z.infer<typeof bulkReviewSchema>;
 
+// ============================================================================
+// Rubric Schema
+// ============================================================================
+
+const rubricLevelSchema = z.object({
+  score: z.number().int('Score must be an integer').min(0, 'Score must be at least 0').max(100, 'Score must be at most 100'),
+  label: z.string().min(1, 'Level label is required').max(50, 'Level label too long').transform(sanitizeString),
+  description: z.string().max(500, 'Level description too long').transform(sanitizeString),
+});
+
+const rubricCriterionSchema = z
+  .object({
+    key: rubricKeySchema,
+    name: z.string().min(1, 'Criterion name is required').max(100, 'Criterion name too long').transform(sanitizeString),
+    weight: z.number().positive('Weight must be positive').max(100, 'Weight must be at most 100'),
+    levels: z.array(rubricLevelSchema).min(2, 'At least two levels').max(6, 'At most six levels'),
+  })
+  .refine((c) => new Set(c.levels.map((l) => l.score)).size === c.levels.length, {
+    message: 'Level scores must be unique',
+  })
+  .refine((c) => c.levels.some((l) => l.score > 0), {
+    message: 'At least one level must score above 0',
+  });
+
+export const rubricSchema = z
+  .object({
+    criteria: z.array(rubricCriterionSchema).min(1, 'At least one criterion').max(20, 'At most 20 criteria'),
+  })
+  .refine((r) => new Set(r.criteria.map((c) => c.key)).size === r.criteria.length, {
+    message: 'Criterion keys must be unique',
+  });
+
+export type RubricInput = z.infer<typeof rubricSchema>;
+
+// ============================================================================
+// Mentor Assignment Schemas
+// ============================================================================
+
+export const mentorPoolSchema = z.object({
+  participant_id: uuidSchema,
+  capacity: z.number().int().min(1, 'Capacity must be at least 1').max(100, 'Capacity must be at most 100').optional(),
+  expertise: z.array(z.enum(VALID_ROLES, { message: 'Invalid role type' })).max(VALID_ROLES.length).optional(),
+  is_active: z.boolean().optional(),
+});
+
+export type MentorPoolInput = z.infer<typeof mentorPoolSchema>;
+
+// Without submission_id every unassigned submission awaiting review is assigned
+export const reviewAssignmentSchema = z.object({
+  submission_id: uuidSchema.optional(),
+  // Without mentor_id the submission goes to the next best mentor
+  mentor_id: uuidSchema.optional(),
+});
+
+export type ReviewAssignmentInput = z.infer<typeof reviewAssignmentSchema>;
+
+// ============================================================================
+// Peer Review Assignment Schemas
+// ============================================================================
+
+const peerMatchOptionsSchema = {
+  count: z.number().int().min(1, 'At least 1 reviewer').max(5, 'At most 5 reviewers').optional(),
+  // Reviewer must have a different role than the author
+  cross_role: z.boolean().optional(),
+};
+
+export const peerReviewAssignSchema = z.object({
+  submission_id: uuidSchema,
+  ...peerMatchOptionsSchema,
+});
+
+export const peerReviewAssignDaySchema = z.object({
+  day: z.number().int().min(1, 'Invalid day').max(100, 'Invalid day'),
+  ...peerMatchOptionsSchema,
+});
+
+export type PeerReviewAssignInput = z.infer<typeof peerReviewAssignSchema>;
+export type PeerReviewAssignDayInput = z.infer<typeof peerReviewAssignDaySchema>;
+
+// ============================================================================
+// Peer Review Response Schemas
+// ============================================================================
+
+export const peerReviewHelpfulnessSchema = z.object({
+  peer_review_id: uuidSchema,
+  helpfulness: z.number().int().min(1, 'Rating must be 1-5').max(5, 'Rating must be 1-5'),
+});
+
+export const peerReviewReplySchema = z.object({
+  peer_review_id: uuidSchema,
+  reply: z
+    .string()
+    .trim()
+    .min(1, 'Reply cannot be empty')
+    .max(1000, 'Reply too long')
+    .transform(sanitizeString),
+});
+
+export const peerReviewFlagSchema = z.object({
+  peer_review_id: uuidSchema,
+  reason: z.enum(['disrespectful', 'off_topic', 'spam', 'other']),
+  details: z.string().max(500, 'Details too long').transform(sanitizeString).optional(),
+});
+
+export const peerReviewModerationSchema = z.object({
+  peer_review_id: uuidSchema,
+  decision: z.enum(['dismiss', 'remove']),
+});
+
+export type PeerReviewHelpfulnessInput = z.infer<typeof peerReviewHelpfulnessSchema>;
+export type PeerReviewReplyInput = z.infer<typeof peerReviewReplySchema>;
+export type PeerReviewFlagInput = z.infer<typeof peerReviewFlagSchema>;
+export type PeerReviewModerationInput = z.infer<typeof peerReviewModerationSchema>;
+
+// ============================================================================
+// Prerequisites Schema
+// ============================================================================
+
+export const prerequisiteUpdateSchema = z
+  .object({
+    prerequisite_id: z.number().int().positive('Invalid prerequisite'),
+    is_completed: z.boolean().optional(),
+    notes: z.string().max(1000, 'Notes too long').transform(sanitizeString).nullable().optional(),
+  })
+  .refine((data) => data.is_completed !== undefined || data.notes !== undefined, {
+    message: 'Nothing to update',
+  });
+
+export type PrerequisiteUpdateInput = z.infer<typeof prerequisiteUpdateSchema>;
+
+// ============================================================================
+// Scoring Policy Schema
+// ============================================================================
+
+const percentSchema = z.number().min(0, 'Percent must be at least 0').max(100, 'Percent must be at most 100');
+
+export const scoringPolicySchema = z.object({
+  grace_period_hours: z.number().min(0).max(24 * 14),
+  late_penalty: z.object({
+    unit: z.enum(['hour', 'day']),
+    percent_per_unit: percentSchema,
+    max_percent: percentSchema,
+  }),
+  zero_after_days: z.number().int().min(1).max(60).nullable(),
+  early_bonus: z
+    .object({
+      hours_before_due: z.number().min(1).max(24 * 14),
+      percent: percentSchema,
+    })
+    .nullable(),
+  mentor_rating_multipliers: z
+    .partialRecord(z.enum(['1', '2', '3', '4', '5']), z.number().min(0).max(3))
+    .nullable(),
+});
+
+export type ScoringPolicyInput = z.infer<typeof scoringPolicySchema>;
+
+// ============================================================================
+// Program Calendar Schemas
+// ============================================================================
+
+const isoDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD');
+
+export const programCalendarSchema = z.object({
+  start_date: isoDateSchema,
+  total_days: z.number().int().min(1).max(100),
+  break_weeks: z.array(isoDateSchema).max(20),
+  holidays: z.array(isoDateSchema).max(50),
+  // Per-day unlock date overrides (mission_days.unlock_date); null = scheduled date
+  unlock_overrides: z.record(z.string().regex(/^\d+$/), isoDateSchema.nullable()).optional(),
+});
+
+export type ProgramCalendarInput = z.infer<typeof programCalendarSchema>;
+
 // ============================================================================
 // Live Session Schemas
 // ============================================================================
@@ -184,6 +384,31 @@ export const liveSessionSchema = z.object({
 
 export type LiveSessionInput = z.infer<typeof liveSessionSchema>;
 
+export const scheduledLiveSessionSchema = z.object({
+  mission_day_id: z.number().int().positive('mission_day_id must be a positive integer'),
+  title: z
+    .string()
+    .min(3, 'Title must be at least 3 characters')
+    .max(200, 'Title too long')
+    .transform(sanitizeString),
+  description: z
+    .string()
+    .max(1000, 'Description too long')
+    .transform(sanitizeString)
+    .optional()
+    .nullable(),
+  starts_at: z.string().datetime({ offset: true, message: 'starts_at must be an ISO date-time' }),
+  duration_minutes: z.number().int().min(15, 'At least 15 minutes').max(480, 'At most 8 hours').optional(),
+  // Defaults to whoever schedules the session
+  instructor_id: uuidSchema.optional().nullable(),
+});
+
+export type ScheduledLiveSessionInput = z.infer<typeof scheduledLiveSessionSchema>;
+
+export const scheduledLiveSessionUpdateSchema = scheduledLiveSessionSchema
+  .omit({ mission_day_id: true, instructor_id: true })
+  .partial();
+
 export const joinSessionSchema = z.object({
   code: z
     .string()
@@ -193,6 +418,96 @@ export const joinSessionSchema = z.object({
 
 export type JoinSessionInput = z.infer<typeof joinSessionSchema>;
 
+export const liveSessionStateSchema = z.object({
+  step: z.number().int().min(1).optional(),
+  section: z.enum(['briefing', 'resources', 'lab', 'debrief'], { message: 'Invalid section' }).optional(),
+  action: z.enum(['next_step', 'prev_step']).optional(),
+  // Version the client last saw; a mismatch returns 409 with the current state
+  expected_version: z.number().int().min(0).optional(),
+});
+
+export type LiveSessionStateInput = z.infer<typeof liveSessionStateSchema>;
+
+// The lead is set by starting (or taking over) the session, not by invitation
+export const liveSessionStaffSchema = z.object({
+  participant_id: uuidSchema,
+  role: z.enum(['co_instructor', 'ta'], { message: 'Invalid session role' }),
+});
+
+export type LiveSessionStaffInput = z.infer<typeof liveSessionStaffSchema>;
+
+export const livePollSchema = z
+  .object({
+    kind: z.enum(['poll', 'multiple_choice', 'confidence']),
+    question: z
+      .string()
+      .min(3, 'Question must be at least 3 characters')
+      .max(500, 'Question too long')
+      .transform(sanitizeString),
+    // Ignored for confidence checks, which use a fixed scale
+    options: z
+      .array(z.string().min(1, 'Options cannot be empty').max(200, 'Option too long').transform(sanitizeString))
+      .max(6, 'At most 6 options')
+      .optional(),
+    correct_option: z.number().int().min(0).optional().nullable(),
+  })
+  .refine((data) => data.kind === 'confidence' || (data.options?.length ?? 0) >= 2, {
+    message: 'At least 2 options are required',
+    path: ['options'],
+  })
+  .refine(
+    (data) =>
+      data.kind !== 'multiple_choice' ||
+      (data.correct_option != null && data.correct_option < (data.options?.length ?? 0)),
+    {
+      message: 'Quick checks need a correct option',
+      path: ['correct_option'],
+    }
+  );
+
+export type LivePollInput = z.infer<typeof livePollSchema>;
+
+export const livePollResponseSchema = z.object({
+  option_index: z.number().int().min(0),
+});
+
+export const liveQuestionSchema = z
+  .object({
+    kind: z.enum(['hand', 'question']),
+    body: z
+      .string()
+      .max(1000, 'Question too long')
+      .transform(sanitizeString)
+      .optional()
+      .nullable(),
+  })
+  .refine((data) => data.kind === 'hand' || (data.body?.trim().length ?? 0) >= 3, {
+    message: 'Question must be at least 3 characters',
+    path: ['body'],
+  });
+
+export type LiveQuestionInput = z.infer<typeof liveQuestionSchema>;
+
+export const liveQuestionStatusSchema = z.object({
+  status: z.enum(['open', 'answered', 'dismissed']),
+});
+
+export const liveBreakoutSchema = z
+  .object({
+    strategy: z.enum(['task_force', 'role', 'random']),
+    room_count: z.number().int().min(2, 'At least 2 rooms').max(20, 'At most 20 rooms').optional(),
+  })
+  .refine((data) => data.strategy !== 'random' || data.room_count !== undefined, {
+    message: 'Random breakouts need a room count',
+    path: ['room_count'],
+  });
+
+export type LiveBreakoutInput = z.infer<typeof liveBreakoutSchema>;
+
+export const liveBreakoutNotesSchema = z.object({
+  notes: z.string().max(10000, 'Notes too long').transform(sanitizeString),
+});
+
 // ============================================================================
 // Intel Drop Notification Schema
 // ============================================================================
@@ -204,6 +204,7 @@ const isPublicRoute = createRouteMatcher([
   '/api/webhook(.*)',  // GitHub webhooks - no Clerk session
   '/api/participant',  // Participant lookup (checks Clerk auth internally)
   '/api/content(.*)',  // Mission content for offline caching
+  '/api/calendar/feed(.*)',  // iCal subscriptions - the URL token is the credential
 ]);
 
 // ============================================================================
@@ -0,0 +1,22 @@
+-- Migration: Assignment folder patterns for the GitHub webhook
+-- Date: 2026-02-05
+-- Description: assignments.folder_name is now the single source for mapping pushed
+-- files to assignments. It accepts a plain folder (matched at any depth, so
+-- week-01-foundations/day-01-ceo-briefing/ matches 'day-01-ceo-briefing') or a glob
+-- pattern ('*' within a segment, '**' across segments, leading '/' anchors at repo root).
+
+COMMENT ON COLUMN assignments.folder_name IS
+  'Submission folder or glob pattern matched against pushed file paths (see src/lib/submissionFolders.ts)';
+
+-- Role-specific days share one folder in the student template (e.g. day-04-role-intro,
+-- day-06). The webhook only matches role-specific assignments for participants in
+-- that role, so a day-wide pattern resolves to the right assignment.
+UPDATE assignments
+SET folder_name = 'day-' || lpad(day::text, 2, '0') || '*'
+WHERE target_roles IS NOT NULL;
+
+-- Align folder names with the student template
+UPDATE assignments SET folder_name = 'day-12-problem*' WHERE folder_name = 'day-12-problem';
+UPDATE assignments SET folder_name = 'day-13-*design' WHERE folder_name = 'day-13-design';
+
+CREATE INDEX IF NOT EXISTS idx_assignments_folder_name ON assignments(folder_name);
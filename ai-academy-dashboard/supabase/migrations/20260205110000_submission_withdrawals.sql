@@ -0,0 +1,31 @@
+-- Migration: Track withdrawn submissions
+-- Date: 2026-02-05
+-- Description: The GitHub webhook now walks every commit in a push. When the last
+-- commit touching an assignment folder only removes files, the submission is
+-- flagged as withdrawn instead of being deleted. A later push clears the flag.
+
+ALTER TABLE submissions
+  ADD COLUMN IF NOT EXISTS withdrawn_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_submissions_withdrawn ON submissions(withdrawn_at) WHERE withdrawn_at IS NOT NULL;
+
+-- Withdrawn submissions no longer count towards the leaderboard
+CREATE OR REPLACE FUNCTION update_leaderboard()
+RETURNS TRIGGER AS $$
+BEGIN
+    INSERT INTO leaderboard (participant_id, total_points, total_submissions, updated_at)
+    SELECT NEW.participant_id, COALESCE(SUM(points_earned + bonus_points), 0), COUNT(*), NOW()
+    FROM submissions WHERE participant_id = NEW.participant_id AND withdrawn_at IS NULL
+    ON CONFLICT (participant_id) DO UPDATE SET
+        total_points = EXCLUDED.total_points,
+        total_submissions = EXCLUDED.total_submissions,
+        updated_at = NOW();
+    WITH ranked AS (
+        SELECT participant_id, ROW_NUMBER() OVER (ORDER BY total_points DESC) as new_rank
+        FROM leaderboard
+    )
+    UPDATE leaderboard SET rank = ranked.new_rank
+    FROM ranked WHERE leaderboard.participant_id = ranked.participant_id;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,73 @@
+-- Migration: Submission revision history
+-- Date: 2026-02-05
+-- Description: Every push that changes a submission is stored as a new revision
+-- instead of overwriting the previous commit/README. Mentor reviews are recorded
+-- against the revision they reviewed, so a resubmission after needs_revision is a
+-- new revision linked to the review that requested it.
+
+-- ============================================
+-- SUBMISSION REVISIONS TABLE
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS submission_revisions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  submission_id UUID NOT NULL REFERENCES submissions(id) ON DELETE CASCADE,
+  revision_number INTEGER NOT NULL,
+  commit_sha TEXT NOT NULL,
+  commit_message TEXT,
+  commit_url TEXT,
+  readme_content TEXT,
+  self_rating INTEGER CHECK (self_rating BETWEEN 1 AND 5),
+  submitted_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  -- Review of this revision (filled in by /api/review and /api/bulk-review)
+  review_status submission_status,
+  mentor_rating INTEGER CHECK (mentor_rating BETWEEN 1 AND 5),
+  mentor_notes TEXT,
+  reviewed_by TEXT,
+  reviewed_at TIMESTAMPTZ,
+
+  -- Revision whose needs_revision review this resubmission answers
+  in_response_to UUID REFERENCES submission_revisions(id) ON DELETE SET NULL,
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+
+  UNIQUE(submission_id, revision_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_submission_revisions_submission_id ON submission_revisions(submission_id);
+
+ALTER TABLE submission_revisions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "submission_revisions_select_policy" ON submission_revisions
+  FOR SELECT USING (true);
+
+CREATE POLICY "submission_revisions_service_policy" ON submission_revisions
+  FOR ALL USING (true);
+
+GRANT SELECT ON submission_revisions TO authenticated;
+GRANT ALL ON submission_revisions TO service_role;
+
+-- ============================================
+-- SUBMISSIONS: revision pointers
+-- ============================================
+
+ALTER TABLE submissions
+  ADD COLUMN IF NOT EXISTS current_revision INTEGER NOT NULL DEFAULT 1,
+  ADD COLUMN IF NOT EXISTS reviewed_revision INTEGER;
+
+-- Backfill revision 1 for existing submissions
+INSERT INTO submission_revisions (
+  submission_id, revision_number, commit_sha, commit_message, commit_url,
+  readme_content, self_rating, submitted_at,
+  review_status, mentor_rating, mentor_notes, reviewed_at
+)
+SELECT
+  s.id, 1, s.commit_sha, s.commit_message, s.commit_url,
+  s.readme_content, s.self_rating, COALESCE(s.submitted_at, NOW()),
+  CASE WHEN s.reviewed_at IS NOT NULL THEN s.status END,
+  s.mentor_rating, s.mentor_notes, s.reviewed_at
+FROM submissions s
+ON CONFLICT (submission_id, revision_number) DO NOTHING;
+
+UPDATE submissions SET reviewed_revision = 1 WHERE reviewed_at IS NOT NULL AND reviewed_revision IS NULL;
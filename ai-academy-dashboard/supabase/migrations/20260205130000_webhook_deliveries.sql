@@ -0,0 +1,36 @@
+-- Migration: GitHub webhook delivery log
+-- Date: 2026-02-05
+-- Description: Store every /api/webhook/github delivery with its x-github-delivery id,
+-- outcome and reason. Admins can inspect ignored pushes ("Unknown participant",
+-- "No submission folder detected", README fetch failures) and replay the stored
+-- payload once the participant's GitHub username or assignment mapping is fixed.
+
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  delivery_id TEXT NOT NULL UNIQUE,
+  event TEXT NOT NULL,
+  github_username TEXT,
+  participant_id UUID REFERENCES participants(id) ON DELETE SET NULL,
+  payload JSONB NOT NULL,
+  outcome TEXT NOT NULL DEFAULT 'pending' CHECK (outcome IN ('pending', 'processed', 'ignored', 'failed')),
+  reason TEXT,
+  result JSONB,
+  received_at TIMESTAMPTZ DEFAULT NOW(),
+  processed_at TIMESTAMPTZ,
+  replay_count INTEGER NOT NULL DEFAULT 0,
+  last_replayed_at TIMESTAMPTZ,
+  last_replayed_by TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_received_at ON webhook_deliveries(received_at DESC);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_participant_id ON webhook_deliveries(participant_id);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_github_username ON webhook_deliveries(github_username);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_outcome ON webhook_deliveries(outcome);
+
+-- Payloads are only read through admin API routes (service role)
+ALTER TABLE webhook_deliveries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "webhook_deliveries_service_policy" ON webhook_deliveries
+  FOR ALL USING (auth.role() = 'service_role');
+
+GRANT ALL ON webhook_deliveries TO service_role;
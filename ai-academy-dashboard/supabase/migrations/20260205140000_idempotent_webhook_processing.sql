@@ -0,0 +1,29 @@
+-- Migration: Idempotent GitHub webhook processing
+-- Date: 2026-02-05
+-- Description: GitHub retries deliveries with the same x-github-delivery id.
+-- webhook_deliveries.delivery_id is already UNIQUE; these constraints make the
+-- remaining steps of the pipeline safe to run again.
+
+-- A commit is recorded at most once per submission
+CREATE UNIQUE INDEX IF NOT EXISTS idx_submission_revisions_commit
+  ON submission_revisions(submission_id, commit_sha);
+
+-- participant_achievements is keyed on (participant_id, achievement_id) since the
+-- initial schema; make sure environments created without it get the constraint,
+-- so awarding an achievement twice is a no-op (ON CONFLICT DO NOTHING).
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint
+    WHERE conrelid = 'participant_achievements'::regclass AND contype IN ('p', 'u')
+  ) THEN
+    DELETE FROM participant_achievements a
+    USING participant_achievements b
+    WHERE a.ctid < b.ctid
+      AND a.participant_id = b.participant_id
+      AND a.achievement_id = b.achievement_id;
+
+    ALTER TABLE participant_achievements
+      ADD CONSTRAINT participant_achievements_pkey PRIMARY KEY (participant_id, achievement_id);
+  END IF;
+END $$;
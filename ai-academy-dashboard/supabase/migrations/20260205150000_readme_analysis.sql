@@ -0,0 +1,13 @@
+-- Migration: Structured README analysis
+-- Date: 2026-02-05
+-- Description: Store the parsed README (submission tag, self-assessment,
+-- required sections, links, completeness) alongside each submission and revision
+
+ALTER TABLE submissions ADD COLUMN IF NOT EXISTS readme_analysis JSONB;
+ALTER TABLE submission_revisions ADD COLUMN IF NOT EXISTS readme_analysis JSONB;
+
+COMMENT ON COLUMN submissions.readme_analysis IS 'Parsed README structure (lib/readmeParser): sections, links, completeness score and warnings';
+
+-- Let mentors sort the review queue by completeness
+CREATE INDEX IF NOT EXISTS idx_submissions_readme_completeness
+  ON submissions (((readme_analysis->>'completeness')::INT));
@@ -0,0 +1,42 @@
+-- Migration: Scoring policy
+-- Date: 2026-02-05
+-- Description: Move late penalties and bonuses out of the webhook into a
+-- configurable policy (lib/scoring). The program-wide policy lives in
+-- scoring_policies; assignments.scoring_policy can override parts of it
+-- (e.g. a longer grace period for one homework). The seeded default keeps the
+-- original flat 50% late penalty.
+
+CREATE TABLE IF NOT EXISTS scoring_policies (
+  id TEXT PRIMARY KEY DEFAULT 'default',
+  policy JSONB NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_by TEXT
+);
+
+INSERT INTO scoring_policies (id, policy) VALUES (
+  'default',
+  '{
+    "grace_period_hours": 0,
+    "late_penalty": { "unit": "day", "percent_per_unit": 50, "max_percent": 50 },
+    "zero_after_days": null,
+    "early_bonus": null,
+    "mentor_rating_multipliers": null
+  }'::jsonb
+) ON CONFLICT (id) DO NOTHING;
+
+ALTER TABLE assignments ADD COLUMN IF NOT EXISTS scoring_policy JSONB;
+ALTER TABLE submissions ADD COLUMN IF NOT EXISTS score_breakdown JSONB;
+
+COMMENT ON COLUMN assignments.scoring_policy IS 'Partial override of scoring_policies.policy for this assignment';
+COMMENT ON COLUMN submissions.score_breakdown IS 'Base points, late penalty, bonuses and total as computed by the scoring policy';
+
+ALTER TABLE scoring_policies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "scoring_policies_select_policy" ON scoring_policies
+  FOR SELECT USING (true);
+
+CREATE POLICY "scoring_policies_service_policy" ON scoring_policies
+  FOR ALL USING (auth.role() = 'service_role');
+
+GRANT SELECT ON scoring_policies TO authenticated;
+GRANT ALL ON scoring_policies TO service_role;
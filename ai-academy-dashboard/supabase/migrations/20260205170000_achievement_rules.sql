@@ -0,0 +1,18 @@
+-- Migration: Achievement rule engine
+-- Date: 2026-02-05
+-- Description: Achievements are now evaluated by declarative rules
+-- (lib/achievementEngine) on submission, review, peer review, comment and
+-- tutor session triggers. Streaks are consecutive local days with a push,
+-- measured from submission_revisions.
+--   - peer_reviewer replaces the team_player award previously given for 5
+--     completed peer reviews; team_player now means "first of the team to submit"
+--   - discussion_starter rewards commenting on submissions
+
+INSERT INTO achievements (code, name, description, icon, points_bonus) VALUES
+('peer_reviewer', 'Peer Reviewer', 'Completed 5 peer reviews', '🔍', 10),
+('discussion_starter', 'Discussion Starter', 'Left 5 comments on submissions', '💬', 5)
+ON CONFLICT (code) DO NOTHING;
+
+-- Lookups used by the streak and team_player rules
+CREATE INDEX IF NOT EXISTS idx_submission_revisions_submitted_at ON submission_revisions(submitted_at);
+CREATE INDEX IF NOT EXISTS idx_participants_team ON participants(team);
@@ -0,0 +1,17 @@
+-- Migration: Participant and task force timezones
+-- Date: 2026-02-05
+-- Description: Early bird / night owl achievements, day streaks and the
+-- early_riser / night_scholar recognitions are evaluated in local time.
+-- Each task force (cohort) has a timezone; a participant can override it
+-- from their profile. NULL participant timezone = use the task force's.
+
+ALTER TABLE task_forces ADD COLUMN IF NOT EXISTS timezone TEXT NOT NULL DEFAULT 'Europe/Bratislava';
+ALTER TABLE participants ADD COLUMN IF NOT EXISTS timezone TEXT;
+
+COMMENT ON COLUMN task_forces.timezone IS 'IANA timezone of the cohort, e.g. Europe/Paris';
+COMMENT ON COLUMN participants.timezone IS 'IANA timezone override; NULL = task force timezone';
+
+UPDATE task_forces SET timezone = 'Europe/Berlin' WHERE name = 'RHEIN';
+UPDATE task_forces SET timezone = 'Europe/Paris' WHERE name = 'LYON';
+UPDATE task_forces SET timezone = 'Europe/Rome' WHERE name = 'MILAN';
+UPDATE task_forces SET timezone = 'Europe/Amsterdam' WHERE name = 'AMSTERDAM';
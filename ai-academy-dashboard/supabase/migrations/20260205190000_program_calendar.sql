@@ -0,0 +1,36 @@
+-- Migration: Program calendar
+-- Date: 2026-02-05
+-- Description: Single source for mapping calendar dates to program days
+-- (lib/programCalendar). Program days fall on weekdays from start_date,
+-- skipping break weeks and holidays; mission_days.unlock_date still overrides
+-- the scheduled date of an individual day. Replaces the PROGRAM_START
+-- constants that were duplicated across pages and crons.
+
+CREATE TABLE IF NOT EXISTS program_calendar (
+  id TEXT PRIMARY KEY DEFAULT 'default',
+  start_date DATE NOT NULL,
+  total_days INTEGER NOT NULL DEFAULT 25 CHECK (total_days BETWEEN 1 AND 100),
+  break_weeks DATE[] NOT NULL DEFAULT '{}',
+  holidays DATE[] NOT NULL DEFAULT '{}',
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_by TEXT
+);
+
+-- Week 3 (Feb 16-22) is spring break
+INSERT INTO program_calendar (id, start_date, total_days, break_weeks, holidays) VALUES
+  ('default', '2026-02-02', 25, ARRAY['2026-02-16']::DATE[], '{}')
+ON CONFLICT (id) DO NOTHING;
+
+COMMENT ON COLUMN program_calendar.break_weeks IS 'Monday of each week without program days';
+COMMENT ON COLUMN mission_days.unlock_date IS 'Overrides the program_calendar schedule for this day; NULL = scheduled date';
+
+ALTER TABLE program_calendar ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "program_calendar_select_policy" ON program_calendar
+  FOR SELECT USING (true);
+
+CREATE POLICY "program_calendar_service_policy" ON program_calendar
+  FOR ALL USING (auth.role() = 'service_role');
+
+GRANT SELECT ON program_calendar TO anon, authenticated;
+GRANT ALL ON program_calendar TO service_role;
@@ -0,0 +1,52 @@
+-- Migration: Live session polls
+-- Date: 2026-02-05
+-- Description: Polls, multiple-choice questions and confidence checks pushed
+-- by the instructor during a live session. Responses are stored per
+-- participant; closing a poll saves an aggregated results snapshot for the
+-- debrief and analytics.
+
+CREATE TABLE IF NOT EXISTS live_session_polls (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id UUID NOT NULL REFERENCES live_sessions(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('poll', 'multiple_choice', 'confidence')),
+  question TEXT NOT NULL,
+  options TEXT[] NOT NULL,
+  correct_option INTEGER,
+  section TEXT,
+  step INTEGER,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'closed')),
+  results JSONB,
+  created_by UUID REFERENCES participants(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  closed_at TIMESTAMPTZ
+);
+
+CREATE TABLE IF NOT EXISTS live_session_poll_responses (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  poll_id UUID NOT NULL REFERENCES live_session_polls(id) ON DELETE CASCADE,
+  participant_id UUID NOT NULL REFERENCES participants(id) ON DELETE CASCADE,
+  option_index INTEGER NOT NULL CHECK (option_index >= 0),
+  responded_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (poll_id, participant_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_live_session_polls_session ON live_session_polls(session_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_live_session_poll_responses_poll ON live_session_poll_responses(poll_id);
+
+-- At most one open poll per session
+CREATE UNIQUE INDEX IF NOT EXISTS idx_live_session_polls_one_open
+  ON live_session_polls(session_id) WHERE status = 'open';
+
+ALTER TABLE live_session_polls ENABLE ROW LEVEL SECURITY;
+ALTER TABLE live_session_poll_responses ENABLE ROW LEVEL SECURITY;
+
+-- Only read through the API, which hides correct_option until the poll closes
+CREATE POLICY "live_session_polls_service_policy" ON live_session_polls
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- Individual answers are only read through the API
+CREATE POLICY "live_session_poll_responses_service_policy" ON live_session_poll_responses
+  FOR ALL USING (auth.role() = 'service_role');
+
+GRANT ALL ON live_session_polls TO service_role;
+GRANT ALL ON live_session_poll_responses TO service_role;
@@ -0,0 +1,48 @@
+-- Migration: Live session question queue
+-- Date: 2026-02-05
+-- Description: Raised hands and questions from students during a live
+-- session. Other students upvote questions; the instructor marks them
+-- answered or dismisses them. Unanswered questions stay on the session for
+-- follow-up after class.
+
+CREATE TABLE IF NOT EXISTS live_session_questions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id UUID NOT NULL REFERENCES live_sessions(id) ON DELETE CASCADE,
+  participant_id UUID NOT NULL REFERENCES participants(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL DEFAULT 'question' CHECK (kind IN ('hand', 'question')),
+  body TEXT,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'answered', 'dismissed')),
+  section TEXT,
+  step INTEGER,
+  answered_at TIMESTAMPTZ,
+  answered_by UUID REFERENCES participants(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  CHECK (kind = 'hand' OR body IS NOT NULL)
+);
+
+CREATE TABLE IF NOT EXISTS live_session_question_votes (
+  question_id UUID NOT NULL REFERENCES live_session_questions(id) ON DELETE CASCADE,
+  participant_id UUID NOT NULL REFERENCES participants(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (question_id, participant_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_live_session_questions_session ON live_session_questions(session_id, status);
+CREATE INDEX IF NOT EXISTS idx_live_session_questions_participant ON live_session_questions(participant_id);
+
+-- One raised hand per participant at a time
+CREATE UNIQUE INDEX IF NOT EXISTS idx_live_session_questions_one_hand
+  ON live_session_questions(session_id, participant_id) WHERE kind = 'hand' AND status = 'open';
+
+ALTER TABLE live_session_questions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE live_session_question_votes ENABLE ROW LEVEL SECURITY;
+
+-- Read and written through the API only (author names are hidden from other students)
+CREATE POLICY "live_session_questions_service_policy" ON live_session_questions
+  FOR ALL USING (auth.role() = 'service_role');
+
+CREATE POLICY "live_session_question_votes_service_policy" ON live_session_question_votes
+  FOR ALL USING (auth.role() = 'service_role');
+
+GRANT ALL ON live_session_questions TO service_role;
+GRANT ALL ON live_session_question_votes TO service_role;
@@ -0,0 +1,50 @@
+-- Migration: Live session attendance and step timeline
+-- Date: 2026-02-05
+-- Description: Attendance accounting for live_session_participants (time
+-- present across drop-offs and re-joins), a timeline of the instructor's
+-- step/section changes, and live lab attendance counters on
+-- participant_mastery for the progress views.
+
+-- The join/leave routes already write these columns
+ALTER TABLE live_session_participants
+  ADD COLUMN IF NOT EXISTS is_active BOOLEAN DEFAULT true,
+  ADD COLUMN IF NOT EXISTS left_at TIMESTAMPTZ,
+  -- Start of the current stretch of presence (NULL = joined_at)
+  ADD COLUMN IF NOT EXISTS rejoined_at TIMESTAMPTZ,
+  -- Seconds present in completed stretches
+  ADD COLUMN IF NOT EXISTS attended_seconds INTEGER NOT NULL DEFAULT 0,
+  -- Times the participant left before the session ended
+  ADD COLUMN IF NOT EXISTS leave_count INTEGER NOT NULL DEFAULT 0;
+
+CREATE TABLE IF NOT EXISTS live_session_timeline (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id UUID NOT NULL REFERENCES live_sessions(id) ON DELETE CASCADE,
+  step INTEGER NOT NULL,
+  section TEXT NOT NULL,
+  started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  ended_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_live_session_timeline_session ON live_session_timeline(session_id, started_at);
+
+-- Backfill a single entry for sessions created before the timeline existed
+INSERT INTO live_session_timeline (session_id, step, section, started_at, ended_at)
+SELECT ls.id, COALESCE(ls.current_step, 1), COALESCE(ls.current_section, 'briefing'), ls.started_at, ls.ended_at
+FROM live_sessions ls
+WHERE NOT EXISTS (SELECT 1 FROM live_session_timeline t WHERE t.session_id = ls.id);
+
+ALTER TABLE participant_mastery
+  ADD COLUMN IF NOT EXISTS live_sessions_attended INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS live_sessions_missed INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS live_minutes_attended INTEGER NOT NULL DEFAULT 0;
+
+ALTER TABLE live_session_timeline ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "live_session_timeline_select_policy" ON live_session_timeline
+  FOR SELECT USING (true);
+
+CREATE POLICY "live_session_timeline_service_policy" ON live_session_timeline
+  FOR ALL USING (auth.role() = 'service_role');
+
+GRANT SELECT ON live_session_timeline TO authenticated;
+GRANT ALL ON live_session_timeline TO service_role;
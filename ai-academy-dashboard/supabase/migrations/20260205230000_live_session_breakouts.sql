@@ -0,0 +1,45 @@
+-- Migration: Live session breakout rooms
+-- Date: 2026-02-05
+-- Description: Breakout rooms for the lab section of a live session. The
+-- instructor splits the session by task force, role or at random; each room
+-- has its own members and shared notes. Rooms are closed when the instructor
+-- calls everyone back or leaves the lab section, and kept for the record.
+
+CREATE TABLE IF NOT EXISTS live_session_breakout_rooms (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id UUID NOT NULL REFERENCES live_sessions(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  strategy TEXT NOT NULL CHECK (strategy IN ('task_force', 'role', 'random')),
+  -- Task force id or role the room was created for (NULL for random rooms)
+  group_key TEXT,
+  notes TEXT NOT NULL DEFAULT '',
+  notes_updated_at TIMESTAMPTZ,
+  notes_updated_by UUID REFERENCES participants(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  closed_at TIMESTAMPTZ
+);
+
+CREATE TABLE IF NOT EXISTS live_session_breakout_members (
+  room_id UUID NOT NULL REFERENCES live_session_breakout_rooms(id) ON DELETE CASCADE,
+  participant_id UUID NOT NULL REFERENCES participants(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (room_id, participant_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_live_session_breakout_rooms_open
+  ON live_session_breakout_rooms(session_id) WHERE closed_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_live_session_breakout_members_participant
+  ON live_session_breakout_members(participant_id);
+
+ALTER TABLE live_session_breakout_rooms ENABLE ROW LEVEL SECURITY;
+ALTER TABLE live_session_breakout_members ENABLE ROW LEVEL SECURITY;
+
+-- Notes and membership are only read through the API
+CREATE POLICY "live_session_breakout_rooms_service_policy" ON live_session_breakout_rooms
+  FOR ALL USING (auth.role() = 'service_role');
+
+CREATE POLICY "live_session_breakout_members_service_policy" ON live_session_breakout_members
+  FOR ALL USING (auth.role() = 'service_role');
+
+GRANT ALL ON live_session_breakout_rooms TO service_role;
+GRANT ALL ON live_session_breakout_members TO service_role;
@@ -0,0 +1,18 @@
+-- Migration: Live session state sync
+-- Date: 2026-02-06
+-- Description: Server-authoritative live session state. Every step/section
+-- change bumps state_version so clients can spot missed broadcasts and
+-- refetch. The instructor's client reports a heartbeat; when it goes stale the
+-- session is handed off to the co-instructor, if one is online.
+
+ALTER TABLE live_sessions
+  ADD COLUMN IF NOT EXISTS state_version INT NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS state_updated_at TIMESTAMPTZ DEFAULT NOW(),
+  ADD COLUMN IF NOT EXISTS instructor_heartbeat_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS co_instructor_id UUID REFERENCES participants(id) ON DELETE SET NULL;
+
+-- Active sessions start out with a fresh heartbeat so they are not handed off
+-- before the instructor's client reports in
+UPDATE live_sessions
+SET instructor_heartbeat_at = NOW()
+WHERE is_active = true AND instructor_heartbeat_at IS NULL;
@@ -0,0 +1,49 @@
+-- Migration: Live session staff roles
+-- Date: 2026-02-06
+-- Description: Sessions are run by a team instead of a single instructor.
+-- Every session has one lead (live_sessions.instructor_id) and any number of
+-- co-instructors and TAs, invited by the lead from admins and mentors. What
+-- each role may do is defined in src/lib/liveSessionRoles.ts. The hand-off on
+-- a missed instructor heartbeat now picks an online co-instructor, which
+-- replaces live_sessions.co_instructor_id.
+
+CREATE TABLE IF NOT EXISTS live_session_staff (
+  session_id UUID NOT NULL REFERENCES live_sessions(id) ON DELETE CASCADE,
+  participant_id UUID NOT NULL REFERENCES participants(id) ON DELETE CASCADE,
+  role TEXT NOT NULL CHECK (role IN ('lead', 'co_instructor', 'ta')),
+  invited_by UUID REFERENCES participants(id) ON DELETE SET NULL,
+  -- Last heartbeat from this staff member's client
+  last_seen_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (session_id, participant_id)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_live_session_staff_lead
+  ON live_session_staff(session_id) WHERE role = 'lead';
+CREATE INDEX IF NOT EXISTS idx_live_session_staff_participant ON live_session_staff(participant_id);
+
+-- Backfill: instructors lead their sessions, designated co-instructors keep their role
+INSERT INTO live_session_staff (session_id, participant_id, role, last_seen_at)
+SELECT id, instructor_id, 'lead', instructor_heartbeat_at
+FROM live_sessions
+WHERE instructor_id IS NOT NULL
+ON CONFLICT (session_id, participant_id) DO NOTHING;
+
+INSERT INTO live_session_staff (session_id, participant_id, role)
+SELECT id, co_instructor_id, 'co_instructor'
+FROM live_sessions
+WHERE co_instructor_id IS NOT NULL AND co_instructor_id IS DISTINCT FROM instructor_id
+ON CONFLICT (session_id, participant_id) DO NOTHING;
+
+ALTER TABLE live_sessions DROP COLUMN IF EXISTS co_instructor_id;
+
+ALTER TABLE live_session_staff ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "live_session_staff_select_policy" ON live_session_staff
+  FOR SELECT USING (true);
+
+CREATE POLICY "live_session_staff_service_policy" ON live_session_staff
+  FOR ALL USING (auth.role() = 'service_role');
+
+GRANT SELECT ON live_session_staff TO authenticated;
+GRANT ALL ON live_session_staff TO service_role;
@@ -0,0 +1,51 @@
+-- Migration: Scheduled live sessions and calendar feeds
+-- Date: 2026-02-06
+-- Description: Admins and mentors schedule live sessions ahead of time against
+-- a mission day. Participants get a reminder email before the start
+-- (/api/cron/live-session-reminders) and can subscribe to a personal iCal
+-- feed with sessions, assignment deadlines and intel drop times
+-- (/api/calendar/feed/[token]). Starting a scheduled session links it to the
+-- live_sessions row that runs it.
+
+CREATE TABLE IF NOT EXISTS scheduled_live_sessions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  mission_day_id INT NOT NULL REFERENCES mission_days(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  description TEXT,
+  starts_at TIMESTAMPTZ NOT NULL,
+  duration_minutes INT NOT NULL DEFAULT 90 CHECK (duration_minutes BETWEEN 15 AND 480),
+  instructor_id UUID REFERENCES participants(id) ON DELETE SET NULL,
+  -- Set once the reminder email went out
+  reminder_sent_at TIMESTAMPTZ,
+  -- The live session started from this slot
+  session_id UUID REFERENCES live_sessions(id) ON DELETE SET NULL,
+  cancelled_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_scheduled_live_sessions_starts_at
+  ON scheduled_live_sessions(starts_at) WHERE cancelled_at IS NULL;
+
+-- Secret part of a participant's calendar feed URL; regenerating it revokes
+-- old subscriptions. Kept out of participants, which is readable by everyone.
+CREATE TABLE IF NOT EXISTS calendar_feed_tokens (
+  participant_id UUID PRIMARY KEY REFERENCES participants(id) ON DELETE CASCADE,
+  token TEXT NOT NULL UNIQUE,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE scheduled_live_sessions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE calendar_feed_tokens ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "scheduled_live_sessions_select_policy" ON scheduled_live_sessions
+  FOR SELECT USING (true);
+
+CREATE POLICY "scheduled_live_sessions_service_policy" ON scheduled_live_sessions
+  FOR ALL USING (auth.role() = 'service_role');
+
+CREATE POLICY "calendar_feed_tokens_service_policy" ON calendar_feed_tokens
+  FOR ALL USING (auth.role() = 'service_role');
+
+GRANT SELECT ON scheduled_live_sessions TO authenticated;
+GRANT ALL ON scheduled_live_sessions TO service_role;
+GRANT ALL ON calendar_feed_tokens TO service_role;
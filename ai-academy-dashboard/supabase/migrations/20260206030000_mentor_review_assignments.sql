@@ -0,0 +1,66 @@
+-- Migration: Mentor pool and review assignments
+-- Date: 2026-02-06
+-- Description: Submissions are assigned to a reviewer instead of mentors
+-- picking them by hand. The mentor pool holds each reviewer's capacity (open
+-- reviews at a time) and role expertise; new submissions from the GitHub
+-- webhook go to the best-matching mentor with room (src/lib/mentorAssignment.ts).
+-- Every assignment has an SLA deadline; /api/cron/review-sla hands overdue
+-- ones to another mentor. submissions.mentor_id holds the current assignee.
+
+CREATE TABLE IF NOT EXISTS mentor_pool (
+  participant_id UUID PRIMARY KEY REFERENCES participants(id) ON DELETE CASCADE,
+  -- Open review assignments at a time
+  capacity INT NOT NULL DEFAULT 10 CHECK (capacity BETWEEN 1 AND 100),
+  -- Roles (participants.role) this mentor reviews best; empty = generalist
+  expertise TEXT[] NOT NULL DEFAULT '{}',
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS review_assignments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  submission_id UUID NOT NULL REFERENCES submissions(id) ON DELETE CASCADE,
+  mentor_id UUID NOT NULL REFERENCES participants(id) ON DELETE CASCADE,
+  -- Submission revision that was current when assigned
+  revision INT NOT NULL DEFAULT 1,
+  reason TEXT NOT NULL DEFAULT 'auto' CHECK (reason IN ('auto', 'manual', 'overdue')),
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'completed', 'reassigned', 'released')),
+  assigned_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  due_at TIMESTAMPTZ NOT NULL,
+  closed_at TIMESTAMPTZ,
+  -- Who actually reviewed (any mentor may review an assigned submission)
+  completed_by UUID REFERENCES participants(id) ON DELETE SET NULL,
+  reassigned_from UUID REFERENCES review_assignments(id) ON DELETE SET NULL
+);
+
+-- One open assignment per submission
+CREATE UNIQUE INDEX IF NOT EXISTS idx_review_assignments_open_submission
+  ON review_assignments(submission_id) WHERE status = 'open';
+CREATE INDEX IF NOT EXISTS idx_review_assignments_open_mentor
+  ON review_assignments(mentor_id, due_at) WHERE status = 'open';
+
+-- Existing mentors join the pool with the default capacity
+INSERT INTO mentor_pool (participant_id)
+SELECT id FROM participants WHERE is_mentor = true
+ON CONFLICT (participant_id) DO NOTHING;
+
+ALTER TABLE mentor_pool ENABLE ROW LEVEL SECURITY;
+ALTER TABLE review_assignments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "mentor_pool_select_policy" ON mentor_pool
+  FOR SELECT USING (true);
+
+CREATE POLICY "mentor_pool_service_policy" ON mentor_pool
+  FOR ALL USING (auth.role() = 'service_role');
+
+CREATE POLICY "review_assignments_select_policy" ON review_assignments
+  FOR SELECT USING (true);
+
+CREATE POLICY "review_assignments_service_policy" ON review_assignments
+  FOR ALL USING (auth.role() = 'service_role');
+
+GRANT SELECT ON mentor_pool TO authenticated;
+GRANT ALL ON mentor_pool TO service_role;
+GRANT SELECT ON review_assignments TO authenticated;
+GRANT ALL ON review_assignments TO service_role;
@@ -0,0 +1,16 @@
+-- Migration: Assignment rubrics
+-- Date: 2026-02-06
+-- Description: Mentors can score submissions against a per-assignment rubric
+-- (named criteria with weights and level descriptors) instead of a single
+-- 1-5 rating. The weighted rubric score sets mentor_rating and, through the
+-- scoring policy, points_earned (src/lib/rubric.ts, src/lib/scoring.ts).
+-- Scores keep a copy of each criterion's name, weight and level text so
+-- feedback stays readable after the rubric is edited.
+
+ALTER TABLE assignments ADD COLUMN IF NOT EXISTS rubric JSONB;
+ALTER TABLE submissions ADD COLUMN IF NOT EXISTS rubric_scores JSONB;
+ALTER TABLE submission_revisions ADD COLUMN IF NOT EXISTS rubric_scores JSONB;
+
+COMMENT ON COLUMN assignments.rubric IS 'Review rubric: { criteria: [{ key, name, weight, levels: [{ score, label, description }] }] }, NULL = single 1-5 rating';
+COMMENT ON COLUMN submissions.rubric_scores IS 'Score per rubric criterion from the latest mentor review';
+COMMENT ON COLUMN submission_revisions.rubric_scores IS 'Score per rubric criterion from the review of this revision';
@@ -0,0 +1,33 @@
+-- Migration: Line-anchored README comments
+-- Date: 2026-02-06
+-- Description: A root comment can be anchored to a passage of the submitted
+-- README (character range of readme_content in the revision it was made on),
+-- like a code review thread. Threads resolve and unresolve. When a new
+-- revision is pushed, open anchored threads are re-anchored by their quoted
+-- text and surrounding context, or marked outdated (src/lib/commentAnchors.ts).
+
+ALTER TABLE comments ADD COLUMN IF NOT EXISTS anchor_revision INTEGER;
+ALTER TABLE comments ADD COLUMN IF NOT EXISTS anchor_start INTEGER;
+ALTER TABLE comments ADD COLUMN IF NOT EXISTS anchor_end INTEGER;
+ALTER TABLE comments ADD COLUMN IF NOT EXISTS anchor_text TEXT;
+ALTER TABLE comments ADD COLUMN IF NOT EXISTS anchor_prefix TEXT;
+ALTER TABLE comments ADD COLUMN IF NOT EXISTS anchor_suffix TEXT;
+ALTER TABLE comments ADD COLUMN IF NOT EXISTS is_outdated BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE comments ADD COLUMN IF NOT EXISTS resolved_at TIMESTAMPTZ;
+ALTER TABLE comments ADD COLUMN IF NOT EXISTS resolved_by UUID REFERENCES participants(id) ON DELETE SET NULL;
+
+-- Only thread roots carry an anchor, and a range is never empty
+ALTER TABLE comments ADD CONSTRAINT comments_anchor_check CHECK (
+  anchor_text IS NULL
+  OR (parent_id IS NULL AND anchor_revision IS NOT NULL AND anchor_start >= 0 AND anchor_end > anchor_start)
+);
+
+CREATE INDEX IF NOT EXISTS idx_comments_anchored
+  ON comments(submission_id)
+  WHERE anchor_text IS NOT NULL AND NOT is_outdated;
+
+COMMENT ON COLUMN comments.anchor_revision IS 'Submission revision the anchor range refers to';
+COMMENT ON COLUMN comments.anchor_text IS 'Quoted README passage, kept when the thread goes outdated';
+COMMENT ON COLUMN comments.anchor_prefix IS 'README text just before the passage, used to re-anchor';
+COMMENT ON COLUMN comments.anchor_suffix IS 'README text just after the passage, used to re-anchor';
+COMMENT ON COLUMN comments.is_outdated IS 'The passage no longer exists in the latest revision';
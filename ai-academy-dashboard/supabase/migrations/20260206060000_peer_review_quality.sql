@@ -0,0 +1,9 @@
+-- Migration: Peer review feedback quality
+-- Date: 2026-02-06
+-- Description: Stores the quality score (0-1) a completed peer review got from
+-- its length, specificity and agreement with the mentor / other peers. The
+-- bonus points it earns scale with this score instead of a flat 2
+-- (src/lib/peerCalibration.ts).
+
+ALTER TABLE peer_reviews ADD COLUMN IF NOT EXISTS quality_score NUMERIC(4,3)
+  CHECK (quality_score IS NULL OR (quality_score >= 0 AND quality_score <= 1));
@@ -0,0 +1,26 @@
+-- Migration: Peer review deadlines
+-- Date: 2026-02-06
+-- Description: Every peer review gets a due time. /api/cron/peer-review-deadlines
+-- emails reviewers before it, marks reviews not done in time as 'expired' and
+-- hands expired or skipped reviews to a new reviewer, so each submission keeps
+-- its target number of reviews (src/lib/peerReviewDeadlines.ts).
+-- reassigned_from links a replacement to the review it replaces.
+
+ALTER TABLE peer_reviews ADD COLUMN IF NOT EXISTS due_at TIMESTAMPTZ;
+ALTER TABLE peer_reviews ADD COLUMN IF NOT EXISTS reminder_sent_at TIMESTAMPTZ;
+ALTER TABLE peer_reviews ADD COLUMN IF NOT EXISTS reassigned_from UUID REFERENCES peer_reviews(id) ON DELETE SET NULL;
+
+ALTER TABLE peer_reviews DROP CONSTRAINT IF EXISTS peer_reviews_status_check;
+ALTER TABLE peer_reviews ADD CONSTRAINT peer_reviews_status_check
+  CHECK (status IN ('pending', 'completed', 'skipped', 'expired'));
+
+-- Open reviews get the default 72 hours from now rather than expiring at once
+UPDATE peer_reviews
+SET due_at = GREATEST(assigned_at, NOW()) + INTERVAL '72 hours'
+WHERE due_at IS NULL AND status = 'pending';
+
+-- A review is replaced at most once
+CREATE UNIQUE INDEX IF NOT EXISTS idx_peer_reviews_reassigned_from
+  ON peer_reviews(reassigned_from) WHERE reassigned_from IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_peer_reviews_pending_due
+  ON peer_reviews(due_at) WHERE status = 'pending';
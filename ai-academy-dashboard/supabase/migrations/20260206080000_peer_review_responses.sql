@@ -0,0 +1,28 @@
+-- Migration: Author responses to peer reviews
+-- Date: 2026-02-06
+-- Description: The author of a reviewed submission can rate how helpful each
+-- completed peer review was, reply to it once and flag it for moderation.
+-- Helpful ratings add to the reviewer's bonus and count toward the Helpful
+-- Reviewer recognition (src/lib/peerReviewResponses.ts). Admins dismiss a
+-- flag or remove the feedback, which also takes back its bonus points.
+
+ALTER TABLE peer_reviews ADD COLUMN IF NOT EXISTS helpfulness SMALLINT
+  CHECK (helpfulness IS NULL OR (helpfulness >= 1 AND helpfulness <= 5));
+ALTER TABLE peer_reviews ADD COLUMN IF NOT EXISTS helpfulness_at TIMESTAMPTZ;
+ALTER TABLE peer_reviews ADD COLUMN IF NOT EXISTS author_reply TEXT;
+ALTER TABLE peer_reviews ADD COLUMN IF NOT EXISTS author_replied_at TIMESTAMPTZ;
+ALTER TABLE peer_reviews ADD COLUMN IF NOT EXISTS flag_reason TEXT
+  CHECK (flag_reason IS NULL OR flag_reason IN ('disrespectful', 'off_topic', 'spam', 'other'));
+ALTER TABLE peer_reviews ADD COLUMN IF NOT EXISTS flag_details TEXT;
+ALTER TABLE peer_reviews ADD COLUMN IF NOT EXISTS flagged_at TIMESTAMPTZ;
+ALTER TABLE peer_reviews ADD COLUMN IF NOT EXISTS moderation_status TEXT
+  CHECK (moderation_status IS NULL OR moderation_status IN ('pending', 'dismissed', 'removed'));
+ALTER TABLE peer_reviews ADD COLUMN IF NOT EXISTS moderated_by UUID REFERENCES participants(id) ON DELETE SET NULL;
+ALTER TABLE peer_reviews ADD COLUMN IF NOT EXISTS moderated_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_peer_reviews_moderation_pending
+  ON peer_reviews(flagged_at) WHERE moderation_status = 'pending';
+
+INSERT INTO recognition_types (code, name, icon, description) VALUES
+('helpful_reviewer', 'Helpful Reviewer', '🙌', 'Peer reviews that authors found genuinely helpful')
+ON CONFLICT (code) DO NOTHING;
@@ -0,0 +1,30 @@
+-- Migration: Batch score updates
+-- Date: 2026-02-06
+-- Description: applyScoringPolicy (src/lib/scoring.ts) recalculates points a
+-- page of submissions at a time. This function writes a whole page in one
+-- statement instead of one UPDATE round trip per submission.
+
+CREATE OR REPLACE FUNCTION set_submission_scores(p_scores JSONB)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_updated INTEGER;
+BEGIN
+  UPDATE submissions s
+  SET
+    points_earned = scores.points_earned,
+    score_breakdown = scores.score_breakdown
+  FROM jsonb_to_recordset(p_scores) AS scores(id UUID, points_earned INTEGER, score_breakdown JSONB)
+  WHERE s.id = scores.id;
+
+  GET DIAGNOSTICS v_updated = ROW_COUNT;
+  RETURN v_updated;
+END;
+$$;
+
+-- Only the server may write points
+REVOKE EXECUTE ON FUNCTION set_submission_scores(JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION set_submission_scores(JSONB) TO service_role;
@@ -0,0 +1,48 @@
+-- Migration: Atomic helpfulness bonus
+-- Date: 2026-02-06
+-- Description: Rating a peer review's helpfulness stores the rating and adds
+-- the helpfulness bonus in one statement, so two concurrent ratings cannot
+-- both pay out and a moderator's removal in between is respected. The bonus
+-- follows the rating (helpfulnessBonus in src/lib/peerReviewResponses.ts: 5 = 2,
+-- 4 = 1, otherwise 0). Returns the bonus applied, or NULL when the review was
+-- already rated.
+
+CREATE OR REPLACE FUNCTION rate_peer_review_helpfulness(
+  p_peer_review_id UUID,
+  p_helpfulness SMALLINT
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_reviewer_id UUID;
+  v_bonus INTEGER := CASE WHEN p_helpfulness >= 5 THEN 2 WHEN p_helpfulness >= 4 THEN 1 ELSE 0 END;
+BEGIN
+  UPDATE peer_reviews
+  SET
+    helpfulness = p_helpfulness,
+    helpfulness_at = NOW(),
+    bonus_points_earned = COALESCE(bonus_points_earned, 0)
+      + CASE WHEN moderation_status = 'removed' THEN 0 ELSE v_bonus END
+  WHERE id = p_peer_review_id
+    AND helpfulness IS NULL
+  RETURNING reviewer_id, CASE WHEN moderation_status = 'removed' THEN 0 ELSE v_bonus END
+  INTO v_reviewer_id, v_bonus;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  IF v_bonus > 0 THEN
+    PERFORM increment_bonus_points(v_reviewer_id, v_bonus);
+  END IF;
+
+  RETURN v_bonus;
+END;
+$$;
+
+-- Only the server may rate, after checking the caller wrote the submission
+REVOKE EXECUTE ON FUNCTION rate_peer_review_helpfulness(UUID, SMALLINT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION rate_peer_review_helpfulness(UUID, SMALLINT) TO service_role;